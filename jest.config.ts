@@ -18,6 +18,7 @@ const config: Config = {
   testMatch: ['**/tests/**/*.test.ts'],
   moduleFileExtensions: ["ts", "tsx", "js", "jsx", "json", "node"],
   roots: ["<rootDir>/src"],
+  setupFiles: ["<rootDir>/src/tests/setup.ts"],
   testPathIgnorePatterns: ["/node_modules/", "/dist/"]
 };
 
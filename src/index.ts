@@ -1,6 +1,16 @@
 import { Menu } from "./utils/menu.js";
+import { Cli } from "./utils/cli.js";
 
 async function main() {
+    const args = process.argv.slice(2);
+
+    // Run a single subcommand when arguments are given (scripts, hooks, cron)
+    if (args.length > 0) {
+        const cli = new Cli();
+        process.exitCode = await cli.run(args);
+        return;
+    }
+
     const menu = new Menu();
     await menu.start();
 }
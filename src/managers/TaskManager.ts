@@ -1,18 +1,182 @@
-import { Task } from "../models/Task.js";
+import { Task, PRIORITIES, type Priority } from "../models/Task.js";
+import { TaskChange } from "../models/TaskChange.js";
+import { formatRecurrence, type Recurrence } from "../models/Recurrence.js";
+import { formatDuration, type TimeEntry } from "../models/TimeEntry.js";
+import { addDays, endOfDay, startOfDay } from "../utils/date.js";
+
+/** Optional attributes that can be set when creating a task. */
+export interface TaskOptions {
+    dueAt?: Date;
+    priority?: Priority;
+    tags?: string[];
+    parentId?: number;
+    recurrence?: Recurrence;
+}
+
+/**
+ * Attribute changes accepted by `updateTask`.
+ * `dueAt: null` removes an existing due date, `tags` replaces all tags,
+ * `parentId: null` turns a subtask into a top-level task,
+ * `recurrence: null` stops a task from repeating.
+ */
+export interface TaskUpdates {
+    title?: string;
+    description?: string;
+    dueAt?: Date | null;
+    priority?: Priority;
+    tags?: string[];
+    parentId?: number | null;
+    recurrence?: Recurrence | null;
+}
+
+/**
+ * How to handle open subtasks when their parent is completed or removed:
+ * - `cascade`: complete/remove all subtasks together with the parent
+ * - `block`: refuse the operation while any subtask is still open
+ */
+export type SubtaskPolicy = "cascade" | "block";
+
+/** Completion rollup of a task's subtasks (all descendants). */
+export interface SubtaskProgress {
+    completed: number;
+    total: number;
+}
+
+/** Task counts shown by the statistics screen and reports. */
+export interface TaskStats {
+    total: number;
+    completed: number;
+    pending: number;
+}
+
+/** Status queries a storage backend can answer itself (see `setQueryBackend`). */
+export type TaskQuery =
+    | { kind: "pending" }
+    | { kind: "completed" }
+    | { kind: "overdue"; now: Date };
+
+/**
+ * Storage backend that can run task queries itself (e.g. in SQL),
+ * so large task lists need not be filtered and sorted in memory.
+ */
+export interface TaskQueryBackend {
+    /** IDs of matching tasks, ordered like the corresponding TaskManager query */
+    queryTaskIds(query: TaskQuery): number[];
+}
+
+/** Saved state of the tasks a command changes, used to undo and redo it. */
+interface Snapshot {
+    // Position of each task in the task list at snapshot time (-1 if not in the list)
+    positions: Map<Task, number>;
+    // Field values of each listed task at snapshot time (tags/blockedBy/timeEntries copied)
+    states: Map<Task, Partial<Task>>;
+}
+
+/** Recorded mutation that can be undone and redone. */
+interface HistoryEntry {
+    description: string;
+    revision: number;
+    previousRevision: number;
+    before: Snapshot;
+    after: Snapshot;
+    // Whether the command is logged in task change history
+    trackChanges: boolean;
+}
+
+/**
+ * Task fields left out of change history (bookkeeping covered by other fields,
+ * and tracked time, which is its own log)
+ */
+const UNTRACKED_FIELDS = new Set(["updatedAt", "completedAt", "timeEntries"]);
+
+/**
+ * Convert a task field value to the text stored in change history.
+ * Dates as ISO timestamps, sets as comma lists, unset values as "".
+ */
+function formatFieldValue(value: unknown): string {
+    if (value === undefined) return "";
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Set) return [...value].join(",");
+    if (typeof value === "object" && value !== null && "kind" in value) return formatRecurrence(value as Recurrence);
+
+    return String(value);
+}
+
+/**
+ * Compare tasks so the most important work comes first:
+ * 1. Higher priority first
+ * 2. Earlier due date first (tasks without due date last)
+ * 3. Older tasks first (then lower ID)
+ */
+export function compareTasks(a: Task, b: Task): number {
+    const byPriority = PRIORITIES.indexOf(b.priority) - PRIORITIES.indexOf(a.priority);
+    if (byPriority !== 0) return byPriority;
+
+    const aDue = a.dueAt?.getTime() ?? Infinity;
+    const bDue = b.dueAt?.getTime() ?? Infinity;
+    if (aDue !== bDue) return aDue < bDue ? -1 : 1;
+
+    const byAge = a.createdAt.getTime() - b.createdAt.getTime();
+    return byAge !== 0 ? byAge : a.id - b.id;
+}
 
 /**
  * Task Manager - Manages a collection of tasks.
  * 
  * Responsibilities:
  * - Core CRUD operations
- * - Querying tasks (completed, pending, all)
+ * - Querying tasks (completed, pending, all, due dates, tags)
+ * - Priority-aware ordering of list views
+ * - Subtask hierarchy (parent/child links, rollup, cascade/block policies)
+ * - Task dependencies ("blocked by" links with cycle detection)
+ * - Recurring tasks (next occurrence created on completion)
+ * - Time tracking (one running timer at a time, manual time entries)
  * - Toggle task status
+ * - Undo/redo history of all mutations (bounded)
+ * - Per-task change history (field, old and new value, timestamp)
  * - Utility functions (stats, clearing, setting/loading)
  */
 export class TaskManager {
     /** Internal list of all managed tasks */
     private tasks:Task[] = [];
 
+    /** Commands that can be undone (most recent last) */
+    private undoStack: HistoryEntry[] = [];
+
+    /** Undone commands that can be redone (most recently undone last) */
+    private redoStack: HistoryEntry[] = [];
+
+    /** Identifies the current state, changes with every command, undo and redo */
+    private revision = 0;
+
+    /** Source of unique revision numbers */
+    private nextRevision = 1;
+
+    /** Field-level change history of all tasks (oldest first) */
+    private changes: TaskChange[] = [];
+
+    /** Backend answering status queries, valid while the revision is unchanged */
+    private queryBackend?: { backend: TaskQueryBackend; revision: number };
+
+    /** Next occurrences added by the last completion of recurring tasks */
+    private createdOccurrences: Task[] = [];
+
+    /** Open blockers of the task completed last (reported, not enforced) */
+    private openBlockers: Task[] = [];
+
+    /**
+     * ID for the next new task (above all current IDs and those handed out before).
+     * Kept per list, since loading other lists or backups advances the global `Task` counter.
+     */
+    private nextId = 1;
+
+    /**
+     * Constructor
+     * 
+     * @param historyLimit - Maximum number of commands that can be undone (default 50)
+     */
+    constructor(private historyLimit: number = 50) {}
+
     /**
      * -------------------------------
      * Core CRUD Operations for Tasks
@@ -24,29 +188,116 @@ export class TaskManager {
      * 
      * @param title - Short title of task
      * @param description - Optional detailed explanation
+     * @param options - Optional extra attributes (`dueAt`, `priority`, `tags`, `parentId`, `recurrence`)
      * @returns New created Task instance
+     * @throws Error if `parentId` does not refer to an existing task
      */
-    addTask(title: string, description?: string): Task {
-        const task = new Task(title, description);
+    addTask(title: string, description?: string, options: TaskOptions = {}): Task {
+        if (options.parentId !== undefined) {
+            this.validateParent(undefined, options.parentId);
+        }
+
+        const before = this.snapshot([]);
+        const task = new Task(title, description, this.takeNextId());
+
+        if (options.dueAt) {
+            task.dueAt = options.dueAt;
+        }
+
+        if (options.priority) {
+            task.priority = options.priority;
+        }
+
+        if (options.tags) {
+            task.setTags(options.tags);
+        }
+
+        if (options.parentId !== undefined) {
+            task.parentId = options.parentId;
+        }
+
+        if (options.recurrence) {
+            task.recurrence = options.recurrence;
+        }
+
         this.tasks.push(task);
+        this.record(`Add task #${task.id} "${task.title}"`, before, [task]);
         return task;
     }
 
+    /**
+     * Add tasks created elsewhere (e.g. by an importer) as a single undoable change.
+     *
+     * @param tasks - New tasks with fresh IDs (nothing happens if empty)
+     */
+    importTasks(tasks: Task[]): void {
+        if (tasks.length === 0) return;
+
+        const before = this.snapshot([]);
+        this.tasks.push(...tasks);
+        this.reserveIds(tasks);
+
+        this.record(`Import ${tasks.length} task(s)`, before, tasks);
+    }
+
     /**
      * Remove a task from collection by ID.
      * 
+     * Subtasks are never left orphaned: completed subtasks are always removed
+     * with their parent, open subtasks depend on `policy`.
+     * 
      * @param id - Unique ID of the task
-     * @returns True if task found and removed (false otherwise)
+     * @param policy - `block` (default) refuses if open subtasks exist,
+     *                 `cascade` removes them as well
+     * @returns True if task found and removed (false if not found or blocked)
      */
-    removeTask(id: number): boolean {
-        const index = this.tasks.findIndex(task => task.id === id);
+    removeTask(id: number, policy: SubtaskPolicy = "block"): boolean {
+        const task = this.findTask(id);
 
-        if (index !== -1) {
-            this.tasks.splice(index, 1);
-            return true;
+        if (!task) return false;
+
+        if (policy === "block" && this.getOpenSubtasks(id).length > 0) {
+            return false;
         }
 
-        return false;
+        const removedIds = new Set([id, ...this.getDescendants(id).map(descendant => descendant.id)]);
+        const before = this.snapshotRemoval(removedIds);
+        this.tasks = this.tasks.filter(task => !removedIds.has(task.id));
+
+        // Drop dependency references to removed tasks
+        for (const task of this.tasks) {
+            removedIds.forEach(removedId => task.blockedBy.delete(removedId));
+        }
+
+        this.record(`Remove task #${id} "${task.title}"`, before);
+        return true;
+    }
+
+    /**
+     * Remove several tasks with all their subtasks as a single undoable change
+     * (e.g. after moving them to another list).
+     * 
+     * @param ids - Unique IDs of the tasks (unknown IDs are ignored)
+     * @param description - Description of the change (default `Remove N task(s)`)
+     * @returns Removed tasks, subtasks included (nothing happens if empty)
+     */
+    removeTasks(ids: number[], description?: string): Task[] {
+        const removedIds = new Set(ids.flatMap(id =>
+            this.findTask(id) ? [id, ...this.getDescendants(id).map(descendant => descendant.id)] : []));
+        const removed = this.tasks.filter(task => removedIds.has(task.id));
+
+        if (removed.length === 0) return [];
+
+        const before = this.snapshotRemoval(removedIds);
+        this.tasks = this.tasks.filter(task => !removedIds.has(task.id));
+
+        // Drop dependency references to removed tasks
+        for (const task of this.tasks) {
+            removedIds.forEach(removedId => task.blockedBy.delete(removedId));
+        }
+
+        this.record(description ?? `Remove ${removed.length} task(s)`, before);
+        return removed;
     }
 
     /**
@@ -54,20 +305,23 @@ export class TaskManager {
      * 
      * @param id - Unique Id of the task
      * @param updates - Object containing optional new values:
-     *                  `{ title?: string. description?: string }`
+     *                  `{ title?, description?, dueAt?: Date | null, priority?, tags?,
+     *                     parentId?: number | null, recurrence?: Recurrence | null }`
      * @returns True if updated successfully (false if task not found)
+     * @throws Error if new `parentId` is missing, the task itself or one of its subtasks
      */
-    updateTask(
-        id: number,
-        updates: {
-            title?: string;
-            description?: string;
-        }
-    ): boolean {
+    updateTask(id: number, updates: TaskUpdates): boolean {
         const task =this.findTask(id);
 
         if (!task) return false; // Task not found
 
+        // Validate before applying any change
+        if (updates.parentId !== undefined && updates.parentId !== null) {
+            this.validateParent(id, updates.parentId);
+        }
+
+        const before = this.snapshot([task]);
+
         // Only update if valid non-empty values provided
         if (updates.title !== undefined && updates.title.trim() !== "") {
             task.title = updates.title;
@@ -77,9 +331,39 @@ export class TaskManager {
             task.description = updates.description;
         }
 
+        // null clears the due date
+        if (updates.dueAt === null) {
+            delete task.dueAt;
+        } else if (updates.dueAt !== undefined) {
+            task.dueAt = updates.dueAt;
+        }
+
+        if (updates.priority !== undefined) {
+            task.priority = updates.priority;
+        }
+
+        if (updates.tags !== undefined) {
+            task.setTags(updates.tags);
+        }
+
+        // null detaches subtask from its parent
+        if (updates.parentId === null) {
+            delete task.parentId;
+        } else if (updates.parentId !== undefined) {
+            task.parentId = updates.parentId;
+        }
+
+        // null stops the task from repeating
+        if (updates.recurrence === null) {
+            delete task.recurrence;
+        } else if (updates.recurrence !== undefined) {
+            task.recurrence = updates.recurrence;
+        }
+
         // Refresh modification timestamp
         task.updatedAt = new Date();
 
+        this.record(`Update task #${id} "${task.title}"`, before);
         return true;
     }
 
@@ -109,14 +393,266 @@ export class TaskManager {
         return [...this.tasks];
     }
 
-    /** Retrieve only completed tasks */
+    /**
+     * Retrieve all tasks ordered by priority, due date and age
+     * (`getAllTasks` keeps insertion/storage order).
+     */
+    getSortedTasks(): Task[] {
+        return this.getAllTasks().sort(compareTasks);
+    }
+
+    /** Retrieve only completed tasks (ordered by priority, due date and age) */
     getCompletedTasks(): Task[] {
-        return this.tasks.filter(task => task.completed);
+        return this.pushDown({ kind: "completed" })
+            ?? this.tasks.filter(task => task.completed).sort(compareTasks);
     }
 
-    /** Retrieve only pending (incomplete) tasks */
+    /** Retrieve only pending (incomplete) tasks (ordered by priority, due date and age) */
     getPendingTasks(): Task[] {
-        return this.tasks.filter(task => !task.completed);
+        return this.pushDown({ kind: "pending" })
+            ?? this.tasks.filter(task => !task.completed).sort(compareTasks);
+    }
+
+    /**
+     * Retrieve pending tasks whose due date has passed,
+     * sorted by due date (most overdue first).
+     * 
+     * @param now - Reference time (defaults to current time)
+     */
+    getOverdueTasks(now: Date = new Date()): Task[] {
+        return this.pushDown({ kind: "overdue", now })
+            ?? this.sortByDueDate(this.tasks.filter(task => task.isOverdue(now)));
+    }
+
+    /**
+     * Retrieve pending tasks due later today (not yet overdue).
+     * 
+     * @param now - Reference time (defaults to current time)
+     */
+    getTasksDueToday(now: Date = new Date()): Task[] {
+        return this.getTasksDueBetween(now, endOfDay(now));
+    }
+
+    /**
+     * Retrieve pending tasks due from now until the end of the Nth day ahead.
+     * `days = 0` is equivalent to `getTasksDueToday`.
+     * 
+     * @param days - Number of calendar days to look ahead
+     * @param now - Reference time (defaults to current time)
+     */
+    getTasksDueWithin(days: number, now: Date = new Date()): Task[] {
+        return this.getTasksDueBetween(now, endOfDay(addDays(startOfDay(now), days)));
+    }
+
+    /** Pending tasks with `from <= dueAt <= to`, sorted by due date */
+    private getTasksDueBetween(from: Date, to: Date): Task[] {
+        return this.sortByDueDate(this.tasks.filter(task =>
+            !task.completed && task.dueAt !== undefined && task.dueAt >= from && task.dueAt <= to
+        ));
+    }
+
+    /** Sort tasks by due date ascending (tasks must have `dueAt`) */
+    private sortByDueDate(tasks: Task[]): Task[] {
+        return tasks.sort((a, b) => a.dueAt!.getTime() - b.dueAt!.getTime());
+    }
+
+    /**
+     * Retrieve tasks that have at least one of the given tags
+     * (ordered by priority, due date and age).
+     * 
+     * @param tags - Tag names (leading # optional)
+     */
+    getTasksWithAnyTag(tags: string[]): Task[] {
+        return this.tasks
+            .filter(task => tags.some(tag => task.hasTag(tag)))
+            .sort(compareTasks);
+    }
+
+    /**
+     * Retrieve tasks that have every one of the given tags
+     * (ordered by priority, due date and age).
+     * An empty tag list matches no tasks.
+     * 
+     * @param tags - Tag names (leading # optional)
+     */
+    getTasksWithAllTags(tags: string[]): Task[] {
+        if (tags.length === 0) return [];
+
+        return this.tasks
+            .filter(task => tags.every(tag => task.hasTag(tag)))
+            .sort(compareTasks);
+    }
+
+    /**
+     * Count tasks per tag.
+     * 
+     * @returns Map of tag -> number of tasks, sorted by count (desc) then name
+     */
+    getTagCounts(): Map<string, number> {
+        const counts = new Map<string, number>();
+
+        for (const task of this.tasks) {
+            for (const tag of task.tags) {
+                counts.set(tag, (counts.get(tag) ?? 0) + 1);
+            }
+        }
+
+        return new Map([...counts].sort(([tagA, countA], [tagB, countB]) =>
+            countB - countA || tagA.localeCompare(tagB)
+        ));
+    }
+
+    /**
+     * ------------------
+     * Subtask Hierarchy
+     * ------------------
+     */
+
+    /**
+     * Retrieve direct subtasks of a task (ordered by priority, due date and age).
+     * 
+     * @param id - Unique ID of the parent task
+     */
+    getSubtasks(id: number): Task[] {
+        return this.tasks.filter(task => task.parentId === id).sort(compareTasks);
+    }
+
+    /**
+     * Recursively retrieve all subtasks of a task (children, grandchildren, ...).
+     * 
+     * @param id - Unique ID of the parent task
+     */
+    getDescendants(id: number): Task[] {
+        return this.getSubtasks(id).flatMap(child => [child, ...this.getDescendants(child.id)]);
+    }
+
+    /** Retrieve all pending subtasks (any depth) of a task. */
+    getOpenSubtasks(id: number): Task[] {
+        return this.getDescendants(id).filter(task => !task.completed);
+    }
+
+    /**
+     * Completion rollup across all subtasks of a task.
+     * 
+     * @param id - Unique ID of the parent task
+     * @returns `{ completed, total }` (both 0 if task has no subtasks)
+     */
+    getSubtaskProgress(id: number): SubtaskProgress {
+        const descendants = this.getDescendants(id);
+        const completed = descendants.filter(task => task.completed).length;
+
+        return { completed, total: descendants.length };
+    }
+
+    /**
+     * Ensure `parentId` can be used as parent of task `id`.
+     * 
+     * @param id - Task being linked (undefined for a new task)
+     * @param parentId - Proposed parent task ID
+     * @throws Error if parent does not exist or linking would create a cycle
+     */
+    private validateParent(id: number | undefined, parentId: number): void {
+        if (!this.findTask(parentId)) {
+            throw new Error(`Parent task ${parentId} not found`);
+        }
+
+        if (id !== undefined && (parentId === id || this.getDescendants(id).some(task => task.id === parentId))) {
+            throw new Error(`Task ${id} cannot be a subtask of itself or of its own subtasks`);
+        }
+    }
+
+    /**
+     * ------------------
+     * Task Dependencies
+     * ------------------
+     */
+
+    /**
+     * Mark task `id` as blocked by task `blockerId`.
+     * 
+     * @param id - Unique ID of the blocked task
+     * @param blockerId - Unique ID of the task that must be completed first
+     * @returns True if dependency added (false if either task not found)
+     * @throws Error if task would depend on itself or the dependency creates a cycle
+     */
+    addDependency(id: number, blockerId: number): boolean {
+        const task = this.findTask(id);
+
+        if (!task || !this.findTask(blockerId)) return false;
+
+        if (id === blockerId) {
+            throw new Error(`Task ${id} cannot be blocked by itself`);
+        }
+
+        if (this.dependsOn(blockerId, id)) {
+            throw new Error(`Task ${blockerId} already depends on task ${id} (dependency cycle)`);
+        }
+
+        const before = this.snapshot([task]);
+        task.blockedBy.add(blockerId);
+        task.updatedAt = new Date();
+
+        this.record(`Block task #${id} by #${blockerId}`, before);
+        return true;
+    }
+
+    /**
+     * Remove "blocked by" link between two tasks.
+     * 
+     * @param id - Unique ID of the blocked task
+     * @param blockerId - Unique ID of the blocking task
+     * @returns True if dependency existed and was removed (false otherwise)
+     */
+    removeDependency(id: number, blockerId: number): boolean {
+        const task = this.findTask(id);
+
+        if (!task || !task.blockedBy.has(blockerId)) return false;
+
+        const before = this.snapshot([task]);
+        task.blockedBy.delete(blockerId);
+        task.updatedAt = new Date();
+
+        this.record(`Unblock task #${id} from #${blockerId}`, before);
+        return true;
+    }
+
+    /** Retrieve tasks that block a task (completed or not). */
+    getBlockers(id: number): Task[] {
+        const task = this.findTask(id);
+
+        if (!task) return [];
+
+        return this.tasks.filter(blocker => task.blockedBy.has(blocker.id));
+    }
+
+    /** Retrieve blocking tasks that are still pending. */
+    getOpenBlockers(id: number): Task[] {
+        return this.getBlockers(id).filter(blocker => !blocker.completed);
+    }
+
+    /**
+     * Retrieve pending tasks that are ready to work on: all their blockers
+     * are completed (ordered by priority, due date and age).
+     */
+    getReadyTasks(): Task[] {
+        return this.getPendingTasks().filter(task => this.getOpenBlockers(task.id).length === 0);
+    }
+
+    /**
+     * Check whether task `id` (transitively) depends on task `targetId`.
+     * Uses depth-first search over `blockedBy` links.
+     */
+    private dependsOn(id: number, targetId: number, visited: Set<number> = new Set()): boolean {
+        if (visited.has(id)) return false;
+        visited.add(id);
+
+        const task = this.findTask(id);
+
+        if (!task) return false;
+
+        return [...task.blockedBy].some(blockerId =>
+            blockerId === targetId || this.dependsOn(blockerId, targetId, visited)
+        );
     }
 
     /**
@@ -130,18 +666,43 @@ export class TaskManager {
      * 
      * - If task is complete, mark as incomplete
      * - If task is incomple, mark as completed
+     *   (open subtasks are handled according to `policy`)
+     * - Completing a task whose blockers are still open works, but is reported
+     *   for a warning (see `getLastOpenBlockers`)
+     * - Completing a recurring task (or subtask) adds its next occurrence
+     *   (see `getLastCreatedOccurrences`)
+     *   (next occurrences of subtasks stay under their parent only while it is open,
+     *   so cascading never leaves open subtasks under a completed parent)
      * 
      * @param id - Unique ID of the task
-     * @returns True if task found and toggled (false otherwise)
+     * @param policy - `block` (default) refuses to complete while subtasks are open,
+     *                 `cascade` completes them as well
+     * @returns True if task found and toggled (false if not found or blocked)
      */
-    toggleTaskCompletion(id: number): boolean {
+    toggleTaskCompletion(id: number, policy: SubtaskPolicy = "block"): boolean {
         const task = this.findTask(id);
+
+        this.createdOccurrences = [];
+        this.openBlockers = [];
         
         if (task) {
+            const openSubtasks = task.completed ? [] : this.getOpenSubtasks(id);
+            const before = this.snapshot([task, ...openSubtasks]);
+
             if (task.completed) {
                 task.markAsIncomplete();
+                this.record(`Reopen task #${id} "${task.title}"`, before);
             } else {
-                task.markAsCompleted();
+                if (openSubtasks.length > 0 && policy === "block") {
+                    return false;
+                }
+
+                this.openBlockers = this.getOpenBlockers(id);
+
+                // The parent first, so next occurrences of its subtasks become top-level tasks
+                this.completeTask(task);
+                openSubtasks.forEach(subtask => this.completeTask(subtask));
+                this.record(`Complete task #${id} "${task.title}"`, before, this.createdOccurrences);
             }
 
             return true;
@@ -150,6 +711,167 @@ export class TaskManager {
         return false;
     }
 
+    /**
+     * Mark task as completed (stopping its timer) and, if it repeats, add its next occurrence.
+     * The next occurrence of a subtask whose parent is completed has no parent.
+     * 
+     * @param task - Task to complete
+     */
+    private completeTask(task: Task): void {
+        this.endTimer(task, new Date());
+        task.markAsCompleted();
+
+        const next = task.recurrence ? task.createNextOccurrence(this.takeNextId()) : undefined;
+
+        if (next) {
+            const parent = next.parentId !== undefined ? this.findTask(next.parentId) : undefined;
+
+            if (!parent || parent.completed) {
+                delete next.parentId;
+            }
+
+            this.tasks.push(next);
+            this.createdOccurrences.push(next);
+        }
+    }
+
+    /** ID for a new task: above all current IDs and those handed out before. */
+    private takeNextId(): number {
+        return this.nextId++;
+    }
+
+    /** Keep IDs of new tasks above those of tasks added to the list with their own IDs. */
+    private reserveIds(tasks: Iterable<Task>): void {
+        for (const task of tasks) {
+            this.nextId = Math.max(this.nextId, task.id + 1);
+        }
+    }
+
+    /** Retrieve next occurrences of recurring tasks added by the last `toggleTaskCompletion` call. */
+    getLastCreatedOccurrences(): Task[] {
+        return [...this.createdOccurrences];
+    }
+
+    /**
+     * Retrieve the blockers that were still open when the last `toggleTaskCompletion` call
+     * completed its task (empty if it reopened a task or the task wasn't blocked), for a warning.
+     */
+    getLastOpenBlockers(): Task[] {
+        return [...this.openBlockers];
+    }
+
+    /**
+     * -------------
+     * Time Tracking
+     * -------------
+     */
+
+    /**
+     * Start a timer on a task. Only one timer runs at a time:
+     * a timer running on another task is stopped first (in the same undoable change).
+     * 
+     * @param id - Unique ID of the task
+     * @param now - Start time (defaults to current time)
+     * @returns True if started (false if task not found or its timer is already running)
+     */
+    startTimer(id: number, now: Date = new Date()): boolean {
+        const task = this.findTask(id);
+
+        if (!task || task.isTimerRunning()) return false;
+
+        const running = this.getRunningTimer();
+        const before = this.snapshot(running ? [task, running] : [task]);
+
+        if (running) this.endTimer(running, now);
+
+        task.timeEntries = [...task.timeEntries, { start: now }];
+
+        this.record(`Start timer on task #${id} "${task.title}"`, before);
+        return true;
+    }
+
+    /**
+     * Stop the running timer.
+     * 
+     * @param now - End time (defaults to current time)
+     * @returns Task the timer ran on (undefined if no timer was running)
+     */
+    stopTimer(now: Date = new Date()): Task | undefined {
+        const task = this.getRunningTimer();
+
+        if (!task) return undefined;
+
+        const before = this.snapshot([task]);
+        this.endTimer(task, now);
+
+        this.record(`Stop timer on task #${task.id} "${task.title}"`, before);
+        return task;
+    }
+
+    /** Retrieve the task with a running timer (undefined if none). */
+    getRunningTimer(): Task | undefined {
+        return this.tasks.find(task => task.isTimerRunning());
+    }
+
+    /**
+     * Add time spent on a task without running a timer (e.g. forgotten or offline work).
+     * 
+     * @param id - Unique ID of the task
+     * @param start - When the work started
+     * @param end - When the work ended
+     * @returns True if added (false if task not found)
+     * @throws Error if the entry doesn't end after it starts
+     */
+    addTimeEntry(id: number, start: Date, end: Date): boolean {
+        return this.insertTimeEntry(id, { start, end }, (duration, task) => `Add ${duration} to task #${id} "${task.title}"`);
+    }
+
+    /**
+     * Log a completed Pomodoro focus session on a task (counts as tracked time).
+     * 
+     * @param id - Unique ID of the task
+     * @param start - When the session started
+     * @param end - When the session ended
+     * @returns True if logged (false if task not found)
+     * @throws Error if the session doesn't end after it starts
+     */
+    logFocusSession(id: number, start: Date, end: Date): boolean {
+        return this.insertTimeEntry(id, { start, end, focus: true }, (duration, task) => `Log ${duration} focus session on task #${id} "${task.title}"`);
+    }
+
+    /**
+     * Add a finished time entry to a task, keeping entries ordered by start.
+     * 
+     * @param describe - Undo description from the formatted duration and the task
+     */
+    private insertTimeEntry(id: number, entry: TimeEntry & { end: Date }, describe: (duration: string, task: Task) => string): boolean {
+        const task = this.findTask(id);
+
+        if (!task) return false;
+
+        if (entry.end <= entry.start) {
+            throw new Error("Time entry must end after it starts");
+        }
+
+        const before = this.snapshot([task]);
+
+        task.timeEntries = [...task.timeEntries, entry]
+            .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+        this.record(describe(formatDuration(entry.end.getTime() - entry.start.getTime()), task), before);
+        return true;
+    }
+
+    /**
+     * End the running timer entry of a task (if any).
+     * Running entries are replaced, since time entries are never changed in place.
+     */
+    private endTimer(task: Task, now: Date): void {
+        task.timeEntries = task.timeEntries.map(entry =>
+            entry.end === undefined ? { start: entry.start, end: now < entry.start ? entry.start : now } : entry
+        );
+    }
+
     /**
      * ---------------
      * Utility Methods
@@ -161,11 +883,7 @@ export class TaskManager {
      * 
      * @returns Object with `total`, `completed`, `pending` counts
      */
-    getStats(): {
-        total: number;
-        completed: number;
-        pending: number
-    } {
+    getStats(): TaskStats {
         const total = this.tasks.length;
         const completed = this.getCompletedTasks().length;
         const pending = this.getPendingTasks().length;
@@ -177,16 +895,315 @@ export class TaskManager {
      * Remove all tasks from collection.
      */
     clearAllTasks(): void {
+        const before = this.snapshot(this.tasks);
         this.tasks = [];
+
+        this.record(`Clear all tasks (${before.states.size})`, before);
     }
 
     /**
      * Replace internal tasks collection (load from storage).
+     * Subtasks whose parent is missing, or whose parent chain loops back
+     * to themselves, become top-level tasks. Dependencies on missing tasks are dropped.
+     * New tasks get IDs above the highest loaded ID.
      * 
      * @param tasks - Array of Task objects to set
      */
     setTasks(tasks: Task[]): void {
+        const before = this.snapshot(this.tasks);
         this.tasks = tasks;
+        this.nextId = 1;
+        this.reserveIds(tasks);
+
+        const byId = new Map(tasks.map(task => [task.id, task]));
+
+        for (const task of tasks) {
+            const visited = new Set([task.id]);
+            let parent = task.parentId !== undefined ? byId.get(task.parentId) : undefined;
+
+            // Walk up parent chain to detect missing parents and cycles
+            while (parent && !visited.has(parent.id)) {
+                visited.add(parent.id);
+                parent = parent.parentId !== undefined ? byId.get(parent.parentId) : undefined;
+            }
+
+            if (task.parentId !== undefined && (!byId.has(task.parentId) || parent)) {
+                delete task.parentId;
+            }
+
+            for (const blockerId of task.blockedBy) {
+                if (!byId.has(blockerId)) task.blockedBy.delete(blockerId);
+            }
+        }
+
+        // Loading is not a change to the tasks themselves
+        this.record(`Load ${tasks.length} task(s)`, before, tasks, false);
+    }
+
+    /**
+     * ----------------
+     * Query Pushdown
+     * ----------------
+     */
+
+    /**
+     * Let a storage backend answer pending/completed/overdue queries.
+     * 
+     * The backend must hold exactly the current tasks (e.g. right after load or save);
+     * it is only used until the tasks change (and again after undoing back to this state).
+     * 
+     * @param backend - Query backend (undefined to stop pushing queries down)
+     */
+    setQueryBackend(backend: TaskQueryBackend | undefined): void {
+        if (backend) {
+            this.queryBackend = { backend, revision: this.revision };
+        } else {
+            delete this.queryBackend;
+        }
+    }
+
+    /**
+     * Run a query in the query backend if it is in sync with the current tasks.
+     * 
+     * @returns Matching tasks (undefined if no backend is in sync)
+     */
+    private pushDown(query: TaskQuery): Task[] | undefined {
+        if (!this.queryBackend || this.queryBackend.revision !== this.revision) return undefined;
+
+        const byId = new Map(this.tasks.map(task => [task.id, task]));
+
+        return this.queryBackend.backend.queryTaskIds(query)
+            .map(id => byId.get(id))
+            .filter(task => task !== undefined);
+    }
+
+    /**
+     * --------------
+     * Undo / Redo
+     * --------------
+     */
+
+    /**
+     * Undo the most recent command.
+     * 
+     * @returns Description of the undone command (undefined if nothing to undo)
+     */
+    undo(): string | undefined {
+        const entry = this.undoStack.pop();
+
+        if (!entry) return undefined;
+
+        this.restore(entry.before);
+        this.revision = entry.previousRevision;
+
+        if (entry.trackChanges) this.logChanges(entry.after, entry.before);
+        this.redoStack.push(entry);
+
+        return entry.description;
+    }
+
+    /**
+     * Redo the most recently undone command.
+     * 
+     * @returns Description of the redone command (undefined if nothing to redo)
+     */
+    redo(): string | undefined {
+        const entry = this.redoStack.pop();
+
+        if (!entry) return undefined;
+
+        this.restore(entry.after);
+        this.revision = entry.revision;
+
+        if (entry.trackChanges) this.logChanges(entry.before, entry.after);
+        this.undoStack.push(entry);
+
+        return entry.description;
+    }
+
+    /** Check whether a command can be undone. */
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    /** Check whether an undone command can be redone. */
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Identify the current state of the collection.
+     * Equal revisions mean equal task states, so front ends can compare the
+     * revision at save time with the current one to detect unsaved changes.
+     */
+    getRevision(): number {
+        return this.revision;
+    }
+
+    /** Forget undo/redo history (e.g. after initial load). The current revision is kept. */
+    clearHistory(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    /**
+     * Add a completed command to history.
+     * Clears redo history and drops the oldest entries beyond `historyLimit`.
+     * 
+     * @param description - Human-readable description, e.g. `Remove task #3 "Buy milk"`
+     * @param before - Snapshot of the changed tasks, taken before the command changed anything
+     * @param created - Tasks the command added to the list
+     * @param trackChanges - Log field changes in task change history (default true)
+     */
+    private record(description: string, before: Snapshot, created: Task[] = [], trackChanges: boolean = true): void {
+        const revision = this.nextRevision++;
+
+        for (const task of created) {
+            if (!before.positions.has(task)) before.positions.set(task, -1);
+        }
+
+        const after = this.snapshot(before.positions.keys());
+
+        this.undoStack.push({ description, revision, previousRevision: this.revision, before, after, trackChanges });
+        this.redoStack = [];
+        this.revision = revision;
+
+        if (trackChanges) this.logChanges(before, after);
+
+        if (this.undoStack.length > this.historyLimit) {
+            this.undoStack.shift();
+        }
+    }
+
+    /**
+     * --------------------
+     * Task Change History
+     * --------------------
+     */
+
+    /**
+     * Retrieve change history of a task (oldest first).
+     * Includes changes of removed tasks.
+     * 
+     * @param id - Unique ID of the task
+     */
+    getTaskHistory(id: number): TaskChange[] {
+        return this.changes.filter(change => change.taskId === id);
+    }
+
+    /** Retrieve change history of all tasks (oldest first). */
+    getChanges(): TaskChange[] {
+        return [...this.changes];
+    }
+
+    /**
+     * Replace change history (load from storage).
+     * 
+     * @param changes - Recorded changes, oldest first
+     */
+    setChanges(changes: TaskChange[]): void {
+        this.changes = [...changes];
+    }
+
+    /**
+     * Append differences between two snapshots to change history:
+     * `created`/`deleted` for added/removed tasks, one entry per changed field otherwise.
+     */
+    private logChanges(from: Snapshot, to: Snapshot): void {
+        const timestamp = new Date();
+
+        for (const [task, oldState] of from.states) {
+            if (!to.states.has(task)) {
+                this.changes.push(new TaskChange(task.id, "deleted", oldState.title ?? "", "", timestamp));
+            }
+        }
+
+        for (const [task, newState] of to.states) {
+            const oldState = from.states.get(task);
+
+            if (!oldState) {
+                this.changes.push(new TaskChange(task.id, "created", "", newState.title ?? "", timestamp));
+                continue;
+            }
+
+            const fields = new Set([...Object.keys(oldState), ...Object.keys(newState)]) as Set<keyof Task>;
+
+            for (const field of fields) {
+                if (UNTRACKED_FIELDS.has(field)) continue;
+
+                const oldValue = formatFieldValue(oldState[field]);
+                const newValue = formatFieldValue(newState[field]);
+
+                if (oldValue !== newValue) {
+                    this.changes.push(new TaskChange(task.id, field, oldValue, newValue, timestamp));
+                }
+            }
+        }
+    }
+
+    /**
+     * Capture list positions and field values of the tasks a command changes
+     * (other tasks keep their state and order, so history need not copy them).
+     */
+    private snapshot(tasks: Iterable<Task>): Snapshot {
+        const positions = new Map<Task, number>();
+        const states = new Map<Task, Partial<Task>>();
+
+        for (const task of tasks) {
+            positions.set(task, -1);
+        }
+
+        for (let index = 0, found = 0; index < this.tasks.length && found < positions.size; index++) {
+            const task = this.tasks[index];
+
+            if (task && positions.has(task)) {
+                positions.set(task, index);
+                found++;
+
+                states.set(task, {
+                    ...task,
+                    tags: new Set(task.tags),
+                    blockedBy: new Set(task.blockedBy),
+                    timeEntries: [...task.timeEntries]
+                });
+            }
+        }
+
+        return { positions, states };
+    }
+
+    /** Snapshot of the tasks changed by removing `removedIds`: the removed tasks and tasks blocked by them. */
+    private snapshotRemoval(removedIds: Set<number>): Snapshot {
+        return this.snapshot(this.tasks.filter(task =>
+            removedIds.has(task.id) || [...task.blockedBy].some(blockerId => removedIds.has(blockerId))));
+    }
+
+    /**
+     * Restore list positions and field values of the snapshot tasks.
+     * Task objects keep their identity, only their fields are reset.
+     */
+    private restore(snapshot: Snapshot): void {
+        for (const [task, state] of snapshot.states) {
+            // Remove optional fields that were not set at snapshot time
+            for (const key of Object.keys(task)) {
+                if (!(key in state)) Reflect.deleteProperty(task, key);
+            }
+
+            Object.assign(task, state, {
+                tags: new Set(state.tags),
+                blockedBy: new Set(state.blockedBy),
+                timeEntries: [...(state.timeEntries ?? [])]
+            });
+        }
+
+        // Other tasks kept their relative order, so inserting by ascending position restores the list
+        const restored = [...snapshot.positions]
+            .filter(([, position]) => position >= 0)
+            .sort(([, a], [, b]) => a - b);
+
+        this.tasks = this.tasks.filter(task => !snapshot.positions.has(task));
+        restored.forEach(([task, position]) => this.tasks.splice(position, 0, task));
+        this.reserveIds(restored.map(([task]) => task));
     }
 
 }
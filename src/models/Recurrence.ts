@@ -0,0 +1,167 @@
+import { addDays, endOfDay } from "../utils/date.js";
+
+/** Weekday abbreviations, indexed like `Date.getDay()` (0 = Sunday). */
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+/**
+ * Recurrence rule for repeating tasks.
+ *
+ * - `daily`: every day
+ * - `weekly`: on the given weekdays (0 = Sunday), or every 7 days if none given
+ * - `monthly`: on day N of each month (clamped to shorter months)
+ * - `after`: N days after the previous occurrence was completed
+ */
+export type Recurrence =
+    | { kind: "daily" }
+    | { kind: "weekly"; weekdays: number[] }
+    | { kind: "monthly"; day: number }
+    | { kind: "after"; days: number };
+
+/**
+ * Parse recurrence text (used by user input and CSV storage).
+ *
+ * Accepted formats (case-insensitive):
+ * - `daily`
+ * - `weekly` or `weekly:mon,thu`
+ * - `monthly:15`
+ * - `after:3`
+ *
+ * @param input - Raw recurrence text
+ * @returns Parsed rule (undefined if blank or invalid)
+ */
+export function parseRecurrence(input: string): Recurrence | undefined {
+    const [kind, value = ""] = input.trim().toLowerCase().split(":", 2).map(part => part.trim());
+
+    switch (kind) {
+        case "daily":
+            return value === "" ? { kind: "daily" } : undefined;
+        case "weekly": {
+            if (value === "") return { kind: "weekly", weekdays: [] };
+
+            const weekdays = value.split(",").map(day => WEEKDAYS.indexOf(day.trim() as typeof WEEKDAYS[number]));
+
+            if (weekdays.some(day => day === -1)) return undefined;
+
+            return { kind: "weekly", weekdays: [...new Set(weekdays)].sort((a, b) => a - b) };
+        }
+        case "monthly": {
+            const day = Number(value);
+            return Number.isInteger(day) && day >= 1 && day <= 31 ? { kind: "monthly", day } : undefined;
+        }
+        case "after": {
+            const days = Number(value);
+            return Number.isInteger(days) && days >= 1 ? { kind: "after", days } : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Format recurrence rule as text accepted by `parseRecurrence`.
+ *
+ * Example: `{ kind: "weekly", weekdays: [1, 4] }` -> `"weekly:mon,thu"`
+ */
+export function formatRecurrence(rule: Recurrence): string {
+    switch (rule.kind) {
+        case "daily":
+            return "daily";
+        case "weekly":
+            return rule.weekdays.length > 0
+                ? `weekly:${rule.weekdays.map(day => WEEKDAYS[day]).join(",")}`
+                : "weekly";
+        case "monthly":
+            return `monthly:${rule.day}`;
+        case "after":
+            return `after:${rule.days}`;
+    }
+}
+
+/**
+ * Describe recurrence rule in plain words.
+ *
+ * Example: `{ kind: "monthly", day: 15 }` -> `"every month on day 15"`
+ */
+export function describeRecurrence(rule: Recurrence): string {
+    const capitalize = (day: string) => day.charAt(0).toUpperCase() + day.slice(1);
+
+    switch (rule.kind) {
+        case "daily":
+            return "every day";
+        case "weekly":
+            return rule.weekdays.length > 0
+                ? `every week on ${rule.weekdays.map(day => capitalize(WEEKDAYS[day]!)).join(", ")}`
+                : "every week";
+        case "monthly":
+            return `every month on day ${rule.day}`;
+        case "after":
+            return `${rule.days} day(s) after completion`;
+    }
+}
+
+/**
+ * Calculate due date of the next occurrence.
+ *
+ * - `after` rules count from the completion date (due at end of that day)
+ * - Other rules step forward from the previous due date (or end of the completion
+ *   day if there was none) until the date lies after the completion time,
+ *   so missed occurrences are skipped rather than piling up
+ *
+ * @param rule - Recurrence rule
+ * @param completedAt - When the previous occurrence was completed
+ * @param previousDueAt - Due date of the previous occurrence (if any)
+ * @returns Due date for the next occurrence
+ */
+export function nextOccurrence(rule: Recurrence, completedAt: Date, previousDueAt?: Date): Date {
+    if (rule.kind === "after") {
+        return endOfDay(addDays(completedAt, rule.days));
+    }
+
+    let next = previousDueAt ?? endOfDay(completedAt);
+
+    do {
+        next = step(rule, next);
+    } while (next <= completedAt);
+
+    return next;
+}
+
+/** Advance a date by one period of a (non-`after`) recurrence rule. */
+function step(rule: Exclude<Recurrence, { kind: "after" }>, date: Date): Date {
+    switch (rule.kind) {
+        case "daily":
+            return addDays(date, 1);
+        case "weekly": {
+            if (rule.weekdays.length === 0) return addDays(date, 7);
+
+            // Find next listed weekday strictly after `date`
+            let next = addDays(date, 1);
+
+            while (!rule.weekdays.includes(next.getDay())) {
+                next = addDays(next, 1);
+            }
+
+            return next;
+        }
+        case "monthly": {
+            // Day N of the same month if still ahead, else of the next month
+            const sameMonth = dayOfMonth(date, 0, rule.day);
+            return sameMonth > date ? sameMonth : dayOfMonth(date, 1, rule.day);
+        }
+    }
+}
+
+/**
+ * Return `date` moved to day N of a month offset from its own, keeping time of day.
+ * Day is clamped to the last day of shorter months (e.g. 31 -> 30 in April).
+ */
+function dayOfMonth(date: Date, monthOffset: number, day: number): Date {
+    const result = new Date(date);
+    result.setDate(1);
+    result.setMonth(result.getMonth() + monthOffset);
+
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(day, lastDay));
+
+    return result;
+}
@@ -1,3 +1,77 @@
+import { formatRecurrence, nextOccurrence, parseRecurrence, type Recurrence } from "./Recurrence.js";
+import {
+    entryDuration, formatTimeEntries, parseTimeEntries, timeEntryFromJSON, timeEntryToJSON,
+    type TimeEntry, type TimeEntryData
+} from "./TimeEntry.js";
+
+/** Task priority levels, from least to most important. */
+export const PRIORITIES = ["low", "normal", "high", "urgent"] as const;
+
+export type Priority = typeof PRIORITIES[number];
+
+/**
+ * Check whether a string is a valid priority level.
+ * 
+ * @param value - Raw value (e.g. user input or CSV field)
+ */
+export function isPriority(value: string): value is Priority {
+    return (PRIORITIES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse free-form tag input into normalized tags.
+ * 
+ * - Splits on whitespace, commas and semicolons
+ * - Strips leading `#` and quotation marks, lowercases
+ * - Drops empty entries and duplicates
+ * 
+ * Example: `"#Backend, ops #backend"` -> `["backend", "ops"]`
+ * 
+ * @param input - Raw tag list (user input or CSV field)
+ */
+export function parseTags(input: string): string[] {
+    const tags = input
+        .split(/[\s,;]+/)
+        .map(tag => tag.replace(/"/g, "").replace(/^#+/, "").toLowerCase())
+        .filter(tag => tag !== "");
+
+    return [...new Set(tags)];
+}
+
+/**
+ * CSV column names in positional order (new columns are only ever appended).
+ * Files with a header row are mapped by name, so the order only matters for
+ * `toCsvRow` and headerless files.
+ */
+export const TASK_CSV_COLUMNS = [
+    "id", "title", "description", "completed", "createdAt", "updatedAt", "completedAt",
+    "dueAt", "priority", "tags", "parentId", "blockedBy", "recurrence", "timeEntries"
+] as const;
+
+/** Raw CSV field values of a task by column name (missing columns are undefined). */
+export type TaskCsvRecord = Partial<Record<string, string>>;
+
+/**
+ * Plain JSON representation of a task (used by JSON storage).
+ * Dates are ISO timestamps, optional fields are omitted when unset.
+ */
+export interface TaskData {
+    id: number;
+    title: string;
+    description: string;
+    completed: boolean;
+    createdAt: string;
+    updatedAt: string;
+    completedAt?: string;
+    dueAt?: string;
+    priority: Priority;
+    tags: string[];
+    parentId?: number;
+    blockedBy: number[];
+    recurrence?: Recurrence;
+    timeEntries?: TimeEntryData[];
+}
+
 /**
  * Task Model - Represents a task in the task management system.
  * 
@@ -7,8 +81,15 @@
  * - A `completed` state (true/false)
  * - A `createdAt` and `updatedAt` timestamp
  * - An optional `completedAt` timestamp (only set if marked completed)
+ * - An optional `dueAt` deadline
+ * - A `priority` level (default "normal")
+ * - A set of normalized `tags` (e.g. `backend`, `ops`)
+ * - An optional `parentId` linking a subtask to its parent task
+ * - A set of `blockedBy` task IDs that must be completed first
+ * - An optional `recurrence` rule (regenerates the task when completed)
+ * - A list of tracked `timeEntries` (one may belong to a running timer)
  * 
- * Tasks also support serialization to and from CSV for persistence.
+ * Tasks also support serialization to and from CSV and JSON for persistence.
  */
 export class Task {
     /**
@@ -32,17 +113,36 @@ export class Task {
     public updatedAt: Date;
     // When the task was marked completed (if applicable)
     public completedAt?: Date;
+    // Optional deadline
+    public dueAt?: Date;
+    // Importance level used for sorting
+    public priority: Priority;
+    // Labels used for filtering (normalized, without leading #)
+    public tags: Set<string>;
+    // ID of parent task (only set for subtasks)
+    public parentId?: number;
+    // IDs of tasks that must be completed before this one can start
+    public blockedBy: Set<number>;
+    // Repeat rule (only set on the current, open occurrence)
+    public recurrence?: Recurrence;
+    // Tracked time, ordered by start (an entry without end is a running timer)
+    public timeEntries: TimeEntry[];
 
     /**
      * Constructor for new tasks.
-     * Assigns a unique ID, sets title/description.
+     * Assigns a unique ID (unless given, e.g. by the task list it's added to), sets title/description.
      * Initializes timestamps.
      */
-    constructor(title: string, description: string = "") {
-        this.id = Task.nextId++;        // Assign next avaiable unique ID
+    constructor(title: string, description: string = "", id?: number) {
+        this.id = id ?? Task.nextId;    // Assign next avaiable unique ID
+        Task.nextId = Math.max(Task.nextId, this.id + 1);
         this.title = title;             // Required title
         this.description = description; // Optional description
         this.completed = false;         // Default: incomplete (hence false)
+        this.priority = "normal";       // Default: normal priority
+        this.tags = new Set();          // Default: no tags
+        this.blockedBy = new Set();     // Default: no dependencies
+        this.timeEntries = [];          // Default: no tracked time
         this.createdAt = new Date();    // Creation timestamp
         this.updatedAt = new Date();    // Last modified/updated timestamp
     }
@@ -71,6 +171,81 @@ export class Task {
         this.updatedAt = new Date();
     }
 
+    /**
+     * Check whether task is past its due date and still pending.
+     * 
+     * @param now - Reference time (defaults to current time)
+     * @returns True if overdue (false if completed or no due date)
+     */
+    isOverdue(now: Date = new Date()): boolean {
+        return !this.completed && this.dueAt !== undefined && this.dueAt < now;
+    }
+
+    /**
+     * Check whether a timer is running on the task (a time entry has no end).
+     */
+    isTimerRunning(): boolean {
+        return this.timeEntries.some(entry => entry.end === undefined);
+    }
+
+    /**
+     * Total tracked time in milliseconds.
+     * 
+     * @param now - End of a running timer (defaults to current time)
+     */
+    getTrackedTime(now: Date = new Date()): number {
+        return this.timeEntries.reduce((total, entry) => total + entryDuration(entry, now), 0);
+    }
+
+    /**
+     * Replace task tags with normalized versions of the given tags.
+     * 
+     * @param tags - Raw tag names (leading # optional)
+     */
+    setTags(tags: Iterable<string>): void {
+        this.tags = new Set(parseTags([...tags].join(" ")));
+    }
+
+    /**
+     * Check whether task has a tag (leading # and case ignored).
+     * 
+     * @param tag - Raw tag name
+     */
+    hasTag(tag: string): boolean {
+        const [normalized] = parseTags(tag);
+        return normalized !== undefined && this.tags.has(normalized);
+    }
+
+    /**
+     * Create the next occurrence of a completed recurring task.
+     * 
+     * - Copies title, description, priority, tags and parent link
+     * - Shifts due date according to the recurrence rule
+     * - Moves the recurrence rule to the new task, so completing this
+     *   occurrence again does not regenerate it twice
+     * 
+     * @param id - ID of the new task (default: next unique ID)
+     * @returns New Task with a fresh ID (undefined if not recurring or not completed)
+     */
+    createNextOccurrence(id?: number): Task | undefined {
+        if (!this.recurrence || !this.completed || !this.completedAt) return undefined;
+
+        const next = new Task(this.title, this.description, id);
+        next.priority = this.priority;
+        next.setTags(this.tags);
+        next.recurrence = this.recurrence;
+        next.dueAt = nextOccurrence(this.recurrence, this.completedAt, this.dueAt);
+
+        if (this.parentId !== undefined) {
+            next.parentId = this.parentId;
+        }
+
+        delete this.recurrence;
+        this.updatedAt = new Date();
+
+        return next;
+    }
+
     /**
      * Returns human-readable string representation of the task.
      * Example: "[1] ❌ Task1 - Description"
@@ -83,10 +258,115 @@ export class Task {
         return taskHeader + taskDescription;
     }
 
+    /**
+     * Converts Task into its JSON representation
+     * (also used by `JSON.stringify`).
+     */
+    toJSON(): TaskData {
+        const data: TaskData = {
+            id: this.id,
+            title: this.title,
+            description: this.description,
+            completed: this.completed,
+            createdAt: this.createdAt.toISOString(),
+            updatedAt: this.updatedAt.toISOString(),
+            priority: this.priority,
+            tags: [...this.tags],
+            blockedBy: [...this.blockedBy]
+        };
+
+        if (this.completedAt) data.completedAt = this.completedAt.toISOString();
+        if (this.dueAt) data.dueAt = this.dueAt.toISOString();
+        if (this.parentId !== undefined) data.parentId = this.parentId;
+        if (this.recurrence) data.recurrence = this.recurrence;
+        if (this.timeEntries.length > 0) data.timeEntries = this.timeEntries.map(timeEntryToJSON);
+
+        return data;
+    }
+
+    /**
+     * Recreates Task instance from its JSON representation:
+     * - Validates field types
+     * - Ensures `Task.nextId` stays ahead of restored IDs
+     * 
+     * @param data - Parsed JSON value (e.g. one entry of a JSON save file)
+     * @throws Error if a field is missing or has the wrong type
+     */
+    static fromJSON(data: unknown): Task {
+        if (typeof data !== "object" || data === null) {
+            throw new Error("Invalid task data: expected an object");
+        }
+
+        const value = data as Record<string, unknown>;
+
+        const invalid = (field: string) => new Error(`Invalid task data: ${field} = ${JSON.stringify(value[field])}`);
+
+        const isId = (id: unknown): id is number => Number.isInteger(id);
+
+        const toDate = (field: string): Date => {
+            const date = new Date(value[field] as string);
+
+            if (typeof value[field] !== "string" || isNaN(date.getTime())) throw invalid(field);
+
+            return date;
+        };
+
+        const { id, title, description, completed, priority, tags, parentId, blockedBy, recurrence, timeEntries } = value;
+
+        if (!isId(id)) throw invalid("id");
+        if (typeof title !== "string") throw invalid("title");
+        if (typeof description !== "string") throw invalid("description");
+        if (typeof completed !== "boolean") throw invalid("completed");
+        if (typeof priority !== "string" || !isPriority(priority)) throw invalid("priority");
+        if (!Array.isArray(tags) || tags.some(tag => typeof tag !== "string")) throw invalid("tags");
+        if (parentId !== undefined && !isId(parentId)) throw invalid("parentId");
+        if (!Array.isArray(blockedBy) || !blockedBy.every(isId)) throw invalid("blockedBy");
+
+        // Restored ID (the constructor keeps `Task.nextId` ahead of it)
+        const task = new Task(title, description, id);
+
+        // Overwrite system-assigned fields with stored data
+        task.completed = completed;
+        task.createdAt = toDate("createdAt");
+        task.updatedAt = toDate("updatedAt");
+        task.priority = priority;
+        task.setTags(tags);
+        task.blockedBy = new Set(blockedBy);
+
+        if (value["completedAt"] !== undefined) task.completedAt = toDate("completedAt");
+        if (value["dueAt"] !== undefined) task.dueAt = toDate("dueAt");
+        if (parentId !== undefined) task.parentId = parentId;
+
+        if (recurrence !== undefined) {
+            // Validate by converting to text form and back
+            const rule = typeof recurrence === "object" && recurrence !== null
+                ? parseRecurrence(String(formatRecurrence(recurrence as Recurrence)))
+                : undefined;
+
+            if (!rule) throw invalid("recurrence");
+
+            task.recurrence = rule;
+        }
+
+        if (timeEntries !== undefined) {
+            const entries = Array.isArray(timeEntries) ? timeEntries.map(timeEntryFromJSON) : [undefined];
+
+            if (entries.some(entry => entry === undefined)) throw invalid("timeEntries");
+
+            task.timeEntries = entries as TimeEntry[];
+        }
+
+        return task;
+    }
+
     /**
      * Serializes Task into a CSV row string:
      * - Fields separated by semicolons
      * - Escapes quotation marks inside fields by doubling them (" -> "")
+     * - Tags joined by commas in a single quoted field (tags never contain `;`, `,` or `"`)
+     * - Blocked-by IDs joined by commas in a single quoted field
+     * - Recurrence stored in its text form (e.g. `weekly:mon,thu`)
+     * - Time entries stored in their text form (`start/end` ISO intervals joined by commas)
      */
     toCsvRow(): string {
         const id = this.id.toString();
@@ -96,37 +376,68 @@ export class Task {
         const createdAt = this.createdAt.toISOString();
         const updatedAt = this.updatedAt.toISOString();
         const completedAt = this.completedAt ? this.completedAt.toISOString() : "";
+        const dueAt = this.dueAt ? this.dueAt.toISOString() : "";
+        const priority = this.priority;
+        const tags = `"${[...this.tags].join(",")}"`;
+        const parentId = this.parentId !== undefined ? this.parentId.toString() : "";
+        const blockedBy = `"${[...this.blockedBy].join(",")}"`;
+        const recurrence = this.recurrence ? formatRecurrence(this.recurrence) : "";
+        const timeEntries = formatTimeEntries(this.timeEntries);
 
-        return [id, title, description, completed, createdAt, updatedAt, completedAt].join(";");
+        return [
+            id, title, description, completed, createdAt, updatedAt, completedAt,
+            dueAt, priority, tags, parentId, blockedBy, recurrence, timeEntries
+        ].join(";");
     }
 
     /**
-     * Recreates Task instance from a CSV row string:
-     * - Validates and parses the row
-     * - Restores timestamps
-     * - Ensures `Task.nextId` stays ahead of restored IDs
+     * Recreates Task instance from a positional CSV row string (columns in `TASK_CSV_COLUMNS` order):
+     * - Validates and parses the row (see `fromCsvRecord`)
+     * - Accepts rows written before `dueAt` (7 fields), `priority` (8 fields)
+     *   `tags` (9 fields), `parentId` (10 fields), `blockedBy` (11 fields)
+     *   `recurrence` (12 fields) and `timeEntries` (13 fields) existed
      * 
-     * @throws Error if CSV does not have exactly 7 fields
+     * @throws Error if CSV does not have 7 to 14 fields, or priority/task IDs/recurrence/time entries are invalid
      */
     static fromCsvRow(csvRow: string): Task {
         const parts = Task.parseCsvRow(csvRow);
 
-        if (parts.length !== 7) {
-            throw new Error(`Invalid CSV format: expected 7 fields, got ${parts.length}`);
+        if (parts.length < 7 || parts.length > TASK_CSV_COLUMNS.length) {
+            throw new Error(`Invalid CSV format: expected 7 to ${TASK_CSV_COLUMNS.length} fields, got ${parts.length}`);
         }
 
-        const [id, title, description, completed, createdAt, updatedAt, completedAt] = parts;
+        return Task.fromCsvRecord(Object.fromEntries(parts.map((part, i) => [TASK_CSV_COLUMNS[i], part])));
+    }
+
+    /**
+     * Recreates Task instance from CSV field values mapped by column name
+     * (used for files with a header row; unknown columns are ignored).
+     * 
+     * - Missing optional columns keep their defaults
+     * - Ensures `Task.nextId` stays ahead of restored IDs
+     * 
+     * @throws Error if the ID is missing or priority/task IDs/recurrence/time entries are invalid
+     */
+    static fromCsvRecord(record: TaskCsvRecord): Task {
+        const {
+            id, title, description, completed, createdAt, updatedAt, completedAt,
+            dueAt, priority, tags, parentId, blockedBy, recurrence, timeEntries
+        } = record;
+
+        if (id === undefined || isNaN(parseInt(id))) {
+            throw new Error(`Invalid task ID: ${id}`);
+        }
 
-        // Create new task (initially with a fresh ID to be overwritten)
+        // Create task with its restored ID (the constructor keeps `Task.nextId` ahead of it)
         const task = new Task(
             title || "Untitled",
-            description || ""
+            description || "",
+            parseInt(id)
         );
 
         // Overwite system-assigned fields with CSV data
-        (task as any).id = parseInt(id!);
         task.completed = completed === "true";
-        (task as any).createdAt = new Date(createdAt!);
+        task.createdAt = new Date(createdAt!);
         task.updatedAt = new Date(updatedAt!);
 
         // Restore completedAt (if present)
@@ -134,9 +445,69 @@ export class Task {
             task.completedAt = new Date(completedAt);
         }
 
-        // Ensure future tasks get IDs > max restoresd ID
-        if (task.id >= Task.nextId) {
-            Task.nextId = task.id + 1;
+        // Restore dueAt (if present)
+        if (dueAt && dueAt.trim() !== "") {
+            task.dueAt = new Date(dueAt);
+        }
+
+        // Restore priority (older rows default to "normal")
+        if (priority && priority.trim() !== "") {
+            if (!isPriority(priority)) {
+                throw new Error(`Invalid priority: ${priority}`);
+            }
+
+            task.priority = priority;
+        }
+
+        // Restore tags (if present)
+        if (tags) {
+            task.setTags(tags.split(","));
+        }
+
+        // Restore parent link (if present)
+        if (parentId && parentId.trim() !== "") {
+            const parsedParentId = parseInt(parentId);
+
+            if (isNaN(parsedParentId)) {
+                throw new Error(`Invalid parent ID: ${parentId}`);
+            }
+
+            task.parentId = parsedParentId;
+        }
+
+        // Restore dependencies (if present)
+        if (blockedBy) {
+            for (const blockerId of blockedBy.split(",")) {
+                const parsedBlockerId = parseInt(blockerId);
+
+                if (isNaN(parsedBlockerId)) {
+                    throw new Error(`Invalid blocked-by ID: ${blockerId}`);
+                }
+
+                task.blockedBy.add(parsedBlockerId);
+            }
+        }
+
+        // Restore recurrence rule (if present)
+        if (recurrence && recurrence.trim() !== "") {
+            const rule = parseRecurrence(recurrence);
+
+            if (!rule) {
+                throw new Error(`Invalid recurrence: ${recurrence}`);
+            }
+
+            task.recurrence = rule;
+        }
+
+        // Restore tracked time (if present)
+        if (timeEntries && timeEntries.trim() !== "") {
+            const entries = parseTimeEntries(timeEntries);
+
+            if (!entries) {
+                throw new Error(`Invalid time entries: ${timeEntries}`);
+            }
+
+            task.timeEntries = entries;
         }
 
         return task;
@@ -149,8 +520,10 @@ export class Task {
      * 
      * Example input:
      *  1;"Task Title";"Desc with ; and ""quotes"""
+     * 
+     * Also used for other CSV files of the app (e.g. task change history).
      */
-    private static parseCsvRow(csvRow: string): string[] {
+    static parseCsvRow(csvRow: string): string[] {
         const result: string[] = [];    // Parsed fields
         let current = "";               // Current field being built
         let inQuotes = false;           // Inside quoted field or not (default false)
@@ -193,6 +566,6 @@ export class Task {
      * Returns CSV header row string for task export/import
      */
     static getCsvHeaders(): string {
-        return "id;title;description;completed;createdAt;updatedAt;completedAt";
+        return TASK_CSV_COLUMNS.join(";");
     }
 }
@@ -0,0 +1,118 @@
+import { Task } from "./Task.js";
+
+/** Plain JSON representation of a task change (used by JSON storage). */
+export interface TaskChangeData {
+    timestamp: string;
+    taskId: number;
+    field: string;
+    oldValue: string;
+    newValue: string;
+}
+
+/**
+ * Task Change Model - One recorded change in a task's history.
+ *
+ * Each change has:
+ * - The `taskId` of the changed task
+ * - The changed `field` (a Task field name such as `title` or `completed`,
+ *   or `created`/`deleted` for the whole task)
+ * - `oldValue` and `newValue` in text form (empty if unset)
+ * - The `timestamp` of the change
+ *
+ * Changes are stored in a CSV sidecar file next to the task save file
+ * (or inside the JSON save file when using JSON storage).
+ */
+export class TaskChange {
+    constructor(
+        public readonly taskId: number,
+        public readonly field: string,
+        public readonly oldValue: string,
+        public readonly newValue: string,
+        public readonly timestamp: Date = new Date()
+    ) {}
+
+    /** Converts change into its JSON representation (also used by `JSON.stringify`). */
+    toJSON(): TaskChangeData {
+        return {
+            timestamp: this.timestamp.toISOString(),
+            taskId: this.taskId,
+            field: this.field,
+            oldValue: this.oldValue,
+            newValue: this.newValue
+        };
+    }
+
+    /**
+     * Recreates change from its JSON representation.
+     *
+     * @throws Error if a field is missing or has the wrong type
+     */
+    static fromJSON(data: unknown): TaskChange {
+        const { timestamp, taskId, field, oldValue, newValue } = (data ?? {}) as Partial<Record<keyof TaskChangeData, unknown>>;
+        const parsedTimestamp = new Date(timestamp as string);
+
+        if (typeof timestamp !== "string" || isNaN(parsedTimestamp.getTime())) {
+            throw new Error(`Invalid timestamp: ${timestamp}`);
+        }
+
+        if (!Number.isInteger(taskId)) {
+            throw new Error(`Invalid task ID: ${taskId}`);
+        }
+
+        if (typeof field !== "string" || typeof oldValue !== "string" || typeof newValue !== "string") {
+            throw new Error("Invalid change data: field, oldValue and newValue must be strings");
+        }
+
+        return new TaskChange(taskId as number, field, oldValue, newValue, parsedTimestamp);
+    }
+
+    /**
+     * Serializes change into a CSV row string
+     * (same quoting rules as `Task.toCsvRow`).
+     */
+    toCsvRow(): string {
+        const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+        return [
+            this.timestamp.toISOString(),
+            this.taskId.toString(),
+            this.field,
+            quote(this.oldValue),
+            quote(this.newValue)
+        ].join(";");
+    }
+
+    /**
+     * Recreates change from a CSV row string.
+     *
+     * @throws Error if row does not have 5 fields, or timestamp/task ID are invalid
+     */
+    static fromCsvRow(csvRow: string): TaskChange {
+        const parts = Task.parseCsvRow(csvRow);
+
+        if (parts.length !== 5) {
+            throw new Error(`Invalid CSV format: expected 5 fields, got ${parts.length}`);
+        }
+
+        const [timestamp, taskId, field, oldValue, newValue] = parts;
+        const parsedTimestamp = new Date(timestamp!);
+        const parsedTaskId = parseInt(taskId!);
+
+        if (isNaN(parsedTimestamp.getTime())) {
+            throw new Error(`Invalid timestamp: ${timestamp}`);
+        }
+
+        if (isNaN(parsedTaskId)) {
+            throw new Error(`Invalid task ID: ${taskId}`);
+        }
+
+        return new TaskChange(parsedTaskId, field!, oldValue!, newValue!, parsedTimestamp);
+    }
+
+    /**
+     * Returns CSV header row string for the history file
+     */
+    static getCsvHeaders(): string {
+        return "timestamp;taskId;field;oldValue;newValue";
+    }
+}
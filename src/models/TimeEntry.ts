@@ -0,0 +1,158 @@
+/**
+ * Time spent on a task, from `start` to `end`.
+ * Entries without `end` belong to a running timer, entries with `focus`
+ * are completed Pomodoro focus sessions.
+ * Entries are never changed in place (stopping a timer replaces its entry).
+ */
+export interface TimeEntry {
+    readonly start: Date;
+    readonly end?: Date;
+    readonly focus?: boolean;
+}
+
+/** JSON representation of a time entry (ISO timestamps). */
+export interface TimeEntryData {
+    start: string;
+    end?: string;
+    focus?: boolean;
+}
+
+/** Suffix marking focus sessions in the text form of time entries */
+const FOCUS_MARKER = "focus";
+
+/** Matches durations such as `1h30m`, `1.5h`, `45m` or `2h` */
+const DURATION_PATTERN = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/;
+
+/** Matches durations written as `H:MM`, e.g. `1:30` */
+const CLOCK_DURATION_PATTERN = /^(\d+):([0-5]\d)$/;
+
+/** Milliseconds per minute and hour */
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Duration of a time entry in milliseconds.
+ *
+ * @param entry - Time entry
+ * @param now - End of running entries (defaults to current time)
+ */
+export function entryDuration(entry: TimeEntry, now: Date = new Date()): number {
+    return Math.max(0, (entry.end ?? now).getTime() - entry.start.getTime());
+}
+
+/**
+ * Format a duration as hours and minutes, e.g. `1h 05m` or `45m` (seconds are dropped).
+ *
+ * @param milliseconds - Duration
+ */
+export function formatDuration(milliseconds: number): string {
+    const totalMinutes = Math.floor(milliseconds / MINUTE);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+
+    return hours > 0 ? `${hours}h ${minutes.toString().padStart(2, "0")}m` : `${minutes}m`;
+}
+
+/**
+ * Parse a duration entered by the user.
+ *
+ * Accepted formats: `1h30m`, `1h 30m`, `1.5h`, `2h`, `45m`, `45` (minutes) and `1:30`.
+ *
+ * @param input - Raw duration text
+ * @returns Duration in milliseconds (undefined if blank, invalid or zero)
+ */
+export function parseDuration(input: string): number | undefined {
+    const value = input.trim().toLowerCase();
+    let duration: number | undefined;
+
+    const clock = CLOCK_DURATION_PATTERN.exec(value);
+    const match = DURATION_PATTERN.exec(value);
+
+    if (/^\d+$/.test(value)) {
+        duration = Number(value) * MINUTE;
+    } else if (clock) {
+        duration = Number(clock[1]) * HOUR + Number(clock[2]) * MINUTE;
+    } else if (match && (match[1] !== undefined || match[2] !== undefined)) {
+        duration = Math.round(Number(match[1] ?? 0) * 60) * MINUTE + Number(match[2] ?? 0) * MINUTE;
+    }
+
+    return duration !== undefined && duration > 0 ? duration : undefined;
+}
+
+/**
+ * Text form of time entries (used by CSV storage): comma-separated
+ * `start/end` ISO intervals, `start/` for a running timer and
+ * `start/end/focus` for focus sessions.
+ *
+ * Example: `2026-10-19T08:00:00.000Z/2026-10-19T09:30:00.000Z,2026-10-19T13:00:00.000Z/`
+ */
+export function formatTimeEntries(entries: readonly TimeEntry[]): string {
+    return entries.map(entry => {
+        const interval = `${entry.start.toISOString()}/${entry.end?.toISOString() ?? ""}`;
+        return entry.focus ? `${interval}/${FOCUS_MARKER}` : interval;
+    }).join(",");
+}
+
+/**
+ * Parse the text form of time entries (see `formatTimeEntries`).
+ *
+ * @param input - Raw text (blank for no entries)
+ * @returns Parsed entries (undefined if an entry is invalid or ends before it starts)
+ */
+export function parseTimeEntries(input: string): TimeEntry[] | undefined {
+    if (input.trim() === "") return [];
+
+    const entries: TimeEntry[] = [];
+
+    for (const interval of input.split(",")) {
+        const [start, end = "", marker] = interval.trim().split("/");
+        const entry = timeEntryFromJSON({
+            start,
+            ...(end !== "" ? { end } : {}),
+            ...(marker !== undefined ? { focus: marker === FOCUS_MARKER ? true : marker } : {})
+        });
+
+        if (!entry) return undefined;
+
+        entries.push(entry);
+    }
+
+    return entries;
+}
+
+/** Convert a time entry into its JSON representation. */
+export function timeEntryToJSON(entry: TimeEntry): TimeEntryData {
+    const data: TimeEntryData = { start: entry.start.toISOString() };
+
+    if (entry.end) data.end = entry.end.toISOString();
+    if (entry.focus) data.focus = true;
+
+    return data;
+}
+
+/**
+ * Recreate a time entry from its JSON representation.
+ *
+ * @param data - Parsed JSON value
+ * @returns Time entry (undefined if timestamps are missing or invalid, it ends before it starts,
+ *          or it is a focus session without end)
+ */
+export function timeEntryFromJSON(data: unknown): TimeEntry | undefined {
+    if (typeof data !== "object" || data === null) return undefined;
+
+    const { start, end, focus } = data as Record<string, unknown>;
+
+    if (typeof start !== "string" || (end !== undefined && typeof end !== "string")) return undefined;
+    if (focus !== undefined && (focus !== true || end === undefined)) return undefined;
+
+    const startDate = new Date(start);
+    const endDate = end !== undefined ? new Date(end) : undefined;
+
+    if (isNaN(startDate.getTime()) || (endDate && (isNaN(endDate.getTime()) || endDate < startDate))) {
+        return undefined;
+    }
+
+    if (!endDate) return { start: startDate };
+
+    return focus ? { start: startDate, end: endDate, focus } : { start: startDate, end: endDate };
+}
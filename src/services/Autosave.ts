@@ -0,0 +1,110 @@
+/**
+ * When the menu saves automatically:
+ * - `off`: only on request (default)
+ * - `change`: right after every change
+ * - `debounce`: once no further change happened for `seconds`
+ */
+export type AutosaveMode =
+    | { kind: "off" }
+    | { kind: "change" }
+    | { kind: "debounce"; seconds: number };
+
+/**
+ * Read the autosave mode from `TASKS_AUTOSAVE`:
+ * `off` (default), `change`, or a number of seconds to wait after the last change.
+ *
+ * @throws Error if the value is none of these
+ */
+export function autosaveModeFromEnv(): AutosaveMode {
+    const value = process.env["TASKS_AUTOSAVE"]?.trim().toLowerCase();
+
+    if (value === undefined || value === "" || value === "off") return { kind: "off" };
+    if (value === "change") return { kind: "change" };
+
+    if (/^\d+$/.test(value) && parseInt(value) > 0) {
+        return { kind: "debounce", seconds: parseInt(value) };
+    }
+
+    throw new Error(`Invalid TASKS_AUTOSAVE: ${value} (expected off, change or a number of seconds > 0)`);
+}
+
+/** Short description of a mode, e.g. "after 30s without changes". */
+export function describeAutosaveMode(mode: AutosaveMode): string {
+    switch (mode.kind) {
+        case "off":
+            return "off";
+        case "change":
+            return "after every change";
+        case "debounce":
+            return `after ${mode.seconds}s without changes`;
+    }
+}
+
+/**
+ * Autosave - Decides when unsaved changes are saved.
+ *
+ * The owner reports changes with `changed()`; depending on the mode the
+ * save callback runs immediately or after a quiet period (debounce).
+ * Failed autosaves are reported and retried with the next change.
+ */
+export class Autosave {
+    /** Pending debounced save */
+    private timer?: NodeJS.Timeout;
+
+    /**
+     * Constructor
+     *
+     * @param mode - When to save
+     * @param save - Saves the current tasks
+     */
+    constructor(readonly mode: AutosaveMode, private readonly save: () => Promise<void>) {}
+
+    /** True unless the mode is `off`. */
+    get enabled(): boolean {
+        return this.mode.kind !== "off";
+    }
+
+    /** True while a debounced save is waiting. */
+    get isPending(): boolean {
+        return this.timer !== undefined;
+    }
+
+    /** Report a change: save now (`change`) or (re)start the debounce timer. */
+    async changed(): Promise<void> {
+        if (this.mode.kind === "change") {
+            await this.run();
+        } else if (this.mode.kind === "debounce") {
+            this.cancel();
+            this.timer = setTimeout(() => {
+                delete this.timer;
+                void this.run();
+            }, this.mode.seconds * 1000);
+
+            // A pending autosave alone doesn't keep the process running
+            this.timer.unref();
+        }
+    }
+
+    /** Run a pending debounced save now (e.g. before exit). */
+    async flush(): Promise<void> {
+        if (!this.timer) return;
+
+        this.cancel();
+        await this.run();
+    }
+
+    /** Drop a pending debounced save (e.g. after a manual save). */
+    cancel(): void {
+        clearTimeout(this.timer);
+        delete this.timer;
+    }
+
+    /** Save, reporting instead of throwing errors. */
+    private async run(): Promise<void> {
+        try {
+            await this.save();
+        } catch (e) {
+            console.error(`⚠️ Autosave failed: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+}
@@ -0,0 +1,133 @@
+import { Task } from "../models/Task.js";
+import { addDays, startOfDay } from "../utils/date.js";
+
+/** A backup file next to the save file. */
+export interface BackupInfo {
+    /** File name, e.g. `tasks-backup-2026-10-19T08-00-00-000Z.csv` */
+    name: string;
+    /** Creation time (from the file name) */
+    createdAt: Date;
+    /** Number of tasks in the backup (undefined if it can't be read) */
+    taskCount?: number;
+}
+
+/**
+ * Which backups to keep when pruning.
+ * A backup is kept if it matches any rule.
+ */
+export interface RetentionPolicy {
+    /** Keep this many most recent backups */
+    keepLast: number;
+    /** Keep the newest backup of each day for this many days */
+    keepDailyForDays: number;
+}
+
+/** Default retention: last 10 backups plus one per day for a month. */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = { keepLast: 10, keepDailyForDays: 30 };
+
+/**
+ * Read the retention policy from the environment:
+ * `TASKS_BACKUP_KEEP_LAST` and `TASKS_BACKUP_KEEP_DAYS` (defaults see `DEFAULT_RETENTION_POLICY`).
+ *
+ * @throws Error if a value is not a whole number >= 0
+ */
+export function retentionPolicyFromEnv(): RetentionPolicy {
+    const read = (name: string, fallback: number) => {
+        const value = process.env[name];
+
+        if (value === undefined || value.trim() === "") return fallback;
+
+        if (!/^\d+$/.test(value.trim())) {
+            throw new Error(`Invalid ${name}: ${value} (expected a whole number >= 0)`);
+        }
+
+        return parseInt(value);
+    };
+
+    return {
+        keepLast: read("TASKS_BACKUP_KEEP_LAST", DEFAULT_RETENTION_POLICY.keepLast),
+        keepDailyForDays: read("TASKS_BACKUP_KEEP_DAYS", DEFAULT_RETENTION_POLICY.keepDailyForDays)
+    };
+}
+
+/** Short description of a policy, e.g. "keep last 10 + one per day for 30 days". */
+export function describeRetentionPolicy(policy: RetentionPolicy): string {
+    return `keep last ${policy.keepLast} + one per day for ${policy.keepDailyForDays} days`;
+}
+
+/**
+ * Choose backups to delete under a retention policy.
+ *
+ * @param backups - All backups (any order)
+ * @param policy - Retention policy
+ * @param now - Reference time for daily backups (default: current time)
+ * @returns Backups that no rule keeps, oldest first
+ */
+export function selectBackupsToPrune(backups: BackupInfo[], policy: RetentionPolicy, now: Date = new Date()): BackupInfo[] {
+    const newestFirst = [...backups].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const keep = new Set(newestFirst.slice(0, policy.keepLast));
+
+    // Newest backup of each of the last `keepDailyForDays` days
+    const firstDay = addDays(startOfDay(now), 1 - policy.keepDailyForDays);
+    const keptDays = new Set<number>();
+
+    for (const backup of newestFirst) {
+        const day = startOfDay(backup.createdAt);
+
+        if (policy.keepDailyForDays > 0 && day >= firstDay && !keptDays.has(day.getTime())) {
+            keptDays.add(day.getTime());
+            keep.add(backup);
+        }
+    }
+
+    return newestFirst.filter(backup => !keep.has(backup)).reverse();
+}
+
+/** A task that exists in both lists with different field values. */
+export interface ChangedTask {
+    before: Task;
+    after: Task;
+    /** Names of changed fields, e.g. `["title", "priority"]` */
+    fields: string[];
+}
+
+/** Differences between two task lists, matched by task ID. */
+export interface TaskDiff {
+    added: Task[];
+    removed: Task[];
+    changed: ChangedTask[];
+}
+
+/**
+ * Compare two task lists by ID (e.g. a backup and the current tasks).
+ * Timestamp-only changes (`updatedAt`) are ignored.
+ *
+ * @param before - Older list (e.g. backup)
+ * @param after - Newer list (e.g. current tasks)
+ */
+export function diffTasks(before: Task[], after: Task[]): TaskDiff {
+    const beforeById = new Map(before.map(task => [task.id, task]));
+    const afterIds = new Set(after.map(task => task.id));
+    const diff: TaskDiff = { added: [], removed: before.filter(task => !afterIds.has(task.id)), changed: [] };
+
+    for (const task of after) {
+        const previous = beforeById.get(task.id);
+
+        if (!previous) {
+            diff.added.push(task);
+            continue;
+        }
+
+        const oldData: Record<string, unknown> = { ...previous.toJSON() };
+        const newData: Record<string, unknown> = { ...task.toJSON() };
+        const fields = [...new Set([...Object.keys(oldData), ...Object.keys(newData)])]
+            .filter(field => field !== "updatedAt")
+            .filter(field => JSON.stringify(oldData[field]) !== JSON.stringify(newData[field]));
+
+        if (fields.length > 0) {
+            diff.changed.push({ before: previous, after: task, fields });
+        }
+    }
+
+    return diff;
+}
@@ -0,0 +1,241 @@
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, isAbsolute, join, resolve } from "path";
+import { DATE_FORMATS, type DateFormat } from "../utils/date.js";
+
+/** Folder of this app inside the user's config and data directories */
+const APP_FOLDER = "task-manager";
+
+/** Longest focus session or break that can be configured, in minutes */
+const MAX_MINUTES = 240;
+
+/** Task views the menu can show on startup (`menu`: none) */
+export const DEFAULT_VIEWS = ["menu", "all", "pending", "completed", "ready"] as const;
+
+export type DefaultView = typeof DEFAULT_VIEWS[number];
+
+/** User preferences stored in the config file. */
+export interface Preferences {
+    /** Tasks shown when the menu starts */
+    defaultView: DefaultView;
+    /** How dates of tasks are displayed */
+    dateFormat: DateFormat;
+    /** Ask before removing tasks, clearing all tasks, deleting lists and restoring backups */
+    confirm: boolean;
+    /** Length of Pomodoro focus sessions in minutes */
+    focusMinutes: number;
+    /** Length of breaks after focus sessions in minutes */
+    breakMinutes: number;
+}
+
+/** Preferences used for settings missing from the config file */
+export const DEFAULT_PREFERENCES: Preferences = {
+    defaultView: "menu",
+    dateFormat: "locale",
+    confirm: true,
+    focusMinutes: 25,
+    breakMinutes: 5
+};
+
+/** Contents of the config file (every setting is optional). */
+export interface ConfigFile extends Partial<Preferences> {
+    /** Data directory (`~/` and paths relative to the config file allowed) */
+    dataDir?: string;
+}
+
+/** Configuration as loaded from the config file. */
+export interface Config {
+    /** Path of the config file (which may not exist) */
+    path: string;
+    /** Settings found in the config file (empty without one) */
+    file: ConfigFile;
+    /** Preferences, with defaults for settings missing from the file */
+    preferences: Preferences;
+}
+
+/** Where the data directory setting came from. */
+export type DataDirectorySource = "env" | "config" | "user" | "cwd";
+
+/** Resolved data directory. */
+export interface DataDirectory {
+    /** Absolute path */
+    path: string;
+    source: DataDirectorySource;
+}
+
+/**
+ * Path of the config file:
+ * `TASKS_CONFIG` environment variable, else `$XDG_CONFIG_HOME/task-manager/config.json`,
+ * else `~/.config/task-manager/config.json`.
+ */
+export function configFilePath(): string {
+    const configured = process.env["TASKS_CONFIG"];
+
+    if (configured) return resolve(process.cwd(), configured);
+
+    return join(xdgDirectory("XDG_CONFIG_HOME", ".config"), APP_FOLDER, "config.json");
+}
+
+/**
+ * Default data directory of the user:
+ * `$XDG_DATA_HOME/task-manager`, else `~/.local/share/task-manager`.
+ */
+export function userDataDirectory(): string {
+    return join(xdgDirectory("XDG_DATA_HOME", join(".local", "share")), APP_FOLDER);
+}
+
+/**
+ * Load the config file (JSON), e.g.
+ * `{ "dataDir": "~/Tasks", "defaultView": "pending", "dateFormat": "iso", "confirm": false, "focusMinutes": 50 }`.
+ *
+ * @returns Configuration (all defaults if there is no config file)
+ * @throws Error if the file can't be read or holds unknown or invalid settings
+ */
+export function loadConfig(): Config {
+    const path = configFilePath();
+    let content: string;
+
+    try {
+        content = readFileSync(path, "utf-8");
+    } catch (e) {
+        if ((e as any).code === "ENOENT") return { path, file: {}, preferences: { ...DEFAULT_PREFERENCES } };
+        throw new Error(`Could not read config file ${path}: ${e instanceof Error ? e.message : e}`);
+    }
+
+    let file: ConfigFile;
+
+    try {
+        file = parseConfigFile(content);
+    } catch (e) {
+        throw new Error(`Invalid config file ${path}: ${e instanceof Error ? e.message : e}`);
+    }
+
+    const preferences: Preferences = {
+        defaultView: file.defaultView ?? DEFAULT_PREFERENCES.defaultView,
+        dateFormat: file.dateFormat ?? DEFAULT_PREFERENCES.dateFormat,
+        confirm: file.confirm ?? DEFAULT_PREFERENCES.confirm,
+        focusMinutes: file.focusMinutes ?? DEFAULT_PREFERENCES.focusMinutes,
+        breakMinutes: file.breakMinutes ?? DEFAULT_PREFERENCES.breakMinutes
+    };
+
+    return { path, file, preferences };
+}
+
+/**
+ * Resolve the directory holding save files, backups and task lists.
+ *
+ * 1. `TASKS_DATA_DIR` environment variable (relative to the working directory)
+ * 2. `dataDir` of the config file
+ * 3. The user's data directory (see `userDataDirectory`)
+ *
+ * For backwards compatibility `data/` in the working directory is used
+ * instead of 3. as long as it exists and the user's data directory doesn't.
+ *
+ * @param config - Loaded configuration (default: load the config file)
+ * @throws Error if the config file is invalid
+ */
+export function resolveDataDirectory(config?: Config): DataDirectory {
+    const configured = process.env["TASKS_DATA_DIR"];
+
+    if (configured) return { path: resolve(process.cwd(), configured), source: "env" };
+
+    const { path, file } = config ?? loadConfig();
+
+    if (file.dataDir !== undefined) {
+        return { path: resolve(dirname(path), expandHome(file.dataDir)), source: "config" };
+    }
+
+    const userDirectory = userDataDirectory();
+    const legacyDirectory = join(process.cwd(), "data");
+
+    if (!existsSync(userDirectory) && existsSync(legacyDirectory)) {
+        return { path: legacyDirectory, source: "cwd" };
+    }
+
+    return { path: userDirectory, source: "user" };
+}
+
+/** Describe where the data directory setting came from (for the settings screen). */
+export function describeDataDirectorySource(source: DataDirectorySource): string {
+    switch (source) {
+        case "env":
+            return "TASKS_DATA_DIR";
+        case "config":
+            return "config file";
+        case "user":
+            return "user data directory";
+        case "cwd":
+            return "data/ in the working directory, kept for existing setups";
+    }
+}
+
+/**
+ * Parse and validate the content of a config file.
+ *
+ * @throws Error for invalid JSON, unknown settings or invalid values
+ */
+function parseConfigFile(content: string): ConfigFile {
+    const document: unknown = content.trim() === "" ? {} : JSON.parse(content);
+
+    if (typeof document !== "object" || document === null || Array.isArray(document)) {
+        throw new Error("expected a JSON object");
+    }
+
+    const file: ConfigFile = {};
+
+    for (const [key, value] of Object.entries(document)) {
+        switch (key) {
+            case "dataDir":
+                if (typeof value !== "string" || value.trim() === "") throw new Error("dataDir must be a path");
+                file.dataDir = value;
+                break;
+            case "defaultView":
+                file.defaultView = oneOf(key, value, DEFAULT_VIEWS);
+                break;
+            case "dateFormat":
+                file.dateFormat = oneOf(key, value, DATE_FORMATS);
+                break;
+            case "confirm":
+                if (typeof value !== "boolean") throw new Error("confirm must be true or false");
+                file.confirm = value;
+                break;
+            case "focusMinutes":
+            case "breakMinutes":
+                file[key] = minutes(key, value);
+                break;
+            default:
+                throw new Error(`unknown setting "${key}"`);
+        }
+    }
+
+    return file;
+}
+
+/** Check that a setting has one of the allowed values. */
+function oneOf<T extends string>(key: string, value: unknown, allowed: readonly T[]): T {
+    if (!allowed.includes(value as T)) {
+        throw new Error(`${key} must be one of ${allowed.join(", ")}`);
+    }
+
+    return value as T;
+}
+
+/** Check that a setting is a whole number of minutes (1 to `MAX_MINUTES`). */
+function minutes(key: string, value: unknown): number {
+    if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > MAX_MINUTES) {
+        throw new Error(`${key} must be a whole number of minutes from 1 to ${MAX_MINUTES}`);
+    }
+
+    return value as number;
+}
+
+/** Expand a leading `~/` to the home directory. */
+function expandHome(path: string): string {
+    return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
+
+/** XDG base directory from the environment (absolute paths only), else `~/<fallback>`. */
+function xdgDirectory(variable: string, fallback: string): string {
+    const configured = process.env[variable];
+    return configured && isAbsolute(configured) ? configured : join(homedir(), fallback);
+}
@@ -0,0 +1,136 @@
+import { Task, TASK_CSV_COLUMNS } from "../models/Task.js";
+
+/**
+ * Current version of the task CSV layout.
+ *
+ * - Version 1: no marker line, optional header row (columns by position)
+ * - Version 2: `#schema: 2` marker line followed by a header row (columns by name)
+ */
+export const CSV_SCHEMA_VERSION = 2;
+
+/** Matches the schema version marker, the first line of version 2+ files */
+const SCHEMA_MARKER_PATTERN = /^#\s*schema:\s*(\d+)\s*$/;
+
+/** A CSV row with the line number it was read from (for error messages). */
+export interface CsvRow {
+    line: number;
+    fields: string[];
+}
+
+/** Parsed CSV file: schema version, column names from the header row and data rows. */
+export interface CsvTable {
+    version: number;
+    columns: string[];
+    rows: CsvRow[];
+}
+
+/** Upgrade of a CSV table from one schema version to the next. */
+export interface CsvMigration {
+    /** Schema version the migration upgrades (result has version `from + 1`) */
+    from: number;
+    /** Short description shown when the migration runs */
+    description: string;
+    /** Convert the table (columns and rows) to the next version */
+    migrate(table: CsvTable): CsvTable;
+}
+
+/** Registered migrations by source version */
+const migrations = new Map<number, CsvMigration>();
+
+/**
+ * Register a migration that upgrades files of an older schema version on load.
+ *
+ * @param migration - Migration to register
+ * @throws Error if a migration for the same version is already registered
+ */
+export function registerCsvMigration(migration: CsvMigration): void {
+    if (migrations.has(migration.from)) {
+        throw new Error(`CSV migration from schema version ${migration.from} is already registered`);
+    }
+
+    migrations.set(migration.from, migration);
+}
+
+/** Returns the schema version marker line, e.g. `#schema: 2`. */
+export function formatSchemaMarker(version: number = CSV_SCHEMA_VERSION): string {
+    return `#schema: ${version}`;
+}
+
+/**
+ * Split CSV file content into schema version, header columns and rows.
+ *
+ * - Files without marker are version 1; their header row is detected by its
+ *   leading `id;title;description` columns (headerless files get no columns)
+ * - Blank lines are skipped
+ *
+ * @param content - Raw file content
+ */
+export function parseCsvTable(content: string): CsvTable {
+    const lines = content.split("\n")
+        .map((text, i) => ({ line: i + 1, text: text.trim() }))
+        .filter(({ text }) => text !== "");
+
+    const marker = SCHEMA_MARKER_PATTERN.exec(lines[0]?.text ?? "");
+    const version = marker ? parseInt(marker[1]!) : 1;
+
+    if (marker) lines.shift();
+
+    const hasHeader = marker !== null || lines[0]?.text.includes("id;title;description");
+    const header = hasHeader ? lines.shift() : undefined;
+
+    return {
+        version,
+        columns: header ? Task.parseCsvRow(header.text) : [],
+        rows: lines.map(({ line, text }) => ({ line, fields: Task.parseCsvRow(text) }))
+    };
+}
+
+/**
+ * Upgrade a table to the current schema version by running registered
+ * migrations one version at a time. Tables of newer versions are returned
+ * unchanged (their unknown columns are kept by the caller).
+ *
+ * @param table - Table as read from the file
+ * @returns Upgraded table and the migrations that were applied
+ * @throws Error if no migration is registered for a version on the way
+ */
+export function migrateCsvTable(table: CsvTable): { table: CsvTable; applied: CsvMigration[] } {
+    const applied: CsvMigration[] = [];
+
+    while (table.version < CSV_SCHEMA_VERSION) {
+        const migration = migrations.get(table.version);
+
+        if (!migration) {
+            throw new Error(`No CSV migration from schema version ${table.version}`);
+        }
+
+        table = { ...migration.migrate(table), version: table.version + 1 };
+        applied.push(migration);
+    }
+
+    return { table, applied };
+}
+
+/** Quote a CSV field, doubling quotation marks inside (see `Task.toCsvRow`). */
+export function quoteCsvField(value: string): string {
+    return `"${value.replace(/"/g, '""')}"`;
+}
+
+// Version 1 -> 2: name the columns of headerless files by position and pad
+// rows written before later columns existed (7 to 13 fields)
+registerCsvMigration({
+    from: 1,
+    description: "add schema marker, name columns of headerless files",
+    migrate(table) {
+        if (table.columns.length > 0) return table;
+
+        const width = Math.max(...table.rows.map(row => row.fields.length), 0);
+        const columns = TASK_CSV_COLUMNS.slice(0, Math.min(width, TASK_CSV_COLUMNS.length));
+
+        const rows = table.rows.map(row => row.fields.length >= 7 && row.fields.length < columns.length
+            ? { ...row, fields: [...row.fields, ...Array<string>(columns.length - row.fields.length).fill("")] }
+            : row);
+
+        return { ...table, columns, rows };
+    }
+});
@@ -0,0 +1,227 @@
+import { promises as fileSystem } from "fs";
+import { resolve } from "path";
+
+/** Thrown when the save file is locked by another running session. */
+export class TaskFileLockedError extends Error {
+    /**
+     * Constructor
+     *
+     * @param pid - Process ID of the session holding the lock (undefined while it is creating the lock)
+     */
+    constructor(public readonly pid?: number) {
+        super(`Tasks are open in another session${pid !== undefined ? ` (pid ${pid})` : ""}`);
+        this.name = "TaskFileLockedError";
+    }
+}
+
+/**
+ * Check whether a process is still running.
+ * Signal 0 only checks for existence; EPERM means it runs as another user.
+ */
+function isProcessRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (e) {
+        return (e as any).code === "EPERM";
+    }
+}
+
+/** Lock files held by `FileLock` instances of this process */
+const heldLockPaths = new Set<string>();
+
+/** How long an empty lock file counts as being created by another session (ms) */
+const CREATION_GRACE_PERIOD = 10_000;
+
+/** Delete a file (no error if it is already gone). */
+async function unlinkIfExists(path: string): Promise<void> {
+    try {
+        await fileSystem.unlink(path);
+    } catch (e) {
+        if ((e as any).code !== "ENOENT") throw e;
+    }
+}
+
+/**
+ * Read the process ID stored in a lock file.
+ *
+ * @returns Owner PID (undefined if missing or unreadable)
+ */
+async function readOwner(lockPath: string): Promise<number | undefined> {
+    try {
+        const pid = parseInt(await fileSystem.readFile(lockPath, "utf-8"));
+        return isNaN(pid) ? undefined : pid;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * File lock - Advisory lock file next to a save file (`tasks.csv.lock`),
+ * so only one session at a time writes the tasks.
+ *
+ * - The lock file contains the process ID of its owner
+ * - Creating it is atomic: the PID is written to a temp file that is hard-linked
+ *   into place (fails if the lock exists), so the lock never exists without its owner
+ * - Locks of processes that are no longer running (e.g. after a crash)
+ *   are stale and get taken over: they are renamed aside and only removed if
+ *   they are still the stale lock (another session may have replaced it meanwhile)
+ * - Empty lock files (e.g. of older versions writing their PID) count as held
+ *   for a short grace period
+ * - A lock file of the own process that another instance holds (e.g. the
+ *   store of the running session) is adopted without taking ownership:
+ *   releasing it leaves the file to the instance that holds it
+ * - Lock files of the own process that no instance holds (e.g. moved along
+ *   with their folder) get taken over
+ */
+export class FileLock {
+    /** True while this instance holds the lock (created or adopted) */
+    private held = false;
+
+    /** True if this instance owns the lock file (only then release removes it) */
+    private owned = false;
+
+    /**
+     * Constructor
+     *
+     * @param lockPath - Full path of the lock file
+     */
+    constructor(private readonly lockPath: string) {}
+
+    /** True while this instance holds the lock. */
+    get isHeld(): boolean {
+        return this.held;
+    }
+
+    /**
+     * Acquire the lock (no-op if already held).
+     *
+     * @throws TaskFileLockedError if another running process holds the lock
+     */
+    async acquire(): Promise<void> {
+        if (this.held) return;
+
+        // Second attempt only after moving a stale lock aside
+        for (let attempt = 0; attempt < 2; attempt++) {
+            if (await this.create()) {
+                this.own();
+                return;
+            }
+
+            const owner = await readOwner(this.lockPath);
+
+            if (owner === process.pid) {
+                if (heldLockPaths.has(resolve(this.lockPath))) {
+                    this.held = true;
+                } else {
+                    this.own();
+                }
+                return;
+            }
+
+            if (owner !== undefined && isProcessRunning(owner)) {
+                throw new TaskFileLockedError(owner);
+            }
+
+            if (owner === undefined && await this.isBeingCreated()) {
+                throw new TaskFileLockedError();
+            }
+
+            // Stale lock (owner gone or unreadable): move it out of the way and try again
+            await this.removeStale(owner);
+        }
+
+        throw new Error(`Could not acquire lock file ${this.lockPath}`);
+    }
+
+    /**
+     * Release the lock if held.
+     * Only lock files owned by this instance are removed (adopted ones and
+     * lock files of other processes are left alone).
+     */
+    async release(): Promise<void> {
+        if (!this.held) return;
+
+        const owned = this.owned;
+        this.held = false;
+        this.owned = false;
+
+        if (!owned) return;
+
+        heldLockPaths.delete(resolve(this.lockPath));
+
+        if (await readOwner(this.lockPath) !== process.pid) return;
+
+        await unlinkIfExists(this.lockPath);
+    }
+
+    /**
+     * Create the lock file with the own PID (written to a temp file first,
+     * then hard-linked into place).
+     *
+     * @returns False if the lock file already exists
+     */
+    private async create(): Promise<boolean> {
+        const tempPath = `${this.lockPath}.${process.pid}.tmp`;
+
+        await fileSystem.writeFile(tempPath, `${process.pid}\n`, "utf-8");
+
+        try {
+            await fileSystem.link(tempPath, this.lockPath);
+            return true;
+        } catch (e) {
+            if ((e as any).code !== "EEXIST") throw e;
+            return false;
+        } finally {
+            await unlinkIfExists(tempPath);
+        }
+    }
+
+    /** True if the lock file is empty and recent (its owner may still be writing its PID). */
+    private async isBeingCreated(): Promise<boolean> {
+        try {
+            const { size, mtimeMs } = await fileSystem.stat(this.lockPath);
+            return size === 0 && Date.now() - mtimeMs < CREATION_GRACE_PERIOD;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Remove a stale lock file. It is renamed aside first, so sessions taking over
+     * the same stale lock don't remove each other's new lock: if the renamed file
+     * turns out to be a new lock of another session, it is put back.
+     *
+     * @param owner - PID read from the stale lock (undefined if unreadable)
+     */
+    private async removeStale(owner: number | undefined): Promise<void> {
+        const asidePath = `${this.lockPath}.${process.pid}.stale`;
+
+        try {
+            await fileSystem.rename(this.lockPath, asidePath);
+        } catch (e) {
+            // Already taken away by another session
+            if ((e as any).code === "ENOENT") return;
+            throw e;
+        }
+
+        if (await readOwner(asidePath) === owner) {
+            console.warn(`⚠️ Removing stale lock file${owner !== undefined ? ` (pid ${owner})` : ""}`);
+        } else {
+            try {
+                await fileSystem.link(asidePath, this.lockPath);
+            } catch (e) {
+                if ((e as any).code !== "EEXIST") throw e;
+            }
+        }
+
+        await unlinkIfExists(asidePath);
+    }
+
+    /** Hold the lock as its owner. */
+    private own(): void {
+        this.held = true;
+        this.owned = true;
+        heldLockPaths.add(resolve(this.lockPath));
+    }
+}
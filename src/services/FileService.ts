@@ -1,52 +1,60 @@
 import { promises as fileSystem } from "fs";
-import { join } from "path";
-import { Task } from "../models/Task.js";
+import { Task, TASK_CSV_COLUMNS } from "../models/Task.js";
+import { TaskChange } from "../models/TaskChange.js";
 import { TaskManager } from "../managers/TaskManager.js";
+import { FileStore } from "./FileStore.js";
+import { CSV_SCHEMA_VERSION, formatSchemaMarker, migrateCsvTable, parseCsvTable, quoteCsvField } from "./CsvSchema.js";
+
+/** Known task columns (everything else is kept as an unknown column) */
+const KNOWN_COLUMNS: readonly string[] = TASK_CSV_COLUMNS;
 
 /**
  * File service - Handles persistence of tasks to and from CSV files.
  * 
  * Responsibilities:
- * - Ensure `data/` directory exists
- * - Save tasks to CSV file with headers
- * - Load tasks from CSV file (with validation/recovery from invalid rows)
- * - Provide file utilities (checking existence, deletion, backups)
+ * - Save tasks to CSV file with schema version marker and headers
+ * - Load tasks from CSV file by header column names (with validation/recovery from invalid rows)
+ * - Upgrade files of older schema versions with registered migrations (see `CsvSchema`)
+ * - Keep unknown columns (e.g. written by a newer version) and write them back on save
+ * - Save/load task change history in a sidecar file (`tasks.history.csv`)
+ * - Remember the loaded/saved file to detect external edits (see `FileStore`)
+ * 
+ * File utilities (existence, deletion, backups) are inherited from `FileStore`.
  */
-export class FileService {
-    /** Full absolute path to CSV file being used for storage */
-    private filePath: string;
+export class FileService extends FileStore {
+    /** Full absolute path to change history file next to the CSV file */
+    private historyPath: string;
+
+    /** Schema version to write (stays higher if a newer file was loaded) */
+    private schemaVersion = CSV_SCHEMA_VERSION;
+
+    /** Unknown columns of the loaded file and their values by task ID */
+    private unknownColumns: { columns: string[]; values: Map<number, string[]> } = { columns: [], values: new Map() };
 
     /**
      * Constructor
      * 
      * @param filename - Name of CSV file (default `tasks.csv`
      * 
-     * Files always stored inside project `data/` folder.)
+     * Files always stored inside the data directory.)
      */
     constructor(filename: string = "tasks.csv") {
-        this.filePath = join(process.cwd(), "data", filename);
+        super(filename);
+        this.historyPath = `${this.filePath.replace(/\.csv$/, "")}.history.csv`;
     }
 
-    /**
-     * Ensure `data` directory exists.
-     * Creates it (recursively) if it does not.
-     */
-    private async ensureDirectoryExists(): Promise<void> {
-        const dataDirectory = join(process.cwd(), "data");
-
-        try {
-            await fileSystem.access(dataDirectory); // Check if directory already exists
-        } catch {
-            await fileSystem.mkdir(dataDirectory, { recursive: true });
-        }
+    protected openBackup(filename: string): FileService {
+        return new FileService(filename);
     }
 
     /**
      * Save all tasks from TaskManager into a CSV file.
      * 
      * - Ensures directory exists
-     * - Writes CSV header + one row per task
-     * - Overwrites existing save file
+     * - Writes schema version marker, CSV header + one row per task
+     * - Writes unknown columns of the loaded file back (empty for new tasks)
+     * - Writes change history to the sidecar file
+     * - Replaces existing files atomically (see `writeFileAtomic`)
      * 
      * @param taskManager - TaskManager tasks that should be saved
      */
@@ -55,16 +63,25 @@ export class FileService {
             await this.ensureDirectoryExists();
 
             const tasks = taskManager.getAllTasks();
-            const lines: string[] = [Task.getCsvHeaders()]; // CSV header
+            const { columns, values } = this.unknownColumns;
+            const lines: string[] = [
+                formatSchemaMarker(this.schemaVersion),
+                [Task.getCsvHeaders(), ...columns].join(";") // CSV header
+            ];
 
-            // Serialize each task into CSV row
+            // Serialize each task into CSV row, followed by its unknown column values
             for (const task of tasks) {
-                lines.push(task.toCsvRow());
+                const unknownValues = values.get(task.id) ?? columns.map(() => "");
+                lines.push([task.toCsvRow(), ...unknownValues.map(quoteCsvField)].join(";"));
             }
 
             const content = lines.join("\n");
 
-            await fileSystem.writeFile(this.filePath, content, "utf-8");
+            await this.writeFileAtomic(this.filePath, content);
+            await this.rememberSaveFile(content, tasks);
+
+            const history = [TaskChange.getCsvHeaders(), ...taskManager.getChanges().map(change => change.toCsvRow())];
+            await this.writeFileAtomic(this.historyPath, history.join("\n"));
 
             console.log(`📩 Saved ${tasks.length} tasks to ${this.filePath}`);
         } catch (e) {
@@ -77,7 +94,8 @@ export class FileService {
      * Load tasks from CSV save file (if exists).
      * 
      * - Ensures directory exists
-     * - Reads CSV file, skip headers automatically
+     * - Reads CSV file, upgrading older schema versions
+     * - Maps fields to columns by header name, remembering unknown columns
      * - Converts valid rows into Task objects
      * - Collects error for invalid rows (prevents crashing)
      * 
@@ -88,33 +106,47 @@ export class FileService {
             await this.ensureDirectoryExists();
 
             const content = await fileSystem.readFile(this.filePath, "utf-8");
-            const lines = content.trim().split("\n");
-            
+
             // Handle case where file exists but empty
-            if (lines.length === 1 && lines[0] === "") {
+            if (content.trim() === "") {
+                await this.rememberSaveFile(content, []);
                 return [];
             }
 
-            // Detect and skip header line if present
-            const firstLine = lines[0];
-            const hasHeader = firstLine?.includes("id;title;description");
-            const dataLines = hasHeader ? lines.slice(1) : lines;
+            const { table, applied } = migrateCsvTable(parseCsvTable(content));
+
+            for (const migration of applied) {
+                this.log(`🔄 Upgrading CSV schema from version ${migration.from}: ${migration.description}`);
+            }
+
+            const missingColumns = ["id", "title"].filter(column => !table.columns.includes(column));
+
+            if (missingColumns.length > 0) {
+                throw new Error(`missing column(s): ${missingColumns.join(", ")}`);
+            }
+
+            const unknownColumns = table.columns.filter(column => !KNOWN_COLUMNS.includes(column));
+            this.schemaVersion = Math.max(table.version, CSV_SCHEMA_VERSION);
+            this.unknownColumns = { columns: unknownColumns, values: new Map() };
 
             const tasks: Task[] = [];
             const errors: string[] = [];
 
-            // Parse each data line to a Task
-            for (let i = 0; i < dataLines.length; i++) {
-                const line = dataLines[i]?.trim();
+            // Map each row's fields to column names and convert to a Task
+            for (const { line, fields } of table.rows) {
+                try {
+                    if (fields.length !== table.columns.length) {
+                        throw new Error(`Invalid CSV format: expected ${table.columns.length} fields, got ${fields.length}`);
+                    }
 
-                if (line === "") continue; // Skip blank lines
+                    const record = Object.fromEntries(table.columns.map((column, i) => [column, fields[i]!]));
+                    const task = Task.fromCsvRecord(record);
 
-                try {
-                    const task = Task.fromCsvRow(line!);
                     tasks.push(task);
+                    this.unknownColumns.values.set(task.id, unknownColumns.map(column => record[column]!));
                 } catch (e) {
                     // Collect errors instead of crashing
-                    errors.push(`Line ${i + 2}: ${e instanceof Error ? e.message : "Unknown error"}`);
+                    errors.push(`Line ${line}: ${e instanceof Error ? e.message : "Unknown error"}`);
                 }
             }
 
@@ -124,12 +156,15 @@ export class FileService {
                 errors.forEach(e => console.warn(`    -${e}`));
             }
 
-            console.log(`📂 Loaded ${tasks.length} tasks from ${this.filePath}`);
+            await this.rememberSaveFile(content, tasks);
+
+            this.log(`📂 Loaded ${tasks.length} tasks from ${this.filePath}`);
             return tasks;
         } catch (e) {
             // Graceful handling of ERROR NO ENTITY (file doesn't exist yet)
             if ((e as any).code === "ENOENT") {
-                console.log(`📝 No save file found. Starting fresh!`);
+                await this.rememberSaveFile(undefined, []);
+                this.log(`📝 No save file found. Starting fresh!`);
                 return [];
             }
 
@@ -139,59 +174,42 @@ export class FileService {
     }
 
     /**
-     * Check if save file currently exists.
+     * Load task change history from the sidecar file (if exists).
+     * Invalid rows are skipped with a warning.
      * 
-     * 
-     * @returns True if file exists (false otherwise)
+     * @returns Recorded changes, oldest first (empty if no history file yet)
      */
-    async exists(): Promise<boolean> {
+    async loadHistory(): Promise<TaskChange[]> {
         try {
-            await fileSystem.access(this.filePath);
-            return true;
-        } catch {
-            return false;
-        }
-    }
+            const content = await fileSystem.readFile(this.historyPath, "utf-8");
+            const lines = content.trim().split("\n").filter(line => line.trim() !== "");
+            const dataLines = lines[0] === TaskChange.getCsvHeaders() ? lines.slice(1) : lines;
 
-    /**
-     * Delete current save file if present.
-     * Silently ignore if file doesn't exist.
-     */
-    async deleteSaveFile(): Promise<void> {
-        try {
-            await fileSystem.unlink(this.filePath);
-            console.log("🗑 Save file deleted!");
-        } catch (e) {
-            if ((e as any).code !== "ENOENT") {
-                throw new Error(`Failed to delete save file: ${e instanceof Error ? e.message : "Unknown error"}`);
-            }
-        }
-    }
+            const changes: TaskChange[] = [];
+            const errors: string[] = [];
 
-    /**
-     * Create backup of current save file.
-     * - Versioned with ISO timestamp in filename
-     * 
-     * Stored in same `data/` directory with naming format:
-     * `tasks-backup-YYY-MM-DDTHH-MM-SS.csv`
-     */
-    async backup(): Promise<void> {
-        try {
-            const exists = await this.exists();
+            dataLines.forEach((line, i) => {
+                try {
+                    changes.push(TaskChange.fromCsvRow(line.trim()));
+                } catch (e) {
+                    errors.push(`Line ${i + 2}: ${e instanceof Error ? e.message : "Unknown error"}`);
+                }
+            });
 
-            if (!exists) {
-                console.log("📝 No save file to backup");
-                return;
+            if (errors.length > 0) {
+                console.warn("⚠️ Some history lines could not be loaded:");
+                errors.forEach(e => console.warn(`    -${e}`));
             }
 
-            const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-            const backupPath = join(process.cwd(), "data", `tasks-backup-${timestamp}.csv`);
-
-            await fileSystem.copyFile(this.filePath, backupPath);
-            console.log(`📄 Backup created: ${backupPath}`);
+            return changes;
         } catch (e) {
-            console.error("❌ Error creating backup: ", e);
-            throw new Error(`Failed to create backup: ${e instanceof Error ? e.message : "Unknown error"}`);
+            // No history recorded yet
+            if ((e as any).code === "ENOENT") {
+                return [];
+            }
+
+            console.error("❌ Error loading task history:", e);
+            throw new Error(`Failed to load task history: ${e instanceof Error ? e.message : "Unknown Error"}`);
         }
     }
-}
\ No newline at end of file
+}
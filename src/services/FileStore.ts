@@ -0,0 +1,435 @@
+import { promises as fileSystem, unwatchFile, watchFile } from "fs";
+import { createHash } from "crypto";
+import { basename, dirname, extname, isAbsolute, join } from "path";
+import { Task, type TaskData } from "../models/Task.js";
+import { TaskChange } from "../models/TaskChange.js";
+import { TaskManager } from "../managers/TaskManager.js";
+import type { TaskStore } from "./TaskStore.js";
+import { FileLock } from "./FileLock.js";
+import { RecoveryJournal } from "./RecoveryJournal.js";
+import { resolveDataDirectory } from "./Config.js";
+import { retentionPolicyFromEnv, selectBackupsToPrune, type BackupInfo, type RetentionPolicy } from "./Backups.js";
+
+/**
+ * Matches backup file names, capturing the save file's base name, the timestamp and the extension,
+ * e.g. `tasks-backup-2026-10-19T08-00-00-000Z.csv` (backup of `tasks.csv`)
+ */
+const BACKUP_NAME_PATTERN = /^([^/\\]+)-backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z(\.[^.]*)?$/;
+
+/** How often the save file is polled for changes by other programs (ms) */
+const WATCH_INTERVAL = 2000;
+
+/** State of the save file as last loaded or saved by this session. */
+interface SaveFileFingerprint {
+    mtimeMs: number;
+    size: number;
+    /** SHA-256 of the content */
+    hash: string;
+}
+
+/** SHA-256 hex digest of file content. */
+function hashContent(content: string): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * File store - Shared base of file-based task stores.
+ * 
+ * Responsibilities:
+ * - Resolve save file path inside the data directory (see `resolveDataDirectory`; subfolders allowed, e.g. `lists/work/tasks.csv`)
+ * - Ensure the save file's directory exists
+ * - Provide file utilities (checking existence, deletion)
+ * - Manage backups (create, list, load, delete, prune by retention policy)
+ * - Crash-safe writes (temp file, fsync, rename)
+ * - Advisory lock file against concurrent sessions (`tasks.csv.lock`)
+ * - Recovery journal of unsaved changes (`tasks.csv.journal`)
+ * - Detect changes made by other programs (e.g. a spreadsheet) since the last load/save
+ * 
+ * Subclasses implement the file format (load/save) and call `rememberSaveFile`
+ * after reading or writing the save file.
+ */
+export abstract class FileStore implements TaskStore {
+    /** Full absolute path to save file being used for storage */
+    protected filePath: string;
+
+    /** Folder of the save file relative to the data directory (`.` for files directly in it) */
+    private readonly folder: string;
+
+    /** Lock file next to the save file */
+    private fileLock: FileLock;
+
+    /** Journal of unsaved changes next to the save file */
+    readonly journal: RecoveryJournal;
+
+    /** Suppress progress messages (used when reading backups) */
+    protected quiet = false;
+
+    /**
+     * Save file as last loaded/saved:
+     * undefined if not known yet, null if there was no save file
+     */
+    private fingerprint?: SaveFileFingerprint | null;
+
+    /** Tasks as last loaded/saved (base for merging external changes) */
+    private baseTasks: TaskData[] = [];
+
+    /**
+     * Constructor
+     * 
+     * @param filename - Name of save file, relative to the data directory (or an absolute path)
+     * 
+     * Relative names are stored inside the data directory (see `resolveDataDirectory`).
+     * @throws Error if the config file is invalid
+     */
+    constructor(filename: string) {
+        this.filePath = isAbsolute(filename) ? filename : join(resolveDataDirectory().path, filename);
+        this.folder = dirname(filename);
+        this.fileLock = new FileLock(`${this.filePath}.lock`);
+        this.journal = new RecoveryJournal(`${this.filePath}.journal`);
+    }
+
+    abstract loadTasks(): Promise<Task[]>;
+
+    abstract loadHistory(): Promise<TaskChange[]>;
+
+    abstract saveTasks(taskManager: TaskManager): Promise<void>;
+
+    /**
+     * Create a store of the same format for a backup file in the data directory.
+     * 
+     * @param filename - Backup file path relative to the data directory
+     */
+    protected abstract openBackup(filename: string): FileStore;
+
+    /** Release open resources (nothing to do for plain files). */
+    close(): void {}
+
+    /** Log a progress message unless the store is quiet. */
+    protected log(message: string): void {
+        if (!this.quiet) console.log(message);
+    }
+
+    /**
+     * Ensure the directory of the save file (data directory or a subfolder) exists.
+     * Creates it (recursively) if it does not.
+     */
+    protected async ensureDirectoryExists(): Promise<void> {
+        const dataDirectory = dirname(this.filePath);
+
+        try {
+            await fileSystem.access(dataDirectory); // Check if directory already exists
+        } catch {
+            await fileSystem.mkdir(dataDirectory, { recursive: true });
+        }
+    }
+
+    /**
+     * Write a file atomically: write a temp file next to it, flush it to disk
+     * and rename it into place. A crash mid-write leaves the old file intact.
+     * 
+     * @param path - Full path of the file to replace
+     * @param content - New file content
+     */
+    protected async writeFileAtomic(path: string, content: string): Promise<void> {
+        const tempPath = `${path}.${process.pid}.tmp`;
+
+        try {
+            await fileSystem.writeFile(tempPath, content, { encoding: "utf-8", flush: true });
+            await fileSystem.rename(tempPath, path);
+        } catch (e) {
+            // Don't leave partial temp files behind
+            try {
+                await fileSystem.unlink(tempPath);
+            } catch {}
+
+            throw e;
+        }
+    }
+
+    /**
+     * Remember the save file as just loaded or saved, so later changes by
+     * other programs can be detected (see `hasExternalChanges`).
+     * 
+     * @param content - File content (undefined if there is no save file)
+     * @param tasks - Tasks stored in that content
+     */
+    protected async rememberSaveFile(content: string | undefined, tasks: Task[]): Promise<void> {
+        this.baseTasks = tasks.map(task => task.toJSON());
+
+        if (content === undefined) {
+            this.fingerprint = null;
+            return;
+        }
+
+        try {
+            const { mtimeMs, size } = await fileSystem.stat(this.filePath);
+            this.fingerprint = { mtimeMs, size, hash: hashContent(content) };
+        } catch {
+            // Unknown state, changes can't be detected
+            delete this.fingerprint;
+        }
+    }
+
+    /**
+     * Check whether another program changed, created or deleted the save file
+     * since this store last loaded or saved it.
+     * Modification time and size are checked first; the content hash decides
+     * when they differ (so a touched but unchanged file doesn't count).
+     * 
+     * @returns True if the save file changed (false if unknown, e.g. never loaded)
+     */
+    async hasExternalChanges(): Promise<boolean> {
+        const fingerprint = this.fingerprint;
+
+        if (fingerprint === undefined) return false;
+
+        let stats;
+
+        try {
+            stats = await fileSystem.stat(this.filePath);
+        } catch (e) {
+            if ((e as any).code === "ENOENT") return fingerprint !== null;
+            throw e;
+        }
+
+        if (fingerprint === null) return true;
+        if (stats.mtimeMs === fingerprint.mtimeMs && stats.size === fingerprint.size) return false;
+
+        const hash = hashContent(await fileSystem.readFile(this.filePath, "utf-8"));
+
+        if (hash !== fingerprint.hash) return true;
+
+        this.fingerprint = { mtimeMs: stats.mtimeMs, size: stats.size, hash };
+        return false;
+    }
+
+    /**
+     * Tasks as last loaded or saved by this store, i.e. the common base of
+     * the in-memory tasks and an externally changed save file.
+     */
+    getBaseTasks(): Task[] {
+        return this.baseTasks.map(data => Task.fromJSON(data));
+    }
+
+    /**
+     * Watch the save file for changes by other programs (polled, doesn't keep the process running).
+     * 
+     * @param listener - Called when `hasExternalChanges` turns true after a change of the file
+     * @returns Function to stop watching
+     */
+    watchExternalChanges(listener: () => void): () => void {
+        const onChange = () => {
+            this.hasExternalChanges().then(changed => {
+                if (changed) listener();
+            }, () => {
+                // Checked again before saving
+            });
+        };
+
+        watchFile(this.filePath, { interval: WATCH_INTERVAL, persistent: false }, onChange);
+
+        return () => unwatchFile(this.filePath, onChange);
+    }
+
+    /**
+     * Lock the save file for this session.
+     * 
+     * @throws TaskFileLockedError if another running session holds the lock
+     */
+    async lock(): Promise<void> {
+        await this.ensureDirectoryExists();
+        await this.fileLock.acquire();
+    }
+
+    /** Release the lock of this session (if held). */
+    async unlock(): Promise<void> {
+        await this.fileLock.release();
+    }
+
+    /**
+     * Check if save file currently exists.
+     * 
+     * 
+     * @returns True if file exists (false otherwise)
+     */
+    async exists(): Promise<boolean> {
+        try {
+            await fileSystem.access(this.filePath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Delete current save file if present.
+     * Silently ignore if file doesn't exist.
+     */
+    async deleteSaveFile(): Promise<void> {
+        try {
+            await fileSystem.unlink(this.filePath);
+            this.fingerprint = null;
+            this.baseTasks = [];
+            console.log("🗑 Save file deleted!");
+        } catch (e) {
+            if ((e as any).code !== "ENOENT") {
+                throw new Error(`Failed to delete save file: ${e instanceof Error ? e.message : "Unknown error"}`);
+            }
+        }
+    }
+
+    /**
+     * Create backup of current save file, then prune old backups
+     * (retention policy from `retentionPolicyFromEnv`).
+     * - Versioned with ISO timestamp in filename
+     * 
+     * Stored in the directory of the save file, named after it
+     * (so save files sharing a directory keep separate backups):
+     * `<name>-backup-YYYY-MM-DDTHH-MM-SS-mmmZ<extension>`, e.g. `work-backup-...csv` for `work.csv`
+     * 
+     * @returns Backup file name (undefined if there is no save file)
+     */
+    async backup(): Promise<string | undefined> {
+        try {
+            const exists = await this.exists();
+
+            if (!exists) {
+                console.log("📝 No save file to backup");
+                return undefined;
+            }
+
+            const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+            const extension = extname(this.filePath);
+            const name = `${basename(this.filePath, extension)}-backup-${timestamp}${extension}`;
+            const backupPath = join(dirname(this.filePath), name);
+
+            await fileSystem.copyFile(this.filePath, backupPath);
+            console.log(`📄 Backup created: ${backupPath}`);
+
+            const pruned = await this.pruneBackups();
+
+            if (pruned.length > 0) {
+                console.log(`🧹 Removed ${pruned.length} old backup(s)`);
+            }
+
+            return name;
+        } catch (e) {
+            console.error("❌ Error creating backup: ", e);
+            throw new Error(`Failed to create backup: ${e instanceof Error ? e.message : "Unknown error"}`);
+        }
+    }
+
+    /**
+     * List backups of this store's format with their task counts.
+     * 
+     * @returns Backups, newest first
+     */
+    async listBackups(): Promise<BackupInfo[]> {
+        const backups = await this.findBackups();
+
+        for (const backup of backups) {
+            try {
+                backup.taskCount = (await this.loadBackup(backup.name)).length;
+            } catch {
+                // Unreadable backups are listed without a count
+            }
+        }
+
+        return backups;
+    }
+
+    /**
+     * Load the tasks of a backup (without changing the current save file).
+     * 
+     * @param name - Backup file name (as returned by `listBackups`)
+     * @throws Error if the name is not a backup file name
+     */
+    async loadBackup(name: string): Promise<Task[]> {
+        this.assertBackupName(name);
+
+        const store = this.openBackup(join(this.folder, name));
+        store.quiet = true;
+
+        try {
+            return await store.loadTasks();
+        } finally {
+            store.close();
+        }
+    }
+
+    /**
+     * Delete a backup file.
+     * 
+     * @param name - Backup file name (as returned by `listBackups`)
+     */
+    async deleteBackup(name: string): Promise<void> {
+        this.assertBackupName(name);
+        await fileSystem.unlink(join(dirname(this.filePath), name));
+    }
+
+    /**
+     * Delete backups that the retention policy doesn't keep.
+     * 
+     * @param policy - Retention policy (default from environment)
+     * @returns Deleted backups, oldest first
+     */
+    async pruneBackups(policy: RetentionPolicy = retentionPolicyFromEnv()): Promise<BackupInfo[]> {
+        const pruned = selectBackupsToPrune(await this.findBackups(), policy);
+
+        for (const backup of pruned) {
+            await this.deleteBackup(backup.name);
+        }
+
+        return pruned;
+    }
+
+    /**
+     * Find backup files of this save file (same name and extension) next to it.
+     * 
+     * @returns Backups without task counts, newest first
+     */
+    private async findBackups(): Promise<BackupInfo[]> {
+        let names: string[];
+
+        try {
+            names = await fileSystem.readdir(dirname(this.filePath));
+        } catch (e) {
+            if ((e as any).code === "ENOENT") return [];
+            throw e;
+        }
+
+        const backups: BackupInfo[] = [];
+
+        for (const name of names) {
+            const createdAt = this.parseBackupName(name);
+
+            if (createdAt) backups.push({ name, createdAt });
+        }
+
+        return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    /**
+     * Parse the name of a backup file of this save file.
+     * 
+     * @returns Backup creation time (undefined if not a backup of this save file)
+     */
+    private parseBackupName(name: string): Date | undefined {
+        const match = BACKUP_NAME_PATTERN.exec(name);
+        const extension = extname(this.filePath);
+
+        if (!match || match[1] !== basename(this.filePath, extension) || (match[7] ?? "") !== extension) {
+            return undefined;
+        }
+
+        const [, , date, hours, minutes, seconds, milliseconds] = match;
+        return new Date(`${date}T${hours}:${minutes}:${seconds}.${milliseconds}Z`);
+    }
+
+    /** Reject names that aren't backups of this save file (e.g. paths to other folders). */
+    private assertBackupName(name: string): void {
+        if (!this.parseBackupName(name)) {
+            throw new Error(`Unknown backup: ${name}`);
+        }
+    }
+}
@@ -0,0 +1,381 @@
+import { promises as fileSystem } from "fs";
+import { Task, type Priority } from "../models/Task.js";
+import { TaskManager } from "../managers/TaskManager.js";
+import { endOfDay } from "../utils/date.js";
+import { importNewTasks, type TaskImportResult } from "./TaskImport.js";
+
+/** Product identifier written to exported calendars */
+const PRODUCT_ID = "-//task-manager//Tasks//EN";
+
+/** Domain part of exported UIDs (`task-<id>@task-manager`) */
+const UID_DOMAIN = "task-manager";
+
+/** Maximum length of a content line in octets, excluding the line break (RFC 5545 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+/** iCalendar PRIORITY values (1 highest, 9 lowest) for each task priority */
+const ICAL_PRIORITIES: Record<Priority, number> = {
+    urgent: 1,
+    high: 3,
+    normal: 5,
+    low: 9
+};
+
+/** Task fields read from one VTODO component. */
+export interface VTodoItem {
+    title: string;
+    description: string;
+    completed: boolean;
+    completedAt?: Date;
+    createdAt?: Date;
+    updatedAt?: Date;
+    dueAt?: Date;
+    priority: Priority;
+    tags: string[];
+}
+
+/** A content line split into property name (upper case) and raw value; parameters are ignored. */
+interface ContentLine {
+    name: string;
+    value: string;
+}
+
+/** Escape a TEXT value: backslash, semicolon, comma and line breaks (RFC 5545 3.3.11). */
+export function escapeICalText(text: string): string {
+    return text
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+/** Undo `escapeICalText`. */
+export function unescapeICalText(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_, character: string) => character.toLowerCase() === "n" ? "\n" : character);
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets; continuation lines
+ * start with a space. Multi-byte UTF-8 characters are never split.
+ *
+ * @param line - Unfolded content line
+ * @returns Folded line(s) joined with CRLF
+ */
+export function foldICalLine(line: string): string {
+    const chunks: string[] = [];
+    let chunk = "";
+    let octets = 0;
+
+    for (const character of line) {
+        const size = Buffer.byteLength(character, "utf-8");
+        // Continuation lines lose one octet to the leading space
+        const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+        if (octets + size > limit) {
+            chunks.push(chunk);
+            chunk = "";
+            octets = 0;
+        }
+
+        chunk += character;
+        octets += size;
+    }
+
+    chunks.push(chunk);
+    return chunks.join("\r\n ");
+}
+
+/** Undo line folding: a line break followed by a space or tab joins the lines. */
+export function unfoldICalLines(content: string): string[] {
+    return content
+        .replace(/\r?\n[ \t]/g, "")
+        .split(/\r?\n/)
+        .filter(line => line.trim() !== "");
+}
+
+/** Format a date as UTC date-time, e.g. `20261019T080000Z`. */
+function formatICalDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Parse a DATE (`20261019`) or DATE-TIME (`20261019T080000Z`, or floating
+ * local time without `Z`) value.
+ *
+ * @returns Parsed date (undefined if invalid); DATE values are local midnight
+ */
+function parseICalDate(value: string): Date | undefined {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+
+    if (!match) return undefined;
+
+    const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(part => Number(part ?? 0)) as
+        [number, number, number, number, number, number];
+
+    // Reject overflowing values such as February 30th (seconds may be 60 for leap seconds)
+    const daysInMonth = new Date(year, month, 0).getDate();
+
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth || hours > 23 || minutes > 59 || seconds > 60) {
+        return undefined;
+    }
+
+    return match[7] === "Z"
+        ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+        : new Date(year, month - 1, day, hours, minutes, seconds);
+}
+
+/** Convert an iCalendar PRIORITY (0 undefined, 1 highest ... 9 lowest) into a task priority. */
+function priorityFromICal(value: string): Priority {
+    const priority = parseInt(value);
+
+    if (priority === 1) return "urgent";
+    if (priority >= 2 && priority <= 4) return "high";
+    if (priority >= 6 && priority <= 9) return "low";
+
+    return "normal";
+}
+
+/** Split a value list at unescaped commas (e.g. CATEGORIES). */
+function splitICalList(value: string): string[] {
+    return value.split(/(?<!\\),/).map(unescapeICalText);
+}
+
+/** Split a content line into name and value (colons inside quoted parameters don't count). */
+function parseContentLine(line: string): ContentLine | undefined {
+    let inQuotes = false;
+    let separator = -1;
+
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === "\"") inQuotes = !inQuotes;
+
+        if (line[i] === ":" && !inQuotes) {
+            separator = i;
+            break;
+        }
+    }
+
+    if (separator < 0) return undefined;
+
+    const [name = ""] = line.slice(0, separator).split(";");
+    return { name: name.toUpperCase(), value: line.slice(separator + 1) };
+}
+
+/** Stable UID of a task. */
+export function taskUid(task: Task): string {
+    return `task-${task.id}@${UID_DOMAIN}`;
+}
+
+/**
+ * Format tasks as an iCalendar file with one VTODO per task
+ * (CRLF line breaks, escaped text, folded lines).
+ *
+ * @param tasks - Tasks to export
+ * @param now - Export time, written as DTSTAMP (default: current time)
+ */
+export function formatICalendar(tasks: Task[], now: Date = new Date()): string {
+    const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODUCT_ID}`, "CALSCALE:GREGORIAN"];
+    const byId = new Map(tasks.map(task => [task.id, task]));
+
+    for (const task of tasks) {
+        lines.push(
+            "BEGIN:VTODO",
+            `UID:${taskUid(task)}`,
+            `DTSTAMP:${formatICalDateTime(now)}`,
+            `CREATED:${formatICalDateTime(task.createdAt)}`,
+            `LAST-MODIFIED:${formatICalDateTime(task.updatedAt)}`,
+            `SUMMARY:${escapeICalText(task.title)}`
+        );
+
+        if (task.description) {
+            lines.push(`DESCRIPTION:${escapeICalText(task.description)}`);
+        }
+
+        lines.push(`STATUS:${task.completed ? "COMPLETED" : "NEEDS-ACTION"}`);
+
+        if (task.completed && task.completedAt) {
+            lines.push(`COMPLETED:${formatICalDateTime(task.completedAt)}`);
+        }
+
+        if (task.dueAt) {
+            lines.push(`DUE:${formatICalDateTime(task.dueAt)}`);
+        }
+
+        lines.push(`PRIORITY:${ICAL_PRIORITIES[task.priority]}`);
+
+        if (task.tags.size > 0) {
+            lines.push(`CATEGORIES:${[...task.tags].map(escapeICalText).join(",")}`);
+        }
+
+        const parent = task.parentId !== undefined ? byId.get(task.parentId) : undefined;
+
+        if (parent) {
+            lines.push(`RELATED-TO;RELTYPE=PARENT:${taskUid(parent)}`);
+        }
+
+        lines.push("END:VTODO");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldICalLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Read all VTODO components of an iCalendar file (other components such as
+ * VEVENT are ignored). Components without SUMMARY are skipped.
+ *
+ * @param content - File content
+ */
+export function parseICalendar(content: string): VTodoItem[] {
+    const items: VTodoItem[] = [];
+    let item: VTodoItem | undefined;
+    // Nesting inside a VTODO, e.g. VALARM (their properties are ignored)
+    let depth = 0;
+
+    for (const line of unfoldICalLines(content)) {
+        const property = parseContentLine(line);
+
+        if (!property) continue;
+
+        const value = property.value.toUpperCase();
+
+        if (property.name === "BEGIN") {
+            if (item) depth++;
+            else if (value === "VTODO") item = { title: "", description: "", completed: false, priority: "normal", tags: [] };
+            continue;
+        }
+
+        if (property.name === "END" && item) {
+            if (depth > 0) {
+                depth--;
+            } else {
+                if (item.title !== "") items.push(item);
+                item = undefined;
+            }
+            continue;
+        }
+
+        if (!item || depth > 0) continue;
+
+        switch (property.name) {
+            case "SUMMARY":
+                item.title = unescapeICalText(property.value).replace(/\s+/g, " ").trim();
+                break;
+            case "DESCRIPTION":
+                item.description = unescapeICalText(property.value);
+                break;
+            case "STATUS":
+                item.completed = value === "COMPLETED";
+                break;
+            case "PRIORITY":
+                item.priority = priorityFromICal(property.value);
+                break;
+            case "CATEGORIES":
+                item.tags.push(...splitICalList(property.value));
+                break;
+            case "COMPLETED": {
+                const completedAt = parseICalDate(property.value);
+
+                if (completedAt) {
+                    item.completedAt = completedAt;
+                    item.completed = true;
+                }
+                break;
+            }
+            case "CREATED": {
+                const createdAt = parseICalDate(property.value);
+                if (createdAt) item.createdAt = createdAt;
+                break;
+            }
+            case "LAST-MODIFIED": {
+                const updatedAt = parseICalDate(property.value);
+                if (updatedAt) item.updatedAt = updatedAt;
+                break;
+            }
+            case "DUE": {
+                const dueAt = parseICalDate(property.value);
+
+                // Date-only due dates mean the end of that day, like date-only input elsewhere
+                if (dueAt) item.dueAt = property.value.trim().length === 8 ? endOfDay(dueAt) : dueAt;
+                break;
+            }
+        }
+    }
+
+    return items;
+}
+
+/**
+ * iCalendar service - Moves tasks between a TaskManager and RFC 5545
+ * `.ics` files of VTODO components, so calendar clients can show them.
+ *
+ * Responsibilities:
+ * - Export tasks with stable UIDs derived from task IDs
+ * - Import VTODO components, skipping tasks that already exist
+ *   (same title, case-insensitive, and same due day)
+ */
+export class ICalendarService {
+    /**
+     * Constructor
+     *
+     * @param taskManager - Tasks to import into / export from
+     */
+    constructor(private taskManager: TaskManager) {}
+
+    /**
+     * Import all VTODO components as one undoable change.
+     *
+     * @param content - File content
+     * @returns Imported tasks and skipped duplicates
+     */
+    import(content: string): TaskImportResult {
+        return importNewTasks(this.taskManager, parseICalendar(content), item => this.createTask(item));
+    }
+
+    /**
+     * Export all tasks as iCalendar content.
+     *
+     * @param now - Export time (default: current time)
+     */
+    export(now: Date = new Date()): string {
+        return formatICalendar(this.taskManager.getAllTasks(), now);
+    }
+
+    /**
+     * Import an `.ics` file (see `import`).
+     *
+     * @param path - Path of the file
+     */
+    async importFile(path: string): Promise<TaskImportResult> {
+        return this.import(await fileSystem.readFile(path, "utf-8"));
+    }
+
+    /**
+     * Write all tasks to an `.ics` file (overwrites it).
+     *
+     * @param path - Path of the file
+     * @returns Number of exported tasks
+     */
+    async exportFile(path: string): Promise<number> {
+        await fileSystem.writeFile(path, this.export(), "utf-8");
+        return this.taskManager.getAllTasks().length;
+    }
+
+    /** Build a new task from a VTODO (its UID is not kept; the task gets a fresh ID). */
+    private createTask(item: VTodoItem): Task {
+        const task = new Task(item.title, item.description);
+
+        task.priority = item.priority;
+        task.setTags(item.tags);
+
+        if (item.createdAt) task.createdAt = item.createdAt;
+        if (item.dueAt) task.dueAt = item.dueAt;
+
+        if (item.completed) {
+            task.markAsCompleted();
+            if (item.completedAt) task.completedAt = item.completedAt;
+        }
+
+        task.updatedAt = item.updatedAt ?? item.completedAt ?? item.createdAt ?? task.updatedAt;
+        return task;
+    }
+}
@@ -0,0 +1,164 @@
+import { promises as fileSystem } from "fs";
+import { Task } from "../models/Task.js";
+import { TaskChange } from "../models/TaskChange.js";
+import { TaskManager } from "../managers/TaskManager.js";
+import { FileStore } from "./FileStore.js";
+
+/** Version of the JSON save file layout */
+const JSON_FORMAT_VERSION = 1;
+
+/**
+ * JSON file service - Handles persistence of tasks to and from a JSON document.
+ *
+ * Document layout:
+ * `{ "version": 1, "tasks": [TaskData...], "history": [TaskChangeData...] }`
+ *
+ * Every task field is stored with its proper type (booleans, numbers, arrays,
+ * ISO timestamps, recurrence objects), so new fields need no format changes.
+ * Change history is stored in the same document.
+ * The loaded/saved file is remembered to detect external edits (see `FileStore`).
+ *
+ * File utilities (existence, deletion, backups) are inherited from `FileStore`.
+ */
+export class JsonFileService extends FileStore {
+    /**
+     * Constructor
+     *
+     * @param filename - Name of JSON file (default `tasks.json`)
+     */
+    constructor(filename: string = "tasks.json") {
+        super(filename);
+    }
+
+    protected openBackup(filename: string): JsonFileService {
+        return new JsonFileService(filename);
+    }
+
+    /**
+     * Save all tasks and change history from TaskManager into the JSON file.
+     * Replaces existing save file atomically.
+     *
+     * @param taskManager - TaskManager tasks that should be saved
+     */
+    async saveTasks(taskManager: TaskManager): Promise<void> {
+        try {
+            await this.ensureDirectoryExists();
+
+            const tasks = taskManager.getAllTasks();
+            const document = { version: JSON_FORMAT_VERSION, tasks, history: taskManager.getChanges() };
+            const content = JSON.stringify(document, null, 2);
+
+            await this.writeFileAtomic(this.filePath, content);
+            await this.rememberSaveFile(content, tasks);
+
+            console.log(`📩 Saved ${tasks.length} tasks to ${this.filePath}`);
+        } catch (e) {
+            console.error("❌ Error saving tasks:", e);
+            throw new Error(`Failed to save tasks: ${e instanceof Error ? e.message : "Unknown Error"}`);
+        }
+    }
+
+    /**
+     * Load tasks from the JSON file (if exists).
+     * Invalid task entries are skipped with a warning.
+     *
+     * @returns Array of successfully loaded tasks
+     */
+    async loadTasks(): Promise<Task[]> {
+        const { content, document } = await this.readDocument();
+
+        if (!document) {
+            await this.rememberSaveFile(content, []);
+            this.log(`📝 No save file found. Starting fresh!`);
+            return [];
+        }
+
+        const tasks = this.parseEntries(document["tasks"], Task.fromJSON, "tasks");
+        await this.rememberSaveFile(content, tasks);
+
+        this.log(`📂 Loaded ${tasks.length} tasks from ${this.filePath}`);
+        return tasks;
+    }
+
+    /**
+     * Load task change history from the JSON file (if exists).
+     *
+     * @returns Recorded changes, oldest first
+     */
+    async loadHistory(): Promise<TaskChange[]> {
+        const { document } = await this.readDocument();
+
+        return document ? this.parseEntries(document["history"], TaskChange.fromJSON, "history") : [];
+    }
+
+    /**
+     * Read and parse the JSON document.
+     *
+     * @returns File content (undefined if file doesn't exist) and
+     * parsed document (undefined if file doesn't exist or is empty)
+     * @throws Error if file can't be read, isn't valid JSON or has a newer version
+     */
+    private async readDocument(): Promise<{ content?: string; document?: Record<string, unknown> }> {
+        try {
+            await this.ensureDirectoryExists();
+
+            const content = await fileSystem.readFile(this.filePath, "utf-8");
+
+            if (content.trim() === "") return { content };
+
+            const document = JSON.parse(content);
+
+            if (typeof document !== "object" || document === null || Array.isArray(document)) {
+                throw new Error("expected a JSON object");
+            }
+
+            if (typeof document.version === "number" && document.version > JSON_FORMAT_VERSION) {
+                throw new Error(`unsupported file version ${document.version}`);
+            }
+
+            return { content, document };
+        } catch (e) {
+            // Graceful handling of ERROR NO ENTITY (file doesn't exist yet)
+            if ((e as any).code === "ENOENT") {
+                return {};
+            }
+
+            console.error("❌ Error loading tasks:", e);
+            throw new Error(`Failed to load tasks: ${e instanceof Error ? e.message : "Unknown Error"}`);
+        }
+    }
+
+    /**
+     * Convert array entries of the document, collecting errors for invalid entries.
+     *
+     * @param entries - Raw `tasks` or `history` value (missing means empty)
+     * @param parse - Converter for a single entry
+     * @param section - Section name used in warnings
+     */
+    private parseEntries<T>(entries: unknown, parse: (data: unknown) => T, section: string): T[] {
+        if (entries === undefined) return [];
+
+        if (!Array.isArray(entries)) {
+            throw new Error(`Failed to load tasks: "${section}" must be an array`);
+        }
+
+        const results: T[] = [];
+        const errors: string[] = [];
+
+        entries.forEach((entry, i) => {
+            try {
+                results.push(parse(entry));
+            } catch (e) {
+                errors.push(`${section}[${i}]: ${e instanceof Error ? e.message : "Unknown error"}`);
+            }
+        });
+
+        // Report partial parse errors; continue loading valid data
+        if (errors.length > 0) {
+            console.warn("⚠️ Some entries could not be loaded:");
+            errors.forEach(e => console.warn(`    -${e}`));
+        }
+
+        return results;
+    }
+}
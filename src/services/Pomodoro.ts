@@ -0,0 +1,103 @@
+import type { Task } from "../models/Task.js";
+import { entryDuration } from "../models/TimeEntry.js";
+import { startOfDay, startOfWeek } from "../utils/date.js";
+
+/** Terminal bell, rung at every transition between focus and break */
+export const BELL = "\u0007";
+
+/** Focus sessions logged on one task. */
+export interface TaskFocus {
+    task: Task;
+    sessions: number;
+}
+
+/** Summary of completed focus sessions, shown by the statistics screen. */
+export interface FocusStats {
+    /** Number of sessions (all time, since midnight, since Monday) */
+    total: number;
+    today: number;
+    thisWeek: number;
+    /** Milliseconds spent in focus sessions */
+    focusTime: number;
+    /** Tasks with sessions, most sessions first */
+    tasks: TaskFocus[];
+}
+
+/**
+ * Format remaining time as `MM:SS`, rounding up to whole seconds (e.g. `24:59`).
+ *
+ * @param milliseconds - Remaining time
+ */
+export function formatCountdown(milliseconds: number): string {
+    const totalSeconds = Math.ceil(Math.max(0, milliseconds) / 1000);
+    const pad = (value: number) => value.toString().padStart(2, "0");
+
+    return `${pad(Math.floor(totalSeconds / 60))}:${pad(totalSeconds % 60)}`;
+}
+
+/**
+ * Count down, reporting the remaining time right away and then every second.
+ *
+ * @param duration - Milliseconds to count down
+ * @param onTick - Receives the remaining milliseconds (0 on the last tick)
+ * @param signal - Stops the countdown early
+ * @returns True if the countdown ran out, false if it was stopped
+ */
+export function countdown(duration: number, onTick: (remaining: number) => void, signal?: AbortSignal): Promise<boolean> {
+    return new Promise(resolve => {
+        if (signal?.aborted) {
+            resolve(false);
+            return;
+        }
+
+        const end = Date.now() + duration;
+
+        const finish = (completed: boolean) => {
+            clearInterval(timer);
+            signal?.removeEventListener("abort", stop);
+            resolve(completed);
+        };
+
+        const stop = () => finish(false);
+
+        const tick = () => {
+            const remaining = Math.max(0, end - Date.now());
+            onTick(remaining);
+            if (remaining === 0) finish(true);
+        };
+
+        const timer = setInterval(tick, 1000);
+        signal?.addEventListener("abort", stop, { once: true });
+        tick();
+    });
+}
+
+/**
+ * Summarize the focus sessions logged on tasks (time entries marked `focus`).
+ *
+ * @param tasks - Tasks to include (e.g. all tasks)
+ * @param now - Reference time for "today" and "this week" (defaults to current time)
+ */
+export function getFocusStats(tasks: Task[], now: Date = new Date()): FocusStats {
+    const today = startOfDay(now);
+    const thisWeek = startOfWeek(now);
+    const stats: FocusStats = { total: 0, today: 0, thisWeek: 0, focusTime: 0, tasks: [] };
+
+    for (const task of tasks) {
+        const sessions = task.timeEntries.filter(entry => entry.focus);
+
+        if (sessions.length === 0) continue;
+
+        for (const session of sessions) {
+            stats.total++;
+            stats.focusTime += entryDuration(session, now);
+            if (session.start >= today) stats.today++;
+            if (session.start >= thisWeek) stats.thisWeek++;
+        }
+
+        stats.tasks.push({ task, sessions: sessions.length });
+    }
+
+    stats.tasks.sort((a, b) => b.sessions - a.sessions || a.task.id - b.task.id);
+    return stats;
+}
@@ -0,0 +1,103 @@
+import { promises as fileSystem } from "fs";
+import { Task } from "../models/Task.js";
+import { TaskChange } from "../models/TaskChange.js";
+import { TaskManager } from "../managers/TaskManager.js";
+
+/** Version of the journal file layout */
+const JOURNAL_VERSION = 1;
+
+/** Unsaved session state read back from a recovery journal. */
+export interface RecoveredSession {
+    /** When the journal was last written */
+    writtenAt: Date;
+    /** Process ID of the session that wrote it */
+    pid: number;
+    tasks: Task[];
+    changes: TaskChange[];
+}
+
+/**
+ * Recovery journal - Copy of unsaved tasks next to the save file
+ * (`tasks.csv.journal`), so a session that ends without saving (closed
+ * terminal, killed process, crash) can be restored on the next start.
+ *
+ * - Written after every change while unsaved changes exist
+ * - Cleared after saving and on a clean exit
+ * - A journal found on startup therefore means an unclean shutdown
+ *
+ * Format: `{ "version": 1, "pid": n, "writtenAt": "...", "tasks": [TaskData...], "history": [TaskChangeData...] }`
+ */
+export class RecoveryJournal {
+    /**
+     * Constructor
+     *
+     * @param journalPath - Full path of the journal file
+     */
+    constructor(private readonly journalPath: string) {}
+
+    /**
+     * Write the current tasks and change history (replaces the previous journal).
+     * Written to a temp file first, so a crash mid-write keeps the last journal.
+     *
+     * @param taskManager - Session to record
+     */
+    async write(taskManager: TaskManager): Promise<void> {
+        const document = {
+            version: JOURNAL_VERSION,
+            pid: process.pid,
+            writtenAt: new Date().toISOString(),
+            tasks: taskManager.getAllTasks(),
+            history: taskManager.getChanges()
+        };
+        const tempPath = `${this.journalPath}.${process.pid}.tmp`;
+
+        await fileSystem.writeFile(tempPath, JSON.stringify(document), { encoding: "utf-8", flush: true });
+        await fileSystem.rename(tempPath, this.journalPath);
+    }
+
+    /**
+     * Read the journal of an earlier session.
+     *
+     * @returns Recovered session (undefined if there is no journal)
+     * @throws Error if the journal exists but can't be parsed
+     */
+    async read(): Promise<RecoveredSession | undefined> {
+        let content: string;
+
+        try {
+            content = await fileSystem.readFile(this.journalPath, "utf-8");
+        } catch (e) {
+            if ((e as any).code === "ENOENT") return undefined;
+            throw e;
+        }
+
+        try {
+            const document = JSON.parse(content);
+            const writtenAt = new Date(document.writtenAt);
+
+            if (document.version !== JOURNAL_VERSION || !Array.isArray(document.tasks) || isNaN(writtenAt.getTime())) {
+                throw new Error("unexpected layout");
+            }
+
+            return {
+                writtenAt,
+                pid: Number(document.pid),
+                tasks: document.tasks.map((data: unknown) => Task.fromJSON(data)),
+                changes: Array.isArray(document.history)
+                    ? document.history.map((data: unknown) => TaskChange.fromJSON(data))
+                    : []
+            };
+        } catch (e) {
+            throw new Error(`Invalid recovery journal ${this.journalPath}: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    /** Delete the journal (no-op if missing). */
+    async clear(): Promise<void> {
+        try {
+            await fileSystem.unlink(this.journalPath);
+        } catch (e) {
+            if ((e as any).code !== "ENOENT") throw e;
+        }
+    }
+}
@@ -0,0 +1,212 @@
+import { promises as fileSystem } from "fs";
+import { extname } from "path";
+import { Task } from "../models/Task.js";
+import { TaskManager } from "../managers/TaskManager.js";
+import { formatCompletionRate, renderProgressBar } from "../utils/display.js";
+import { formatCalendarDate } from "../utils/date.js";
+
+/** Output formats of task reports. */
+export type ReportFormat = "markdown" | "html";
+
+/** Report format for each supported file extension */
+const REPORT_EXTENSIONS: Record<string, ReportFormat> = {
+    ".md": "markdown",
+    ".markdown": "markdown",
+    ".html": "html",
+    ".htm": "html"
+};
+
+/**
+ * Choose the report format from a file name.
+ *
+ * @param path - Report file path, e.g. `status.md`
+ * @returns Format (undefined if the extension is not a report format)
+ */
+export function reportFormatFromPath(path: string): ReportFormat | undefined {
+    return REPORT_EXTENSIONS[extname(path).toLowerCase()];
+}
+
+/** Escape characters with a meaning in Markdown inline text. */
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_[\]<>~]/g, character => `\\${character}`).replace(/\s+/g, " ").trim();
+}
+
+/** Escape text for HTML element content and attribute values. */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+/**
+ * Short details shown after a task title, e.g.
+ * `["high", "due 2026-10-20", "overdue", "#work"]`.
+ */
+function describeTask(task: Task, now: Date): string[] {
+    const details: string[] = [];
+
+    if (task.priority !== "normal") details.push(task.priority);
+    if (task.dueAt) details.push(`due ${formatCalendarDate(task.dueAt)}`);
+    if (task.isOverdue(now)) details.push("overdue");
+    if (task.completed && task.completedAt) details.push(`completed ${formatCalendarDate(task.completedAt)}`);
+
+    details.push(...[...task.tags].map(tag => `#${tag}`));
+    return details;
+}
+
+/** Inline styles of HTML reports (kept in the file, so it has no dependencies) */
+const HTML_STYLE = `
+        body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #222; }
+        h1 { margin-bottom: 0.25rem; }
+        .generated { color: #666; margin-top: 0; }
+        .progress { background: #e5e7eb; border-radius: 0.5rem; height: 1rem; overflow: hidden; }
+        .progress-bar { background: #22c55e; height: 100%; }
+        ul.tasks { list-style: none; padding-left: 0; }
+        ul.tasks li { margin: 0.25rem 0; }
+        .details { color: #666; font-size: 0.9em; }
+        .overdue { color: #b91c1c; }
+        .completed .title { text-decoration: line-through; color: #666; }`;
+
+/**
+ * Report service - Renders task status reports for wikis, emails and browsers.
+ *
+ * Responsibilities:
+ * - Markdown report: stats summary plus checkbox lists of pending and completed tasks
+ * - Self-contained HTML report with the same content and a styled progress bar
+ * - Write reports to files (format chosen by extension)
+ *
+ * Counts, completion rate and progress bar come from `TaskManager.getStats`
+ * and the same helpers as the statistics screen.
+ */
+export class ReportService {
+    /**
+     * Constructor
+     *
+     * @param taskManager - Tasks to report on
+     */
+    constructor(private taskManager: TaskManager) {}
+
+    /**
+     * Render a Markdown report.
+     *
+     * @param now - Report time (default: current time)
+     */
+    renderMarkdown(now: Date = new Date()): string {
+        const stats = this.taskManager.getStats();
+        const completionRate = formatCompletionRate(stats);
+        const lines = [
+            "# Task Report",
+            "",
+            `Generated ${formatCalendarDate(now)}`,
+            "",
+            "## Summary",
+            "",
+            `- Total tasks: ${stats.total}`,
+            `- Completed: ${stats.completed}`,
+            `- Pending: ${stats.pending}`
+        ];
+
+        if (completionRate !== undefined) {
+            lines.push(`- Completion rate: ${completionRate}%`, "", `\`[${renderProgressBar(stats)}]\``);
+        }
+
+        const section = (title: string, tasks: Task[]) => {
+            lines.push("", `## ${title} (${tasks.length})`, "");
+
+            if (tasks.length === 0) {
+                lines.push("_None_");
+                return;
+            }
+
+            for (const task of tasks) {
+                const details = describeTask(task, now).map(escapeMarkdown);
+                const suffix = details.length > 0 ? ` — ${details.join(" · ")}` : "";
+
+                lines.push(`- [${task.completed ? "x" : " "}] ${escapeMarkdown(task.title)}${suffix}`);
+            }
+        };
+
+        section("Pending", this.taskManager.getPendingTasks());
+        section("Completed", this.taskManager.getCompletedTasks());
+
+        return lines.join("\n") + "\n";
+    }
+
+    /**
+     * Render a self-contained HTML report (inline styles, no scripts).
+     *
+     * @param now - Report time (default: current time)
+     */
+    renderHtml(now: Date = new Date()): string {
+        const stats = this.taskManager.getStats();
+        const completionRate = formatCompletionRate(stats) ?? "0.0";
+
+        const section = (title: string, tasks: Task[]) => {
+            const items = tasks.map(task => {
+                const details = describeTask(task, now);
+                const classes = [task.completed ? "completed" : "", task.isOverdue(now) ? "overdue" : ""].filter(Boolean);
+                const checked = task.completed ? " checked" : "";
+
+                return `            <li${classes.length > 0 ? ` class="${classes.join(" ")}"` : ""}>`
+                    + `<input type="checkbox" disabled${checked}> <span class="title">${escapeHtml(task.title)}</span>`
+                    + (details.length > 0 ? ` <span class="details">${escapeHtml(details.join(" · "))}</span>` : "")
+                    + "</li>";
+            });
+
+            return [
+                `        <h2>${title} (${tasks.length})</h2>`,
+                items.length > 0
+                    ? `        <ul class="tasks">\n${items.join("\n")}\n        </ul>`
+                    : "        <p><em>None</em></p>"
+            ].join("\n");
+        };
+
+        return `<!DOCTYPE html>
+<html lang="en">
+    <head>
+        <meta charset="utf-8">
+        <title>Task Report</title>
+        <style>${HTML_STYLE}
+        </style>
+    </head>
+    <body>
+        <h1>Task Report</h1>
+        <p class="generated">Generated ${formatCalendarDate(now)}</p>
+        <h2>Summary</h2>
+        <ul>
+            <li>Total tasks: ${stats.total}</li>
+            <li>Completed: ${stats.completed}</li>
+            <li>Pending: ${stats.pending}</li>
+            <li>Completion rate: ${completionRate}%</li>
+        </ul>
+        <div class="progress" role="progressbar" aria-valuemin="0" aria-valuemax="100" aria-valuenow="${completionRate}">
+            <div class="progress-bar" style="width: ${completionRate}%"></div>
+        </div>
+${section("Pending", this.taskManager.getPendingTasks())}
+${section("Completed", this.taskManager.getCompletedTasks())}
+    </body>
+</html>
+`;
+    }
+
+    /**
+     * Write a report file (overwrites it).
+     *
+     * @param path - Report file path ending in `.md`/`.markdown` or `.html`/`.htm`
+     * @param now - Report time (default: current time)
+     * @throws Error if the extension is not a report format
+     */
+    async exportFile(path: string, now: Date = new Date()): Promise<void> {
+        const format = reportFormatFromPath(path);
+
+        if (!format) {
+            throw new Error(`Unsupported report format: ${path} (expected .md or .html)`);
+        }
+
+        const content = format === "markdown" ? this.renderMarkdown(now) : this.renderHtml(now);
+        await fileSystem.writeFile(path, content, "utf-8");
+    }
+}
@@ -0,0 +1,353 @@
+import { Task, isPriority, PRIORITIES, type Priority } from "../models/Task.js";
+import { TaskManager } from "../managers/TaskManager.js";
+import { endOfDay, parseDueDate, startOfDay } from "../utils/date.js";
+
+/** Date fields that can be compared in queries, e.g. `created>2026-09-01`. */
+const DATE_FIELDS = {
+    created: (task: Task) => task.createdAt,
+    updated: (task: Task) => task.updatedAt,
+    completed: (task: Task) => task.completedAt,
+    due: (task: Task) => task.dueAt
+} as const;
+
+type DateField = keyof typeof DATE_FIELDS;
+
+/** Comparison operators, `:` and `=` both mean "on that day". */
+type Comparison = ":" | "=" | ">" | ">=" | "<" | "<=";
+
+/** States accepted by `is:` filters. */
+const STATES = ["pending", "open", "completed", "done", "overdue", "blocked", "ready", "recurring", "subtask"] as const;
+
+type State = typeof STATES[number];
+
+/**
+ * Parsed search query (syntax tree).
+ *
+ * - `text`: word or "exact phrase" found in title or description
+ * - `state`: `is:pending`, `is:overdue`, ...
+ * - `tag`: `tag:backend` or `#backend`
+ * - `priority`: `priority:high`, `priority>=high`
+ * - `date`: `created>2026-09-01`, `due<=2026-10-31`, ...
+ * - `not` / `and` / `or`: combined terms
+ */
+export type Query =
+    | { type: "text"; value: string }
+    | { type: "state"; state: State }
+    | { type: "tag"; tag: string }
+    | { type: "priority"; comparison: Comparison; priority: Priority }
+    | { type: "date"; field: DateField; comparison: Comparison; date: Date }
+    | { type: "not"; query: Query }
+    | { type: "and"; queries: Query[] }
+    | { type: "or"; queries: Query[] };
+
+/** Lexical token of a query string. */
+type Token =
+    | { type: "word"; value: string }
+    | { type: "phrase"; value: string }
+    | { type: "(" | ")" | "and" | "or" | "not" };
+
+/** Matches `field<op>value` filters such as `created>=2026-09-01` */
+const FILTER_PATTERN = /^([a-z]+)(:|>=|<=|=|>|<)(.+)$/i;
+
+/**
+ * Split query string into tokens.
+ *
+ * - `"..."` is a phrase (unterminated quotes run to the end)
+ * - `AND`, `OR`, `NOT` (upper case) are operators, `-term` negates a term
+ * - `(` and `)` group terms
+ */
+function tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < input.length) {
+        const char = input[index]!;
+
+        if (/\s/.test(char)) {
+            index++;
+        } else if (char === "(" || char === ")") {
+            tokens.push({ type: char });
+            index++;
+        } else if (char === "-" && (input[index + 1] === "\"" || input[index + 1] === "(")) {
+            tokens.push({ type: "not" });
+            index++;
+        } else if (char === "\"") {
+            const end = input.indexOf("\"", index + 1);
+            const value = input.slice(index + 1, end === -1 ? undefined : end);
+
+            tokens.push({ type: "phrase", value });
+            index = end === -1 ? input.length : end + 1;
+        } else {
+            const word = /^[^\s()"]+/.exec(input.slice(index))![0];
+
+            if (word === "AND" || word === "OR" || word === "NOT") {
+                tokens.push({ type: word.toLowerCase() as "and" | "or" | "not" });
+            } else if (word.startsWith("-") && word.length > 1) {
+                tokens.push({ type: "not" }, { type: "word", value: word.slice(1) });
+            } else {
+                tokens.push({ type: "word", value: word });
+            }
+
+            index += word.length;
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Parse search query into a syntax tree.
+ *
+ * Grammar (terms next to each other are combined with AND):
+ * ```
+ * query := and ("OR" and)*
+ * and   := unary ("AND"? unary)*
+ * unary := ("NOT" | "-") unary | "(" query ")" | term
+ * ```
+ *
+ * Example: `deploy is:pending created>2026-09-01 "exact phrase"`
+ *
+ * @param input - Raw query text
+ * @returns Parsed query
+ * @throws Error if the query is empty or malformed (e.g. unknown filter)
+ */
+export function parseQuery(input: string): Query {
+    const tokens = tokenize(input);
+    let position = 0;
+
+    if (tokens.length === 0) {
+        throw new Error("Search query is empty");
+    }
+
+    const peek = () => tokens[position];
+
+    const parseOr = (): Query => {
+        const queries = [parseAnd()];
+
+        while (peek()?.type === "or") {
+            position++;
+            queries.push(parseAnd());
+        }
+
+        return queries.length === 1 ? queries[0]! : { type: "or", queries };
+    };
+
+    const parseAnd = (): Query => {
+        const queries = [parseUnary()];
+
+        for (let token = peek(); token && token.type !== "or" && token.type !== ")"; token = peek()) {
+            if (token.type === "and") position++;
+            queries.push(parseUnary());
+        }
+
+        return queries.length === 1 ? queries[0]! : { type: "and", queries };
+    };
+
+    const parseUnary = (): Query => {
+        const token = tokens[position++];
+
+        if (!token) {
+            throw new Error("Invalid query: unexpected end of query");
+        }
+
+        switch (token.type) {
+            case "not":
+                return { type: "not", query: parseUnary() };
+            case "(": {
+                const query = parseOr();
+
+                if (tokens[position++]?.type !== ")") {
+                    throw new Error("Invalid query: missing ')'");
+                }
+
+                return query;
+            }
+            case "phrase":
+                return { type: "text", value: token.value.toLowerCase() };
+            case "word":
+                return parseTerm(token.value);
+            case ")":
+                throw new Error("Invalid query: unexpected ')'");
+            default:
+                throw new Error(`Invalid query: unexpected '${token.type.toUpperCase()}'`);
+        }
+    };
+
+    const query = parseOr();
+
+    if (position < tokens.length) {
+        throw new Error("Invalid query: unexpected ')'");
+    }
+
+    return query;
+}
+
+/** Parse a single word into a filter (`is:`, `tag:`, `#`, `priority`, dates) or text term. */
+function parseTerm(word: string): Query {
+    if (word.startsWith("#") && word.length > 1) {
+        return { type: "tag", tag: word.slice(1).toLowerCase() };
+    }
+
+    const match = FILTER_PATTERN.exec(word);
+
+    if (!match) {
+        return { type: "text", value: word.toLowerCase() };
+    }
+
+    const field = match[1]!.toLowerCase();
+    const comparison = match[2] as Comparison;
+    const value = match[3]!.toLowerCase();
+
+    if (field === "is" && comparison === ":") {
+        if (!(STATES as readonly string[]).includes(value)) {
+            throw new Error(`Invalid query: unknown state '${value}' (use ${STATES.join(", ")})`);
+        }
+
+        return { type: "state", state: value as State };
+    }
+
+    if (field === "tag" && comparison === ":") {
+        return { type: "tag", tag: value.replace(/^#/, "") };
+    }
+
+    if (field === "priority") {
+        if (!isPriority(value)) {
+            throw new Error(`Invalid query: unknown priority '${value}' (use ${PRIORITIES.join(", ")})`);
+        }
+
+        return { type: "priority", comparison, priority: value };
+    }
+
+    if (Object.hasOwn(DATE_FIELDS, field)) {
+        const date = parseDueDate(match[3]!);
+
+        if (!date) {
+            throw new Error(`Invalid query: invalid date '${match[3]}'`);
+        }
+
+        return { type: "date", field: field as DateField, comparison, date };
+    }
+
+    // Not a known filter, e.g. "http://..." or "10:30": plain text
+    return { type: "text", value: word.toLowerCase() };
+}
+
+/**
+ * Compare a task date with a query date at day granularity.
+ * `created>2026-09-01` matches tasks created on 2026-09-02 or later.
+ */
+function compareDate(value: Date | undefined, comparison: Comparison, date: Date): boolean {
+    if (!value) return false;
+
+    const start = startOfDay(date);
+    const end = endOfDay(date);
+
+    switch (comparison) {
+        case ">":
+            return value > end;
+        case ">=":
+            return value >= start;
+        case "<":
+            return value < start;
+        case "<=":
+            return value <= end;
+        default:
+            return value >= start && value <= end;
+    }
+}
+
+/** Compare two values by an operator (`:` and `=` mean equality). */
+function compare(a: number, comparison: Comparison, b: number): boolean {
+    switch (comparison) {
+        case ">":
+            return a > b;
+        case ">=":
+            return a >= b;
+        case "<":
+            return a < b;
+        case "<=":
+            return a <= b;
+        default:
+            return a === b;
+    }
+}
+
+/**
+ * Search service - Query language for finding tasks in a TaskManager.
+ *
+ * Responsibilities:
+ * - Parse query strings (see `parseQuery`)
+ * - Evaluate queries against tasks (text, state, tag, priority, date terms)
+ * - Return matching tasks in priority-aware order
+ */
+export class SearchService {
+    /**
+     * Constructor
+     *
+     * @param taskManager - Tasks to search (needed for dependency-aware states)
+     */
+    constructor(private taskManager: TaskManager) {}
+
+    /**
+     * Find tasks matching a query string.
+     *
+     * @param input - Raw query text, e.g. `deploy is:pending created>2026-09-01`
+     * @returns Matching tasks, sorted like `getSortedTasks`
+     * @throws Error if the query is empty or malformed
+     */
+    search(input: string): Task[] {
+        const query = parseQuery(input);
+        return this.taskManager.getSortedTasks().filter(task => this.matches(task, query));
+    }
+
+    /**
+     * Check whether a task matches a parsed query.
+     *
+     * @param task - Task to check
+     * @param query - Parsed query
+     * @returns True if task matches
+     */
+    matches(task: Task, query: Query): boolean {
+        switch (query.type) {
+            case "text":
+                return task.title.toLowerCase().includes(query.value)
+                    || task.description.toLowerCase().includes(query.value);
+            case "state":
+                return this.hasState(task, query.state);
+            case "tag":
+                return task.hasTag(query.tag);
+            case "priority":
+                return compare(PRIORITIES.indexOf(task.priority), query.comparison, PRIORITIES.indexOf(query.priority));
+            case "date":
+                return compareDate(DATE_FIELDS[query.field](task), query.comparison, query.date);
+            case "not":
+                return !this.matches(task, query.query);
+            case "and":
+                return query.queries.every(subquery => this.matches(task, subquery));
+            case "or":
+                return query.queries.some(subquery => this.matches(task, subquery));
+        }
+    }
+
+    /** Evaluate `is:<state>` for a task. */
+    private hasState(task: Task, state: State): boolean {
+        switch (state) {
+            case "pending":
+            case "open":
+                return !task.completed;
+            case "completed":
+            case "done":
+                return task.completed;
+            case "overdue":
+                return task.isOverdue();
+            case "blocked":
+                return !task.completed && this.taskManager.getOpenBlockers(task.id).length > 0;
+            case "ready":
+                return !task.completed && this.taskManager.getOpenBlockers(task.id).length === 0;
+            case "recurring":
+                return task.recurrence !== undefined;
+            case "subtask":
+                return task.parentId !== undefined;
+        }
+    }
+}
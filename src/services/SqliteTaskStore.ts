@@ -0,0 +1,352 @@
+import type { DatabaseSync, SQLInputValue } from "node:sqlite";
+import { PRIORITIES, Task, type TaskData } from "../models/Task.js";
+import { TaskChange } from "../models/TaskChange.js";
+import { formatRecurrence, parseRecurrence } from "../models/Recurrence.js";
+import { timeEntryToJSON } from "../models/TimeEntry.js";
+import { TaskManager, type TaskQuery, type TaskQueryBackend } from "../managers/TaskManager.js";
+import { FileStore } from "./FileStore.js";
+
+/** Tables and indexes, created on first use */
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS tasks (
+        id INTEGER PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        completed INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        completed_at TEXT,
+        due_at TEXT,
+        priority TEXT NOT NULL DEFAULT 'normal',
+        tags TEXT NOT NULL DEFAULT '[]',
+        parent_id INTEGER,
+        blocked_by TEXT NOT NULL DEFAULT '[]',
+        recurrence TEXT,
+        time_entries TEXT NOT NULL DEFAULT '[]'
+    );
+    CREATE INDEX IF NOT EXISTS tasks_completed ON tasks (completed);
+    CREATE INDEX IF NOT EXISTS tasks_due_at ON tasks (due_at);
+    CREATE INDEX IF NOT EXISTS tasks_created_at ON tasks (created_at);
+
+    CREATE TABLE IF NOT EXISTS task_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        task_id INTEGER NOT NULL,
+        field TEXT NOT NULL,
+        old_value TEXT NOT NULL,
+        new_value TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS task_history_task_id ON task_history (task_id);
+`;
+
+/** Columns added after the first release, added to older databases when opened */
+const ADDED_COLUMNS: Record<string, string> = {
+    time_entries: `TEXT NOT NULL DEFAULT '[]'`
+};
+
+/** Task columns in insert order */
+const COLUMNS = [
+    "id", "title", "description", "completed", "created_at", "updated_at", "completed_at",
+    "due_at", "priority", "tags", "parent_id", "blocked_by", "recurrence", "time_entries"
+] as const;
+
+/**
+ * ORDER BY clause matching `compareTasks`: higher priority first, then earlier
+ * due date (none last), then older tasks, then lower ID.
+ */
+const PRIORITY_ORDER = `CASE priority ${PRIORITIES.map((priority, rank) => `WHEN '${priority}' THEN ${rank}`).join(" ")} END DESC,
+    due_at IS NULL, due_at, created_at, id`;
+
+/**
+ * SQLite task store - Persists tasks in a SQLite database via `node:sqlite`
+ * (Node.js 22.5 or newer).
+ *
+ * Responsibilities:
+ * - Incremental saves: only inserts, updates and deletes rows that changed
+ *   since the last load/save, inside one transaction
+ * - Appends new change history entries instead of rewriting them
+ * - Indexes for status and date queries
+ * - Answers pending/completed/overdue queries of a connected TaskManager in SQL
+ *
+ * Existing CSV or JSON data can be imported once with `convertTasks`
+ * (`convert tasks.csv tasks.db` on the command line).
+ */
+export class SqliteTaskStore extends FileStore implements TaskQueryBackend {
+    /** Open database connection (opened lazily) */
+    private database?: DatabaseSync;
+
+    /** Serialized task rows as last loaded/saved, by task ID (used to detect changes) */
+    private savedRows?: Map<number, string>;
+
+    /** Number of history entries in the database */
+    private savedHistoryCount?: number;
+
+    /**
+     * Constructor
+     *
+     * @param filename - Name of database file (default `tasks.db`)
+     */
+    constructor(filename: string = "tasks.db") {
+        super(filename);
+    }
+
+    protected openBackup(filename: string): SqliteTaskStore {
+        return new SqliteTaskStore(filename);
+    }
+
+    /**
+     * Load all tasks from the database (empty if it doesn't exist yet).
+     *
+     * @returns Array of successfully loaded tasks
+     */
+    async loadTasks(): Promise<Task[]> {
+        const database = await this.open();
+        const rows = database.prepare(`SELECT * FROM tasks ORDER BY id`).all();
+
+        const tasks: Task[] = [];
+        const errors: string[] = [];
+        this.savedRows = new Map();
+
+        for (const row of rows) {
+            try {
+                const task = Task.fromJSON(this.toTaskData(row));
+                tasks.push(task);
+                this.savedRows.set(task.id, JSON.stringify(task));
+            } catch (e) {
+                errors.push(`Row ${row["id"]}: ${e instanceof Error ? e.message : "Unknown error"}`);
+            }
+        }
+
+        // Report partial parse errors; continue loading valid data
+        if (errors.length > 0) {
+            console.warn("⚠️ Some rows could not be loaded:");
+            errors.forEach(e => console.warn(`    -${e}`));
+        }
+
+        this.log(`📂 Loaded ${tasks.length} tasks from ${this.filePath}`);
+        return tasks;
+    }
+
+    /**
+     * Load task change history from the database.
+     *
+     * @returns Recorded changes, oldest first
+     */
+    async loadHistory(): Promise<TaskChange[]> {
+        const database = await this.open();
+        const rows = database.prepare(`SELECT * FROM task_history ORDER BY id`).all();
+
+        this.savedHistoryCount = rows.length;
+
+        return rows.map(row => new TaskChange(
+            Number(row["task_id"]),
+            String(row["field"]),
+            String(row["old_value"]),
+            String(row["new_value"]),
+            new Date(String(row["timestamp"]))
+        ));
+    }
+
+    /**
+     * Save changed tasks and new history entries in a single transaction.
+     * Afterwards the TaskManager pushes status queries down to this store.
+     *
+     * @param taskManager - TaskManager tasks that should be saved
+     */
+    async saveTasks(taskManager: TaskManager): Promise<void> {
+        const database = await this.open();
+
+        try {
+            const savedRows = this.savedRows ?? this.readSavedRows(database);
+            const currentRows = new Map(taskManager.getAllTasks().map(task => [task.id, JSON.stringify(task)]));
+            const upsert = database.prepare(
+                `INSERT OR REPLACE INTO tasks (${COLUMNS.join(", ")}) VALUES (${COLUMNS.map(() => "?").join(", ")})`
+            );
+            const remove = database.prepare(`DELETE FROM tasks WHERE id = ?`);
+            let written = 0;
+
+            database.exec("BEGIN");
+
+            try {
+                for (const task of taskManager.getAllTasks()) {
+                    if (savedRows.get(task.id) !== currentRows.get(task.id)) {
+                        upsert.run(...this.toRow(task));
+                        written++;
+                    }
+                }
+
+                for (const id of savedRows.keys()) {
+                    if (!currentRows.has(id)) {
+                        remove.run(id);
+                        written++;
+                    }
+                }
+
+                this.saveHistory(database, taskManager.getChanges());
+                database.exec("COMMIT");
+            } catch (e) {
+                database.exec("ROLLBACK");
+                throw e;
+            }
+
+            this.savedRows = currentRows;
+            taskManager.setQueryBackend(this);
+
+            console.log(`📩 Saved ${currentRows.size} tasks to ${this.filePath} (${written} row(s) changed)`);
+        } catch (e) {
+            console.error("❌ Error saving tasks:", e);
+            throw new Error(`Failed to save tasks: ${e instanceof Error ? e.message : "Unknown Error"}`);
+        }
+    }
+
+    /** Let a TaskManager holding the tasks loaded from this store push queries down. */
+    connect(taskManager: TaskManager): void {
+        taskManager.setQueryBackend(this);
+    }
+
+    /**
+     * Answer a status query with SQL (uses the status and due date indexes).
+     *
+     * @param query - Query to run
+     * @returns IDs of matching tasks, ordered like the TaskManager query
+     */
+    queryTaskIds(query: TaskQuery): number[] {
+        if (!this.database) return [];
+
+        const statement = query.kind === "overdue"
+            ? this.database.prepare(`SELECT id FROM tasks WHERE completed = 0 AND due_at < ? ORDER BY due_at, id`)
+            : this.database.prepare(`SELECT id FROM tasks WHERE completed = ? ORDER BY ${PRIORITY_ORDER}`);
+
+        const rows = query.kind === "overdue"
+            ? statement.all(query.now.toISOString())
+            : statement.all(query.kind === "completed" ? 1 : 0);
+
+        return rows.map(row => Number(row["id"]));
+    }
+
+    /** Close the database before deleting its file. */
+    override async deleteSaveFile(): Promise<void> {
+        this.close();
+        await super.deleteSaveFile();
+    }
+
+    /** Close database connection (reopened on next use). */
+    override close(): void {
+        this.database?.close();
+        delete this.database;
+        delete this.savedRows;
+        delete this.savedHistoryCount;
+    }
+
+    /**
+     * Open the database (once), create tables and indexes if missing
+     * and add columns missing from older databases.
+     *
+     * @throws Error if `node:sqlite` is not available in this Node.js version
+     */
+    private async open(): Promise<DatabaseSync> {
+        if (this.database) return this.database;
+
+        // Loaded on first use, so other storage formats keep working on older Node.js versions
+        const sqlite = process.getBuiltinModule?.("node:sqlite");
+
+        if (!sqlite) {
+            throw new Error(`SQLite storage requires Node.js 22.5 or newer (running ${process.version})`);
+        }
+
+        await this.ensureDirectoryExists();
+
+        this.database = new sqlite.DatabaseSync(this.filePath);
+        this.database.exec(SCHEMA);
+
+        const existing = new Set(this.database.prepare(`PRAGMA table_info(tasks)`).all().map(column => column["name"]));
+
+        for (const [name, definition] of Object.entries(ADDED_COLUMNS)) {
+            if (!existing.has(name)) this.database.exec(`ALTER TABLE tasks ADD COLUMN ${name} ${definition}`);
+        }
+
+        return this.database;
+    }
+
+    /** Read serialized rows of the database (first save without prior load). */
+    private readSavedRows(database: DatabaseSync): Map<number, string> {
+        const rows = database.prepare(`SELECT * FROM tasks`).all();
+        const tasks = rows.map(row => Task.fromJSON(this.toTaskData(row)));
+
+        return new Map(tasks.map(task => [task.id, JSON.stringify(task)]));
+    }
+
+    /**
+     * Append history entries added since the last load/save.
+     * Rewrites the whole history if it was replaced by a shorter one.
+     */
+    private saveHistory(database: DatabaseSync, changes: TaskChange[]): void {
+        const savedCount = this.savedHistoryCount
+            ?? Number(database.prepare(`SELECT COUNT(*) AS count FROM task_history`).get()?.["count"] ?? 0);
+        let newChanges = changes.slice(savedCount);
+
+        if (changes.length < savedCount) {
+            database.exec(`DELETE FROM task_history`);
+            newChanges = changes;
+        }
+
+        const insert = database.prepare(
+            `INSERT INTO task_history (timestamp, task_id, field, old_value, new_value) VALUES (?, ?, ?, ?, ?)`
+        );
+
+        for (const change of newChanges) {
+            insert.run(change.timestamp.toISOString(), change.taskId, change.field, change.oldValue, change.newValue);
+        }
+
+        this.savedHistoryCount = changes.length;
+    }
+
+    /** Convert a task into column values (in `COLUMNS` order). */
+    private toRow(task: Task): SQLInputValue[] {
+        return [
+            task.id,
+            task.title,
+            task.description,
+            task.completed ? 1 : 0,
+            task.createdAt.toISOString(),
+            task.updatedAt.toISOString(),
+            task.completedAt?.toISOString() ?? null,
+            task.dueAt?.toISOString() ?? null,
+            task.priority,
+            JSON.stringify([...task.tags]),
+            task.parentId ?? null,
+            JSON.stringify([...task.blockedBy]),
+            task.recurrence ? formatRecurrence(task.recurrence) : null,
+            JSON.stringify(task.timeEntries.map(timeEntryToJSON))
+        ];
+    }
+
+    /** Convert a database row into the JSON task representation. */
+    private toTaskData(row: Record<string, unknown>): TaskData {
+        const data = {
+            id: Number(row["id"]),
+            title: row["title"],
+            description: row["description"],
+            completed: row["completed"] === 1,
+            createdAt: row["created_at"],
+            updatedAt: row["updated_at"],
+            priority: row["priority"],
+            tags: JSON.parse(String(row["tags"])),
+            blockedBy: JSON.parse(String(row["blocked_by"]))
+        } as TaskData;
+
+        if (row["completed_at"] !== null) data.completedAt = String(row["completed_at"]);
+        if (row["due_at"] !== null) data.dueAt = String(row["due_at"]);
+        if (row["parent_id"] !== null) data.parentId = Number(row["parent_id"]);
+
+        if (row["recurrence"] !== null) {
+            const rule = parseRecurrence(String(row["recurrence"]));
+            if (rule) data.recurrence = rule;
+        }
+
+        const timeEntries = JSON.parse(String(row["time_entries"]));
+        if (Array.isArray(timeEntries) && timeEntries.length > 0) data.timeEntries = timeEntries;
+
+        return data;
+    }
+}
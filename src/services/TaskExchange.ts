@@ -0,0 +1,79 @@
+import { extname } from "path";
+import { TaskManager } from "../managers/TaskManager.js";
+import { TodoTxtService } from "./TodoTxtService.js";
+import { ICalendarService } from "./ICalendarService.js";
+import { ReportService, reportFormatFromPath, type ReportFormat } from "./ReportService.js";
+import type { TaskImportResult } from "./TaskImport.js";
+
+/** File formats tasks can be imported from (and exported to). */
+export type ExchangeFormat = "todo.txt" | "icalendar";
+
+/** Formats of `exportTasksFile`: exchange formats plus reports. */
+export type ExportFormat = ExchangeFormat | ReportFormat;
+
+/** Exchange format for each supported file extension */
+const EXCHANGE_EXTENSIONS: Record<string, ExchangeFormat> = {
+    ".txt": "todo.txt",
+    ".ics": "icalendar"
+};
+
+/** Supported extensions, for error and help messages */
+export const IMPORT_EXTENSIONS = ".txt or .ics";
+export const EXPORT_EXTENSIONS = ".txt, .ics, .md or .html";
+
+/** Import format of a file by extension (undefined if unsupported). */
+export function importFormatFromPath(path: string): ExchangeFormat | undefined {
+    return EXCHANGE_EXTENSIONS[extname(path).toLowerCase()];
+}
+
+/** Export format of a file by extension (undefined if unsupported). */
+export function exportFormatFromPath(path: string): ExportFormat | undefined {
+    return importFormatFromPath(path) ?? reportFormatFromPath(path);
+}
+
+/**
+ * Import a todo.txt (`.txt`) or iCalendar (`.ics`) file, skipping tasks that already exist.
+ *
+ * @param taskManager - Tasks to import into
+ * @param path - Path of the file
+ * @throws Error if the extension is not supported
+ */
+export async function importTasksFile(taskManager: TaskManager, path: string): Promise<TaskImportResult> {
+    switch (importFormatFromPath(path)) {
+        case "todo.txt":
+            return new TodoTxtService(taskManager).importFile(path);
+        case "icalendar":
+            return new ICalendarService(taskManager).importFile(path);
+        default:
+            throw new Error(`Unsupported import format: ${path} (expected ${IMPORT_EXTENSIONS})`);
+    }
+}
+
+/**
+ * Write all tasks to a todo.txt, iCalendar, Markdown or HTML file (overwrites it).
+ *
+ * @param taskManager - Tasks to export
+ * @param path - Path of the file
+ * @returns Format that was written
+ * @throws Error if the extension is not supported
+ */
+export async function exportTasksFile(taskManager: TaskManager, path: string): Promise<ExportFormat> {
+    const format = exportFormatFromPath(path);
+
+    switch (format) {
+        case "todo.txt":
+            await new TodoTxtService(taskManager).exportFile(path);
+            break;
+        case "icalendar":
+            await new ICalendarService(taskManager).exportFile(path);
+            break;
+        case "markdown":
+        case "html":
+            await new ReportService(taskManager).exportFile(path);
+            break;
+        default:
+            throw new Error(`Unsupported export format: ${path} (expected ${EXPORT_EXTENSIONS})`);
+    }
+
+    return format;
+}
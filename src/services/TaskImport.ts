@@ -0,0 +1,55 @@
+import { Task } from "../models/Task.js";
+import { TaskManager } from "../managers/TaskManager.js";
+import { startOfDay } from "../utils/date.js";
+
+/** Result of importing tasks from a file. */
+export interface TaskImportResult {
+    /** Tasks added to the TaskManager */
+    imported: Task[];
+    /** Titles of entries skipped because the task already exists */
+    duplicates: string[];
+}
+
+/** Fields that identify an imported entry as an existing task. */
+export interface ImportCandidate {
+    title: string;
+    dueAt?: Date;
+}
+
+/** Key identifying duplicate tasks: title (case-insensitive) and due day. */
+function duplicateKey({ title, dueAt }: ImportCandidate): string {
+    return `${title.trim().toLowerCase()}|${dueAt ? startOfDay(dueAt).getTime() : ""}`;
+}
+
+/**
+ * Add parsed entries as new tasks in one undoable change, skipping entries
+ * with the same title (case-insensitive) and due day as an existing task
+ * or an earlier entry.
+ *
+ * @param taskManager - Tasks to import into
+ * @param candidates - Parsed entries in file order
+ * @param createTask - Builds a task from an entry (only called for new entries, so no IDs are wasted)
+ */
+export function importNewTasks<T extends ImportCandidate>(
+    taskManager: TaskManager,
+    candidates: T[],
+    createTask: (candidate: T) => Task
+): TaskImportResult {
+    const result: TaskImportResult = { imported: [], duplicates: [] };
+    const existing = new Set(taskManager.getAllTasks().map(duplicateKey));
+
+    for (const candidate of candidates) {
+        const key = duplicateKey(candidate);
+
+        if (existing.has(key)) {
+            result.duplicates.push(candidate.title);
+            continue;
+        }
+
+        existing.add(key);
+        result.imported.push(createTask(candidate));
+    }
+
+    taskManager.importTasks(result.imported);
+    return result;
+}
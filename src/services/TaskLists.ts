@@ -0,0 +1,246 @@
+import { promises as fileSystem } from "fs";
+import { basename, join } from "path";
+import { Task } from "../models/Task.js";
+import { TaskManager } from "../managers/TaskManager.js";
+import { createTaskStore, type StoreFormat, type TaskStore } from "./TaskStore.js";
+import { resolveDataDirectory } from "./Config.js";
+
+/** Name of the list stored in the configured save file */
+export const DEFAULT_LIST = "default";
+
+/** Folder of the named lists inside the data directory */
+const LISTS_FOLDER = "lists";
+
+/** Letters, digits, spaces, `-` and `_` (starting with a letter or digit) */
+const LIST_NAME_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]{0,39}$/u;
+
+/**
+ * Task lists - Named, separately stored task lists (e.g. work, home, side project).
+ *
+ * - The `default` list is the configured save file (`TASKS_FILE`, else `tasks.csv`)
+ * - Every other list has its own folder, `lists/<name>/` in the data directory, holding a save file
+ *   of the same name and format plus its own history, backups, lock and journal
+ * - Copied tasks get new IDs above the target list's IDs, so IDs never clash
+ */
+export class TaskLists {
+    /** Save file of the default list */
+    private readonly saveFile: string;
+
+    /**
+     * Constructor
+     *
+     * @param saveFile - Save file of the default list (default from `TASKS_FILE`, else `tasks.csv`)
+     * @param format - Force a storage format for all lists (see `createTaskStore`)
+     */
+    constructor(saveFile?: string, private readonly format?: StoreFormat) {
+        this.saveFile = saveFile ?? process.env["TASKS_FILE"] ?? "tasks.csv";
+    }
+
+    /**
+     * Names of all lists: `default` first, then the named lists alphabetically.
+     */
+    async names(): Promise<string[]> {
+        let entries;
+
+        try {
+            entries = await fileSystem.readdir(this.dataPath(LISTS_FOLDER), { withFileTypes: true });
+        } catch (e) {
+            if ((e as any).code === "ENOENT") return [DEFAULT_LIST];
+            throw e;
+        }
+
+        const names: string[] = [];
+
+        for (const entry of entries) {
+            if (entry.isDirectory() && LIST_NAME_PATTERN.test(entry.name) && await this.exists(entry.name)) {
+                names.push(entry.name);
+            }
+        }
+
+        return [DEFAULT_LIST, ...names.sort((a, b) => a.localeCompare(b))];
+    }
+
+    /** Check whether a list exists (the default list always does). */
+    async exists(name: string): Promise<boolean> {
+        if (name === DEFAULT_LIST) return true;
+
+        try {
+            await fileSystem.access(this.dataPath(this.fileOf(name)));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Create a store for a list.
+     *
+     * @param name - List name
+     * @throws Error if the name is invalid
+     */
+    open(name: string): TaskStore {
+        if (name !== DEFAULT_LIST) this.assertValidName(name);
+
+        return createTaskStore(this.fileOf(name), this.format);
+    }
+
+    /**
+     * Create a new, empty list.
+     *
+     * @param name - List name (letters, digits, spaces, `-` and `_`)
+     * @throws Error if the name is invalid or the list exists
+     */
+    async create(name: string): Promise<void> {
+        await this.assertNewName(name);
+
+        const store = this.open(name);
+
+        try {
+            await store.saveTasks(new TaskManager());
+        } finally {
+            store.close?.();
+        }
+    }
+
+    /**
+     * Rename a list (its whole folder: save file, history, backups and journal).
+     *
+     * @param name - List to rename
+     * @param newName - New name of the list
+     * @param lockedStore - Store of this session holding the list's lock (e.g. of the active list);
+     *                      its lock moves along and is left to the caller to take over under the new name
+     * @throws Error if a list is missing, the default list, or the new name is taken
+     * @throws TaskFileLockedError if the list is open in another session
+     */
+    async rename(name: string, newName: string, lockedStore?: TaskStore): Promise<void> {
+        await this.assertNamedList(name);
+        await this.assertNewName(newName);
+
+        const store = lockedStore ?? this.open(name);
+        const ownLock = store !== lockedStore;
+
+        if (ownLock) await store.lock?.();
+
+        try {
+            await fileSystem.rename(this.dataPath(LISTS_FOLDER, name), this.dataPath(LISTS_FOLDER, newName));
+        } finally {
+            // After the move the lock file is gone from the old folder, so this only forgets it
+            if (ownLock) {
+                await store.unlock?.();
+                store.close?.();
+            }
+        }
+
+        if (!ownLock) return;
+
+        // The lock file moved along, release it under the new name
+        const renamed = this.open(newName);
+        await renamed.lock?.();
+        await renamed.unlock?.();
+        renamed.close?.();
+    }
+
+    /**
+     * Delete a list with its history, backups and journal.
+     *
+     * @throws Error if the list is missing or the default list
+     * @throws TaskFileLockedError if the list is open in another session
+     */
+    async delete(name: string): Promise<void> {
+        await this.assertNamedList(name);
+
+        const store = this.open(name);
+
+        try {
+            await store.lock?.();
+            await fileSystem.rm(this.dataPath(LISTS_FOLDER, name), { recursive: true, force: true });
+        } finally {
+            // The lock file is gone with the folder, this only forgets it
+            await store.unlock?.();
+            store.close?.();
+        }
+    }
+
+    /**
+     * Copy tasks into another list and save it.
+     * Copies get new IDs above the target's highest ID; parent and dependency
+     * references between copied tasks follow, references to other tasks are dropped.
+     *
+     * @param tasks - Tasks to copy (include subtasks to keep them)
+     * @param name - Target list
+     * @returns The copies, as added to the target list
+     * @throws Error if the target list doesn't exist
+     * @throws TaskFileLockedError if the target list is open in another session
+     */
+    async copyTasks(tasks: Task[], name: string): Promise<Task[]> {
+        if (!(await this.exists(name))) throw new Error(`Unknown task list: ${name}`);
+
+        const store = this.open(name);
+        await store.lock?.();
+
+        try {
+            const taskManager = new TaskManager();
+            taskManager.setTasks(await store.loadTasks());
+            taskManager.setChanges(await store.loadHistory());
+
+            const firstId = Math.max(0, ...taskManager.getAllTasks().map(task => task.id)) + 1;
+            const copies = copyWithNewIds(tasks, firstId);
+
+            taskManager.importTasks(copies);
+            await store.saveTasks(taskManager);
+            return copies;
+        } finally {
+            await store.unlock?.();
+            store.close?.();
+        }
+    }
+
+    /** Save file of a list, relative to the data directory. */
+    private fileOf(name: string): string {
+        return name === DEFAULT_LIST ? this.saveFile : join(LISTS_FOLDER, name, basename(this.saveFile));
+    }
+
+    /** Full path inside the data directory. */
+    private dataPath(...segments: string[]): string {
+        return join(resolveDataDirectory().path, ...segments);
+    }
+
+    private assertValidName(name: string): void {
+        if (!LIST_NAME_PATTERN.test(name)) {
+            throw new Error(`Invalid list name: "${name}" (use up to 40 letters, digits, spaces, - or _)`);
+        }
+    }
+
+    private async assertNewName(name: string): Promise<void> {
+        this.assertValidName(name);
+
+        if (name === DEFAULT_LIST || await this.exists(name)) {
+            throw new Error(`Task list already exists: ${name}`);
+        }
+    }
+
+    private async assertNamedList(name: string): Promise<void> {
+        if (name === DEFAULT_LIST) throw new Error("The default list can't be renamed or deleted");
+        if (!(await this.exists(name))) throw new Error(`Unknown task list: ${name}`);
+    }
+}
+
+/**
+ * Copy tasks with consecutive new IDs, remapping parent and dependency
+ * references between them (references to other tasks are dropped).
+ */
+function copyWithNewIds(tasks: Task[], firstId: number): Task[] {
+    const newIds = new Map(tasks.map((task, index) => [task.id, firstId + index]));
+
+    return tasks.map(task => {
+        const { parentId, ...data } = task.toJSON();
+        const newParentId = parentId !== undefined ? newIds.get(parentId) : undefined;
+
+        return Task.fromJSON({
+            ...data,
+            id: newIds.get(task.id)!,
+            ...(newParentId !== undefined ? { parentId: newParentId } : {}),
+            blockedBy: data.blockedBy.flatMap(id => newIds.has(id) ? [newIds.get(id)!] : [])
+        });
+    });
+}
@@ -0,0 +1,372 @@
+import { Task } from "../models/Task.js";
+import { TaskChange } from "../models/TaskChange.js";
+import { formatRecurrence } from "../models/Recurrence.js";
+import { formatTimeEntries, parseTimeEntries, type TimeEntry } from "../models/TimeEntry.js";
+
+/** Task fields merged one by one (completion is merged as a whole, by `completedAt`) */
+export const MERGE_FIELDS = ["title", "description", "priority", "dueAt", "tags", "parentId", "blockedBy", "recurrence"] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+/** Side of a merge: this session / first file, or the other copy. */
+export type MergeSide = "local" | "remote";
+
+/** A field changed to different values on both sides. */
+export interface MergeConflict {
+    /** Merged task (holds the value of the `resolution` side) */
+    task: Task;
+    field: MergeField;
+    /** Both versions of the task */
+    local: Task;
+    remote: Task;
+    /** Side whose value is kept, initially the one that changed the field more recently */
+    resolution: MergeSide;
+}
+
+/** A local task that got a new ID because the other side used its ID for a different task. */
+export interface RenumberedTask {
+    from: number;
+    to: number;
+}
+
+/** Outcome of merging two edited copies of the same task list. */
+export interface TaskMergeResult {
+    /** Merged tasks */
+    tasks: Task[];
+    /** Fields changed on both sides (already resolved, see `resolveConflict`) */
+    conflicts: MergeConflict[];
+    /** Local tasks moved to a new ID */
+    renumbered: RenumberedTask[];
+}
+
+/** Change histories of both sides, for the time of each field change. */
+export interface MergeHistories {
+    local?: TaskChange[];
+    remote?: TaskChange[];
+}
+
+/** Latest change time by task identity and field name. */
+type ChangeTimes = Map<string, Map<string, Date>>;
+
+/**
+ * Stable identity of a task across copies of a task list.
+ * IDs alone aren't enough: two copies can each create a different task #5,
+ * but never at the same millisecond.
+ */
+export function taskIdentity(task: Task): string {
+    return `${task.id}@${task.createdAt.toISOString()}`;
+}
+
+/**
+ * Three-way merge of task lists (e.g. the same save file edited on two
+ * laptops, or in this session and a spreadsheet). Tasks are matched by
+ * `taskIdentity`; `base` is the version both sides started from (empty if unknown).
+ *
+ * - Fields changed on one side only are taken from that side; `updatedAt` becomes the later of both
+ * - Tags and dependencies changed on both sides combine additions and removals of both
+ * - Time entries combine those of both sides (a timer stopped on either side is stopped)
+ * - Completion changed on both sides: the more recent change wins (`completedAt`, else time of reopening)
+ * - Other fields changed on both sides are conflicts, resolved to the side that changed
+ *   the field more recently (change history, else `updatedAt`; local on ties).
+ *   Without a base every differing field is such a conflict.
+ * - Tasks added on either side are kept; local ones whose ID the remote side uses for a different task get a new ID
+ * - Tasks deleted on one side are deleted, unless the other side changed them
+ *
+ * @param base - Tasks both sides started from
+ * @param local - Tasks of this side
+ * @param remote - Tasks of the other side
+ * @param histories - Change histories of both sides (optional)
+ * @returns Merged tasks (remote order, followed by local additions)
+ */
+export function mergeTasks(base: Task[], local: Task[], remote: Task[], histories: MergeHistories = {}): TaskMergeResult {
+    const localTimes = indexChangeTimes(local, histories.local);
+    const remoteTimes = indexChangeTimes(remote, histories.remote);
+
+    // Make room for remote tasks: local tasks whose ID the remote side uses for another task
+    const remoteIdentities = new Map(remote.map(task => [task.id, taskIdentity(task)]));
+    const baseIdentities = new Map(base.map(task => [task.id, taskIdentity(task)]));
+    let nextId = Math.max(0, ...[...base, ...local, ...remote].map(task => task.id)) + 1;
+    const newIds = new Map<number, number>();
+
+    for (const task of local) {
+        const remoteIdentity = remoteIdentities.get(task.id);
+
+        if (remoteIdentity !== undefined && remoteIdentity !== taskIdentity(task)) newIds.set(task.id, nextId++);
+    }
+
+    // The base copy of a renumbered task moves along, so its fields compare equal
+    const baseNewIds = new Map([...newIds].filter(([id]) =>
+        baseIdentities.get(id) === taskIdentity(local.find(task => task.id === id)!)));
+
+    const byIdentity = (tasks: Task[], ids: Map<number, number>) =>
+        new Map(tasks.map(task => [taskIdentity(task), withNewIds(task, ids)]));
+
+    const baseByIdentity = byIdentity(base, baseNewIds);
+    const localByIdentity = byIdentity(local, newIds);
+    const remoteByIdentity = byIdentity(remote, new Map());
+    const result: TaskMergeResult = { tasks: [], conflicts: [], renumbered: [] };
+
+    for (const [identity, theirs] of remoteByIdentity) {
+        const original = baseByIdentity.get(identity);
+        const ours = localByIdentity.get(identity);
+
+        if (ours) {
+            result.tasks.push(mergeTask(original, ours, theirs, result.conflicts, [localTimes, remoteTimes]));
+        } else if (!original || !sameTask(original, theirs)) {
+            // Kept if added remotely, or deleted locally but changed remotely
+            result.tasks.push(theirs);
+        }
+    }
+
+    for (const [identity, ours] of localByIdentity) {
+        if (remoteByIdentity.has(identity)) continue;
+
+        const original = baseByIdentity.get(identity);
+
+        // Kept if added locally, or deleted remotely but changed locally
+        if (!original || !sameTask(original, ours)) result.tasks.push(ours);
+    }
+
+    for (const [from, to] of newIds) {
+        if (result.tasks.some(task => task.id === to)) result.renumbered.push({ from, to });
+    }
+
+    return result;
+}
+
+/**
+ * Combine the change histories of both sides (e.g. to save them with the merged tasks),
+ * so later merges still know when each field was changed.
+ * Changes both sides recorded before they diverged are kept once.
+ *
+ * @returns All changes, oldest first (local first on equal timestamps)
+ */
+export function mergeHistories(local: TaskChange[], remote: TaskChange[]): TaskChange[] {
+    const merged = new Map([...local, ...remote].map(change => [change.toCsvRow(), change]));
+
+    return [...merged.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Change the value of a conflicting field to the other side's value
+ * (e.g. after asking the user).
+ */
+export function resolveConflict(conflict: MergeConflict, side: MergeSide): void {
+    copyField(conflict.task, conflict[side], conflict.field);
+    conflict.resolution = side;
+}
+
+/** Text form of a task field for conflict listings, e.g. `"Buy milk"`, `home, work` or `(none)`. */
+export function formatMergeValue(task: Task, field: MergeField): string {
+    switch (field) {
+        case "title":
+        case "description":
+            return JSON.stringify(task[field]);
+        case "dueAt":
+            return task.dueAt?.toLocaleString() ?? "(none)";
+        case "tags":
+        case "blockedBy":
+            return task[field].size > 0 ? [...task[field]].join(", ") : "(none)";
+        case "parentId":
+            return task.parentId !== undefined ? `#${task.parentId}` : "(none)";
+        case "recurrence":
+            return task.recurrence ? formatRecurrence(task.recurrence) : "(none)";
+        default:
+            return task[field];
+    }
+}
+
+/**
+ * Merge the local and remote version of one task.
+ *
+ * @param original - Base version (undefined if added on both sides or no base known)
+ * @param conflicts - Receives conflicts of this task
+ * @param times - Change times of the local and remote side
+ * @returns `ours` if both versions are equal, else a merged copy
+ */
+function mergeTask(original: Task | undefined, ours: Task, theirs: Task, conflicts: MergeConflict[], [localTimes, remoteTimes]: [ChangeTimes, ChangeTimes]): Task {
+    if (sameTask(ours, theirs)) return ours;
+
+    const merged = Task.fromJSON(ours.toJSON());
+
+    for (const field of MERGE_FIELDS) {
+        const localValue = fieldValue(ours, field);
+        const remoteValue = fieldValue(theirs, field);
+
+        if (localValue === remoteValue) continue;
+
+        const baseValue = original && fieldValue(original, field);
+
+        if (baseValue === localValue) {
+            copyField(merged, theirs, field);
+        } else if (baseValue === remoteValue) {
+            // Keep local value
+        } else if (original && field === "tags") {
+            merged.tags = mergeSets(original.tags, ours.tags, theirs.tags);
+        } else if (original && field === "blockedBy") {
+            merged.blockedBy = mergeSets(original.blockedBy, ours.blockedBy, theirs.blockedBy);
+        } else {
+            const remoteIsNewer = changeTime(remoteTimes, theirs, field) > changeTime(localTimes, ours, field);
+            const conflict: MergeConflict = { task: merged, field, local: ours, remote: theirs, resolution: "local" };
+
+            if (remoteIsNewer) resolveConflict(conflict, "remote");
+            conflicts.push(conflict);
+        }
+    }
+
+    const localCompletion = completionValue(ours);
+    const remoteCompletion = completionValue(theirs);
+
+    if (localCompletion !== remoteCompletion) {
+        const baseCompletion = original && completionValue(original);
+        const takeRemote = baseCompletion === localCompletion
+            || (baseCompletion !== remoteCompletion && completionTime(remoteTimes, theirs) > completionTime(localTimes, ours));
+
+        if (takeRemote) {
+            merged.completed = theirs.completed;
+
+            if (theirs.completedAt) merged.completedAt = new Date(theirs.completedAt);
+            else delete merged.completedAt;
+        }
+    }
+
+    if (formatTimeEntries(ours.timeEntries) !== formatTimeEntries(theirs.timeEntries)) {
+        merged.timeEntries = mergeTimeEntries(original?.timeEntries ?? [], ours.timeEntries, theirs.timeEntries);
+    }
+
+    merged.updatedAt = new Date(Math.max(ours.updatedAt.getTime(), theirs.updatedAt.getTime()));
+    return merged;
+}
+
+/** True if both tasks have the same field values. */
+function sameTask(a: Task, b: Task): boolean {
+    return JSON.stringify(a.toJSON()) === JSON.stringify(b.toJSON());
+}
+
+/** Comparable form of a field value. */
+function fieldValue(task: Task, field: MergeField): string {
+    return JSON.stringify(task.toJSON()[field] ?? null);
+}
+
+/** Comparable form of the completion state. */
+function completionValue(task: Task): string {
+    return `${task.completed}@${task.completedAt?.toISOString() ?? ""}`;
+}
+
+/** Set the field of `target` to the value of `source`. */
+function copyField(target: Task, source: Task, field: MergeField): void {
+    switch (field) {
+        case "title":
+            target.title = source.title;
+            break;
+        case "description":
+            target.description = source.description;
+            break;
+        case "priority":
+            target.priority = source.priority;
+            break;
+        case "tags":
+            target.tags = new Set(source.tags);
+            break;
+        case "blockedBy":
+            target.blockedBy = new Set(source.blockedBy);
+            break;
+        case "dueAt":
+            if (source.dueAt) target.dueAt = new Date(source.dueAt);
+            else delete target.dueAt;
+            break;
+        case "parentId":
+            if (source.parentId !== undefined) target.parentId = source.parentId;
+            else delete target.parentId;
+            break;
+        case "recurrence":
+            if (source.recurrence) target.recurrence = source.recurrence;
+            else delete target.recurrence;
+            break;
+    }
+}
+
+/** Three-way merge of a set: values removed on either side are removed, values added on either side are added. */
+function mergeSets<T>(base: Set<T>, local: Set<T>, remote: Set<T>): Set<T> {
+    const merged = new Set([...base].filter(value => local.has(value) && remote.has(value)));
+
+    for (const value of [...local, ...remote]) {
+        if (!base.has(value)) merged.add(value);
+    }
+
+    return merged;
+}
+
+/**
+ * Three-way merge of time entries (as a set, see `mergeSets`).
+ * Entries with the same start are one entry: stopped beats running, else the later end wins.
+ */
+function mergeTimeEntries(base: TimeEntry[], local: TimeEntry[], remote: TimeEntry[]): TimeEntry[] {
+    const serialized = (entries: TimeEntry[]) => new Set(entries.map(entry => formatTimeEntries([entry])));
+    const merged = new Map<number, TimeEntry>();
+
+    for (const text of mergeSets(serialized(base), serialized(local), serialized(remote))) {
+        const entry = parseTimeEntries(text)![0]!;
+        const existing = merged.get(entry.start.getTime());
+
+        if (!existing || (entry.end && (!existing.end || entry.end > existing.end))) {
+            merged.set(entry.start.getTime(), entry);
+        }
+    }
+
+    return [...merged.values()].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Index the latest change time of each task field from a change history.
+ * Changes from before a task was created belong to an earlier task with the same ID.
+ */
+function indexChangeTimes(tasks: Task[], history: TaskChange[] = []): ChangeTimes {
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const times: ChangeTimes = new Map();
+
+    for (const change of history) {
+        const task = tasksById.get(change.taskId);
+
+        if (!task || change.timestamp < task.createdAt) continue;
+
+        const identity = taskIdentity(task);
+        const fields = times.get(identity) ?? new Map<string, Date>();
+        const latest = fields.get(change.field);
+
+        if (!latest || change.timestamp > latest) fields.set(change.field, change.timestamp);
+        times.set(identity, fields);
+    }
+
+    return times;
+}
+
+/** When a field was last changed (`updatedAt` if the history doesn't say). */
+function changeTime(times: ChangeTimes, task: Task, field: string): number {
+    return (times.get(taskIdentity(task))?.get(field) ?? task.updatedAt).getTime();
+}
+
+/** When a task was completed or reopened. */
+function completionTime(times: ChangeTimes, task: Task): number {
+    return task.completed && task.completedAt ? task.completedAt.getTime() : changeTime(times, task, "completed");
+}
+
+/**
+ * Apply new IDs to a task: its own ID and its parent/dependency references.
+ *
+ * @returns The task itself if nothing changes, else a renumbered copy
+ */
+function withNewIds(task: Task, newIds: Map<number, number>): Task {
+    const data = task.toJSON();
+    const newId = (id: number) => newIds.get(id) ?? id;
+    const affected = [data.id, ...(data.parentId !== undefined ? [data.parentId] : []), ...data.blockedBy];
+
+    if (!affected.some(id => newIds.has(id))) return task;
+
+    return Task.fromJSON({
+        ...data,
+        id: newId(data.id),
+        ...(data.parentId !== undefined ? { parentId: newId(data.parentId) } : {}),
+        blockedBy: data.blockedBy.map(newId)
+    });
+}
@@ -0,0 +1,116 @@
+import { extname } from "path";
+import { Task } from "../models/Task.js";
+import { TaskChange } from "../models/TaskChange.js";
+import { TaskManager } from "../managers/TaskManager.js";
+import type { BackupInfo, RetentionPolicy } from "./Backups.js";
+import type { RecoveryJournal } from "./RecoveryJournal.js";
+import { FileService } from "./FileService.js";
+import { JsonFileService } from "./JsonFileService.js";
+import { SqliteTaskStore } from "./SqliteTaskStore.js";
+
+/**
+ * Task store - Storage backend used by the menu and command line.
+ * 
+ * Implementations:
+ * - `FileService`: semicolon CSV file (+ CSV change history sidecar)
+ * - `JsonFileService`: JSON document with typed fields and history
+ * - `SqliteTaskStore`: SQLite database with incremental saves and query pushdown
+ */
+export interface TaskStore {
+    /** Load tasks (empty if nothing saved yet) */
+    loadTasks(): Promise<Task[]>;
+    /** Load task change history (empty if nothing saved yet) */
+    loadHistory(): Promise<TaskChange[]>;
+    /** Save all tasks and change history, replacing previous contents */
+    saveTasks(taskManager: TaskManager): Promise<void>;
+    /** Check whether a save file exists */
+    exists(): Promise<boolean>;
+    /** Delete the save file (no-op if missing) */
+    deleteSaveFile(): Promise<void>;
+    /** Create a timestamped copy of the save file and prune old backups (returns its name) */
+    backup(): Promise<string | undefined>;
+    /** List backups with task counts, newest first */
+    listBackups(): Promise<BackupInfo[]>;
+    /** Load the tasks of a backup */
+    loadBackup(name: string): Promise<Task[]>;
+    /** Delete a backup */
+    deleteBackup(name: string): Promise<void>;
+    /** Delete backups the retention policy doesn't keep (returns deleted backups) */
+    pruneBackups(policy?: RetentionPolicy): Promise<BackupInfo[]>;
+    /** Optional: lock the save file for this session (throws `TaskFileLockedError` if locked elsewhere) */
+    lock?(): Promise<void>;
+    /** Optional: release the lock of this session */
+    unlock?(): Promise<void>;
+    /** Optional: release open resources (e.g. a database connection) */
+    close?(): void;
+    /** Optional: attach to a TaskManager holding the loaded tasks (e.g. for query pushdown) */
+    connect?(taskManager: TaskManager): void;
+    /** Optional: journal of unsaved changes, for recovery after an unclean shutdown */
+    readonly journal?: RecoveryJournal;
+    /** Optional: check whether another program changed the save file since the last load/save */
+    hasExternalChanges?(): Promise<boolean>;
+    /** Optional: tasks as last loaded/saved (base for merging external changes) */
+    getBaseTasks?(): Task[];
+    /** Optional: get notified of external changes to the save file (returns function to stop watching) */
+    watchExternalChanges?(listener: () => void): () => void;
+}
+
+/** Supported storage formats. */
+export const STORE_FORMATS = ["csv", "json", "sqlite"] as const;
+
+/** File extensions of SQLite databases */
+const SQLITE_EXTENSIONS = [".db", ".sqlite", ".sqlite3"];
+
+export type StoreFormat = typeof STORE_FORMATS[number];
+
+/**
+ * Create storage backend for a save file.
+ * 
+ * - File name: `filename` argument, else `TASKS_FILE` environment variable, else `tasks.csv`
+ * - Format: `format` argument, else `TASKS_FORMAT` environment variable,
+ *   else file extension (`.json` -> JSON, `.db`/`.sqlite`/`.sqlite3` -> SQLite, anything else -> CSV)
+ * 
+ * @param filename - Save file name inside the data directory (see `resolveDataDirectory`) or absolute path
+ * @param format - Force a storage format regardless of extension
+ * @throws Error if `TASKS_FORMAT` is not a supported format
+ */
+export function createTaskStore(filename?: string, format?: StoreFormat): TaskStore {
+    const file = filename ?? process.env["TASKS_FILE"] ?? "tasks.csv";
+    const configuredFormat = format ?? process.env["TASKS_FORMAT"]?.toLowerCase();
+
+    if (configuredFormat !== undefined && !(STORE_FORMATS as readonly string[]).includes(configuredFormat)) {
+        throw new Error(`Unknown storage format: ${configuredFormat} (use ${STORE_FORMATS.join(", ")})`);
+    }
+
+    const extension = extname(file).toLowerCase();
+    const storeFormat = configuredFormat
+        ?? (extension === ".json" ? "json" : SQLITE_EXTENSIONS.includes(extension) ? "sqlite" : "csv");
+
+    switch (storeFormat) {
+        case "json":
+            return new JsonFileService(file);
+        case "sqlite":
+            return new SqliteTaskStore(file);
+        default:
+            return new FileService(file);
+    }
+}
+
+/**
+ * Copy all tasks and change history from one store to another
+ * (e.g. CSV -> JSON, or a one-time CSV import into SQLite).
+ * The target's previous contents are replaced.
+ * 
+ * @param source - Store to read from
+ * @param target - Store to write to
+ * @returns Number of converted tasks
+ */
+export async function convertTasks(source: TaskStore, target: TaskStore): Promise<number> {
+    const taskManager = new TaskManager();
+
+    taskManager.setTasks(await source.loadTasks());
+    taskManager.setChanges(await source.loadHistory());
+
+    await target.saveTasks(taskManager);
+    return taskManager.getAllTasks().length;
+}
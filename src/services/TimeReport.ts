@@ -0,0 +1,98 @@
+import { Task } from "../models/Task.js";
+import { addDays, startOfDay, startOfWeek } from "../utils/date.js";
+
+/** Periods tracked time can be grouped by (weeks start on Monday). */
+export type TimeReportGrouping = "day" | "week";
+
+/** Time spent on one task. */
+export interface TaskTime {
+    task: Task;
+    /** Milliseconds */
+    duration: number;
+}
+
+/** Tracked time of one day or week. */
+export interface TimeReportPeriod {
+    /** Local midnight starting the period (a Monday for weeks) */
+    start: Date;
+    /** Local midnight after the period (exclusive) */
+    end: Date;
+    /** Milliseconds tracked within the report range */
+    total: number;
+    /** Tasks worked on, most time first */
+    tasks: TaskTime[];
+}
+
+/** Tracked time of a date range, grouped by day or week. */
+export interface TimeReport {
+    /** First day of the range (local midnight) */
+    from: Date;
+    /** Last day of the range (local midnight, included) */
+    to: Date;
+    groupBy: TimeReportGrouping;
+    /** Periods with tracked time, oldest first */
+    periods: TimeReportPeriod[];
+    /** Milliseconds tracked within the range */
+    total: number;
+}
+
+/**
+ * Group tracked time by day or week.
+ *
+ * - Entries are split at period boundaries (work past midnight counts for both days)
+ * - Only time within the range counts, so the first and last week can be partial
+ * - Running timers count up to `now`
+ * - Periods without tracked time are left out
+ *
+ * @param tasks - Tasks with time entries
+ * @param from - First day of the range
+ * @param to - Last day of the range (included)
+ * @param groupBy - Group by `day` (default) or `week`
+ * @param now - End of running timers (defaults to current time)
+ */
+export function createTimeReport(tasks: Task[], from: Date, to: Date, groupBy: TimeReportGrouping = "day", now: Date = new Date()): TimeReport {
+    const rangeStart = startOfDay(from);
+    const rangeEnd = addDays(startOfDay(to), 1);
+    const report: TimeReport = { from: rangeStart, to: startOfDay(to), groupBy, periods: [], total: 0 };
+    let start = groupBy === "week" ? startOfWeek(rangeStart) : rangeStart;
+
+    while (start < rangeEnd) {
+        const end = addDays(start, groupBy === "week" ? 7 : 1);
+        const period = trackedBetween(tasks, start < rangeStart ? rangeStart : start, end > rangeEnd ? rangeEnd : end, now);
+
+        if (period.length > 0) {
+            const total = period.reduce((sum, { duration }) => sum + duration, 0);
+
+            report.periods.push({ start, end, total, tasks: period });
+            report.total += total;
+        }
+
+        start = end;
+    }
+
+    return report;
+}
+
+/**
+ * Time spent on each task between two points in time.
+ *
+ * @returns Tasks with tracked time, most time first (then by ID)
+ */
+function trackedBetween(tasks: Task[], from: Date, to: Date, now: Date): TaskTime[] {
+    const times: TaskTime[] = [];
+
+    for (const task of tasks) {
+        let duration = 0;
+
+        for (const entry of task.timeEntries) {
+            const start = Math.max(entry.start.getTime(), from.getTime());
+            const end = Math.min((entry.end ?? now).getTime(), to.getTime());
+
+            if (end > start) duration += end - start;
+        }
+
+        if (duration > 0) times.push({ task, duration });
+    }
+
+    return times.sort((a, b) => b.duration - a.duration || a.task.id - b.task.id);
+}
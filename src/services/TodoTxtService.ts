@@ -0,0 +1,231 @@
+import { promises as fileSystem } from "fs";
+import { Task, type Priority } from "../models/Task.js";
+import { TaskManager } from "../managers/TaskManager.js";
+import { endOfDay, formatCalendarDate, parseCalendarDate } from "../utils/date.js";
+import { importNewTasks, type TaskImportResult } from "./TaskImport.js";
+
+/**
+ * todo.txt priority letters for each task priority.
+ * On import `(A)` is urgent, `(B)` high, `(C)` normal and `(D)`-`(Z)` low;
+ * normal tasks are exported without priority.
+ */
+const PRIORITY_LETTERS: Record<Priority, string | undefined> = {
+    urgent: "A",
+    high: "B",
+    normal: undefined,
+    low: "D"
+};
+
+/** Matches a `YYYY-MM-DD` date token */
+const DATE_TOKEN_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Task fields read from one todo.txt line. */
+export interface TodoTxtItem {
+    title: string;
+    completed: boolean;
+    completedAt?: Date;
+    createdAt?: Date;
+    priority: Priority;
+    /** `+project` tokens become `project` tags, `@context` tokens stay `@context` tags */
+    tags: string[];
+    dueAt?: Date;
+}
+
+/** Convert a priority letter (`A`-`Z`) into a task priority. */
+function priorityFromLetter(letter: string): Priority {
+    switch (letter.toUpperCase()) {
+        case "A":
+            return "urgent";
+        case "B":
+            return "high";
+        case "C":
+            return "normal";
+        default:
+            return "low";
+    }
+}
+
+/**
+ * Parse one line of a todo.txt file.
+ *
+ * Format: `[x [completion-date]] [(A)] [creation-date] text [+project] [@context] [due:YYYY-MM-DD]`
+ * (completed tasks may keep their priority as `pri:A`). Other words, including
+ * unknown `key:value` tokens, stay in the title.
+ *
+ * @param line - Raw line
+ * @returns Parsed item (undefined for blank lines)
+ */
+export function parseTodoTxtLine(line: string): TodoTxtItem | undefined {
+    const words = line.trim().split(/\s+/).filter(word => word !== "");
+
+    if (words.length === 0) return undefined;
+
+    const item: TodoTxtItem = { title: "", completed: false, priority: "normal", tags: [] };
+
+    if (words[0] === "x") {
+        item.completed = true;
+        words.shift();
+
+        if (DATE_TOKEN_PATTERN.test(words[0] ?? "")) {
+            const completedAt = parseCalendarDate(words.shift()!);
+            if (completedAt) item.completedAt = completedAt;
+        }
+    }
+
+    const priority = /^\(([A-Z])\)$/.exec(words[0] ?? "");
+
+    if (priority) {
+        item.priority = priorityFromLetter(priority[1]!);
+        words.shift();
+    }
+
+    if (DATE_TOKEN_PATTERN.test(words[0] ?? "")) {
+        const createdAt = parseCalendarDate(words.shift()!);
+        if (createdAt) item.createdAt = createdAt;
+    }
+
+    const titleWords: string[] = [];
+
+    for (const word of words) {
+        const dueAt = word.startsWith("due:") ? parseCalendarDate(word.slice(4)) : undefined;
+        const completedPriority = /^pri:([A-Z])$/i.exec(word);
+
+        if (/^\+\S+$/.test(word)) {
+            item.tags.push(word.slice(1).toLowerCase());
+        } else if (/^@\S+$/.test(word)) {
+            item.tags.push(word.toLowerCase());
+        } else if (dueAt) {
+            item.dueAt = endOfDay(dueAt);
+        } else if (completedPriority) {
+            item.priority = priorityFromLetter(completedPriority[1]!);
+        } else {
+            titleWords.push(word);
+        }
+    }
+
+    // A line of only tags keeps its full text as title
+    item.title = titleWords.length > 0 ? titleWords.join(" ") : words.join(" ");
+    item.tags = [...new Set(item.tags)];
+
+    return item;
+}
+
+/**
+ * Format a task as one todo.txt line (descriptions, subtasks, dependencies
+ * and recurrence have no todo.txt equivalent and are left out).
+ *
+ * @param task - Task to format
+ */
+export function formatTodoTxtLine(task: Task): string {
+    const parts: string[] = [];
+    const letter = PRIORITY_LETTERS[task.priority];
+
+    if (task.completed) {
+        parts.push("x", formatCalendarDate(task.completedAt ?? task.updatedAt));
+    } else if (letter) {
+        parts.push(`(${letter})`);
+    }
+
+    parts.push(formatCalendarDate(task.createdAt), task.title.replace(/\s+/g, " ").trim());
+
+    for (const tag of task.tags) {
+        parts.push(tag.startsWith("@") ? tag : `+${tag}`);
+    }
+
+    if (task.dueAt) {
+        parts.push(`due:${formatCalendarDate(task.dueAt)}`);
+    }
+
+    // Completed lines can't start with a priority
+    if (task.completed && letter) {
+        parts.push(`pri:${letter}`);
+    }
+
+    return parts.join(" ");
+}
+
+/**
+ * todo.txt service - Moves tasks between a TaskManager and the todo.txt format.
+ *
+ * Responsibilities:
+ * - Import todo.txt content, skipping tasks that already exist
+ *   (same title, case-insensitive, and same due day)
+ * - Export tasks as todo.txt content
+ */
+export class TodoTxtService {
+    /**
+     * Constructor
+     *
+     * @param taskManager - Tasks to import into / export from
+     */
+    constructor(private taskManager: TaskManager) {}
+
+    /**
+     * Import all lines of a todo.txt file as one undoable change.
+     *
+     * @param content - File content
+     * @returns Imported tasks and skipped duplicates
+     */
+    import(content: string): TaskImportResult {
+        const items = content.split("\n")
+            .map(parseTodoTxtLine)
+            .filter(item => item !== undefined);
+
+        return importNewTasks(this.taskManager, items, item => this.createTask(item));
+    }
+
+    /**
+     * Export all tasks as todo.txt content (one line per task, ID order).
+     */
+    export(): string {
+        return this.taskManager.getAllTasks().map(formatTodoTxtLine).join("\n") + "\n";
+    }
+
+    /**
+     * Import a todo.txt file (see `import`).
+     *
+     * @param path - Path of the file
+     */
+    async importFile(path: string): Promise<TaskImportResult> {
+        return this.import(await fileSystem.readFile(path, "utf-8"));
+    }
+
+    /**
+     * Write all tasks to a todo.txt file (overwrites it).
+     *
+     * @param path - Path of the file
+     * @returns Number of exported tasks
+     */
+    async exportFile(path: string): Promise<number> {
+        await fileSystem.writeFile(path, this.export(), "utf-8");
+        return this.taskManager.getAllTasks().length;
+    }
+
+    /** Build a new task from a parsed line. */
+    private createTask(item: TodoTxtItem): Task {
+        const task = new Task(item.title);
+
+        task.priority = item.priority;
+        task.setTags(item.tags);
+
+        if (item.createdAt) {
+            task.createdAt = item.createdAt;
+            task.updatedAt = item.createdAt;
+        }
+
+        if (item.dueAt) {
+            task.dueAt = item.dueAt;
+        }
+
+        if (item.completed) {
+            task.markAsCompleted();
+
+            if (item.completedAt) {
+                task.completedAt = item.completedAt;
+                task.updatedAt = item.completedAt;
+            }
+        }
+
+        return task;
+    }
+}
@@ -1,4 +1,4 @@
-import { TaskManager } from "../../managers/TaskManager.js";
+import { TaskManager, type TaskQuery } from "../../managers/TaskManager.js";
 import { Task } from "../../models/Task.js";
 import { jest } from '@jest/globals';
 
@@ -26,6 +26,37 @@ describe("TaskManager", () => {
 
             expect(task.description).toBeUndefined;
         });
+
+        it("Case 3: Add task with due date successfully", () => {
+            const dueAt = new Date("2026-05-01T12:00:00.000Z");
+            const task = taskManager.addTask("Test Task 3", undefined, { dueAt });
+
+            expect(task.dueAt).toBe(dueAt);
+        });
+
+
+        it("Case 4: Add task with priority successfully", () => {
+            const task = taskManager.addTask("Test Task 4", undefined, { priority: "high" });
+
+            expect(task.priority).toBe("high");
+        });
+
+
+        it("Case 5: Add task with tags successfully", () => {
+            const task = taskManager.addTask("Test Task 5", undefined, { tags: ["#Ops", "backend"] });
+
+            expect([...task.tags]).toEqual(["ops", "backend"]);
+        });
+
+
+        it("Case 6: Add subtask to existing parent, reject missing parent", () => {
+            const parent = taskManager.addTask("Parent");
+            const child = taskManager.addTask("Child", undefined, { parentId: parent.id });
+
+            expect(child.parentId).toBe(parent.id);
+            expect(() => taskManager.addTask("Orphan", undefined, { parentId: 999 })).toThrow("Parent task 999 not found");
+            expect(taskManager.getAllTasks()).toHaveLength(2);
+        });
     });
 
     describe("removeTask", () => {
@@ -44,6 +75,31 @@ describe("TaskManager", () => {
         });
     });
 
+    describe("removeTasks", () => {
+        it("Case 1: Remove tasks with their subtasks as one undoable change", () => {
+            const parent = taskManager.addTask("Parent");
+            const child = taskManager.addTask("Child", undefined, { parentId: parent.id });
+            const other = taskManager.addTask("Other");
+            const kept = taskManager.addTask("Kept");
+            taskManager.addDependency(kept.id, child.id);
+
+            const removed = taskManager.removeTasks([parent.id, other.id, 999], "Move 2 task(s)");
+
+            expect(removed.map(task => task.title)).toEqual(["Parent", "Child", "Other"]);
+            expect(taskManager.getAllTasks()).toEqual([kept]);
+            expect(kept.blockedBy.size).toBe(0);
+            expect(taskManager.undo()).toBe("Move 2 task(s)");
+            expect(taskManager.getAllTasks()).toHaveLength(4);
+        });
+
+        it("Case 2: Change nothing for unknown IDs", () => {
+            const revision = taskManager.getRevision();
+
+            expect(taskManager.removeTasks([999])).toEqual([]);
+            expect(taskManager.getRevision()).toBe(revision);
+        });
+    });
+
     describe("updateTask", () => {
         it("Case 1: Update task title successfully", () => {
             jest.useFakeTimers();
@@ -105,6 +161,58 @@ describe("TaskManager", () => {
 
             expect(task.updatedAt.getTime()).toBeGreaterThan(originalUpdatedAt.getTime());
         });
+
+        it("Case 7: Set and clear due date", () => {
+            const task = taskManager.addTask("Title");
+            const dueAt = new Date("2026-05-01T12:00:00.000Z");
+
+            taskManager.updateTask(task.id, { dueAt });
+            expect(task.dueAt).toBe(dueAt);
+
+            taskManager.updateTask(task.id, { title: "New Title" });
+            expect(task.dueAt).toBe(dueAt);
+
+            taskManager.updateTask(task.id, { dueAt: null });
+            expect(task.dueAt).toBeUndefined();
+        });
+
+
+        it("Case 8: Update priority successfully", () => {
+            const task = taskManager.addTask("Title");
+
+            taskManager.updateTask(task.id, { priority: "urgent" });
+
+            expect(task.priority).toBe("urgent");
+        });
+
+
+        it("Case 9: Replace and clear tags", () => {
+            const task = taskManager.addTask("Title", undefined, { tags: ["ops"] });
+
+            taskManager.updateTask(task.id, { tags: ["backend", "#personal"] });
+            expect([...task.tags]).toEqual(["backend", "personal"]);
+
+            taskManager.updateTask(task.id, { tags: [] });
+            expect(task.tags.size).toBe(0);
+        });
+
+
+        it("Case 10: Move and detach subtask, reject cycles", () => {
+            const parent = taskManager.addTask("Parent");
+            const child = taskManager.addTask("Child", undefined, { parentId: parent.id });
+            const other = taskManager.addTask("Other");
+
+            taskManager.updateTask(child.id, { parentId: other.id });
+            expect(child.parentId).toBe(other.id);
+
+            taskManager.updateTask(child.id, { parentId: null });
+            expect(child.parentId).toBeUndefined();
+
+            taskManager.updateTask(child.id, { parentId: parent.id });
+            expect(() => taskManager.updateTask(parent.id, { parentId: child.id })).toThrow("cannot be a subtask");
+            expect(() => taskManager.updateTask(parent.id, { parentId: parent.id })).toThrow("cannot be a subtask");
+            expect(parent.parentId).toBeUndefined();
+        });
     });
 
     describe("findTask", () => {
@@ -203,6 +311,42 @@ describe("TaskManager", () => {
         });
     });
 
+    describe("due date queries", () => {
+        // Wednesday 2026-10-14, 10:00 local time
+        const now = new Date(2026, 9, 14, 10, 0, 0);
+        const at = (day: number, hour: number) => new Date(2026, 9, day, hour, 0, 0);
+
+        beforeEach(() => {
+            taskManager.addTask("Overdue yesterday", undefined, { dueAt: at(13, 18) });
+            taskManager.addTask("Overdue this morning", undefined, { dueAt: at(14, 8) });
+            taskManager.addTask("Due tonight", undefined, { dueAt: at(14, 22) });
+            taskManager.addTask("Due in 3 days", undefined, { dueAt: at(17, 12) });
+            taskManager.addTask("Due in 10 days", undefined, { dueAt: at(24, 12) });
+            taskManager.addTask("No due date");
+            taskManager.addTask("Completed overdue", undefined, { dueAt: at(1, 12) }).markAsCompleted();
+        });
+
+        it("Case 1: getOverdueTasks returns pending past-due tasks, most overdue first", () => {
+            const titles = taskManager.getOverdueTasks(now).map(task => task.title);
+
+            expect(titles).toEqual(["Overdue yesterday", "Overdue this morning"]);
+        });
+
+        it("Case 2: getTasksDueToday returns tasks due later today", () => {
+            const titles = taskManager.getTasksDueToday(now).map(task => task.title);
+
+            expect(titles).toEqual(["Due tonight"]);
+        });
+
+        it("Case 3: getTasksDueWithin includes tasks up to end of Nth day", () => {
+            expect(taskManager.getTasksDueWithin(3, now).map(task => task.title))
+                .toEqual(["Due tonight", "Due in 3 days"]);
+            expect(taskManager.getTasksDueWithin(2, now).map(task => task.title))
+                .toEqual(["Due tonight"]);
+            expect(taskManager.getTasksDueWithin(10, now)).toHaveLength(3);
+        });
+    });
+
     describe("toggleTaskCompletion", () => {
         it("Case 1: Toggle incomplete tasks to completed successfully", () => {
             const task = taskManager.addTask("Test Task 1");
@@ -301,5 +445,650 @@ describe("TaskManager", () => {
 
             expect(taskManager.getAllTasks()).toHaveLength(0);
         });
+
+        it("Case 3: Continue IDs of the loaded tasks when other tasks were loaded meanwhile", () => {
+            taskManager.setTasks([new Task("Loaded 1"), new Task("Loaded 2")]);
+            const other = new TaskManager();
+            other.setTasks([Task.fromJSON({ ...new Task("Other list").toJSON(), id: 50 })]);
+
+            const task = taskManager.addTask("New task");
+            taskManager.removeTask(task.id);
+
+            expect(task.id).toBe(3);
+            expect(taskManager.addTask("Newer task").id).toBe(4);
+            expect(other.addTask("Other new task").id).toBe(51);
+        });
+    });
+
+
+    describe("priority ordering", () => {
+        it("Case 1: Sort pending tasks by priority, then due date, then age", () => {
+            jest.useFakeTimers();
+
+            const oldNormal = taskManager.addTask("Old normal");
+            jest.advanceTimersByTime(10);
+            const newNormal = taskManager.addTask("New normal");
+            const dueLater = taskManager.addTask("High due later", undefined, { priority: "high", dueAt: new Date(2026, 11, 1) });
+            const dueSooner = taskManager.addTask("High due sooner", undefined, { priority: "high", dueAt: new Date(2026, 10, 1) });
+            const noDue = taskManager.addTask("High no due", undefined, { priority: "high" });
+            const urgent = taskManager.addTask("Urgent", undefined, { priority: "urgent" });
+            const low = taskManager.addTask("Low", undefined, { priority: "low" });
+
+            const ids = taskManager.getPendingTasks().map(task => task.id);
+
+            expect(ids).toEqual([urgent.id, dueSooner.id, dueLater.id, noDue.id, oldNormal.id, newNormal.id, low.id]);
+
+            jest.useRealTimers();
+        });
+
+        it("Case 2: getSortedTasks orders all tasks, getAllTasks keeps insertion order", () => {
+            const low = taskManager.addTask("Low", undefined, { priority: "low" });
+            const urgent = taskManager.addTask("Urgent", undefined, { priority: "urgent" });
+            urgent.markAsCompleted();
+
+            expect(taskManager.getSortedTasks().map(task => task.id)).toEqual([urgent.id, low.id]);
+            expect(taskManager.getAllTasks().map(task => task.id)).toEqual([low.id, urgent.id]);
+        });
+
+        it("Case 3: Sort completed tasks by priority", () => {
+            const normal = taskManager.addTask("Normal");
+            const high = taskManager.addTask("High", undefined, { priority: "high" });
+            normal.markAsCompleted();
+            high.markAsCompleted();
+
+            expect(taskManager.getCompletedTasks().map(task => task.id)).toEqual([high.id, normal.id]);
+        });
+    });
+
+
+    describe("tag queries", () => {
+        let backend: Task;
+        let backendOps: Task;
+        let personal: Task;
+
+        beforeEach(() => {
+            backend = taskManager.addTask("Backend", undefined, { tags: ["backend"] });
+            backendOps = taskManager.addTask("Backend ops", undefined, { tags: ["backend", "ops"] });
+            personal = taskManager.addTask("Personal", undefined, { tags: ["personal"] });
+            taskManager.addTask("Untagged");
+        });
+
+        it("Case 1: getTasksWithAnyTag matches tasks with at least one tag", () => {
+            const ids = taskManager.getTasksWithAnyTag(["#ops", "personal"]).map(task => task.id);
+
+            expect(ids).toEqual([backendOps.id, personal.id]);
+        });
+
+        it("Case 2: getTasksWithAllTags matches tasks with every tag", () => {
+            expect(taskManager.getTasksWithAllTags(["backend", "ops"])).toEqual([backendOps]);
+            expect(taskManager.getTasksWithAllTags(["backend"])).toEqual([backend, backendOps]);
+            expect(taskManager.getTasksWithAllTags([])).toEqual([]);
+        });
+
+        it("Case 3: getTagCounts counts tasks per tag, most used first", () => {
+            expect([...taskManager.getTagCounts()]).toEqual([
+                ["backend", 2],
+                ["ops", 1],
+                ["personal", 1]
+            ]);
+        });
+    });
+
+
+    describe("subtasks", () => {
+        let parent: Task;
+        let child1: Task;
+        let child2: Task;
+        let grandchild: Task;
+
+        beforeEach(() => {
+            parent = taskManager.addTask("Parent");
+            child1 = taskManager.addTask("Child 1", undefined, { parentId: parent.id });
+            child2 = taskManager.addTask("Child 2", undefined, { parentId: parent.id });
+            grandchild = taskManager.addTask("Grandchild", undefined, { parentId: child1.id });
+            taskManager.addTask("Unrelated");
+        });
+
+        it("Case 1: getSubtasks returns direct children, getDescendants all levels", () => {
+            expect(taskManager.getSubtasks(parent.id)).toEqual([child1, child2]);
+            expect(taskManager.getDescendants(parent.id)).toEqual([child1, grandchild, child2]);
+        });
+
+        it("Case 2: getSubtaskProgress rolls up completion across all levels", () => {
+            grandchild.markAsCompleted();
+            child2.markAsCompleted();
+
+            expect(taskManager.getSubtaskProgress(parent.id)).toEqual({ completed: 2, total: 3 });
+            expect(taskManager.getSubtaskProgress(grandchild.id)).toEqual({ completed: 0, total: 0 });
+        });
+
+        it("Case 3: Block completing parent while subtasks are open", () => {
+            const result = taskManager.toggleTaskCompletion(parent.id);
+
+            expect(result).toBe(false);
+            expect(parent.completed).toBe(false);
+        });
+
+        it("Case 4: Cascade completion to all open subtasks", () => {
+            const result = taskManager.toggleTaskCompletion(parent.id, "cascade");
+
+            expect(result).toBe(true);
+            expect([parent, child1, child2, grandchild].every(task => task.completed)).toBe(true);
+        });
+
+        it("Case 5: Complete parent once all subtasks are done", () => {
+            [child1, child2, grandchild].forEach(task => task.markAsCompleted());
+
+            expect(taskManager.toggleTaskCompletion(parent.id)).toBe(true);
+            expect(parent.completed).toBe(true);
+        });
+
+        it("Case 6: Block removing parent while subtasks are open", () => {
+            expect(taskManager.removeTask(parent.id)).toBe(false);
+            expect(taskManager.getAllTasks()).toHaveLength(5);
+        });
+
+        it("Case 7: Cascade removal removes whole subtree", () => {
+            expect(taskManager.removeTask(parent.id, "cascade")).toBe(true);
+            expect(taskManager.getAllTasks().map(task => task.title)).toEqual(["Unrelated"]);
+        });
+
+        it("Case 8: Remove completed subtasks with parent, leaving no orphans", () => {
+            [child1, child2, grandchild].forEach(task => task.markAsCompleted());
+
+            expect(taskManager.removeTask(parent.id)).toBe(true);
+            expect(taskManager.getAllTasks().map(task => task.title)).toEqual(["Unrelated"]);
+        });
+
+        it("Case 9: setTasks detaches subtasks with missing parents or cyclic links", () => {
+            const a = new Task("A");
+            const b = new Task("B");
+            const c = new Task("C");
+            const d = new Task("D");
+            a.parentId = b.id;
+            b.parentId = a.id;
+            c.parentId = 999;
+            d.parentId = a.id;
+
+            taskManager.setTasks([a, b, c, d]);
+
+            expect(a.parentId).toBeUndefined();
+            expect(b.parentId).toBe(a.id);
+            expect(c.parentId).toBeUndefined();
+            expect(d.parentId).toBe(a.id);
+            expect(taskManager.getDescendants(a.id)).toEqual([b, d]);
+        });
+    });
+
+
+    describe("dependencies", () => {
+        let design: Task;
+        let build: Task;
+        let deploy: Task;
+
+        beforeEach(() => {
+            design = taskManager.addTask("Design");
+            build = taskManager.addTask("Build");
+            deploy = taskManager.addTask("Deploy");
+            taskManager.addDependency(build.id, design.id);
+            taskManager.addDependency(deploy.id, build.id);
+        });
+
+        it("Case 1: addDependency links tasks, returns false for missing tasks", () => {
+            expect([...deploy.blockedBy]).toEqual([build.id]);
+            expect(taskManager.getBlockers(deploy.id)).toEqual([build]);
+            expect(taskManager.addDependency(deploy.id, 999)).toBe(false);
+            expect(taskManager.addDependency(999, deploy.id)).toBe(false);
+        });
+
+        it("Case 2: Reject self-dependencies and cycles", () => {
+            expect(() => taskManager.addDependency(design.id, design.id)).toThrow("cannot be blocked by itself");
+            expect(() => taskManager.addDependency(design.id, deploy.id)).toThrow("dependency cycle");
+            expect(design.blockedBy.size).toBe(0);
+        });
+
+        it("Case 3: getReadyTasks returns pending tasks with all blockers completed", () => {
+            expect(taskManager.getReadyTasks()).toEqual([design]);
+
+            design.markAsCompleted();
+
+            expect(taskManager.getReadyTasks()).toEqual([build]);
+        });
+
+        it("Case 4: Complete tasks with open blockers and report the blockers", () => {
+            expect(taskManager.toggleTaskCompletion(deploy.id)).toBe(true);
+            expect(deploy.completed).toBe(true);
+            expect(taskManager.getLastOpenBlockers()).toEqual([build]);
+
+            design.markAsCompleted();
+            taskManager.toggleTaskCompletion(build.id);
+
+            expect(taskManager.getLastOpenBlockers()).toEqual([]);
+        });
+
+        it("Case 5: removeDependency unlinks tasks", () => {
+            expect(taskManager.removeDependency(deploy.id, build.id)).toBe(true);
+            expect(taskManager.removeDependency(deploy.id, build.id)).toBe(false);
+            expect(deploy.blockedBy.size).toBe(0);
+        });
+
+        it("Case 6: removeTask cleans up dangling dependency references", () => {
+            taskManager.removeTask(build.id);
+
+            expect(deploy.blockedBy.size).toBe(0);
+            expect(taskManager.getReadyTasks()).toEqual([design, deploy]);
+        });
+
+        it("Case 7: setTasks drops dependencies on missing tasks", () => {
+            const task = new Task("Loaded");
+            task.blockedBy.add(999);
+
+            taskManager.setTasks([task]);
+
+            expect(task.blockedBy.size).toBe(0);
+        });
+    });
+
+    describe("recurring tasks", () => {
+        let consoleLogSpy: jest.Spied<typeof console.log>;
+
+        beforeEach(() => {
+            consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            consoleLogSpy.mockRestore();
+        });
+
+        it("Case 1: Completing a recurring task adds its next occurrence", () => {
+            const task = taskManager.addTask("Standup", undefined, { recurrence: { kind: "daily" }, dueAt: new Date() });
+
+            taskManager.toggleTaskCompletion(task.id);
+
+            const next = taskManager.getPendingTasks();
+            expect(next).toHaveLength(1);
+            expect(next[0]?.id).toBe(2);
+            expect(next[0]?.recurrence).toEqual({ kind: "daily" });
+            expect(next[0]!.dueAt!.getTime()).toBeGreaterThan(task.dueAt!.getTime());
+            expect(taskManager.getLastCreatedOccurrences()).toEqual(next);
+            expect(consoleLogSpy).not.toHaveBeenCalled();
+        });
+
+        it("Case 2: Reopening and completing again does not duplicate occurrences", () => {
+            const task = taskManager.addTask("Standup", undefined, { recurrence: { kind: "daily" } });
+
+            taskManager.toggleTaskCompletion(task.id);
+            taskManager.toggleTaskCompletion(task.id);
+            taskManager.toggleTaskCompletion(task.id);
+
+            expect(taskManager.getAllTasks()).toHaveLength(2);
+            expect(taskManager.getLastCreatedOccurrences()).toEqual([]);
+        });
+
+        it("Case 3: Cascaded recurring subtasks regenerate as top-level tasks", () => {
+            const parent = taskManager.addTask("Chores");
+            taskManager.addTask("Vacuum", undefined, { parentId: parent.id, recurrence: { kind: "weekly", weekdays: [] } });
+
+            taskManager.toggleTaskCompletion(parent.id, "cascade");
+
+            const pending = taskManager.getPendingTasks();
+            expect(pending).toHaveLength(1);
+            expect(pending[0]?.title).toBe("Vacuum");
+            expect(pending[0]?.parentId).toBeUndefined();
+            expect(taskManager.getOpenSubtasks(parent.id)).toEqual([]);
+        });
+
+        it("Case 4: updateTask sets and clears recurrence", () => {
+            const task = taskManager.addTask("Pay rent");
+
+            taskManager.updateTask(task.id, { recurrence: { kind: "monthly", day: 1 } });
+            expect(task.recurrence).toEqual({ kind: "monthly", day: 1 });
+
+            taskManager.updateTask(task.id, { recurrence: null });
+            expect(task.recurrence).toBeUndefined();
+        });
+
+        it("Case 5: Recurring subtasks completed on their own regenerate under their open parent", () => {
+            const parent = taskManager.addTask("Chores");
+            const subtask = taskManager.addTask("Vacuum", undefined, { parentId: parent.id, recurrence: { kind: "weekly", weekdays: [] } });
+
+            taskManager.toggleTaskCompletion(subtask.id);
+
+            expect(taskManager.getOpenSubtasks(parent.id).map(task => task.title)).toEqual(["Vacuum"]);
+        });
+    });
+
+    describe("time tracking", () => {
+        const at = (time: string) => new Date(`2026-10-19T${time}:00.000Z`);
+
+        it("Case 1: Start and stop a timer", () => {
+            const task = taskManager.addTask("Write report");
+
+            expect(taskManager.startTimer(task.id, at("08:00"))).toBe(true);
+            expect(taskManager.getRunningTimer()).toBe(task);
+            expect(taskManager.startTimer(task.id, at("08:10"))).toBe(false);
+
+            expect(taskManager.stopTimer(at("09:30"))).toBe(task);
+            expect(task.timeEntries).toEqual([{ start: at("08:00"), end: at("09:30") }]);
+            expect(taskManager.getRunningTimer()).toBeUndefined();
+            expect(taskManager.stopTimer()).toBeUndefined();
+        });
+
+        it("Case 2: Starting a timer stops the one running on another task", () => {
+            const report = taskManager.addTask("Write report");
+            const review = taskManager.addTask("Review PR");
+
+            taskManager.startTimer(report.id, at("08:00"));
+            taskManager.startTimer(review.id, at("09:00"));
+
+            expect(report.timeEntries).toEqual([{ start: at("08:00"), end: at("09:00") }]);
+            expect(taskManager.getRunningTimer()).toBe(review);
+            expect(taskManager.startTimer(99)).toBe(false);
+        });
+
+        it("Case 3: Add manual entries in start order, rejecting empty ones", () => {
+            const task = taskManager.addTask("Write report");
+
+            taskManager.addTimeEntry(task.id, at("13:00"), at("14:00"));
+            taskManager.addTimeEntry(task.id, at("08:00"), at("08:45"));
+
+            expect(task.timeEntries.map(entry => entry.start)).toEqual([at("08:00"), at("13:00")]);
+            expect(task.getTrackedTime()).toBe(105 * 60_000);
+            expect(() => taskManager.addTimeEntry(task.id, at("10:00"), at("10:00"))).toThrow("Time entry must end after it starts");
+            expect(taskManager.addTimeEntry(99, at("08:00"), at("09:00"))).toBe(false);
+        });
+
+        it("Case 4: Completing a task stops its timer", () => {
+            const task = taskManager.addTask("Write report");
+            taskManager.startTimer(task.id, new Date(Date.now() - 60_000));
+
+            taskManager.toggleTaskCompletion(task.id);
+
+            expect(task.isTimerRunning()).toBe(false);
+            expect(task.timeEntries[0]?.end).toBeInstanceOf(Date);
+        });
+
+        it("Case 5: Undo timer changes without logging them in change history", () => {
+            const task = taskManager.addTask("Write report");
+            const updatedAt = task.updatedAt;
+
+            taskManager.startTimer(task.id, at("08:00"));
+            taskManager.stopTimer(at("09:00"));
+
+            expect(taskManager.undo()).toBe(`Stop timer on task #1 "Write report"`);
+            expect(task.timeEntries).toEqual([{ start: at("08:00") }]);
+            expect(taskManager.undo()).toBe(`Start timer on task #1 "Write report"`);
+            expect(task.timeEntries).toEqual([]);
+            expect(taskManager.redo()).toBe(`Start timer on task #1 "Write report"`);
+            expect(task.isTimerRunning()).toBe(true);
+
+            expect(task.updatedAt).toBe(updatedAt);
+            expect(taskManager.getTaskHistory(task.id).map(change => change.field)).toEqual(["created"]);
+        });
+
+        it("Case 6: Log focus sessions as tracked time", () => {
+            const task = taskManager.addTask("Write report");
+
+            taskManager.logFocusSession(task.id, at("08:00"), at("08:25"));
+
+            expect(task.timeEntries).toEqual([{ start: at("08:00"), end: at("08:25"), focus: true }]);
+            expect(task.getTrackedTime()).toBe(25 * 60_000);
+            expect(taskManager.undo()).toBe(`Log 25m focus session on task #1 "Write report"`);
+        });
+    });
+
+    describe("undo / redo", () => {
+        it("Case 1: Undo and redo addTask, report description", () => {
+            taskManager.addTask("Buy milk");
+
+            expect(taskManager.undo()).toBe(`Add task #1 "Buy milk"`);
+            expect(taskManager.getAllTasks()).toHaveLength(0);
+
+            expect(taskManager.redo()).toBe(`Add task #1 "Buy milk"`);
+            expect(taskManager.findTask(1)?.title).toBe("Buy milk");
+        });
+
+        it("Case 2: Undo removeTask restores task, subtasks and dependencies", () => {
+            const parent = taskManager.addTask("Parent");
+            const child = taskManager.addTask("Child", undefined, { parentId: parent.id });
+            const other = taskManager.addTask("Other");
+            taskManager.addDependency(other.id, child.id);
+
+            taskManager.removeTask(parent.id, "cascade");
+            expect(other.blockedBy.size).toBe(0);
+
+            expect(taskManager.undo()).toBe(`Remove task #1 "Parent"`);
+            expect(taskManager.getAllTasks()).toEqual([parent, child, other]);
+            expect([...other.blockedBy]).toEqual([child.id]);
+        });
+
+        it("Case 3: Undo updateTask restores previous field values on the same object", () => {
+            const task = taskManager.addTask("Old title", "Old description", { tags: ["ops"] });
+
+            taskManager.updateTask(task.id, { title: "New title", dueAt: new Date(), tags: [] });
+            taskManager.undo();
+
+            expect(taskManager.findTask(task.id)).toBe(task);
+            expect(task.title).toBe("Old title");
+            expect(task.dueAt).toBeUndefined();
+            expect([...task.tags]).toEqual(["ops"]);
+        });
+
+        it("Case 4: Undo toggleTaskCompletion, including created occurrences", () => {
+            const consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+            const task = taskManager.addTask("Standup", undefined, { recurrence: { kind: "daily" } });
+
+            taskManager.toggleTaskCompletion(task.id);
+            expect(taskManager.undo()).toBe(`Complete task #1 "Standup"`);
+
+            expect(task.completed).toBe(false);
+            expect(task.completedAt).toBeUndefined();
+            expect(task.recurrence).toEqual({ kind: "daily" });
+            expect(taskManager.getAllTasks()).toEqual([task]);
+
+            consoleLogSpy.mockRestore();
+        });
+
+        it("Case 5: Undo clearAllTasks and setTasks", () => {
+            const task = taskManager.addTask("Keep me");
+
+            taskManager.clearAllTasks();
+            expect(taskManager.undo()).toBe("Clear all tasks (1)");
+            expect(taskManager.getAllTasks()).toEqual([task]);
+
+            taskManager.setTasks([new Task("Loaded")]);
+            expect(taskManager.undo()).toBe("Load 1 task(s)");
+            expect(taskManager.getAllTasks()).toEqual([task]);
+        });
+
+        it("Case 6: New command clears redo history, failed commands are not recorded", () => {
+            taskManager.addTask("First");
+            taskManager.undo();
+            taskManager.addTask("Second");
+
+            expect(taskManager.canRedo()).toBe(false);
+            expect(taskManager.redo()).toBeUndefined();
+
+            taskManager.removeTask(999);
+            taskManager.toggleTaskCompletion(999);
+            expect(taskManager.undo()).toBe(`Add task #2 "Second"`);
+            expect(taskManager.undo()).toBeUndefined();
+        });
+
+        it("Case 7: Keep only the most recent commands up to historyLimit", () => {
+            taskManager = new TaskManager(2);
+            ["A", "B", "C"].forEach(title => taskManager.addTask(title));
+
+            expect(taskManager.undo()).toBe(`Add task #3 "C"`);
+            expect(taskManager.undo()).toBe(`Add task #2 "B"`);
+            expect(taskManager.canUndo()).toBe(false);
+            expect(taskManager.getAllTasks().map(task => task.title)).toEqual(["A"]);
+        });
+
+        it("Case 8: Revision returns to saved value when undoing back to it", () => {
+            taskManager.addTask("Saved");
+            const savedRevision = taskManager.getRevision();
+
+            taskManager.addTask("Unsaved");
+            expect(taskManager.getRevision()).not.toBe(savedRevision);
+
+            taskManager.undo();
+            expect(taskManager.getRevision()).toBe(savedRevision);
+
+            taskManager.redo();
+            expect(taskManager.getRevision()).not.toBe(savedRevision);
+        });
+
+        it("Case 9: Put removed tasks back at their positions, also after later commands", () => {
+            const tasks = ["A", "B", "C", "D", "E"].map(title => taskManager.addTask(title));
+            const titles = () => taskManager.getAllTasks().map(task => task.title);
+
+            taskManager.removeTasks([tasks[1]!.id, tasks[3]!.id]);
+            taskManager.removeTask(tasks[0]!.id);
+            taskManager.addTask("F");
+            expect(titles()).toEqual(["C", "E", "F"]);
+
+            taskManager.undo();
+            taskManager.undo();
+            taskManager.undo();
+            expect(titles()).toEqual(["A", "B", "C", "D", "E"]);
+
+            taskManager.redo();
+            expect(titles()).toEqual(["A", "C", "E"]);
+        });
+
+        it("Case 10: Add and undo tasks in large lists", () => {
+            const tasks = Array.from({ length: 200_000 }, (_, index) => new Task(`Task ${index}`, "", index + 1));
+
+            taskManager.setTasks(tasks);
+            expect(taskManager.addTask("One more").id).toBe(200_001);
+
+            taskManager.undo();
+            expect(taskManager.getAllTasks()).toHaveLength(200_000);
+        });
+    });
+
+    describe("change history", () => {
+        /** Summarize history of a task as "field: old -> new" lines */
+        const history = (id: number) => taskManager.getTaskHistory(id)
+            .map(change => `${change.field}: ${change.oldValue} -> ${change.newValue}`);
+
+        it("Case 1: Record creation and each changed field with old and new value", () => {
+            const task = taskManager.addTask("Buy milk");
+
+            taskManager.updateTask(task.id, { title: "Buy oat milk", priority: "high", tags: ["errands"] });
+
+            expect(history(task.id)).toEqual([
+                "created:  -> Buy milk",
+                "title: Buy milk -> Buy oat milk",
+                "priority: normal -> high",
+                "tags:  -> errands"
+            ]);
+            expect(taskManager.getTaskHistory(task.id)[1]?.timestamp).toBeInstanceOf(Date);
+        });
+
+        it("Case 2: Record completion and reopen events", () => {
+            const task = taskManager.addTask("Report");
+
+            taskManager.toggleTaskCompletion(task.id);
+            taskManager.toggleTaskCompletion(task.id);
+
+            expect(history(task.id).slice(1)).toEqual(["completed: false -> true", "completed: true -> false"]);
+        });
+
+        it("Case 3: Record removal and keep history of removed tasks", () => {
+            const task = taskManager.addTask("Temp");
+
+            taskManager.removeTask(task.id);
+
+            expect(history(task.id)).toEqual(["created:  -> Temp", "deleted: Temp -> "]);
+        });
+
+        it("Case 4: Record undo as reverse change, ignore loading", () => {
+            const task = taskManager.addTask("Draft");
+            taskManager.updateTask(task.id, { title: "Final" });
+
+            taskManager.undo();
+            taskManager.setTasks([new Task("Loaded")]);
+
+            expect(history(task.id)).toEqual(["created:  -> Draft", "title: Draft -> Final", "title: Final -> Draft"]);
+            expect(history(2)).toEqual([]);
+        });
+
+        it("Case 5: setChanges replaces history, getChanges returns all tasks' changes", () => {
+            taskManager.addTask("A");
+            taskManager.setChanges([]);
+            taskManager.addTask("B");
+
+            expect(taskManager.getChanges().map(change => change.taskId)).toEqual([2]);
+        });
+    });
+
+    describe("query pushdown", () => {
+        /** Backend answering every query with fixed IDs */
+        const fakeBackend = (ids: number[]) => ({
+            queryTaskIds: jest.fn<(query: TaskQuery) => number[]>(() => ids)
+        });
+
+        it("Case 1: Answer status queries from the backend while tasks are unchanged", () => {
+            taskManager.addTask("First");
+            taskManager.addTask("Second");
+            const backend = fakeBackend([2, 1]);
+
+            taskManager.setQueryBackend(backend);
+
+            expect(taskManager.getPendingTasks().map(task => task.id)).toEqual([2, 1]);
+            expect(taskManager.getCompletedTasks().map(task => task.id)).toEqual([2, 1]);
+            expect(backend.queryTaskIds).toHaveBeenCalledWith({ kind: "pending" });
+            expect(backend.queryTaskIds).toHaveBeenCalledWith({ kind: "completed" });
+        });
+
+        it("Case 2: Fall back to in-memory queries after a change and again use backend after undo", () => {
+            taskManager.addTask("First");
+            const backend = fakeBackend([]);
+            taskManager.setQueryBackend(backend);
+
+            taskManager.addTask("Second");
+            expect(taskManager.getPendingTasks().map(task => task.id)).toEqual([1, 2]);
+
+            taskManager.undo();
+            expect(taskManager.getPendingTasks()).toEqual([]);
+            expect(backend.queryTaskIds).toHaveBeenCalledTimes(1);
+        });
+
+        it("Case 3: Pass the reference time of overdue queries and stop when backend is removed", () => {
+            const now = new Date(2026, 9, 19);
+            const task = taskManager.addTask("Late", "", { dueAt: new Date(2026, 9, 1) });
+            const backend = fakeBackend([task.id]);
+
+            taskManager.setQueryBackend(backend);
+            expect(taskManager.getOverdueTasks(now)).toEqual([task]);
+            expect(backend.queryTaskIds).toHaveBeenCalledWith({ kind: "overdue", now });
+
+            taskManager.setQueryBackend(undefined);
+            expect(taskManager.getOverdueTasks(now)).toEqual([task]);
+            expect(backend.queryTaskIds).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("importTasks", () => {
+        it("Case 1: Add tasks as one undoable change", () => {
+            const tasks = [new Task("First"), new Task("Second")];
+
+            taskManager.importTasks(tasks);
+
+            expect(taskManager.getAllTasks()).toEqual(tasks);
+            expect(taskManager.undo()).toBe("Import 2 task(s)");
+            expect(taskManager.getAllTasks()).toHaveLength(0);
+        });
+
+        it("Case 2: Ignore empty imports", () => {
+            const revision = taskManager.getRevision();
+
+            taskManager.importTasks([]);
+
+            expect(taskManager.getRevision()).toBe(revision);
+            expect(taskManager.canUndo()).toBe(false);
+        });
     });
 });
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { describeRecurrence, formatRecurrence, nextOccurrence, parseRecurrence, type Recurrence } from "../../models/Recurrence.js";
+
+describe("Recurrence", () => {
+    describe("parseRecurrence", () => {
+        it("Case 1: Parse all supported rule formats", () => {
+            expect(parseRecurrence("daily")).toEqual({ kind: "daily" });
+            expect(parseRecurrence("Weekly")).toEqual({ kind: "weekly", weekdays: [] });
+            expect(parseRecurrence("weekly:thu, mon,thu")).toEqual({ kind: "weekly", weekdays: [1, 4] });
+            expect(parseRecurrence("monthly:15")).toEqual({ kind: "monthly", day: 15 });
+            expect(parseRecurrence(" after:3 ")).toEqual({ kind: "after", days: 3 });
+        });
+
+        it("Case 2: Return undefined for blank or invalid rules", () => {
+            expect(parseRecurrence("")).toBeUndefined();
+            expect(parseRecurrence("hourly")).toBeUndefined();
+            expect(parseRecurrence("weekly:funday")).toBeUndefined();
+            expect(parseRecurrence("monthly:32")).toBeUndefined();
+            expect(parseRecurrence("after:0")).toBeUndefined();
+            expect(parseRecurrence("daily:2")).toBeUndefined();
+        });
+    });
+
+    describe("formatRecurrence / describeRecurrence", () => {
+        it("Case 1: Format rules as parseable text and plain words", () => {
+            const rule: Recurrence = { kind: "weekly", weekdays: [1, 4] };
+
+            expect(formatRecurrence(rule)).toBe("weekly:mon,thu");
+            expect(parseRecurrence(formatRecurrence(rule))).toEqual(rule);
+            expect(describeRecurrence(rule)).toBe("every week on Mon, Thu");
+            expect(describeRecurrence({ kind: "after", days: 3 })).toBe("3 day(s) after completion");
+        });
+    });
+
+    describe("nextOccurrence", () => {
+        // Monday, 19 October 2026
+        const completedAt = new Date(2026, 9, 19, 10, 0);
+
+        it("Case 1: Daily rule moves due date to the next day", () => {
+            const dueAt = new Date(2026, 9, 19, 23, 59, 59, 999);
+
+            expect(nextOccurrence({ kind: "daily" }, completedAt, dueAt)).toEqual(new Date(2026, 9, 20, 23, 59, 59, 999));
+        });
+
+        it("Case 2: Weekly rule picks the next listed weekday", () => {
+            const dueAt = new Date(2026, 9, 19, 23, 59, 59, 999);
+
+            expect(nextOccurrence({ kind: "weekly", weekdays: [1, 4] }, completedAt, dueAt)).toEqual(new Date(2026, 9, 22, 23, 59, 59, 999));
+            expect(nextOccurrence({ kind: "weekly", weekdays: [] }, completedAt, dueAt)).toEqual(new Date(2026, 9, 26, 23, 59, 59, 999));
+        });
+
+        it("Case 3: Monthly rule clamps to shorter months", () => {
+            const dueAt = new Date(2027, 0, 31, 23, 59, 59, 999);
+
+            expect(nextOccurrence({ kind: "monthly", day: 31 }, new Date(2027, 0, 31, 9, 0), dueAt)).toEqual(new Date(2027, 1, 28, 23, 59, 59, 999));
+            expect(nextOccurrence({ kind: "monthly", day: 15 }, completedAt)).toEqual(new Date(2026, 10, 15, 23, 59, 59, 999));
+        });
+
+        it("Case 4: After rule counts from completion date", () => {
+            const dueAt = new Date(2026, 8, 1);
+
+            expect(nextOccurrence({ kind: "after", days: 3 }, completedAt, dueAt)).toEqual(new Date(2026, 9, 22, 23, 59, 59, 999));
+        });
+
+        it("Case 5: Skip missed occurrences of overdue tasks", () => {
+            const dueAt = new Date(2026, 9, 12, 23, 59, 59, 999);
+
+            expect(nextOccurrence({ kind: "daily" }, completedAt, dueAt)).toEqual(new Date(2026, 9, 19, 23, 59, 59, 999));
+        });
+    });
+});
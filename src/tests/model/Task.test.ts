@@ -1,4 +1,5 @@
-import { Task } from "../../models/Task.js";
+import { Task, isPriority, parseTags } from "../../models/Task.js";
+import { parseRecurrence } from "../../models/Recurrence.js";
 
 describe("Task Model", () => {
     beforeEach(() => {
@@ -53,6 +54,19 @@ describe("Task Model", () => {
                 expect(task.id).toBe(expected);
             }
         });
+
+        test("Case 8: Newly created task priority should be normal", () => {
+            const task = new Task("Test Task 8");
+
+            expect(task.priority).toBe("normal");
+        });
+
+
+        test("Case 9: Newly created task has no tags", () => {
+            const task = new Task("Test Task 9");
+
+            expect(task.tags.size).toBe(0);
+        });
     });
 
     describe("markAsCompleted", () => {
@@ -98,6 +112,52 @@ describe("Task Model", () => {
         });
     });
 
+    describe("isOverdue", () => {
+        test("Case 1: Pending task past due date is overdue", () => {
+            const task = new Task("Test Task 1");
+            task.dueAt = new Date("2026-01-01T00:00:00.000Z");
+
+            expect(task.isOverdue(new Date("2026-01-02T00:00:00.000Z"))).toBe(true);
+        });
+
+        test("Case 2: Completed task or task without due date is never overdue", () => {
+            const task1 = new Task("Test Task 1");
+            const task2 = new Task("Test Task 2");
+            task1.dueAt = new Date("2026-01-01T00:00:00.000Z");
+            task1.markAsCompleted();
+
+            expect(task1.isOverdue(new Date("2026-01-02T00:00:00.000Z"))).toBe(false);
+            expect(task2.isOverdue()).toBe(false);
+        });
+
+        test("Case 3: Task due in the future is not overdue", () => {
+            const task = new Task("Test Task 3");
+            task.dueAt = new Date("2026-01-03T00:00:00.000Z");
+
+            expect(task.isOverdue(new Date("2026-01-02T00:00:00.000Z"))).toBe(false);
+        });
+    });
+
+    describe("isTimerRunning / getTrackedTime", () => {
+        test("Case 1: Sum finished entries and a running timer up to now", () => {
+            const task = new Task("Write report");
+            task.timeEntries = [
+                { start: new Date("2026-10-19T08:00:00.000Z"), end: new Date("2026-10-19T09:30:00.000Z") },
+                { start: new Date("2026-10-19T13:00:00.000Z") }
+            ];
+
+            expect(task.isTimerRunning()).toBe(true);
+            expect(task.getTrackedTime(new Date("2026-10-19T13:20:00.000Z"))).toBe(110 * 60_000);
+        });
+
+        test("Case 2: No tracked time and no timer by default", () => {
+            const task = new Task("Fresh");
+
+            expect(task.isTimerRunning()).toBe(false);
+            expect(task.getTrackedTime()).toBe(0);
+        });
+    });
+
     describe("toString", () => {
         it("Case 1: Format incomplete task correctly", () => {
             const task = new Task("Test Task 1", "Test task 1 description");
@@ -132,6 +192,11 @@ describe("Task Model", () => {
                 expect(parts[2]).toBe(`"Test task 1 description"`); // description
                 expect(parts[3]).toBe("false");                     // completed
                 expect(parts[6]).toBe("");                          // completedAt
+                expect(parts[7]).toBe("");                          // dueAt
+                expect(parts[8]).toBe("normal");                    // priority
+                expect(parts[9]).toBe(`""`);                        // tags
+                expect(parts[10]).toBe("");                         // parentId
+                expect(parts[11]).toBe(`""`);                       // blockedBy
             });
 
             it("Case 2: Escape quotes in title and description", () => {
@@ -221,6 +286,122 @@ describe("Task Model", () => {
                 expect(task.title).toBe("Untitled");
                 expect(task.description).toBe("");
             });
+
+            it("Case 7: Restore dueAt from 8th field", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `1;"Test Task";"";false;${createdAt};${createdAt};;2026-01-31T12:00:00.000Z`;
+
+                const task = Task.fromCsvRow(csvRow);
+
+                expect(task.dueAt?.toISOString()).toBe("2026-01-31T12:00:00.000Z");
+            });
+
+            it("Case 8: Load legacy 7-field rows without dueAt", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `1;"Test Task";"";false;${createdAt};${createdAt};`;
+
+                const task = Task.fromCsvRow(csvRow);
+
+                expect(task.dueAt).toBeUndefined();
+            });
+
+
+            it("Case 9: Restore priority from 9th field", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `1;"Test Task";"";false;${createdAt};${createdAt};;;urgent`;
+
+                const task = Task.fromCsvRow(csvRow);
+
+                expect(task.priority).toBe("urgent");
+            });
+
+            it("Case 10: Throw error for unknown priority", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `1;"Test Task";"";false;${createdAt};${createdAt};;;extreme`;
+
+                expect(() => Task.fromCsvRow(csvRow)).toThrow("Invalid priority: extreme");
+            });
+
+
+            it("Case 11: Restore tags from 10th field", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `1;"Test Task";"";false;${createdAt};${createdAt};;;high;"backend,ops"`;
+
+                const task = Task.fromCsvRow(csvRow);
+
+                expect([...task.tags]).toEqual(["backend", "ops"]);
+            });
+
+
+            it("Case 12: Restore parent ID from 11th field", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `2;"Subtask";"";false;${createdAt};${createdAt};;;normal;"";1`;
+
+                const task = Task.fromCsvRow(csvRow);
+
+                expect(task.parentId).toBe(1);
+            });
+
+            it("Case 13: Throw error for non-numeric parent ID", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `2;"Subtask";"";false;${createdAt};${createdAt};;;normal;"";abc`;
+
+                expect(() => Task.fromCsvRow(csvRow)).toThrow("Invalid parent ID: abc");
+            });
+
+
+            it("Case 14: Restore blocked-by IDs from 12th field", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `3;"Deploy";"";false;${createdAt};${createdAt};;;normal;"";;"1,2"`;
+
+                const task = Task.fromCsvRow(csvRow);
+
+                expect([...task.blockedBy]).toEqual([1, 2]);
+            });
+
+            it("Case 15: Throw error for non-numeric blocked-by ID", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `3;"Deploy";"";false;${createdAt};${createdAt};;;normal;"";;"1,x"`;
+
+                expect(() => Task.fromCsvRow(csvRow)).toThrow("Invalid blocked-by ID: x");
+            });
+
+            it("Case 16: Restore recurrence from 13th field", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `4;"Standup";"";false;${createdAt};${createdAt};;;normal;"";;"";weekly:mon,thu`;
+
+                const task = Task.fromCsvRow(csvRow);
+
+                expect(task.recurrence).toEqual({ kind: "weekly", weekdays: [1, 4] });
+            });
+
+            it("Case 17: Throw error for invalid recurrence", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `4;"Standup";"";false;${createdAt};${createdAt};;;normal;"";;"";hourly`;
+
+                expect(() => Task.fromCsvRow(csvRow)).toThrow("Invalid recurrence: hourly");
+            });
+
+            it("Case 18: Restore time entries from 14th field, including a running timer", () => {
+                const createdAt = new Date().toISOString();
+                const entries = "2026-10-19T08:00:00.000Z/2026-10-19T09:30:00.000Z,2026-10-19T13:00:00.000Z/";
+                const csvRow = `5;"Write report";"";false;${createdAt};${createdAt};;;normal;"";;"";;${entries}`;
+
+                const task = Task.fromCsvRow(csvRow);
+
+                expect(task.timeEntries).toEqual([
+                    { start: new Date("2026-10-19T08:00:00.000Z"), end: new Date("2026-10-19T09:30:00.000Z") },
+                    { start: new Date("2026-10-19T13:00:00.000Z") }
+                ]);
+                expect(task.isTimerRunning()).toBe(true);
+            });
+
+            it("Case 19: Throw error for invalid time entries", () => {
+                const createdAt = new Date().toISOString();
+                const csvRow = `5;"Write report";"";false;${createdAt};${createdAt};;;normal;"";;"";;yesterday/`;
+
+                expect(() => Task.fromCsvRow(csvRow)).toThrow("Invalid time entries: yesterday/");
+            });
         });
 
         describe("parseCsvRow edge cases", () => {
@@ -248,7 +429,7 @@ describe("Task Model", () => {
 
         describe("getCsvHeaders", () => {
             it("Case 1: Return correct CSV headers", () => {
-                expect(Task.getCsvHeaders()).toBe("id;title;description;completed;createdAt;updatedAt;completedAt");
+                expect(Task.getCsvHeaders()).toBe("id;title;description;completed;createdAt;updatedAt;completedAt;dueAt;priority;tags;parentId;blockedBy;recurrence;timeEntries");
             });
         });
 
@@ -268,6 +449,164 @@ describe("Task Model", () => {
                 expect(deserializedTask.updatedAt.toISOString()).toBe(originalTask.updatedAt.toISOString());
                 expect(deserializedTask.completedAt?.toISOString()).toBe(originalTask.completedAt?.toISOString());
             });
+
+            it("Case 2: Maintain dueAt through serialization/deserialization", () => {
+                const originalTask = new Task("Due Round Trip");
+                originalTask.dueAt = new Date("2026-03-15T23:59:59.999Z");
+
+                const deserializedTask = Task.fromCsvRow(originalTask.toCsvRow());
+
+                expect(deserializedTask.dueAt?.toISOString()).toBe("2026-03-15T23:59:59.999Z");
+            });
+
+
+            it("Case 3: Maintain priority and tags through serialization/deserialization", () => {
+                const originalTask = new Task("Tag Round Trip", "Description; with separator");
+                originalTask.priority = "high";
+                originalTask.setTags(["#Backend", "ops", "release-2026"]);
+
+                const deserializedTask = Task.fromCsvRow(originalTask.toCsvRow());
+
+                expect(deserializedTask.priority).toBe("high");
+                expect([...deserializedTask.tags]).toEqual(["backend", "ops", "release-2026"]);
+                expect(deserializedTask.description).toBe("Description; with separator");
+            });
+
+            it("Case 4: Maintain recurrence through serialization/deserialization", () => {
+                const originalTask = new Task("Pay rent");
+                originalTask.recurrence = { kind: "monthly", day: 1 };
+
+                const deserializedTask = Task.fromCsvRow(originalTask.toCsvRow());
+
+                expect(deserializedTask.recurrence).toEqual({ kind: "monthly", day: 1 });
+            });
+        });
+
+        describe("fromCsvRecord", () => {
+            it("Case 1: Build task from fields mapped by column name, ignoring unknown columns", () => {
+                const task = Task.fromCsvRecord({
+                    title: "Mapped",
+                    id: "5",
+                    createdAt: "2024-01-01T00:00:00.000Z",
+                    updatedAt: "2024-01-01T00:00:00.000Z",
+                    tags: "a,b",
+                    estimate: "2h"
+                });
+
+                expect(task.id).toBe(5);
+                expect(task.title).toBe("Mapped");
+                expect([...task.tags]).toEqual(["a", "b"]);
+                expect(task.priority).toBe("normal");
+            });
+
+            it("Case 2: Throw on missing or invalid ID", () => {
+                expect(() => Task.fromCsvRecord({ title: "No ID" })).toThrow("Invalid task ID: undefined");
+                expect(() => Task.fromCsvRecord({ id: "x", title: "Bad ID" })).toThrow("Invalid task ID: x");
+            });
+        });
+    });
+
+
+    describe("isPriority", () => {
+        it("Case 1: Accept known priority levels only", () => {
+            expect(isPriority("low")).toBe(true);
+            expect(isPriority("urgent")).toBe(true);
+            expect(isPriority("URGENT")).toBe(false);
+            expect(isPriority("")).toBe(false);
+        });
+    });
+
+
+    describe("tags", () => {
+        it("Case 1: parseTags normalizes, splits and de-duplicates", () => {
+            expect(parseTags(`#Backend, ops;#backend  "x"`)).toEqual(["backend", "ops", "x"]);
+            expect(parseTags("  ")).toEqual([]);
+        });
+
+        it("Case 2: setTags replaces tags, hasTag ignores # and case", () => {
+            const task = new Task("Test Task 1");
+
+            task.setTags(["#Ops", "personal"]);
+            task.setTags(["#Backend"]);
+
+            expect([...task.tags]).toEqual(["backend"]);
+            expect(task.hasTag("#BACKEND")).toBe(true);
+            expect(task.hasTag("ops")).toBe(false);
+            expect(task.hasTag("")).toBe(false);
+        });
+    });
+
+    describe("createNextOccurrence", () => {
+        it("Case 1: Create fresh task with shifted due date and hand over the rule", () => {
+            const task = new Task("Water plants", "Balcony");
+            task.priority = "high";
+            task.setTags(["home"]);
+            task.recurrence = parseRecurrence("after:3")!;
+            task.dueAt = new Date(2026, 9, 1);
+            task.markAsCompleted();
+
+            const next = task.createNextOccurrence();
+
+            expect(next?.id).not.toBe(task.id);
+            expect(next?.title).toBe("Water plants");
+            expect(next?.description).toBe("Balcony");
+            expect(next?.priority).toBe("high");
+            expect([...next!.tags]).toEqual(["home"]);
+            expect(next?.completed).toBe(false);
+            expect(next?.recurrence).toEqual({ kind: "after", days: 3 });
+            expect(next!.dueAt!.getTime()).toBeGreaterThan(task.completedAt!.getTime());
+            expect(task.recurrence).toBeUndefined();
+        });
+
+        it("Case 2: Return undefined for pending or non-recurring tasks", () => {
+            const pending = new Task("Pending");
+            pending.recurrence = { kind: "daily" };
+            const once = new Task("Once");
+            once.markAsCompleted();
+
+            expect(pending.createNextOccurrence()).toBeUndefined();
+            expect(once.createNextOccurrence()).toBeUndefined();
+        });
+    });
+
+    describe("JSON Serialization", () => {
+        it("Case 1: Maintain all fields with proper types", () => {
+            const originalTask = new Task("JSON Test", "Desc");
+            originalTask.dueAt = new Date("2026-03-15T23:59:59.999Z");
+            originalTask.priority = "urgent";
+            originalTask.setTags(["ops"]);
+            originalTask.parentId = 7;
+            originalTask.blockedBy.add(3);
+            originalTask.recurrence = { kind: "weekly", weekdays: [1] };
+            originalTask.timeEntries = [{ start: new Date("2026-03-15T09:00:00.000Z"), end: new Date("2026-03-15T10:00:00.000Z") }];
+            originalTask.markAsCompleted();
+
+            const data = JSON.parse(JSON.stringify(originalTask));
+            const deserializedTask = Task.fromJSON(data);
+
+            expect(data).toMatchObject({ completed: true, tags: ["ops"], blockedBy: [3], parentId: 7 });
+            expect(deserializedTask.toJSON()).toEqual(originalTask.toJSON());
+            expect(deserializedTask.completedAt).toBeInstanceOf(Date);
+        });
+
+        it("Case 2: Omit unset optional fields", () => {
+            const data = new Task("Plain").toJSON();
+
+            expect(Object.keys(data)).not.toContain("dueAt");
+            expect(Object.keys(data)).not.toContain("parentId");
+            expect(Object.keys(data)).not.toContain("timeEntries");
+        });
+
+        it("Case 3: Throw error for missing or mistyped fields", () => {
+            const data = new Task("Valid").toJSON();
+
+            expect(() => Task.fromJSON(null)).toThrow("expected an object");
+            expect(() => Task.fromJSON({ ...data, id: "1" })).toThrow(`Invalid task data: id = "1"`);
+            expect(() => Task.fromJSON({ ...data, priority: "asap" })).toThrow("Invalid task data: priority");
+            expect(() => Task.fromJSON({ ...data, createdAt: "soon" })).toThrow("Invalid task data: createdAt");
+            expect(() => Task.fromJSON({ ...data, recurrence: { kind: "hourly" } })).toThrow("Invalid task data: recurrence");
+            expect(() => Task.fromJSON({ ...data, timeEntries: [{ start: "2026-03-15T10:00:00.000Z", end: "2026-03-15T09:00:00.000Z" }] }))
+                .toThrow("Invalid task data: timeEntries");
         });
     });
 })
\ No newline at end of file
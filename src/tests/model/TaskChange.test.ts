@@ -0,0 +1,40 @@
+import { TaskChange } from "../../models/TaskChange.js";
+
+describe("TaskChange Model", () => {
+    describe("CSV Serialization", () => {
+        it("Case 1: Maintain all fields through serialization/deserialization", () => {
+            const change = new TaskChange(3, "title", `Say "hi"; wave`, "", new Date("2026-10-19T08:00:00.000Z"));
+
+            const csvRow = change.toCsvRow();
+            const restored = TaskChange.fromCsvRow(csvRow);
+
+            expect(csvRow).toBe(`2026-10-19T08:00:00.000Z;3;title;"Say ""hi""; wave";""`);
+            expect(restored).toEqual(change);
+        });
+
+        it("Case 2: Throw error for malformed rows", () => {
+            expect(() => TaskChange.fromCsvRow("2026-10-19T08:00:00.000Z;3;title")).toThrow("expected 5 fields, got 3");
+            expect(() => TaskChange.fromCsvRow(`yesterday;3;title;"";""`)).toThrow("Invalid timestamp: yesterday");
+            expect(() => TaskChange.fromCsvRow(`2026-10-19T08:00:00.000Z;x;title;"";""`)).toThrow("Invalid task ID: x");
+        });
+
+        it("Case 3: Return correct CSV headers", () => {
+            expect(TaskChange.getCsvHeaders()).toBe("timestamp;taskId;field;oldValue;newValue");
+        });
+    });
+
+    describe("JSON Serialization", () => {
+        it("Case 1: Maintain all fields through JSON", () => {
+            const change = new TaskChange(3, "completed", "false", "true", new Date("2026-10-19T08:00:00.000Z"));
+
+            expect(TaskChange.fromJSON(JSON.parse(JSON.stringify(change)))).toEqual(change);
+        });
+
+        it("Case 2: Throw error for mistyped fields", () => {
+            const data = new TaskChange(3, "title", "a", "b").toJSON();
+
+            expect(() => TaskChange.fromJSON({ ...data, taskId: "3" })).toThrow("Invalid task ID: 3");
+            expect(() => TaskChange.fromJSON({ ...data, newValue: 1 })).toThrow("must be strings");
+        });
+    });
+});
@@ -0,0 +1,75 @@
+import { entryDuration, formatDuration, formatTimeEntries, parseDuration, parseTimeEntries, timeEntryFromJSON, type TimeEntry } from "../../models/TimeEntry.js";
+
+describe("TimeEntry", () => {
+    const MINUTE = 60_000;
+
+    describe("parseDuration", () => {
+        it("Case 1: Parse hours, minutes and clock notation", () => {
+            expect(parseDuration("1h30m")).toBe(90 * MINUTE);
+            expect(parseDuration("1h 30m")).toBe(90 * MINUTE);
+            expect(parseDuration("1.5h")).toBe(90 * MINUTE);
+            expect(parseDuration("2H")).toBe(120 * MINUTE);
+            expect(parseDuration("45m")).toBe(45 * MINUTE);
+            expect(parseDuration("45min")).toBe(45 * MINUTE);
+            expect(parseDuration(" 45 ")).toBe(45 * MINUTE);
+            expect(parseDuration("1:05")).toBe(65 * MINUTE);
+        });
+
+        it("Case 2: Return undefined for blank, invalid or zero durations", () => {
+            expect(parseDuration("")).toBeUndefined();
+            expect(parseDuration("soon")).toBeUndefined();
+            expect(parseDuration("1:75")).toBeUndefined();
+            expect(parseDuration("-5")).toBeUndefined();
+            expect(parseDuration("0m")).toBeUndefined();
+        });
+    });
+
+    describe("formatDuration / entryDuration", () => {
+        it("Case 1: Format hours with zero-padded minutes, dropping seconds", () => {
+            expect(formatDuration(0)).toBe("0m");
+            expect(formatDuration(45 * MINUTE + 59_000)).toBe("45m");
+            expect(formatDuration(65 * MINUTE)).toBe("1h 05m");
+            expect(formatDuration(25 * 60 * MINUTE)).toBe("25h 00m");
+        });
+
+        it("Case 2: Measure running entries up to now", () => {
+            const start = new Date("2026-10-19T08:00:00.000Z");
+
+            expect(entryDuration({ start, end: new Date("2026-10-19T08:30:00.000Z") })).toBe(30 * MINUTE);
+            expect(entryDuration({ start }, new Date("2026-10-19T09:00:00.000Z"))).toBe(60 * MINUTE);
+        });
+    });
+
+    describe("formatTimeEntries / parseTimeEntries", () => {
+        it("Case 1: Round-trip finished and running entries", () => {
+            const entries: TimeEntry[] = [
+                { start: new Date("2026-10-19T08:00:00.000Z"), end: new Date("2026-10-19T09:30:00.000Z") },
+                { start: new Date("2026-10-19T13:00:00.000Z") }
+            ];
+
+            const text = formatTimeEntries(entries);
+
+            expect(text).toBe("2026-10-19T08:00:00.000Z/2026-10-19T09:30:00.000Z,2026-10-19T13:00:00.000Z/");
+            expect(parseTimeEntries(text)).toEqual(entries);
+            expect(parseTimeEntries("")).toEqual([]);
+        });
+
+        it("Case 2: Reject invalid timestamps and entries ending before they start", () => {
+            expect(parseTimeEntries("yesterday/")).toBeUndefined();
+            expect(parseTimeEntries("2026-10-19T09:00:00.000Z/2026-10-19T08:00:00.000Z")).toBeUndefined();
+            expect(timeEntryFromJSON({ start: 5 })).toBeUndefined();
+            expect(timeEntryFromJSON(null)).toBeUndefined();
+        });
+
+        it("Case 3: Mark focus sessions, which must have an end", () => {
+            const entries: TimeEntry[] = [
+                { start: new Date("2026-10-19T08:00:00.000Z"), end: new Date("2026-10-19T08:25:00.000Z"), focus: true }
+            ];
+
+            expect(formatTimeEntries(entries)).toBe("2026-10-19T08:00:00.000Z/2026-10-19T08:25:00.000Z/focus");
+            expect(parseTimeEntries(formatTimeEntries(entries))).toEqual(entries);
+            expect(parseTimeEntries("2026-10-19T08:00:00.000Z/2026-10-19T08:25:00.000Z/break")).toBeUndefined();
+            expect(timeEntryFromJSON({ start: "2026-10-19T08:00:00.000Z", focus: true })).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,121 @@
+import { Autosave, autosaveModeFromEnv, describeAutosaveMode } from "../../services/Autosave.js";
+import { jest } from "@jest/globals";
+
+describe("Autosave", () => {
+    let save: jest.Mock<() => Promise<void>>;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        save = jest.fn(async () => undefined);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+        delete process.env["TASKS_AUTOSAVE"];
+    });
+
+    describe("autosaveModeFromEnv", () => {
+        it("Case 1: Default to off", () => {
+            expect(autosaveModeFromEnv()).toEqual({ kind: "off" });
+
+            process.env["TASKS_AUTOSAVE"] = "OFF";
+            expect(autosaveModeFromEnv()).toEqual({ kind: "off" });
+        });
+
+        it("Case 2: Read change and debounce modes", () => {
+            process.env["TASKS_AUTOSAVE"] = "change";
+            expect(autosaveModeFromEnv()).toEqual({ kind: "change" });
+
+            process.env["TASKS_AUTOSAVE"] = " 30 ";
+            expect(autosaveModeFromEnv()).toEqual({ kind: "debounce", seconds: 30 });
+            expect(describeAutosaveMode(autosaveModeFromEnv())).toBe("after 30s without changes");
+        });
+
+        it("Case 3: Throw for invalid values", () => {
+            process.env["TASKS_AUTOSAVE"] = "0";
+            expect(() => autosaveModeFromEnv()).toThrow("Invalid TASKS_AUTOSAVE: 0");
+
+            process.env["TASKS_AUTOSAVE"] = "sometimes";
+            expect(() => autosaveModeFromEnv()).toThrow("expected off, change or a number of seconds > 0");
+        });
+    });
+
+    describe("changed", () => {
+        it("Case 1: Never save when off", async () => {
+            const autosave = new Autosave({ kind: "off" }, save);
+
+            await autosave.changed();
+            jest.runAllTimers();
+
+            expect(autosave.enabled).toBe(false);
+            expect(save).not.toHaveBeenCalled();
+        });
+
+        it("Case 2: Save right away after every change", async () => {
+            const autosave = new Autosave({ kind: "change" }, save);
+
+            await autosave.changed();
+            await autosave.changed();
+
+            expect(save).toHaveBeenCalledTimes(2);
+        });
+
+        it("Case 3: Save once after a quiet period", async () => {
+            const autosave = new Autosave({ kind: "debounce", seconds: 10 }, save);
+
+            await autosave.changed();
+            jest.advanceTimersByTime(6000);
+            await autosave.changed();
+            jest.advanceTimersByTime(6000);
+
+            expect(save).not.toHaveBeenCalled();
+            expect(autosave.isPending).toBe(true);
+
+            jest.advanceTimersByTime(4000);
+
+            expect(save).toHaveBeenCalledTimes(1);
+            expect(autosave.isPending).toBe(false);
+        });
+
+        it("Case 4: Report failed saves instead of throwing", async () => {
+            const errorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+            save.mockRejectedValue(new Error("disk full"));
+            const autosave = new Autosave({ kind: "change" }, save);
+
+            await autosave.changed();
+
+            expect(errorSpy).toHaveBeenCalledWith("⚠️ Autosave failed: disk full");
+        });
+    });
+
+    describe("flush / cancel", () => {
+        it("Case 1: Run a pending save now", async () => {
+            const autosave = new Autosave({ kind: "debounce", seconds: 10 }, save);
+
+            await autosave.changed();
+            await autosave.flush();
+            jest.runAllTimers();
+
+            expect(save).toHaveBeenCalledTimes(1);
+        });
+
+        it("Case 2: Do nothing without a pending save", async () => {
+            const autosave = new Autosave({ kind: "debounce", seconds: 10 }, save);
+
+            await autosave.flush();
+
+            expect(save).not.toHaveBeenCalled();
+        });
+
+        it("Case 3: Drop a pending save", async () => {
+            const autosave = new Autosave({ kind: "debounce", seconds: 10 }, save);
+
+            await autosave.changed();
+            autosave.cancel();
+            jest.runAllTimers();
+
+            expect(save).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,91 @@
+import { Task } from "../../models/Task.js";
+import {
+    DEFAULT_RETENTION_POLICY,
+    diffTasks,
+    retentionPolicyFromEnv,
+    selectBackupsToPrune,
+    type BackupInfo
+} from "../../services/Backups.js";
+
+describe("Backups", () => {
+    beforeEach(() => {
+        (Task as any).nextId = 1;
+    });
+
+    describe("selectBackupsToPrune", () => {
+        const now = new Date(2026, 9, 19, 12);
+
+        /** Backup created `days` days and `hours` hours before now */
+        const backupAt = (days: number, hours = 0): BackupInfo => ({
+            name: `backup-${days}-${hours}`,
+            createdAt: new Date(2026, 9, 19 - days, 12 - hours)
+        });
+
+        it("Case 1: Keep the most recent backups", () => {
+            const backups = [backupAt(0, 3), backupAt(0, 1), backupAt(0, 2)];
+
+            const pruned = selectBackupsToPrune(backups, { keepLast: 2, keepDailyForDays: 0 }, now);
+
+            expect(pruned.map(backup => backup.name)).toEqual(["backup-0-3"]);
+        });
+
+        it("Case 2: Keep the newest backup of each day within the daily window", () => {
+            const backups = [backupAt(1, 1), backupAt(1, 2), backupAt(2), backupAt(3)];
+
+            const pruned = selectBackupsToPrune(backups, { keepLast: 0, keepDailyForDays: 3 }, now);
+
+            // Day 3 is outside the window (today, yesterday and the day before)
+            expect(pruned.map(backup => backup.name)).toEqual(["backup-3-0", "backup-1-2"]);
+        });
+
+        it("Case 3: Default policy keeps last 10 plus one per day for a month", () => {
+            const backups = Array.from({ length: 40 }, (_, days) => backupAt(days));
+
+            const pruned = selectBackupsToPrune(backups, DEFAULT_RETENTION_POLICY, now);
+
+            expect(pruned).toHaveLength(10);
+            expect(pruned[pruned.length - 1]?.name).toBe("backup-30-0");
+        });
+    });
+
+    describe("retentionPolicyFromEnv", () => {
+        const environment = { ...process.env };
+
+        afterEach(() => {
+            process.env = { ...environment };
+        });
+
+        it("Case 1: Read policy from environment with defaults", () => {
+            delete process.env["TASKS_BACKUP_KEEP_LAST"];
+            process.env["TASKS_BACKUP_KEEP_DAYS"] = "7";
+
+            expect(retentionPolicyFromEnv()).toEqual({ keepLast: 10, keepDailyForDays: 7 });
+        });
+
+        it("Case 2: Reject invalid values", () => {
+            process.env["TASKS_BACKUP_KEEP_LAST"] = "-1";
+
+            expect(() => retentionPolicyFromEnv()).toThrow("Invalid TASKS_BACKUP_KEEP_LAST: -1");
+        });
+    });
+
+    describe("diffTasks", () => {
+        it("Case 1: Report added, removed and changed tasks by ID", () => {
+            const kept = new Task("Kept");
+            const removed = new Task("Removed");
+            const changed = new Task("Changed");
+            const before = [kept, removed, changed].map(task => Task.fromJSON(task.toJSON()));
+
+            changed.title = "Changed title";
+            changed.priority = "high";
+            changed.updatedAt = new Date(changed.updatedAt.getTime() + 1000);
+            const added = new Task("Added");
+
+            const diff = diffTasks(before, [kept, changed, added]);
+
+            expect(diff.added).toEqual([added]);
+            expect(diff.removed.map(task => task.id)).toEqual([removed.id]);
+            expect(diff.changed.map(({ after, fields }) => [after.id, fields])).toEqual([[changed.id, ["title", "priority"]]]);
+        });
+    });
+});
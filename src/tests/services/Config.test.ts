@@ -0,0 +1,122 @@
+import { configFilePath, DEFAULT_PREFERENCES, describeDataDirectorySource, loadConfig, resolveDataDirectory, userDataDirectory } from "../../services/Config.js";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { homedir, tmpdir } from "os";
+import { join } from "path";
+import { jest } from "@jest/globals";
+
+describe("Config", () => {
+    const VARIABLES = ["TASKS_DATA_DIR", "TASKS_CONFIG", "XDG_CONFIG_HOME", "XDG_DATA_HOME"];
+    let directory: string;
+    let environment: Record<string, string | undefined>;
+    let cwdSpy: { mockRestore(): void };
+
+    /** Write the config file at its default XDG location */
+    const writeConfig = async (settings: object | string) => {
+        const path = join(directory, "config", "task-manager", "config.json");
+        await mkdir(join(directory, "config", "task-manager"), { recursive: true });
+        await writeFile(path, typeof settings === "string" ? settings : JSON.stringify(settings));
+        return path;
+    };
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "config-"));
+        environment = Object.fromEntries(VARIABLES.map(name => [name, process.env[name]]));
+        VARIABLES.forEach(name => delete process.env[name]);
+        process.env["XDG_CONFIG_HOME"] = join(directory, "config");
+        process.env["XDG_DATA_HOME"] = join(directory, "share");
+        cwdSpy = jest.spyOn(process, "cwd").mockReturnValue(join(directory, "project"));
+    });
+
+    afterEach(async () => {
+        cwdSpy.mockRestore();
+
+        for (const [name, value] of Object.entries(environment)) {
+            if (value === undefined) delete process.env[name];
+            else process.env[name] = value;
+        }
+
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    describe("configFilePath / userDataDirectory", () => {
+        it("Case 1: Use the XDG base directories", () => {
+            expect(configFilePath()).toBe(join(directory, "config", "task-manager", "config.json"));
+            expect(userDataDirectory()).toBe(join(directory, "share", "task-manager"));
+        });
+
+        it("Case 2: Fall back to the home directory for unset or relative XDG variables", () => {
+            delete process.env["XDG_CONFIG_HOME"];
+            process.env["XDG_DATA_HOME"] = "relative/share";
+
+            expect(configFilePath()).toBe(join(homedir(), ".config", "task-manager", "config.json"));
+            expect(userDataDirectory()).toBe(join(homedir(), ".local", "share", "task-manager"));
+        });
+
+        it("Case 3: Prefer TASKS_CONFIG, relative to the working directory", () => {
+            process.env["TASKS_CONFIG"] = "settings.json";
+
+            expect(configFilePath()).toBe(join(directory, "project", "settings.json"));
+        });
+    });
+
+    describe("loadConfig", () => {
+        it("Case 1: Use defaults without a config file", () => {
+            expect(loadConfig()).toEqual({ path: configFilePath(), file: {}, preferences: DEFAULT_PREFERENCES });
+        });
+
+        it("Case 2: Read preferences, with defaults for missing ones", async () => {
+            await writeConfig({ defaultView: "pending", dateFormat: "iso", focusMinutes: 50 });
+
+            expect(loadConfig().preferences).toEqual({
+                defaultView: "pending", dateFormat: "iso", confirm: true, focusMinutes: 50, breakMinutes: 5
+            });
+        });
+
+        it("Case 3: Throw for invalid files, unknown settings and invalid values", async () => {
+            const path = await writeConfig("{ not json");
+            expect(() => loadConfig()).toThrow(`Invalid config file ${path}`);
+
+            await writeConfig({ dateFormt: "iso" });
+            expect(() => loadConfig()).toThrow(`unknown setting "dateFormt"`);
+
+            await writeConfig({ defaultView: "everything" });
+            expect(() => loadConfig()).toThrow("defaultView must be one of menu, all, pending, completed, ready");
+
+            await writeConfig({ confirm: "no" });
+            expect(() => loadConfig()).toThrow("confirm must be true or false");
+
+            await writeConfig({ breakMinutes: 2.5 });
+            expect(() => loadConfig()).toThrow("breakMinutes must be a whole number of minutes from 1 to 240");
+        });
+    });
+
+    describe("resolveDataDirectory", () => {
+        it("Case 1: Prefer TASKS_DATA_DIR over the config file", async () => {
+            await writeConfig({ dataDir: "/srv/tasks" });
+            process.env["TASKS_DATA_DIR"] = "data";
+
+            expect(resolveDataDirectory()).toEqual({ path: join(directory, "project", "data"), source: "env" });
+        });
+
+        it("Case 2: Resolve dataDir of the config file relative to it, or to the home directory", async () => {
+            await writeConfig({ dataDir: "tasks" });
+            expect(resolveDataDirectory()).toEqual({ path: join(directory, "config", "task-manager", "tasks"), source: "config" });
+
+            await writeConfig({ dataDir: "~/Tasks" });
+            expect(resolveDataDirectory().path).toBe(join(homedir(), "Tasks"));
+        });
+
+        it("Case 3: Default to the user data directory", () => {
+            expect(resolveDataDirectory()).toEqual({ path: join(directory, "share", "task-manager"), source: "user" });
+        });
+
+        it("Case 4: Keep using data/ of the working directory until the user data directory exists", async () => {
+            await mkdir(join(directory, "project", "data"), { recursive: true });
+            expect(resolveDataDirectory()).toEqual({ path: join(directory, "project", "data"), source: "cwd" });
+
+            await mkdir(join(directory, "share", "task-manager"), { recursive: true });
+            expect(resolveDataDirectory().source).toBe("user");
+            expect(describeDataDirectorySource("user")).toBe("user data directory");
+        });
+    });
+});
@@ -0,0 +1,66 @@
+import {
+    CSV_SCHEMA_VERSION,
+    formatSchemaMarker,
+    migrateCsvTable,
+    parseCsvTable,
+    registerCsvMigration
+} from "../../services/CsvSchema.js";
+
+describe("CsvSchema", () => {
+    describe("parseCsvTable", () => {
+        it("Case 1: Read schema marker, header columns and rows with line numbers", () => {
+            const table = parseCsvTable(`${formatSchemaMarker()}\nid;title;extra\n\n1;"A";"x"\n`);
+
+            expect(table.version).toBe(CSV_SCHEMA_VERSION);
+            expect(table.columns).toEqual(["id", "title", "extra"]);
+            expect(table.rows).toEqual([{ line: 4, fields: ["1", "A", "x"] }]);
+        });
+
+        it("Case 2: Treat files without marker as version 1, with or without header", () => {
+            expect(parseCsvTable("id;title;description\n1;A;B").columns).toEqual(["id", "title", "description"]);
+
+            const headerless = parseCsvTable("1;A;B");
+            expect(headerless.version).toBe(1);
+            expect(headerless.columns).toEqual([]);
+            expect(headerless.rows).toHaveLength(1);
+        });
+    });
+
+    describe("migrateCsvTable", () => {
+        it("Case 1: Name columns of headerless version 1 files and pad shorter rows", () => {
+            const table = parseCsvTable([
+                '1;"Old";"";false;2024-01-01T00:00:00.000Z;2024-01-01T00:00:00.000Z;',
+                '2;"Newer";"";false;2024-01-01T00:00:00.000Z;2024-01-01T00:00:00.000Z;;;high'
+            ].join("\n"));
+
+            const { table: migrated, applied } = migrateCsvTable(table);
+
+            expect(applied.map(migration => migration.from)).toEqual([1]);
+            expect(migrated.version).toBe(CSV_SCHEMA_VERSION);
+            expect(migrated.columns.slice(-1)).toEqual(["priority"]);
+            expect(migrated.rows.map(row => row.fields.length)).toEqual([9, 9]);
+        });
+
+        it("Case 2: Keep version 1 files with header and newer versions unchanged", () => {
+            const withHeader = parseCsvTable("id;title\n1;A");
+            const newer = parseCsvTable(`${formatSchemaMarker(CSV_SCHEMA_VERSION + 1)}\nid;title;future\n1;A;x`);
+
+            expect(migrateCsvTable(withHeader).table.columns).toEqual(["id", "title"]);
+            expect(migrateCsvTable(newer)).toEqual({ table: newer, applied: [] });
+        });
+
+        it("Case 3: Fail when no migration is registered for a version", () => {
+            const table = { version: 0, columns: [], rows: [] };
+
+            expect(() => migrateCsvTable(table)).toThrow("No CSV migration from schema version 0");
+        });
+    });
+
+    describe("registerCsvMigration", () => {
+        it("Case 1: Reject a second migration for the same version", () => {
+            const migration = { from: 1, description: "duplicate", migrate: (table: any) => table };
+
+            expect(() => registerCsvMigration(migration)).toThrow("CSV migration from schema version 1 is already registered");
+        });
+    });
+});
@@ -0,0 +1,158 @@
+import { FileLock, TaskFileLockedError } from "../../services/FileLock.js";
+import { promises as fileSystem } from "fs";
+import { mkdtemp, readFile, readdir, rm, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { jest } from "@jest/globals";
+
+describe("FileLock", () => {
+    let directory: string;
+    let lockPath: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "file-lock-"));
+        lockPath = join(directory, "tasks.csv.lock");
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    describe("acquire", () => {
+        it("Case 1: Create lock file with own pid", async () => {
+            const lock = new FileLock(lockPath);
+
+            await lock.acquire();
+
+            expect(lock.isHeld).toBe(true);
+            expect(await readFile(lockPath, "utf-8")).toBe(`${process.pid}\n`);
+        });
+
+        it("Case 2: Refuse a lock held by another running process", async () => {
+            await writeFile(lockPath, `${process.ppid}\n`);
+            const lock = new FileLock(lockPath);
+
+            await expect(lock.acquire()).rejects.toThrow(TaskFileLockedError);
+            await expect(lock.acquire()).rejects.toThrow(`Tasks are open in another session (pid ${process.ppid})`);
+            expect(lock.isHeld).toBe(false);
+        });
+
+        it("Case 3: Take over stale locks of processes that are gone", async () => {
+            await writeFile(lockPath, "999999\n");
+            jest.spyOn(process, "kill").mockImplementation(() => {
+                throw Object.assign(new Error("No such process"), { code: "ESRCH" });
+            });
+            const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+            const lock = new FileLock(lockPath);
+
+            await lock.acquire();
+
+            expect(lock.isHeld).toBe(true);
+            expect(warnSpy).toHaveBeenCalledWith("⚠️ Removing stale lock file (pid 999999)");
+            expect(await readFile(lockPath, "utf-8")).toBe(`${process.pid}\n`);
+            expect(await readdir(directory)).toEqual(["tasks.csv.lock"]);
+        });
+
+        it("Case 4: Adopt a lock held by another instance of the same process", async () => {
+            const owner = new FileLock(lockPath);
+            await owner.acquire();
+            const lock = new FileLock(lockPath);
+
+            await lock.acquire();
+
+            expect(lock.isHeld).toBe(true);
+            expect(await readFile(lockPath, "utf-8")).toBe(`${process.pid}\n`);
+        });
+
+        it("Case 5: Take over lock files of the own process no instance holds", async () => {
+            await writeFile(lockPath, `${process.pid}\n`);
+            const lock = new FileLock(lockPath);
+
+            await lock.acquire();
+            await lock.release();
+
+            await expect(readFile(lockPath, "utf-8")).rejects.toThrow();
+        });
+
+        it("Case 6: Put back a lock another session took over from the same stale lock", async () => {
+            await writeFile(lockPath, "999999\n");
+            jest.spyOn(process, "kill").mockImplementation(pid => {
+                if (pid === 999999) throw Object.assign(new Error("No such process"), { code: "ESRCH" });
+                return true;
+            });
+            const rename = fileSystem.rename;
+            jest.spyOn(fileSystem, "rename").mockImplementationOnce(async (from, to) => {
+                // The other session replaces the stale lock right before it is moved aside
+                await writeFile(lockPath, `${process.ppid}\n`);
+                await rename(from, to);
+            });
+            const lock = new FileLock(lockPath);
+
+            await expect(lock.acquire()).rejects.toThrow(new TaskFileLockedError(process.ppid));
+            expect(await readFile(lockPath, "utf-8")).toBe(`${process.ppid}\n`);
+            expect(await readdir(directory)).toEqual(["tasks.csv.lock"]);
+        });
+
+        it("Case 7: Refuse an empty lock file that is still being created", async () => {
+            await writeFile(lockPath, "");
+            const lock = new FileLock(lockPath);
+
+            await expect(lock.acquire()).rejects.toThrow(new TaskFileLockedError());
+            expect(lock.isHeld).toBe(false);
+            expect(await readFile(lockPath, "utf-8")).toBe("");
+        });
+
+        it("Case 8: Take over empty lock files left behind long ago", async () => {
+            await writeFile(lockPath, "");
+            const longAgo = new Date(Date.now() - 60_000);
+            await utimes(lockPath, longAgo, longAgo);
+            const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+            const lock = new FileLock(lockPath);
+
+            await lock.acquire();
+
+            expect(warnSpy).toHaveBeenCalledWith("⚠️ Removing stale lock file");
+            expect(await readFile(lockPath, "utf-8")).toBe(`${process.pid}\n`);
+        });
+    });
+
+    describe("release", () => {
+        it("Case 1: Remove own lock file so the next session can lock", async () => {
+            const lock = new FileLock(lockPath);
+            await lock.acquire();
+
+            await lock.release();
+
+            expect(lock.isHeld).toBe(false);
+            await expect(readFile(lockPath, "utf-8")).rejects.toThrow();
+        });
+
+        it("Case 2: Leave lock files of other sessions alone", async () => {
+            const lock = new FileLock(lockPath);
+            await lock.acquire();
+            await writeFile(lockPath, `${process.ppid}\n`);
+
+            await lock.release();
+
+            expect(await readFile(lockPath, "utf-8")).toBe(`${process.ppid}\n`);
+        });
+
+        it("Case 3: Keep adopted lock files for the instance that created them", async () => {
+            const owner = new FileLock(lockPath);
+            await owner.acquire();
+            const lock = new FileLock(lockPath);
+            await lock.acquire();
+
+            await lock.release();
+
+            expect(lock.isHeld).toBe(false);
+            expect(owner.isHeld).toBe(true);
+            expect(await readFile(lockPath, "utf-8")).toBe(`${process.pid}\n`);
+
+            await owner.release();
+
+            await expect(readFile(lockPath, "utf-8")).rejects.toThrow();
+        });
+    });
+});
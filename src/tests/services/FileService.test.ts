@@ -10,8 +10,15 @@ jest.unstable_mockModule("fs", () => ({
         writeFile: jest.fn(),
         readFile: jest.fn(),
         unlink: jest.fn(),
-        copyFile: jest.fn()
-    }
+        copyFile: jest.fn(),
+        rename: jest.fn(),
+        readdir: jest.fn(async () => []),
+        stat: jest.fn()
+    },
+    watchFile: jest.fn(),
+    unwatchFile: jest.fn(),
+    existsSync: jest.fn(),
+    readFileSync: jest.fn()
 }));
 
 // Import fs and FileService after mocking
@@ -87,6 +94,67 @@ describe("FileService", () => {
 
             consoleErrorSpy.mockRestore();
         });
+
+        it("Case 4: Save change history to sidecar file", async () => {
+            taskManager.addTask("Task 1");
+
+            mockFileSystem.access.mockResolvedValueOnce(undefined);
+            mockFileSystem.writeFile.mockResolvedValue(undefined);
+
+            const consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+            await fileService.saveTasks(taskManager);
+
+            const historyPath = join(process.cwd(), "data", "test-tasks.history.csv");
+            const historyCall = mockFileSystem.writeFile.mock.calls[1];
+            expect(historyCall?.[0]).toBe(`${historyPath}.${process.pid}.tmp`);
+            expect(mockFileSystem.rename).toHaveBeenCalledWith(`${historyPath}.${process.pid}.tmp`, historyPath);
+
+            const content = historyCall?.[1] as string;
+            expect(content).toContain("timestamp;taskId;field;oldValue;newValue");
+            expect(content).toContain(`;1;created;"";"Task 1"`);
+
+            consoleLogSpy.mockRestore();
+        });
+
+        it("Case 4: Write schema version marker before the header", async () => {
+            taskManager.addTask("Task 1");
+            mockFileSystem.writeFile.mockResolvedValue(undefined);
+            const consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+            await fileService.saveTasks(taskManager);
+
+            const lines = (mockFileSystem.writeFile.mock.calls[0]?.[1] as string).split("\n");
+            expect(lines[0]).toBe("#schema: 2");
+            expect(lines[1]).toBe(Task.getCsvHeaders());
+
+            consoleLogSpy.mockRestore();
+        });
+
+        it("Case 5: Write to a flushed temp file and rename it into place", async () => {
+            const filePath = join(process.cwd(), "data", "test-tasks.csv");
+            mockFileSystem.writeFile.mockResolvedValue(undefined);
+            const consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+            await fileService.saveTasks(taskManager);
+
+            expect(mockFileSystem.writeFile).toHaveBeenCalledWith(`${filePath}.${process.pid}.tmp`, expect.any(String), { encoding: "utf-8", flush: true });
+            expect(mockFileSystem.rename).toHaveBeenCalledWith(`${filePath}.${process.pid}.tmp`, filePath);
+
+            consoleLogSpy.mockRestore();
+        });
+
+        it("Case 6: Remove the temp file and keep the save file when writing fails", async () => {
+            mockFileSystem.writeFile.mockRejectedValueOnce(new Error("Disk full"));
+            const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+            await expect(fileService.saveTasks(taskManager)).rejects.toThrow("Failed to save tasks: Disk full");
+
+            expect(mockFileSystem.unlink).toHaveBeenCalledWith(join(process.cwd(), "data", `test-tasks.csv.${process.pid}.tmp`));
+            expect(mockFileSystem.rename).not.toHaveBeenCalled();
+
+            consoleErrorSpy.mockRestore();
+        });
     });
 
     describe("loadTasks", () => {
@@ -251,7 +319,7 @@ describe("FileService", () => {
 
             const copyCall = mockFileSystem.copyFile.mock.calls[0];
             expect(copyCall?.[0]).toContain("test-tasks.csv");
-            expect(copyCall?.[1]).toMatch(/tasks-backup-.*\.csv/);
+            expect(copyCall?.[1]).toMatch(/[/\\]test-tasks-backup-.*\.csv$/);
 
             consoleLogSpy.mockRestore();
             jest.restoreAllMocks();
@@ -281,4 +349,154 @@ describe("FileService", () => {
             consoleErrorSpy.mockRestore();
         });
     });
+
+    describe("loadHistory", () => {
+        it("Case 1: Load changes and skip invalid lines", async () => {
+            const historyContent = `timestamp;taskId;field;oldValue;newValue
+2026-10-19T08:00:00.000Z;1;created;"";"Task 1"
+not-a-row
+2026-10-19T09:00:00.000Z;1;completed;"false";"true"`;
+
+            mockFileSystem.readFile.mockResolvedValueOnce(historyContent);
+
+            const consoleWarnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+            const changes = await fileService.loadHistory();
+
+            expect(mockFileSystem.readFile).toHaveBeenCalledWith(join(process.cwd(), "data", "test-tasks.history.csv"), "utf-8");
+            expect(changes.map(change => change.field)).toEqual(["created", "completed"]);
+            expect(consoleWarnSpy).toHaveBeenCalledWith("    -Line 3: Invalid CSV format: expected 5 fields, got 1");
+
+            consoleWarnSpy.mockRestore();
+        });
+
+        it("Case 2: Return empty history when file doesn't exist", async () => {
+            const error: any = new Error("ENOENT");
+            error.code = "ENOENT";
+            mockFileSystem.readFile.mockRejectedValueOnce(error);
+
+            await expect(fileService.loadHistory()).resolves.toEqual([]);
+        });
+    });
+
+    describe("schema versions", () => {
+        const consoleSpies: { mockRestore(): void }[] = [];
+
+        beforeEach(() => {
+            consoleSpies.push(jest.spyOn(console, "log").mockImplementation(() => undefined));
+        });
+
+        afterEach(() => {
+            consoleSpies.splice(0).forEach(spy => spy.mockRestore());
+        });
+
+        it("Case 1: Map fields by header name regardless of column order", async () => {
+            mockFileSystem.readFile.mockResolvedValueOnce([
+                "#schema: 2",
+                "priority;title;id;completed;createdAt;updatedAt",
+                'high;"Reordered";7;true;2024-01-01T00:00:00.000Z;2024-01-02T00:00:00.000Z'
+            ].join("\n"));
+
+            const [task] = await fileService.loadTasks();
+
+            expect(task?.id).toBe(7);
+            expect(task?.title).toBe("Reordered");
+            expect(task?.priority).toBe("high");
+            expect(task?.completed).toBe(true);
+        });
+
+        it("Case 2: Keep unknown columns and write them back on save", async () => {
+            mockFileSystem.readFile.mockResolvedValueOnce([
+                "#schema: 3",
+                `${Task.getCsvHeaders()};estimate`,
+                `${new Task("Known").toCsvRow()};"2h ""rough"""`
+            ].join("\n"));
+            mockFileSystem.writeFile.mockResolvedValue(undefined);
+
+            taskManager.setTasks(await fileService.loadTasks());
+            taskManager.addTask("New");
+            await fileService.saveTasks(taskManager);
+
+            const lines = (mockFileSystem.writeFile.mock.calls[0]?.[1] as string).split("\n");
+            expect(lines[0]).toBe("#schema: 3");
+            expect(lines[1]).toBe(`${Task.getCsvHeaders()};estimate`);
+            expect(lines[2]).toMatch(/;"2h ""rough"""$/);
+            expect(lines[3]).toMatch(/;""$/);
+        });
+
+        it("Case 3: Upgrade version 1 files and report the migration", async () => {
+            mockFileSystem.readFile.mockResolvedValueOnce(
+                '1;"Legacy";"";false;2024-01-01T00:00:00.000Z;2024-01-01T00:00:00.000Z;;2024-02-01T00:00:00.000Z'
+            );
+
+            const [task] = await fileService.loadTasks();
+
+            expect(task?.dueAt).toEqual(new Date("2024-02-01T00:00:00.000Z"));
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining("Upgrading CSV schema from version 1"));
+        });
+
+        it("Case 4: Reject rows with a wrong field count and files without an id column", async () => {
+            const consoleWarnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+            const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+            consoleSpies.push(consoleWarnSpy, consoleErrorSpy);
+
+            mockFileSystem.readFile.mockResolvedValueOnce("#schema: 2\nid;title\n1;A;extra");
+            await expect(fileService.loadTasks()).resolves.toEqual([]);
+            expect(consoleWarnSpy).toHaveBeenCalledWith("    -Line 3: Invalid CSV format: expected 2 fields, got 3");
+
+            mockFileSystem.readFile.mockResolvedValueOnce("#schema: 2\ntitle\nA");
+            await expect(fileService.loadTasks()).rejects.toThrow("Failed to load tasks: missing column(s): id");
+        });
+    });
+
+    describe("backup management", () => {
+        const csv = (...titles: string[]) => [Task.getCsvHeaders(), ...titles.map(title => new Task(title).toCsvRow())].join("\n");
+
+        beforeEach(() => {
+            mockFileSystem.readdir.mockResolvedValue([
+                "test-tasks-backup-2026-10-18T08-00-00-000Z.csv",
+                "test-tasks-backup-2026-10-19T08-00-00-000Z.csv",
+                "test-tasks-backup-2026-10-19T09-00-00-000Z.json",
+                "tasks-backup-2026-10-19T10-00-00-000Z.csv",
+                "test-tasks.csv"
+            ] as any);
+        });
+
+        it("Case 1: List backups of the same save file with dates and task counts, newest first", async () => {
+            mockFileSystem.readFile.mockResolvedValueOnce(csv("A", "B")).mockRejectedValueOnce(new Error("Broken"));
+            const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+            const backups = await fileService.listBackups();
+
+            expect(backups).toEqual([
+                { name: "test-tasks-backup-2026-10-19T08-00-00-000Z.csv", createdAt: new Date("2026-10-19T08:00:00.000Z"), taskCount: 2 },
+                { name: "test-tasks-backup-2026-10-18T08-00-00-000Z.csv", createdAt: new Date("2026-10-18T08:00:00.000Z") }
+            ]);
+
+            consoleErrorSpy.mockRestore();
+        });
+
+        it("Case 2: Load backup tasks without messages and reject other file names", async () => {
+            mockFileSystem.readFile.mockResolvedValueOnce(csv("Backed up"));
+            const consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+            const tasks = await fileService.loadBackup("test-tasks-backup-2026-10-19T08-00-00-000Z.csv");
+
+            expect(tasks.map(task => task.title)).toEqual(["Backed up"]);
+            expect(mockFileSystem.readFile).toHaveBeenCalledWith(join(process.cwd(), "data", "test-tasks-backup-2026-10-19T08-00-00-000Z.csv"), "utf-8");
+            expect(consoleLogSpy).not.toHaveBeenCalled();
+            await expect(fileService.loadBackup("../tasks.csv")).rejects.toThrow("Unknown backup: ../tasks.csv");
+            await expect(fileService.loadBackup("tasks-backup-2026-10-19T10-00-00-000Z.csv")).rejects.toThrow("Unknown backup");
+
+            consoleLogSpy.mockRestore();
+        });
+
+        it("Case 3: Prune backups the retention policy doesn't keep", async () => {
+            const pruned = await fileService.pruneBackups({ keepLast: 1, keepDailyForDays: 0 });
+
+            expect(pruned.map(backup => backup.name)).toEqual(["test-tasks-backup-2026-10-18T08-00-00-000Z.csv"]);
+            expect(mockFileSystem.unlink).toHaveBeenCalledTimes(1);
+            expect(mockFileSystem.unlink).toHaveBeenCalledWith(join(process.cwd(), "data", "test-tasks-backup-2026-10-18T08-00-00-000Z.csv"));
+        });
+    });
 });
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { FileService } from "../../services/FileService.js";
+import { JsonFileService } from "../../services/JsonFileService.js";
+import type { FileStore } from "../../services/FileStore.js";
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+import { mkdtemp, rm, unlink, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { jest } from "@jest/globals";
+
+describe("FileStore", () => {
+    let directory: string;
+    const spies: { mockRestore(): void }[] = [];
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "file-store-"));
+        spies.push(
+            jest.spyOn(process, "cwd").mockReturnValue(directory),
+            jest.spyOn(console, "log").mockImplementation(() => {})
+        );
+        (Task as any).nextId = 1;
+    });
+
+    afterEach(async () => {
+        spies.splice(0).forEach(spy => spy.mockRestore());
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    describe.each([
+        ["FileService", "tasks.csv", (file: string): FileStore => new FileService(file)],
+        ["JsonFileService", "tasks.json", (file: string): FileStore => new JsonFileService(file)]
+    ])("external changes (%s)", (_name, file, createStore) => {
+        let store: FileStore;
+        let taskManager: TaskManager;
+        let path: string;
+
+        beforeEach(async () => {
+            store = createStore(file);
+            path = join(directory, "data", file);
+            taskManager = new TaskManager();
+            taskManager.addTask("Buy milk");
+            await store.saveTasks(taskManager);
+        });
+
+        it("Case 1: Report no changes after saving and loading", async () => {
+            expect(await store.hasExternalChanges()).toBe(false);
+
+            await store.loadTasks();
+
+            expect(await store.hasExternalChanges()).toBe(false);
+        });
+
+        it("Case 2: Detect files changed by another program", async () => {
+            const other = createStore(file);
+            const otherManager = new TaskManager();
+            otherManager.setTasks(await other.loadTasks());
+            otherManager.addTask("Call Mom");
+            await other.saveTasks(otherManager);
+
+            expect(await store.hasExternalChanges()).toBe(true);
+            expect(await other.hasExternalChanges()).toBe(false);
+        });
+
+        it("Case 3: Ignore files touched without changing the content", async () => {
+            await utimes(path, new Date(), new Date(Date.now() + 60_000));
+
+            expect(await store.hasExternalChanges()).toBe(false);
+        });
+
+        it("Case 4: Detect deleted and newly created save files", async () => {
+            await unlink(path);
+            expect(await store.hasExternalChanges()).toBe(true);
+
+            const fresh = createStore(file);
+            expect(await fresh.loadTasks()).toEqual([]);
+            await writeFile(path, "");
+            expect(await fresh.hasExternalChanges()).toBe(true);
+        });
+
+        it("Case 5: Keep tasks as last saved as the merge base", async () => {
+            taskManager.addTask("Not saved yet");
+
+            expect(store.getBaseTasks().map(task => task.title)).toEqual(["Buy milk"]);
+        });
+    });
+});
@@ -0,0 +1,199 @@
+import {
+    escapeICalText,
+    foldICalLine,
+    formatICalendar,
+    ICalendarService,
+    parseICalendar,
+    unescapeICalText,
+    unfoldICalLines
+} from "../../services/ICalendarService.js";
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+
+describe("ICalendarService", () => {
+    const now = new Date("2026-10-19T12:00:00.000Z");
+    let taskManager: TaskManager;
+    let service: ICalendarService;
+
+    beforeEach(() => {
+        (Task as any).nextId = 1;
+        taskManager = new TaskManager();
+        service = new ICalendarService(taskManager);
+    });
+
+    describe("escaping", () => {
+        it("Case 1: Escape and unescape backslashes, separators and line breaks", () => {
+            const text = "a\\b; c, d\nnext";
+
+            expect(escapeICalText(text)).toBe("a\\\\b\\; c\\, d\\nnext");
+            expect(unescapeICalText(escapeICalText(text))).toBe(text);
+        });
+    });
+
+    describe("line folding", () => {
+        it("Case 1: Fold long lines at 75 octets and unfold them again", () => {
+            const line = `SUMMARY:${"x".repeat(150)}`;
+
+            const folded = foldICalLine(line);
+            const physical = folded.split("\r\n");
+
+            expect(physical.map(part => Buffer.byteLength(part))).toEqual([75, 75, 10]);
+            expect(physical.slice(1).every(part => part.startsWith(" "))).toBe(true);
+            expect(unfoldICalLines(folded)).toEqual([line]);
+        });
+
+        it("Case 2: Never split multi-byte characters", () => {
+            const line = `SUMMARY:${"ü".repeat(60)}`;
+
+            const physical = foldICalLine(line).split("\r\n");
+
+            expect(physical.every(part => Buffer.byteLength(part) <= 75)).toBe(true);
+            expect(physical.join("").replace(/ /g, "")).toBe(line);
+        });
+
+        it("Case 3: Keep short lines unchanged", () => {
+            expect(foldICalLine("STATUS:COMPLETED")).toBe("STATUS:COMPLETED");
+        });
+    });
+
+    describe("formatICalendar", () => {
+        it("Case 1: Export tasks as VTODO components with stable UIDs", () => {
+            const task = taskManager.addTask("Pay rent, water", "Line 1\nLine 2", {
+                priority: "high",
+                dueAt: new Date("2026-10-20T21:59:59.999Z"),
+                tags: ["home", "money"]
+            });
+            task.createdAt = new Date("2026-10-01T08:00:00.000Z");
+            task.updatedAt = new Date("2026-10-02T08:00:00.000Z");
+
+            const lines = formatICalendar([task], now).split("\r\n");
+
+            expect(lines.slice(0, 2)).toEqual(["BEGIN:VCALENDAR", "VERSION:2.0"]);
+            expect(lines).toEqual(expect.arrayContaining([
+                "BEGIN:VTODO",
+                "UID:task-1@task-manager",
+                "DTSTAMP:20261019T120000Z",
+                "CREATED:20261001T080000Z",
+                "LAST-MODIFIED:20261002T080000Z",
+                "SUMMARY:Pay rent\\, water",
+                "DESCRIPTION:Line 1\\nLine 2",
+                "STATUS:NEEDS-ACTION",
+                "DUE:20261020T215959Z",
+                "PRIORITY:3",
+                "CATEGORIES:home,money",
+                "END:VTODO"
+            ]));
+            expect(lines.slice(-2)).toEqual(["END:VCALENDAR", ""]);
+        });
+
+        it("Case 2: Export completion status and time", () => {
+            const task = taskManager.addTask("Done");
+            taskManager.toggleTaskCompletion(task.id);
+            task.completedAt = new Date("2026-10-05T18:00:00.000Z");
+
+            const content = formatICalendar([task], now);
+
+            expect(content).toContain("STATUS:COMPLETED\r\nCOMPLETED:20261005T180000Z\r\n");
+        });
+
+        it("Case 3: Keep UIDs stable across exports and link subtasks to parents", () => {
+            const parent = taskManager.addTask("Parent");
+            taskManager.addTask("Child", "", { parentId: parent.id });
+
+            const first = formatICalendar(taskManager.getAllTasks(), now);
+            const second = formatICalendar(taskManager.getAllTasks(), now);
+
+            expect(first).toBe(second);
+            expect(first).toContain("UID:task-2@task-manager");
+            expect(first).toContain("RELATED-TO;RELTYPE=PARENT:task-1@task-manager");
+        });
+    });
+
+    describe("parseICalendar", () => {
+        it("Case 1: Read VTODO properties and ignore other components", () => {
+            const content = [
+                "BEGIN:VCALENDAR",
+                "BEGIN:VEVENT",
+                "SUMMARY:Meeting",
+                "END:VEVENT",
+                "BEGIN:VTODO",
+                "UID:abc@example.org",
+                "SUMMARY:Buy milk\\, eggs",
+                "DESCRIPTION:From the\\n shop",
+                "STATUS:NEEDS-ACTION",
+                "PRIORITY:1",
+                "CATEGORIES:errands,Home",
+                "DUE;VALUE=DATE:20261020",
+                "CREATED:20261001T080000Z",
+                "BEGIN:VALARM",
+                "DESCRIPTION:Reminder",
+                "END:VALARM",
+                "END:VTODO",
+                "END:VCALENDAR"
+            ].join("\r\n");
+
+            expect(parseICalendar(content)).toEqual([{
+                title: "Buy milk, eggs",
+                description: "From the\n shop",
+                completed: false,
+                priority: "urgent",
+                tags: ["errands", "Home"],
+                dueAt: new Date(2026, 9, 20, 23, 59, 59, 999),
+                createdAt: new Date("2026-10-01T08:00:00.000Z")
+            }]);
+        });
+
+        it("Case 2: Read completed tasks, folded lines and LF line breaks", () => {
+            const content = "BEGIN:VTODO\nSUMMARY:Long\n  title\nSTATUS:COMPLETED\nCOMPLETED:20261005T180000Z\nPRIORITY:7\nEND:VTODO\n";
+
+            const [item] = parseICalendar(content);
+
+            expect(item?.title).toBe("Long title");
+            expect(item?.completed).toBe(true);
+            expect(item?.completedAt).toEqual(new Date("2026-10-05T18:00:00.000Z"));
+            expect(item?.priority).toBe("low");
+        });
+
+        it("Case 3: Skip components without summary and ignore invalid dates", () => {
+            const content = "BEGIN:VTODO\nSTATUS:NEEDS-ACTION\nEND:VTODO\nBEGIN:VTODO\nSUMMARY:Task\nDUE:20260231\nEND:VTODO\n";
+
+            const items = parseICalendar(content);
+
+            expect(items).toHaveLength(1);
+            expect(items[0]?.dueAt).toBeUndefined();
+        });
+    });
+
+    describe("import / export", () => {
+        it("Case 1: Round-trip tasks through an iCalendar file", () => {
+            const task = taskManager.addTask("Pay rent; now", "Details", {
+                priority: "urgent",
+                dueAt: new Date("2026-10-20T21:59:59.000Z"),
+                tags: ["money"]
+            });
+            taskManager.toggleTaskCompletion(task.id);
+
+            const target = new TaskManager();
+            const result = new ICalendarService(target).import(service.export(now));
+
+            const [copy] = result.imported;
+            expect(copy?.title).toBe("Pay rent; now");
+            expect(copy?.description).toBe("Details");
+            expect(copy?.priority).toBe("urgent");
+            expect(copy?.completed).toBe(true);
+            expect(copy?.completedAt?.getTime()).toBe(Math.floor(task.completedAt!.getTime() / 1000) * 1000);
+            expect(copy?.dueAt).toEqual(task.dueAt);
+            expect(copy?.hasTag("money")).toBe(true);
+        });
+
+        it("Case 2: Skip tasks that already exist", () => {
+            taskManager.addTask("Buy milk");
+
+            const result = service.import("BEGIN:VTODO\r\nSUMMARY:buy milk\r\nEND:VTODO\r\nBEGIN:VTODO\r\nSUMMARY:Call Mom\r\nEND:VTODO\r\n");
+
+            expect(result.imported.map(task => task.title)).toEqual(["Call Mom"]);
+            expect(result.duplicates).toEqual(["buy milk"]);
+            expect(taskManager.undo()).toBe("Import 1 task(s)");
+        });
+    });
+});
@@ -0,0 +1,129 @@
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+import { join } from "path";
+import { jest } from "@jest/globals";
+
+jest.unstable_mockModule("fs", () => ({
+    promises: {
+        access: jest.fn(),
+        mkdir: jest.fn(),
+        writeFile: jest.fn(),
+        readFile: jest.fn(),
+        unlink: jest.fn(),
+        copyFile: jest.fn(),
+        rename: jest.fn(),
+        readdir: jest.fn(async () => []),
+        stat: jest.fn()
+    },
+    watchFile: jest.fn(),
+    unwatchFile: jest.fn(),
+    existsSync: jest.fn(),
+    readFileSync: jest.fn()
+}));
+
+// Import fs and JsonFileService after mocking
+const { promises: fs } = await import("fs");
+const { JsonFileService } = await import("../../services/JsonFileService.js");
+
+describe("JsonFileService", () => {
+    let jsonFileService: InstanceType<typeof JsonFileService>;
+    let taskManager: TaskManager;
+    const mockFileSystem = fs as jest.Mocked<typeof fs>;
+
+    beforeEach(() => {
+        jsonFileService = new JsonFileService("test-tasks.json");
+        taskManager = new TaskManager();
+        jest.clearAllMocks();
+        (Task as any).nextId = 1;
+
+        mockFileSystem.access.mockResolvedValue(undefined);
+        mockFileSystem.writeFile.mockResolvedValue(undefined);
+        jest.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("saveTasks", () => {
+        it("Case 1: Save tasks and history as typed JSON document", async () => {
+            const task = taskManager.addTask("Deploy", "Ship it", { priority: "high", tags: ["ops"], recurrence: { kind: "daily" } });
+            taskManager.toggleTaskCompletion(task.id);
+
+            await jsonFileService.saveTasks(taskManager);
+
+            const [path, content] = mockFileSystem.writeFile.mock.calls[0]!;
+            const document = JSON.parse(content as string);
+
+            expect(path).toBe(join(process.cwd(), "data", `test-tasks.json.${process.pid}.tmp`));
+            expect(mockFileSystem.rename).toHaveBeenCalledWith(path, join(process.cwd(), "data", "test-tasks.json"));
+            expect(document.version).toBe(1);
+            expect(document.tasks[0]).toMatchObject({ id: 1, title: "Deploy", completed: true, priority: "high", tags: ["ops"], blockedBy: [] });
+            expect(document.tasks[1]).toMatchObject({ id: 2, recurrence: { kind: "daily" } });
+            expect(document.history[0]).toMatchObject({ taskId: 1, field: "created", newValue: "Deploy" });
+        });
+
+        it("Case 2: Handle write error", async () => {
+            mockFileSystem.writeFile.mockRejectedValueOnce(new Error("Write failed"));
+            jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+            await expect(jsonFileService.saveTasks(taskManager)).rejects.toThrow("Failed to save tasks");
+        });
+    });
+
+    describe("loadTasks / loadHistory", () => {
+        it("Case 1: Restore tasks and history saved by saveTasks", async () => {
+            const task = taskManager.addTask("Deploy", "", { dueAt: new Date("2026-11-01T12:00:00.000Z") });
+            const blocked = taskManager.addTask("Announce", "", { parentId: task.id });
+            taskManager.addDependency(blocked.id, task.id);
+
+            await jsonFileService.saveTasks(taskManager);
+            mockFileSystem.readFile.mockResolvedValue(mockFileSystem.writeFile.mock.calls[0]![1] as string);
+
+            const tasks = await jsonFileService.loadTasks();
+            const history = await jsonFileService.loadHistory();
+
+            expect(tasks.map(task => task.toJSON())).toEqual(taskManager.getAllTasks().map(task => task.toJSON()));
+            expect(tasks[0]?.dueAt).toBeInstanceOf(Date);
+            expect(history).toEqual(taskManager.getChanges());
+        });
+
+        it("Case 2: Return empty results when file doesn't exist or is empty", async () => {
+            const error: any = new Error("ENOENT");
+            error.code = "ENOENT";
+            mockFileSystem.readFile.mockRejectedValueOnce(error).mockResolvedValueOnce("");
+
+            expect(await jsonFileService.loadTasks()).toEqual([]);
+            expect(await jsonFileService.loadHistory()).toEqual([]);
+        });
+
+        it("Case 3: Skip invalid task entries with a warning", async () => {
+            const valid = new Task("Valid").toJSON();
+            mockFileSystem.readFile.mockResolvedValueOnce(JSON.stringify({ version: 1, tasks: [valid, { ...valid, id: 2, completed: "yes" }] }));
+            const consoleWarnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+            const tasks = await jsonFileService.loadTasks();
+
+            expect(tasks).toHaveLength(1);
+            expect(consoleWarnSpy).toHaveBeenCalledWith(`    -tasks[1]: Invalid task data: completed = "yes"`);
+        });
+
+        it("Case 4: Throw for malformed JSON or newer file versions", async () => {
+            jest.spyOn(console, "error").mockImplementation(() => undefined);
+            mockFileSystem.readFile.mockResolvedValueOnce("{ not json").mockResolvedValueOnce(`{ "version": 2, "tasks": [] }`);
+
+            await expect(jsonFileService.loadTasks()).rejects.toThrow("Failed to load tasks");
+            await expect(jsonFileService.loadTasks()).rejects.toThrow("unsupported file version 2");
+        });
+    });
+
+    describe("backup", () => {
+        it("Case 1: Keep .json extension for backups", async () => {
+            mockFileSystem.copyFile.mockResolvedValueOnce(undefined);
+
+            await jsonFileService.backup();
+
+            expect(mockFileSystem.copyFile.mock.calls[0]?.[1]).toMatch(/[/\\]test-tasks-backup-.*\.json$/);
+        });
+    });
+});
@@ -0,0 +1,75 @@
+import { countdown, formatCountdown, getFocusStats } from "../../services/Pomodoro.js";
+import { Task } from "../../models/Task.js";
+import { jest } from "@jest/globals";
+
+describe("Pomodoro", () => {
+    describe("formatCountdown", () => {
+        it("Case 1: Format as MM:SS, rounding up to whole seconds", () => {
+            expect(formatCountdown(25 * 60_000)).toBe("25:00");
+            expect(formatCountdown(25 * 60_000 - 1)).toBe("25:00");
+            expect(formatCountdown(61_000)).toBe("01:01");
+            expect(formatCountdown(0)).toBe("00:00");
+        });
+    });
+
+    describe("countdown", () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it("Case 1: Tick every second until the time runs out", async () => {
+            const ticks: number[] = [];
+            const finished = countdown(3000, remaining => ticks.push(remaining));
+
+            jest.advanceTimersByTime(3000);
+
+            await expect(finished).resolves.toBe(true);
+            expect(ticks).toEqual([3000, 2000, 1000, 0]);
+        });
+
+        it("Case 2: Stop early when aborted", async () => {
+            const controller = new AbortController();
+            const onTick = jest.fn();
+            const finished = countdown(60_000, onTick, controller.signal);
+
+            jest.advanceTimersByTime(2000);
+            controller.abort();
+            jest.advanceTimersByTime(60_000);
+
+            await expect(finished).resolves.toBe(false);
+            expect(onTick).toHaveBeenCalledTimes(3);
+        });
+    });
+
+    describe("getFocusStats", () => {
+        // Wednesday, 21 October 2026 (local time)
+        const now = new Date(2026, 9, 21, 12);
+        const session = (date: number, hours: number) => ({
+            start: new Date(2026, 9, date, hours),
+            end: new Date(2026, 9, date, hours, 25),
+            focus: true
+        });
+
+        it("Case 1: Count sessions today, this week and in total, most focused tasks first", () => {
+            (Task as any).nextId = 1;
+            const report = new Task("Write report");
+            const review = new Task("Review PR");
+            const idle = new Task("Plain timer");
+            report.timeEntries = [session(16, 9), session(21, 9)];
+            review.timeEntries = [session(19, 9), session(21, 10), session(21, 11)];
+            idle.timeEntries = [{ start: new Date(2026, 9, 21, 8), end: new Date(2026, 9, 21, 9) }];
+
+            const stats = getFocusStats([report, review, idle], now);
+
+            expect(stats).toMatchObject({ total: 5, today: 3, thisWeek: 4, focusTime: 5 * 25 * 60_000 });
+            expect(stats.tasks.map(({ task, sessions }) => [task.title, sessions])).toEqual([
+                ["Review PR", 3],
+                ["Write report", 2]
+            ]);
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import { RecoveryJournal } from "../../services/RecoveryJournal.js";
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("RecoveryJournal", () => {
+    let directory: string;
+    let journalPath: string;
+    let journal: RecoveryJournal;
+
+    beforeEach(async () => {
+        (Task as any).nextId = 1;
+        directory = await mkdtemp(join(tmpdir(), "recovery-journal-"));
+        journalPath = join(directory, "tasks.csv.journal");
+        journal = new RecoveryJournal(journalPath);
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it("Case 1: Return undefined without a journal", async () => {
+        expect(await journal.read()).toBeUndefined();
+    });
+
+    it("Case 2: Read back tasks and change history of the session", async () => {
+        const taskManager = new TaskManager();
+        const task = taskManager.addTask("Buy milk", "2 liters", { priority: "high", tags: ["errands"] });
+        taskManager.updateTask(task.id, { title: "Buy oat milk" });
+
+        await journal.write(taskManager);
+        const session = await journal.read();
+
+        expect(session?.pid).toBe(process.pid);
+        expect(session?.tasks.map(task => task.toJSON())).toEqual([task.toJSON()]);
+        expect(session?.changes).toHaveLength(taskManager.getChanges().length);
+        expect(session?.changes.at(-1)?.newValue).toBe("Buy oat milk");
+        expect(await readdir(directory)).toEqual(["tasks.csv.journal"]);
+    });
+
+    it("Case 3: Delete the journal, also when it's already gone", async () => {
+        await journal.write(new TaskManager());
+
+        await journal.clear();
+        await journal.clear();
+
+        expect(await journal.read()).toBeUndefined();
+    });
+
+    it("Case 4: Throw for unreadable journals", async () => {
+        await writeFile(journalPath, "{ not json");
+
+        await expect(journal.read()).rejects.toThrow(`Invalid recovery journal ${journalPath}`);
+    });
+});
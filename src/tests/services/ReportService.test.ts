@@ -0,0 +1,120 @@
+import { ReportService, reportFormatFromPath } from "../../services/ReportService.js";
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("ReportService", () => {
+    const now = new Date(2026, 9, 19, 12);
+    let taskManager: TaskManager;
+    let service: ReportService;
+
+    beforeEach(() => {
+        (Task as any).nextId = 1;
+        taskManager = new TaskManager();
+        service = new ReportService(taskManager);
+    });
+
+    /** Add one pending (urgent, overdue, tagged) and one completed task */
+    const addTasks = () => {
+        taskManager.addTask("Fix *login* <bug>", "", {
+            priority: "urgent",
+            dueAt: new Date(2026, 9, 18, 23, 59, 59, 999),
+            tags: ["work"]
+        });
+        const done = taskManager.addTask("Write notes");
+        taskManager.toggleTaskCompletion(done.id);
+        done.completedAt = new Date(2026, 9, 17, 9);
+    };
+
+    describe("reportFormatFromPath", () => {
+        it("Case 1: Choose format by extension", () => {
+            expect(reportFormatFromPath("status.md")).toBe("markdown");
+            expect(reportFormatFromPath("reports/STATUS.HTML")).toBe("html");
+            expect(reportFormatFromPath("todo.txt")).toBeUndefined();
+        });
+    });
+
+    describe("renderMarkdown", () => {
+        it("Case 1: Render stats summary and checkbox lists grouped by status", () => {
+            addTasks();
+
+            expect(service.renderMarkdown(now)).toBe([
+                "# Task Report",
+                "",
+                "Generated 2026-10-19",
+                "",
+                "## Summary",
+                "",
+                "- Total tasks: 2",
+                "- Completed: 1",
+                "- Pending: 1",
+                "- Completion rate: 50.0%",
+                "",
+                "`[██████████░░░░░░░░░░]`",
+                "",
+                "## Pending (1)",
+                "",
+                "- [ ] Fix \\*login\\* \\<bug\\> — urgent · due 2026-10-18 · overdue · #work",
+                "",
+                "## Completed (1)",
+                "",
+                "- [x] Write notes — completed 2026-10-17",
+                ""
+            ].join("\n"));
+        });
+
+        it("Case 2: Leave out completion rate and mark empty sections without tasks", () => {
+            const report = service.renderMarkdown(now);
+
+            expect(report).not.toContain("Completion rate");
+            expect(report).toContain("## Pending (0)\n\n_None_");
+        });
+    });
+
+    describe("renderHtml", () => {
+        it("Case 1: Render escaped tasks, checkboxes and a progress bar", () => {
+            addTasks();
+
+            const report = service.renderHtml(now);
+
+            expect(report).toMatch(/^<!DOCTYPE html>/);
+            expect(report).toContain("<style>");
+            expect(report).toContain(`<div class="progress-bar" style="width: 50.0%"></div>`);
+            expect(report).toContain(`<li class="overdue"><input type="checkbox" disabled> <span class="title">Fix *login* &lt;bug&gt;</span>`);
+            expect(report).toContain(`<li class="completed"><input type="checkbox" disabled checked> <span class="title">Write notes</span>`);
+            expect(report).not.toContain("<script");
+        });
+
+        it("Case 2: Show an empty progress bar without tasks", () => {
+            expect(service.renderHtml(now)).toContain(`style="width: 0.0%"`);
+        });
+    });
+
+    describe("exportFile", () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await mkdtemp(join(tmpdir(), "report-"));
+        });
+
+        afterEach(async () => {
+            await rm(directory, { recursive: true, force: true });
+        });
+
+        it("Case 1: Write the format matching the extension", async () => {
+            addTasks();
+
+            await service.exportFile(join(directory, "status.md"), now);
+            await service.exportFile(join(directory, "status.html"), now);
+
+            expect(await readFile(join(directory, "status.md"), "utf-8")).toBe(service.renderMarkdown(now));
+            expect(await readFile(join(directory, "status.html"), "utf-8")).toBe(service.renderHtml(now));
+        });
+
+        it("Case 2: Reject other extensions", async () => {
+            await expect(service.exportFile(join(directory, "status.pdf"))).rejects.toThrow("Unsupported report format");
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { SearchService, parseQuery } from "../../services/SearchService.js";
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+
+describe("SearchService", () => {
+    let taskManager: TaskManager;
+    let searchService: SearchService;
+
+    /** Search and return matching task IDs in ascending order */
+    const searchIds = (query: string) => searchService.search(query).map(task => task.id).sort((a, b) => a - b);
+
+    beforeEach(() => {
+        (Task as any).nextId = 1;
+        taskManager = new TaskManager();
+        searchService = new SearchService(taskManager);
+
+        const deploy = taskManager.addTask("Deploy backend", "Run the release checklist", { priority: "high", tags: ["ops"] });
+        deploy.createdAt = new Date(2026, 8, 15, 10, 0);
+
+        const docs = taskManager.addTask("Write docs", "Deploy guide for new hires", { tags: ["docs"] });
+        docs.createdAt = new Date(2026, 7, 20, 10, 0);
+        docs.markAsCompleted();
+
+        const rollback = taskManager.addTask("Rollback plan", "", { priority: "urgent", dueAt: new Date(2026, 8, 1, 23, 59) });
+        rollback.createdAt = new Date(2026, 8, 1, 9, 0);
+
+        taskManager.addDependency(deploy.id, rollback.id);
+    });
+
+    describe("parseQuery", () => {
+        it("Case 1: Combine adjacent terms with AND, respect OR and NOT precedence", () => {
+            expect(parseQuery("deploy NOT docs OR is:done")).toEqual({
+                type: "or",
+                queries: [
+                    { type: "and", queries: [{ type: "text", value: "deploy" }, { type: "not", query: { type: "text", value: "docs" } }] },
+                    { type: "state", state: "done" }
+                ]
+            });
+        });
+
+        it("Case 2: Throw for empty or malformed queries", () => {
+            expect(() => parseQuery("  ")).toThrow("Search query is empty");
+            expect(() => parseQuery("(deploy")).toThrow("missing ')'");
+            expect(() => parseQuery("deploy)")).toThrow("unexpected ')'");
+            expect(() => parseQuery("deploy OR")).toThrow("unexpected end of query");
+            expect(() => parseQuery("is:sleeping")).toThrow("unknown state 'sleeping'");
+            expect(() => parseQuery("priority:asap")).toThrow("unknown priority 'asap'");
+            expect(() => parseQuery("created>yesterday")).toThrow("invalid date 'yesterday'");
+        });
+
+        it("Case 3: Treat unknown field-like words as text", () => {
+            expect(parseQuery("10:30")).toEqual({ type: "text", value: "10:30" });
+            expect(parseQuery("constructor:foo")).toEqual({ type: "text", value: "constructor:foo" });
+            expect(parseQuery("toString<today")).toEqual({ type: "text", value: "tostring<today" });
+        });
+    });
+
+    describe("search", () => {
+        it("Case 1: Match words in title or description case-insensitively", () => {
+            expect(searchIds("DEPLOY")).toEqual([1, 2]);
+            expect(searchIds("deploy checklist")).toEqual([1]);
+        });
+
+        it("Case 2: Match exact phrases", () => {
+            expect(searchIds(`"deploy guide"`)).toEqual([2]);
+            expect(searchIds(`"guide deploy"`)).toEqual([]);
+        });
+
+        it("Case 3: Combine terms with OR, NOT, '-' and parentheses", () => {
+            expect(searchIds("docs OR rollback")).toEqual([2, 3]);
+            expect(searchIds("deploy NOT backend")).toEqual([2]);
+            expect(searchIds("deploy -backend")).toEqual([2]);
+            expect(searchIds("-(docs OR rollback)")).toEqual([1]);
+        });
+
+        it("Case 4: Filter by state", () => {
+            expect(searchIds("deploy is:pending")).toEqual([1]);
+            expect(searchIds("is:done")).toEqual([2]);
+            expect(searchIds("is:blocked")).toEqual([1]);
+            expect(searchIds("is:ready")).toEqual([3]);
+            expect(searchIds("is:overdue")).toEqual([3]);
+        });
+
+        it("Case 5: Filter by created date at day granularity", () => {
+            expect(searchIds("created>2026-09-01")).toEqual([1]);
+            expect(searchIds("created>=2026-09-01")).toEqual([1, 3]);
+            expect(searchIds("created:2026-09-01")).toEqual([3]);
+            expect(searchIds("created<2026-09-01")).toEqual([2]);
+        });
+
+        it("Case 6: Filter by tag and priority", () => {
+            expect(searchIds("#ops OR tag:docs")).toEqual([1, 2]);
+            expect(searchIds("priority>=high")).toEqual([1, 3]);
+            expect(searchIds("priority:normal")).toEqual([2]);
+        });
+
+        it("Case 7: Combine filters as in the example query", () => {
+            expect(searchIds(`deploy is:pending created>2026-09-01 "release checklist"`)).toEqual([1]);
+        });
+
+        it("Case 8: Return results in priority-aware order", () => {
+            expect(searchService.search("is:pending").map(task => task.id)).toEqual([3, 1]);
+        });
+    });
+});
@@ -0,0 +1,191 @@
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+import { SqliteTaskStore } from "../../services/SqliteTaskStore.js";
+import { mkdir, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { jest } from "@jest/globals";
+
+// node:sqlite ships with Node.js 22.5+, skip on older versions
+const sqliteAvailable = process.getBuiltinModule?.("node:sqlite") !== undefined;
+
+(sqliteAvailable ? describe : describe.skip)("SqliteTaskStore", () => {
+    let directory: string;
+    let store: SqliteTaskStore;
+    let taskManager: TaskManager;
+    const spies: { mockRestore(): void }[] = [];
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "sqlite-store-"));
+        spies.push(
+            jest.spyOn(process, "cwd").mockReturnValue(directory),
+            jest.spyOn(console, "log").mockImplementation(() => {})
+        );
+
+        store = new SqliteTaskStore("test.db");
+        taskManager = new TaskManager();
+        (Task as any).nextId = 1;
+    });
+
+    afterEach(async () => {
+        store.close();
+        spies.splice(0).forEach(spy => spy.mockRestore());
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    /** Load tasks and history into a fresh TaskManager through a new connection */
+    const reload = async () => {
+        store.close();
+        const loaded = new TaskManager();
+        loaded.setTasks(await store.loadTasks());
+        loaded.setChanges(await store.loadHistory());
+        return loaded;
+    };
+
+    describe("saveTasks / loadTasks", () => {
+        it("Case 1: Round-trip all task fields and history", async () => {
+            const parent = taskManager.addTask("Parent", "Details", {
+                priority: "high",
+                dueAt: new Date("2026-10-20T09:00:00.000Z"),
+                tags: ["work", "q4"],
+                recurrence: { kind: "weekly", weekdays: [1, 4] }
+            });
+            const child = taskManager.addTask("Child", "", { parentId: parent.id });
+            taskManager.addDependency(child.id, parent.id);
+            taskManager.addTimeEntry(parent.id, new Date("2026-10-19T08:00:00.000Z"), new Date("2026-10-19T09:00:00.000Z"));
+            taskManager.startTimer(parent.id);
+            taskManager.toggleTaskCompletion(child.id);
+
+            await store.saveTasks(taskManager);
+            const loaded = await reload();
+
+            expect(loaded.getAllTasks().map(task => task.toJSON()))
+                .toEqual(taskManager.getAllTasks().map(task => task.toJSON()));
+            expect(loaded.getChanges().map(change => change.toJSON()))
+                .toEqual(taskManager.getChanges().map(change => change.toJSON()));
+        });
+
+        it("Case 2: Start empty when the database is new", async () => {
+            expect(await store.loadTasks()).toEqual([]);
+            expect(await store.loadHistory()).toEqual([]);
+        });
+
+        it("Case 3: Add columns missing from databases of older versions", async () => {
+            const sqlite = process.getBuiltinModule?.("node:sqlite")!;
+            await mkdir(join(directory, "data"), { recursive: true });
+            const database = new sqlite.DatabaseSync(join(directory, "data", "test.db"));
+            database.exec(`CREATE TABLE tasks (
+                id INTEGER PRIMARY KEY, title TEXT NOT NULL, description TEXT NOT NULL DEFAULT '',
+                completed INTEGER NOT NULL DEFAULT 0, created_at TEXT NOT NULL, updated_at TEXT NOT NULL,
+                completed_at TEXT, due_at TEXT, priority TEXT NOT NULL DEFAULT 'normal', tags TEXT NOT NULL DEFAULT '[]',
+                parent_id INTEGER, blocked_by TEXT NOT NULL DEFAULT '[]', recurrence TEXT
+            )`);
+            database.prepare(`INSERT INTO tasks (id, title, created_at, updated_at) VALUES (1, 'Old task', ?, ?)`)
+                .run("2026-10-19T08:00:00.000Z", "2026-10-19T08:00:00.000Z");
+            database.close();
+
+            const [task] = await store.loadTasks();
+
+            expect(task?.title).toBe("Old task");
+            expect(task?.timeEntries).toEqual([]);
+        });
+    });
+
+    describe("incremental saves", () => {
+        /** Last logged message (the save summary) */
+        const lastLog = () => (console.log as jest.Mock).mock.calls.at(-1)?.[0];
+
+        it("Case 1: Write only changed and removed rows", async () => {
+            taskManager.addTask("Keep");
+            const changed = taskManager.addTask("Change");
+            const removed = taskManager.addTask("Remove");
+            await store.saveTasks(taskManager);
+            expect(lastLog()).toContain("(3 row(s) changed)");
+
+            taskManager.updateTask(changed.id, { title: "Changed" });
+            taskManager.removeTask(removed.id);
+            await store.saveTasks(taskManager);
+            expect(lastLog()).toContain("(2 row(s) changed)");
+
+            await store.saveTasks(taskManager);
+            expect(lastLog()).toContain("(0 row(s) changed)");
+
+            const loaded = await reload();
+            expect(loaded.getAllTasks().map(task => task.title)).toEqual(["Keep", "Changed"]);
+        });
+
+        it("Case 2: Append new history and rewrite history that got shorter", async () => {
+            const task = taskManager.addTask("Task");
+            await store.saveTasks(taskManager);
+
+            taskManager.toggleTaskCompletion(task.id);
+            await store.saveTasks(taskManager);
+            expect((await reload()).getChanges()).toHaveLength(2);
+
+            taskManager.setChanges([]);
+            await store.saveTasks(taskManager);
+            expect((await reload()).getChanges()).toEqual([]);
+        });
+
+        it("Case 3: Replace rows of an existing database saved by another connection", async () => {
+            taskManager.addTask("Old");
+            await store.saveTasks(taskManager);
+            store.close();
+
+            const other = new TaskManager();
+            other.addTask("New");
+            await new SqliteTaskStore("test.db").saveTasks(other);
+
+            expect((await reload()).getAllTasks().map(task => task.title)).toEqual(["New"]);
+        });
+    });
+
+    describe("query pushdown", () => {
+        it("Case 1: Answer pending, completed and overdue queries in SQL after load", async () => {
+            const now = new Date("2026-10-19T12:00:00.000Z");
+            taskManager.addTask("Low", "", { priority: "low" });
+            taskManager.addTask("Late", "", { dueAt: new Date("2026-10-01T00:00:00.000Z") });
+            taskManager.addTask("Urgent", "", { priority: "urgent" });
+            const done = taskManager.addTask("Done");
+            taskManager.toggleTaskCompletion(done.id);
+            await store.saveTasks(taskManager);
+
+            const loaded = await reload();
+            store.connect(loaded);
+            const querySpy = jest.spyOn(store, "queryTaskIds");
+            spies.push(querySpy);
+
+            expect(loaded.getPendingTasks().map(task => task.title)).toEqual(["Urgent", "Late", "Low"]);
+            expect(loaded.getCompletedTasks().map(task => task.title)).toEqual(["Done"]);
+            expect(loaded.getOverdueTasks(now).map(task => task.title)).toEqual(["Late"]);
+            expect(querySpy).toHaveBeenCalledTimes(3);
+        });
+
+        it("Case 2: Stop pushing down until the next save once tasks change", async () => {
+            taskManager.addTask("First");
+            await store.saveTasks(taskManager);
+            const querySpy = jest.spyOn(store, "queryTaskIds");
+            spies.push(querySpy);
+
+            taskManager.addTask("Second");
+            expect(taskManager.getPendingTasks()).toHaveLength(2);
+            expect(querySpy).not.toHaveBeenCalled();
+
+            await store.saveTasks(taskManager);
+            expect(taskManager.getPendingTasks()).toHaveLength(2);
+            expect(querySpy).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("deleteSaveFile", () => {
+        it("Case 1: Close the database and delete its file", async () => {
+            taskManager.addTask("Task");
+            await store.saveTasks(taskManager);
+
+            await store.deleteSaveFile();
+
+            expect(await store.exists()).toBe(false);
+            expect(await store.loadTasks()).toEqual([]);
+        });
+    });
+});
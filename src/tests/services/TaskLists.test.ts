@@ -0,0 +1,207 @@
+import { DEFAULT_LIST, TaskLists } from "../../services/TaskLists.js";
+import { TaskFileLockedError } from "../../services/FileLock.js";
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+import { access, mkdir, mkdtemp, readFile, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { jest } from "@jest/globals";
+
+describe("TaskLists", () => {
+    let directory: string;
+    let lists: TaskLists;
+    const spies: { mockRestore(): void }[] = [];
+
+    /** Save tasks with the given titles to a list */
+    const saveList = async (name: string, titles: string[]) => {
+        const taskManager = new TaskManager();
+        titles.forEach(title => taskManager.addTask(title));
+        await lists.open(name).saveTasks(taskManager);
+        return taskManager;
+    };
+
+    const titlesOf = async (name: string) => (await lists.open(name).loadTasks()).map(task => task.title);
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "task-lists-"));
+        spies.push(
+            jest.spyOn(process, "cwd").mockReturnValue(directory),
+            jest.spyOn(console, "log").mockImplementation(() => {})
+        );
+        (Task as any).nextId = 1;
+        lists = new TaskLists("tasks.csv");
+    });
+
+    afterEach(async () => {
+        spies.splice(0).forEach(spy => spy.mockRestore());
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    describe("names / create", () => {
+        it("Case 1: Always list the default list", async () => {
+            expect(await lists.names()).toEqual([DEFAULT_LIST]);
+            expect(await lists.exists(DEFAULT_LIST)).toBe(true);
+        });
+
+        it("Case 2: Create empty lists in their own folder", async () => {
+            await lists.create("work");
+            await lists.create("Home 2");
+
+            expect(await lists.names()).toEqual([DEFAULT_LIST, "Home 2", "work"]);
+            expect(await titlesOf("work")).toEqual([]);
+            await expect(access(join(directory, "data", "lists", "work", "tasks.csv"))).resolves.toBeUndefined();
+        });
+
+        it("Case 3: Reject invalid and existing names", async () => {
+            await lists.create("work");
+
+            await expect(lists.create("work")).rejects.toThrow("Task list already exists: work");
+            await expect(lists.create(DEFAULT_LIST)).rejects.toThrow("Task list already exists: default");
+            await expect(lists.create("../escape")).rejects.toThrow("Invalid list name");
+            await expect(lists.create("")).rejects.toThrow("Invalid list name");
+        });
+
+        it("Case 4: Ignore folders without a save file", async () => {
+            await lists.create("work");
+            await rm(join(directory, "data", "lists", "work", "tasks.csv"));
+
+            expect(await lists.names()).toEqual([DEFAULT_LIST]);
+        });
+    });
+
+    describe("rename / delete", () => {
+        it("Case 1: Rename a list with its history and backups", async () => {
+            await saveList("work", ["Write report"]);
+            await lists.open("work").backup();
+
+            await lists.rename("work", "office");
+
+            expect(await lists.names()).toEqual([DEFAULT_LIST, "office"]);
+            expect(await titlesOf("office")).toEqual(["Write report"]);
+            expect(await lists.open("office").listBackups()).toHaveLength(1);
+            expect((await readdir(join(directory, "data", "lists", "office"))).filter(name => name.endsWith(".lock"))).toEqual([]);
+        });
+
+        it("Case 2: Delete a list", async () => {
+            await saveList("work", ["Write report"]);
+
+            await lists.delete("work");
+
+            expect(await lists.names()).toEqual([DEFAULT_LIST]);
+        });
+
+        it("Case 3: Own the lock of a list created again after deleting it", async () => {
+            await saveList("work", ["Write report"]);
+            await lists.delete("work");
+
+            // Recreated with the lock of this session moving along
+            await saveList("office", ["Book travel"]);
+            const session = lists.open("office");
+            await session.lock?.();
+            await lists.rename("office", "work", session);
+            await session.unlock?.();
+
+            const store = lists.open("work");
+            await store.lock?.();
+            await store.unlock?.();
+
+            await expect(access(join(directory, "data", "lists", "work", "tasks.csv.lock"))).rejects.toThrow();
+        });
+
+        it("Case 4: Never rename or delete the default list", async () => {
+            await expect(lists.rename(DEFAULT_LIST, "main")).rejects.toThrow("The default list can't be renamed or deleted");
+            await expect(lists.delete(DEFAULT_LIST)).rejects.toThrow("The default list can't be renamed or deleted");
+            await expect(lists.delete("missing")).rejects.toThrow("Unknown task list: missing");
+        });
+
+        it("Case 5: Refuse lists open in another session", async () => {
+            await lists.create("work");
+            await writeFile(join(directory, "data", "lists", "work", "tasks.csv.lock"), `${process.ppid}`);
+
+            await expect(lists.delete("work")).rejects.toThrow(TaskFileLockedError);
+            expect(await lists.names()).toEqual([DEFAULT_LIST, "work"]);
+        });
+
+        it("Case 6: Move the lock of a list open in this session along", async () => {
+            await saveList("work", ["Write report"]);
+            const session = lists.open("work");
+            await session.lock?.();
+
+            await lists.rename("work", "office", session);
+            await session.unlock?.();
+
+            const lockPath = join(directory, "data", "lists", "office", "tasks.csv.lock");
+            expect(await readFile(lockPath, "utf-8")).toBe(`${process.pid}\n`);
+
+            const renamed = lists.open("office");
+            await renamed.lock?.();
+            await renamed.unlock?.();
+
+            await expect(access(lockPath)).rejects.toThrow();
+        });
+
+        it("Case 7: Keep the lock of a list open in this session if renaming fails", async () => {
+            await saveList("work", ["Write report"]);
+            const session = lists.open("work");
+            await session.lock?.();
+            await mkdir(join(directory, "data", "lists", "office"));
+            await writeFile(join(directory, "data", "lists", "office", "notes.txt"), "Not a task list");
+
+            await expect(lists.rename("work", "office", session)).rejects.toThrow();
+            await expect(lists.rename("work", "office")).rejects.toThrow();
+
+            expect(await readFile(join(directory, "data", "lists", "work", "tasks.csv.lock"), "utf-8")).toBe(`${process.pid}\n`);
+            await session.unlock?.();
+        });
+    });
+
+    describe("copyTasks", () => {
+        it("Case 1: Give copies IDs above the target's tasks", async () => {
+            await saveList("work", ["Write report", "Book travel"]);
+            (Task as any).nextId = 1;
+            const home = await saveList(DEFAULT_LIST, ["Buy milk", "Call Mom", "Pay rent"]);
+
+            const copies = await lists.copyTasks(home.getAllTasks().slice(1), "work");
+            const target = await lists.open("work").loadTasks();
+
+            expect(copies.map(task => `${task.id} ${task.title}`)).toEqual(["3 Call Mom", "4 Pay rent"]);
+            expect(target.map(task => `${task.id} ${task.title}`)).toEqual([
+                "1 Write report", "2 Book travel", "3 Call Mom", "4 Pay rent"
+            ]);
+            expect(await titlesOf(DEFAULT_LIST)).toEqual(["Buy milk", "Call Mom", "Pay rent"]);
+        });
+
+        it("Case 2: Remap subtasks and dependencies among the copied tasks", async () => {
+            await saveList("work", ["Write report"]);
+            const home = new TaskManager();
+            const blocker = home.addTask("Blocker");
+            const parent = home.addTask("Parent");
+            const child = home.addTask("Child", undefined, { parentId: parent.id });
+            home.addDependency(child.id, blocker.id);
+            home.addDependency(parent.id, child.id);
+
+            const copies = await lists.copyTasks([parent, child], "work");
+
+            expect(copies.map(task => task.id)).toEqual([2, 3]);
+            expect(copies[1]?.parentId).toBe(2);
+            expect([...copies[0]!.blockedBy]).toEqual([3]);
+            expect([...copies[1]!.blockedBy]).toEqual([]);
+        });
+
+        it("Case 3: Keep IDs of new tasks in the active list consecutive", async () => {
+            await saveList("work", ["Write report", "Book travel", "Plan trip"]);
+            (Task as any).nextId = 1;
+            const home = new TaskManager();
+            home.setTasks(await lists.open(DEFAULT_LIST).loadTasks());
+            const task = home.addTask("Buy milk");
+
+            await lists.copyTasks([task], "work");
+
+            expect(home.addTask("Call Mom").id).toBe(2);
+        });
+
+        it("Case 4: Throw for unknown target lists", async () => {
+            await expect(lists.copyTasks([new Task("Buy milk")], "missing")).rejects.toThrow("Unknown task list: missing");
+        });
+    });
+});
@@ -0,0 +1,238 @@
+import { formatMergeValue, mergeHistories, mergeTasks, resolveConflict, taskIdentity } from "../../services/TaskMerge.js";
+import { Task } from "../../models/Task.js";
+import { TaskChange } from "../../models/TaskChange.js";
+
+describe("TaskMerge", () => {
+    const start = "2026-10-19T08:00:00.000Z";
+
+    /** Time `minutes` after the base tasks were created */
+    const at = (minutes: number) => new Date(Date.parse(start) + minutes * 60_000);
+
+    /** Task with fixed ID and timestamps */
+    const task = (id: number, title: string, data: object = {}) =>
+        Task.fromJSON({ ...new Task(title).toJSON(), id, createdAt: start, updatedAt: start, ...data });
+
+    /** Independent copies of tasks, like two laptops loading the same file */
+    const copy = (tasks: Task[]) => tasks.map(task => Task.fromJSON(task.toJSON()));
+
+    /** Change a task `minutes` after the start */
+    const edit = (task: Task, minutes: number, change: (task: Task) => void) => {
+        change(task);
+        task.updatedAt = at(minutes);
+    };
+
+    let base: Task[];
+    let local: Task[];
+    let remote: Task[];
+
+    beforeEach(() => {
+        (Task as any).nextId = 1;
+        base = [task(1, "Buy milk"), task(2, "Call Mom"), task(3, "Pay rent")];
+        local = copy(base);
+        remote = copy(base);
+    });
+
+    describe("mergeTasks", () => {
+        it("Case 1: Combine edits of different fields of the same task", () => {
+            edit(local[0]!, 5, task => task.title = "Buy oat milk");
+            edit(remote[0]!, 10, task => task.priority = "high");
+            edit(remote[1]!, 10, task => task.description = "Sunday");
+
+            const result = mergeTasks(base, local, remote);
+
+            expect(result.tasks.map(task => task.title)).toEqual(["Buy oat milk", "Call Mom", "Pay rent"]);
+            expect(result.tasks[0]?.priority).toBe("high");
+            expect(result.tasks[0]?.updatedAt).toEqual(at(10));
+            expect(result.tasks[1]?.description).toBe("Sunday");
+            expect(result.conflicts).toEqual([]);
+        });
+
+        it("Case 2: Resolve fields changed on both sides to the more recent change", () => {
+            edit(local[0]!, 5, task => task.title = "Local title");
+            edit(remote[0]!, 10, task => task.title = "Remote title");
+            edit(local[1]!, 10, task => task.priority = "urgent");
+            edit(remote[1]!, 5, task => task.priority = "low");
+
+            const result = mergeTasks(base, local, remote);
+
+            expect(result.tasks[0]?.title).toBe("Remote title");
+            expect(result.tasks[1]?.priority).toBe("urgent");
+            expect(result.conflicts.map(({ task, field, resolution }) => [task.id, field, resolution])).toEqual([
+                [1, "title", "remote"],
+                [2, "priority", "local"]
+            ]);
+        });
+
+        it("Case 3: Use change history for the time of each field change", () => {
+            edit(local[0]!, 30, task => {
+                task.title = "Local title";
+                task.priority = "high";
+            });
+            edit(remote[0]!, 20, task => task.title = "Remote title");
+
+            const result = mergeTasks(base, local, remote, {
+                local: [
+                    new TaskChange(1, "title", "Buy milk", "Local title", at(10)),
+                    new TaskChange(1, "priority", "normal", "high", at(30))
+                ],
+                remote: [new TaskChange(1, "title", "Buy milk", "Remote title", at(20))]
+            });
+
+            expect(result.tasks[0]?.title).toBe("Remote title");
+            expect(result.tasks[0]?.priority).toBe("high");
+            expect(result.conflicts[0]?.resolution).toBe("remote");
+        });
+
+        it("Case 4: Combine tag and dependency changes of both sides", () => {
+            base[0]!.setTags(["home", "errands"]);
+            local = copy(base);
+            remote = copy(base);
+            edit(local[0]!, 5, task => {
+                task.setTags(["home", "shop"]);
+                task.blockedBy.add(2);
+            });
+            edit(remote[0]!, 10, task => {
+                task.setTags(["home", "errands", "weekly"]);
+                task.blockedBy.add(3);
+            });
+
+            const [merged] = mergeTasks(base, local, remote).tasks;
+
+            expect([...merged!.tags].sort()).toEqual(["home", "shop", "weekly"]);
+            expect([...merged!.blockedBy].sort()).toEqual([2, 3]);
+        });
+
+        it("Case 5: Pick the completion that happened last", () => {
+            edit(local[0]!, 10, task => {
+                task.completed = true;
+                task.completedAt = at(10);
+            });
+            edit(remote[0]!, 20, task => {
+                task.completed = true;
+                task.completedAt = at(20);
+            });
+            base[1]!.completed = true;
+            base[1]!.completedAt = at(1);
+            local = [local[0]!, ...copy(base.slice(1))];
+            remote = [remote[0]!, ...copy(base.slice(1))];
+            edit(local[1]!, 30, task => {
+                task.completed = false;
+                delete task.completedAt;
+            });
+            edit(remote[1]!, 15, task => task.completedAt = at(15));
+
+            const result = mergeTasks(base, local, remote);
+
+            expect(result.tasks[0]?.completedAt).toEqual(at(20));
+            expect(result.tasks[1]?.completed).toBe(false);
+            expect(result.tasks[1]?.completedAt).toBeUndefined();
+            expect(result.conflicts).toEqual([]);
+        });
+
+        it("Case 6: Delete tasks deleted on one side unless changed on the other", () => {
+            local = local.filter(task => task.id !== 1);
+            remote = remote.filter(task => task.id !== 3);
+            edit(local.find(task => task.id === 3)!, 5, task => task.title = "Pay rent today");
+
+            const result = mergeTasks(base, local, remote);
+
+            expect(result.tasks.map(task => task.title)).toEqual(["Call Mom", "Pay rent today"]);
+        });
+
+        it("Case 7: Renumber local tasks whose ID the remote side uses for another task", () => {
+            local.push(task(4, "Local task", { createdAt: at(5).toISOString() }));
+            local.push(task(5, "Local subtask", { createdAt: at(5).toISOString(), parentId: 4 }));
+            local[0]!.blockedBy.add(4);
+            remote.push(task(4, "Remote task", { createdAt: at(6).toISOString() }));
+
+            const result = mergeTasks(base, local, remote);
+
+            expect(result.tasks.map(task => `${task.id} ${task.title}`)).toEqual([
+                "1 Buy milk", "2 Call Mom", "3 Pay rent", "4 Remote task", "6 Local task", "5 Local subtask"
+            ]);
+            expect(result.tasks.find(task => task.id === 5)?.parentId).toBe(6);
+            expect([...result.tasks[0]!.blockedBy]).toEqual([6]);
+            expect(result.renumbered).toEqual([{ from: 4, to: 6 }]);
+        });
+
+        it("Case 8: Without a base, keep all tasks and treat differences as conflicts", () => {
+            edit(local[0]!, 10, task => task.title = "Buy oat milk");
+            edit(remote[0]!, 5, task => task.description = "2 liters");
+            local.push(task(4, "Only local", { createdAt: at(1).toISOString() }));
+
+            const result = mergeTasks([], local, remote.slice(0, 2));
+
+            expect(result.tasks.map(task => task.title)).toEqual(["Buy oat milk", "Call Mom", "Pay rent", "Only local"]);
+            expect(result.tasks[0]?.description).toBe("");
+            expect(result.conflicts.map(({ field, resolution }) => [field, resolution])).toEqual([
+                ["title", "local"],
+                ["description", "local"]
+            ]);
+        });
+
+        it("Case 9: Match tasks by ID and creation time", () => {
+            expect(taskIdentity(base[0]!)).toBe("1@2026-10-19T08:00:00.000Z");
+        });
+
+        it("Case 10: Combine time entries of both sides, a timer stopped on either side is stopped", () => {
+            base[0]!.timeEntries = [{ start: at(10) }];
+            local = copy(base);
+            remote = copy(base);
+            edit(local[0]!, 40, task => task.timeEntries = [{ start: at(10), end: at(40) }, { start: at(50), end: at(60) }]);
+            edit(remote[0]!, 30, task => task.timeEntries = [{ start: at(10) }, { start: at(20), end: at(25) }]);
+
+            const [merged] = mergeTasks(base, local, remote).tasks;
+
+            expect(merged!.timeEntries).toEqual([
+                { start: at(10), end: at(40) },
+                { start: at(20), end: at(25) },
+                { start: at(50), end: at(60) }
+            ]);
+            expect(mergeTasks(base, local, remote).conflicts).toEqual([]);
+        });
+    });
+
+    describe("resolveConflict", () => {
+        it("Case 1: Switch a conflict to the other side's value", () => {
+            base[0]!.dueAt = at(30);
+            local = copy(base);
+            remote = copy(base);
+            edit(local[0]!, 5, task => task.dueAt = at(60));
+            edit(remote[0]!, 10, task => delete task.dueAt);
+            const result = mergeTasks(base, local, remote);
+            const [conflict] = result.conflicts;
+
+            expect(result.tasks[0]?.dueAt).toBeUndefined();
+
+            resolveConflict(conflict!, "local");
+
+            expect(conflict?.resolution).toBe("local");
+            expect(result.tasks[0]?.dueAt).toEqual(at(60));
+            expect(local[0]?.dueAt).not.toBe(result.tasks[0]?.dueAt);
+        });
+    });
+
+    describe("mergeHistories", () => {
+        it("Case 1: Combine both histories oldest first, keeping shared changes once", () => {
+            const shared = new TaskChange(1, "title", "Buy milk", "Buy oat milk", at(1));
+            const ours = new TaskChange(2, "priority", "normal", "high", at(10));
+            const theirs = new TaskChange(1, "dueAt", "", at(60).toISOString(), at(5));
+
+            const merged = mergeHistories([shared, ours], [new TaskChange(1, "title", "Buy milk", "Buy oat milk", at(1)), theirs]);
+
+            expect(merged).toEqual([shared, theirs, ours]);
+        });
+    });
+
+    describe("formatMergeValue", () => {
+        it("Case 1: Format field values for conflict listings", () => {
+            const value = task(1, "Buy \"milk\"", { tags: ["home", "shop"], parentId: 3 });
+
+            expect(formatMergeValue(value, "title")).toBe("\"Buy \\\"milk\\\"\"");
+            expect(formatMergeValue(value, "tags")).toBe("home, shop");
+            expect(formatMergeValue(value, "parentId")).toBe("#3");
+            expect(formatMergeValue(value, "blockedBy")).toBe("(none)");
+            expect(formatMergeValue(value, "priority")).toBe("normal");
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { convertTasks, createTaskStore, type TaskStore } from "../../services/TaskStore.js";
+import { FileService } from "../../services/FileService.js";
+import { JsonFileService } from "../../services/JsonFileService.js";
+import { SqliteTaskStore } from "../../services/SqliteTaskStore.js";
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+import { TaskChange } from "../../models/TaskChange.js";
+import { jest } from "@jest/globals";
+
+describe("TaskStore", () => {
+    const environment = { ...process.env };
+
+    afterEach(() => {
+        process.env = { ...environment };
+    });
+
+    describe("createTaskStore", () => {
+        it("Case 1: Choose backend by file extension", () => {
+            expect(createTaskStore("tasks.csv")).toBeInstanceOf(FileService);
+            expect(createTaskStore("tasks.JSON")).toBeInstanceOf(JsonFileService);
+            expect(createTaskStore("tasks.txt")).toBeInstanceOf(FileService);
+            expect(createTaskStore("tasks.db")).toBeInstanceOf(SqliteTaskStore);
+            expect(createTaskStore("tasks.sqlite3")).toBeInstanceOf(SqliteTaskStore);
+        });
+
+        it("Case 2: Use TASKS_FILE and TASKS_FORMAT configuration", () => {
+            delete process.env["TASKS_FORMAT"];
+            process.env["TASKS_FILE"] = "work.json";
+            expect(createTaskStore()).toBeInstanceOf(JsonFileService);
+
+            process.env["TASKS_FORMAT"] = "csv";
+            expect(createTaskStore()).toBeInstanceOf(FileService);
+            expect(createTaskStore("tasks.csv", "json")).toBeInstanceOf(JsonFileService);
+            expect(createTaskStore("tasks.csv", "sqlite")).toBeInstanceOf(SqliteTaskStore);
+
+            process.env["TASKS_FORMAT"] = "xml";
+            expect(() => createTaskStore()).toThrow("Unknown storage format: xml");
+        });
+    });
+
+    describe("convertTasks", () => {
+        /** In-memory store that remembers what was saved */
+        const memoryStore = (tasks: Task[] = [], history: TaskChange[] = []) => {
+            const saved: { tasks: Task[]; history: TaskChange[] } = { tasks: [], history: [] };
+
+            const store: TaskStore = {
+                loadTasks: async () => tasks,
+                loadHistory: async () => history,
+                saveTasks: async (taskManager: TaskManager) => {
+                    saved.tasks = taskManager.getAllTasks();
+                    saved.history = taskManager.getChanges();
+                },
+                exists: async () => true,
+                deleteSaveFile: jest.fn(async () => undefined),
+                backup: jest.fn(async () => undefined),
+                listBackups: async () => [],
+                loadBackup: async () => [],
+                deleteBackup: jest.fn(async () => undefined),
+                pruneBackups: async () => []
+            };
+
+            return { store, saved };
+        };
+
+        it("Case 1: Copy tasks and history from source to target", async () => {
+            const tasks = [new Task("A"), new Task("B")];
+            const history = [new TaskChange(1, "created", "", "A")];
+            const source = memoryStore(tasks, history);
+            const target = memoryStore();
+
+            const count = await convertTasks(source.store, target.store);
+
+            expect(count).toBe(2);
+            expect(target.saved.tasks).toEqual(tasks);
+            expect(target.saved.history).toEqual(history);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import { createTimeReport } from "../../services/TimeReport.js";
+import { Task } from "../../models/Task.js";
+
+describe("TimeReport", () => {
+    const HOUR = 3_600_000;
+    // Monday, 19 October 2026 (local time)
+    const day = (date: number, hours: number = 0) => new Date(2026, 9, date, hours);
+
+    let report: Task;
+    let review: Task;
+
+    beforeEach(() => {
+        (Task as any).nextId = 1;
+        report = new Task("Write report");
+        review = new Task("Review PR");
+        report.timeEntries = [
+            { start: day(19, 9), end: day(19, 11) },
+            { start: day(20, 23), end: day(21, 1) }
+        ];
+        review.timeEntries = [
+            { start: day(19, 14), end: day(19, 17) },
+            { start: day(26, 9), end: day(26, 10) }
+        ];
+    });
+
+    describe("createTimeReport", () => {
+        it("Case 1: Group by day, most time first, splitting entries at midnight", () => {
+            const result = createTimeReport([report, review], day(19), day(21));
+
+            expect(result.periods.map(period => [period.start, period.total])).toEqual([
+                [day(19), 5 * HOUR],
+                [day(20), 1 * HOUR],
+                [day(21), 1 * HOUR]
+            ]);
+            expect(result.periods[0]?.tasks.map(({ task, duration }) => [task.title, duration])).toEqual([
+                ["Review PR", 3 * HOUR],
+                ["Write report", 2 * HOUR]
+            ]);
+            expect(result.total).toBe(7 * HOUR);
+        });
+
+        it("Case 2: Group by week starting on Monday, counting only time within the range", () => {
+            const result = createTimeReport([report, review], day(20), day(26), "week");
+
+            expect(result.periods.map(period => [period.start, period.end, period.total])).toEqual([
+                [day(19), day(26), 2 * HOUR],
+                [day(26), day(33), 1 * HOUR]
+            ]);
+            expect(result.total).toBe(3 * HOUR);
+        });
+
+        it("Case 3: Count running timers up to now and skip periods without time", () => {
+            const task = new Task("Standup");
+            task.timeEntries = [{ start: day(22, 9) }];
+
+            const result = createTimeReport([task], day(19), day(25), "day", new Date(2026, 9, 22, 9, 30));
+
+            expect(result.periods.map(period => period.start)).toEqual([day(22)]);
+            expect(result.total).toBe(HOUR / 2);
+            expect(createTimeReport([task], day(19), day(20)).periods).toEqual([]);
+        });
+    });
+});
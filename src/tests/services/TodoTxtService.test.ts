@@ -0,0 +1,147 @@
+import { TodoTxtService, formatTodoTxtLine, parseTodoTxtLine } from "../../services/TodoTxtService.js";
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+
+describe("TodoTxtService", () => {
+    let taskManager: TaskManager;
+    let service: TodoTxtService;
+
+    beforeEach(() => {
+        (Task as any).nextId = 1;
+        taskManager = new TaskManager();
+        service = new TodoTxtService(taskManager);
+    });
+
+    describe("parseTodoTxtLine", () => {
+        it("Case 1: Parse priority, creation date, projects, contexts and due date", () => {
+            const item = parseTodoTxtLine("(A) 2026-10-01 Call Mom +Family @phone due:2026-10-20");
+
+            expect(item).toEqual({
+                title: "Call Mom",
+                completed: false,
+                priority: "urgent",
+                createdAt: new Date(2026, 9, 1),
+                tags: ["family", "@phone"],
+                dueAt: new Date(2026, 9, 20, 23, 59, 59, 999)
+            });
+        });
+
+        it("Case 2: Parse completed tasks with completion and creation dates", () => {
+            const item = parseTodoTxtLine("x 2026-10-05 2026-10-01 Pay rent pri:B");
+
+            expect(item?.completed).toBe(true);
+            expect(item?.completedAt).toEqual(new Date(2026, 9, 5));
+            expect(item?.createdAt).toEqual(new Date(2026, 9, 1));
+            expect(item?.priority).toBe("high");
+            expect(item?.title).toBe("Pay rent");
+        });
+
+        it("Case 3: Map priority letters onto task priorities", () => {
+            expect(parseTodoTxtLine("(B) Task")?.priority).toBe("high");
+            expect(parseTodoTxtLine("(C) Task")?.priority).toBe("normal");
+            expect(parseTodoTxtLine("(F) Task")?.priority).toBe("low");
+            expect(parseTodoTxtLine("Task")?.priority).toBe("normal");
+        });
+
+        it("Case 4: Keep unknown key/values, invalid due dates and mid-line markers in the title", () => {
+            const item = parseTodoTxtLine("Read x (A) book url:example.org due:tomorrow");
+
+            expect(item?.title).toBe("Read x (A) book url:example.org due:tomorrow");
+            expect(item?.priority).toBe("normal");
+            expect(item?.dueAt).toBeUndefined();
+        });
+
+        it("Case 5: Return undefined for blank lines, keep tag-only lines as title", () => {
+            expect(parseTodoTxtLine("   ")).toBeUndefined();
+            expect(parseTodoTxtLine("+garden")?.title).toBe("+garden");
+        });
+    });
+
+    describe("formatTodoTxtLine", () => {
+        it("Case 1: Format pending tasks with priority, dates, tags and due date", () => {
+            const task = new Task("Call Mom");
+            task.priority = "urgent";
+            task.createdAt = new Date(2026, 9, 1, 9);
+            task.dueAt = new Date(2026, 9, 20, 23, 59, 59, 999);
+            task.setTags(["family", "@phone"]);
+
+            expect(formatTodoTxtLine(task)).toBe("(A) 2026-10-01 Call Mom +family @phone due:2026-10-20");
+        });
+
+        it("Case 2: Format completed tasks with completion date and pri: key", () => {
+            const task = new Task("Pay rent");
+            task.priority = "high";
+            task.createdAt = new Date(2026, 9, 1, 9);
+            task.markAsCompleted();
+            task.completedAt = new Date(2026, 9, 5, 18);
+
+            expect(formatTodoTxtLine(task)).toBe("x 2026-10-05 2026-10-01 Pay rent pri:B");
+        });
+
+        it("Case 3: Round-trip through parseTodoTxtLine", () => {
+            const line = "(D) 2026-10-01 Water plants +garden @home due:2026-10-03";
+            const task = new Task("");
+            const item = parseTodoTxtLine(line)!;
+
+            task.title = item.title;
+            task.priority = item.priority;
+            task.createdAt = item.createdAt!;
+            task.dueAt = item.dueAt!;
+            task.setTags(item.tags);
+
+            expect(formatTodoTxtLine(task)).toBe(line);
+        });
+    });
+
+    describe("import", () => {
+        it("Case 1: Add all lines as tasks in one undoable change", () => {
+            const result = service.import("(A) 2026-10-01 First +work\n\nx 2026-10-05 2026-10-02 Second\n");
+
+            expect(result.imported.map(task => task.title)).toEqual(["First", "Second"]);
+            expect(result.duplicates).toEqual([]);
+
+            const [first, second] = taskManager.getAllTasks();
+            expect(first?.priority).toBe("urgent");
+            expect(first?.createdAt).toEqual(new Date(2026, 9, 1));
+            expect(first?.hasTag("work")).toBe(true);
+            expect(second?.completed).toBe(true);
+            expect(second?.completedAt).toEqual(new Date(2026, 9, 5));
+
+            expect(taskManager.undo()).toBe("Import 2 task(s)");
+            expect(taskManager.getAllTasks()).toHaveLength(0);
+        });
+
+        it("Case 2: Skip tasks with the same title and due day as existing or earlier lines", () => {
+            taskManager.addTask("Buy milk", "", { dueAt: new Date(2026, 9, 20, 23, 59, 59, 999) });
+
+            const result = service.import([
+                "buy MILK due:2026-10-20",
+                "Buy milk due:2026-10-21",
+                "Water plants",
+                "Water plants"
+            ].join("\n"));
+
+            expect(result.imported.map(task => task.title)).toEqual(["Buy milk", "Water plants"]);
+            expect(result.duplicates).toEqual(["buy MILK", "Water plants"]);
+            expect(taskManager.getAllTasks()).toHaveLength(3);
+        });
+
+        it("Case 3: Record nothing when every line is a duplicate", () => {
+            taskManager.addTask("Task");
+            const revision = taskManager.getRevision();
+
+            const result = service.import("Task\n");
+
+            expect(result.imported).toEqual([]);
+            expect(taskManager.getRevision()).toBe(revision);
+        });
+    });
+
+    describe("export", () => {
+        it("Case 1: Write one line per task", () => {
+            service.import("(B) 2026-10-01 First\n2026-10-02 Second @home\n");
+
+            expect(service.export()).toBe("(B) 2026-10-01 First\n2026-10-02 Second @home\n");
+        });
+    });
+});
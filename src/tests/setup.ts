@@ -0,0 +1,8 @@
+import { tmpdir } from "os";
+import { join } from "path";
+
+// Save files go to data/ in the (usually mocked) working directory, as before the config layer
+process.env["TASKS_DATA_DIR"] = "data";
+
+// Never read the developer's own config file
+process.env["TASKS_CONFIG"] = join(tmpdir(), "task-manager-tests-no-config.json");
@@ -0,0 +1,633 @@
+import { Cli, ExitCode } from "../../utils/cli.js";
+import { FileService } from "../../services/FileService.js";
+import { TaskFileLockedError } from "../../services/FileLock.js";
+import { TaskManager } from "../../managers/TaskManager.js";
+import { Task } from "../../models/Task.js";
+import { access, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { jest } from "@jest/globals";
+
+describe("Cli", () => {
+    let fileService: FileService;
+    let cli: Cli;
+    let saveSpy: jest.Spied<FileService["saveTasks"]>;
+    let consoleLogSpy: jest.Spied<typeof console.log>;
+    let consoleErrorSpy: jest.Spied<typeof console.error>;
+
+    /** Stub loaded tasks with the given titles (first one completed if requested) */
+    const loadTasks = (titles: string[], completeFirst = false) => {
+        const tasks = titles.map(title => new Task(title));
+
+        if (completeFirst) tasks[0]?.markAsCompleted();
+
+        jest.spyOn(fileService, "loadTasks").mockResolvedValue(tasks);
+        return tasks;
+    };
+
+    beforeEach(() => {
+        (Task as any).nextId = 1;
+        fileService = new FileService("test-tasks.csv");
+        cli = new Cli(fileService);
+        saveSpy = jest.spyOn(fileService, "saveTasks").mockResolvedValue(undefined);
+        jest.spyOn(fileService, "loadHistory").mockResolvedValue([]);
+        jest.spyOn(fileService, "lock").mockResolvedValue(undefined);
+        jest.spyOn(fileService, "unlock").mockResolvedValue(undefined);
+        consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+        consoleErrorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("help", () => {
+        it("Case 1: Print usage and succeed", async () => {
+            const code = await cli.run(["help"]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining("Usage:"));
+        });
+
+        it("Case 2: Return usage error for unknown command", async () => {
+            loadTasks([]);
+
+            const code = await cli.run(["bogus"]);
+
+            expect(code).toBe(ExitCode.Usage);
+            expect(consoleErrorSpy).toHaveBeenCalledWith("❌ Unknown command: bogus\n");
+        });
+
+        it("Case 3: Return usage error for unknown option", async () => {
+            const code = await cli.run(["list", "--nope"]);
+
+            expect(code).toBe(ExitCode.Usage);
+        });
+    });
+
+    describe("add", () => {
+        it("Case 1: Add task with description and save", async () => {
+            loadTasks(["Existing"]);
+
+            const code = await cli.run(["add", "New", "task", "-d", "Details"]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(saveSpy).toHaveBeenCalledTimes(1);
+
+            const tasks = saveSpy.mock.calls[0]![0].getAllTasks();
+            expect(tasks).toHaveLength(2);
+            expect(tasks[1]?.title).toBe("New task");
+            expect(tasks[1]?.description).toBe("Details");
+        });
+
+        it("Case 2: Reject empty title without saving", async () => {
+            loadTasks([]);
+
+            const code = await cli.run(["add"]);
+
+            expect(code).toBe(ExitCode.Usage);
+            expect(saveSpy).not.toHaveBeenCalled();
+        });
+
+        it("Case 3: Add task with due date, reject invalid due date", async () => {
+            loadTasks([]);
+
+            expect(await cli.run(["add", "Report", "--due", "2026-11-01"])).toBe(ExitCode.Success);
+            expect(saveSpy.mock.calls[0]![0].getAllTasks()[0]?.dueAt).toEqual(new Date(2026, 10, 1, 23, 59, 59, 999));
+
+            expect(await cli.run(["add", "Report", "--due", "soon"])).toBe(ExitCode.Usage);
+        });
+
+
+        it("Case 4: Add task with priority, reject invalid priority", async () => {
+            loadTasks([]);
+
+            expect(await cli.run(["add", "Fix outage", "-p", "URGENT"])).toBe(ExitCode.Success);
+            expect(saveSpy.mock.calls[0]![0].getAllTasks()[0]?.priority).toBe("urgent");
+
+            expect(await cli.run(["add", "Fix outage", "-p", "asap"])).toBe(ExitCode.Usage);
+        });
+
+
+        it("Case 5: Add task with tags", async () => {
+            loadTasks([]);
+
+            expect(await cli.run(["add", "Deploy", "--tags", "#backend,ops"])).toBe(ExitCode.Success);
+            expect([...saveSpy.mock.calls[0]![0].getAllTasks()[0]!.tags]).toEqual(["backend", "ops"]);
+        });
+
+
+        it("Case 6: Add subtask, fail for missing parent", async () => {
+            loadTasks(["Parent"]);
+
+            expect(await cli.run(["add", "Child", "--parent", "1"])).toBe(ExitCode.Success);
+            expect(saveSpy.mock.calls[0]![0].getAllTasks()[1]?.parentId).toBe(1);
+
+            expect(await cli.run(["add", "Child", "--parent", "99"])).toBe(ExitCode.Failure);
+            expect(await cli.run(["add", "Child", "--parent", "x"])).toBe(ExitCode.Usage);
+        });
+
+        it("Case 7: Add recurring task, reject invalid repeat rule", async () => {
+            loadTasks([]);
+
+            expect(await cli.run(["add", "Standup", "--repeat", "weekly:mon,thu"])).toBe(ExitCode.Success);
+            expect(saveSpy.mock.calls[0]![0].getAllTasks()[0]?.recurrence).toEqual({ kind: "weekly", weekdays: [1, 4] });
+
+            expect(await cli.run(["add", "Standup", "--repeat", "hourly"])).toBe(ExitCode.Usage);
+        });
+    });
+
+    describe("list", () => {
+        it("Case 1: List only pending tasks", async () => {
+            loadTasks(["Done task", "Open task"], true);
+
+            const code = await cli.run(["list", "--pending"]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(consoleLogSpy).toHaveBeenCalledWith("⏳ [ID: 2] Open task");
+            expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining("Done task"));
+            expect(saveSpy).not.toHaveBeenCalled();
+        });
+
+        it("Case 2: Reject conflicting filters", async () => {
+            loadTasks([]);
+
+            const code = await cli.run(["list", "--pending", "--completed"]);
+
+            expect(code).toBe(ExitCode.Usage);
+        });
+
+        it("Case 3: List only overdue tasks", async () => {
+            const [overdue, later] = loadTasks(["Late", "Later"]);
+            overdue!.dueAt = new Date(Date.now() - 60_000);
+            later!.dueAt = new Date(Date.now() + 60_000);
+
+            const code = await cli.run(["list", "--overdue"]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(consoleLogSpy).toHaveBeenCalledWith("⏳ [ID: 1] Late ⚠️ OVERDUE");
+            expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining("Later"));
+        });
+
+
+        it("Case 4: Filter by any or all tags", async () => {
+            const [backend, backendOps] = loadTasks(["Backend", "Backend ops", "Personal"]);
+            backend!.setTags(["backend"]);
+            backendOps!.setTags(["backend", "ops"]);
+
+            expect(await cli.run(["list", "--tag", "ops", "--tag", "backend"])).toBe(ExitCode.Success);
+            expect(consoleLogSpy).toHaveBeenCalledWith("\nTotal: 2 task(s)");
+
+            consoleLogSpy.mockClear();
+
+            expect(await cli.run(["list", "--tag", "ops", "--tag", "backend", "--all-tags"])).toBe(ExitCode.Success);
+            expect(consoleLogSpy).toHaveBeenCalledWith("\nTotal: 1 task(s)");
+        });
+
+
+        it("Case 5: List only ready tasks", async () => {
+            const [design, build] = loadTasks(["Design", "Build"]);
+            build!.blockedBy.add(design!.id);
+
+            expect(await cli.run(["list", "--ready"])).toBe(ExitCode.Success);
+            expect(consoleLogSpy).toHaveBeenCalledWith("⏳ [ID: 1] Design");
+            expect(consoleLogSpy).not.toHaveBeenCalledWith("⏳ [ID: 2] Build");
+        });
+    });
+
+    describe("done", () => {
+        it("Case 1: Mark pending task as completed and save", async () => {
+            const [task] = loadTasks(["Task 1"]);
+
+            const code = await cli.run(["done", "1"]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(task?.completed).toBe(true);
+            expect(saveSpy).toHaveBeenCalled();
+        });
+
+        it("Case 2: Keep already completed task completed", async () => {
+            const [task] = loadTasks(["Task 1"], true);
+
+            const code = await cli.run(["done", "1"]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(task?.completed).toBe(true);
+            expect(saveSpy).not.toHaveBeenCalled();
+        });
+
+        it("Case 3: Fail for non-existent task", async () => {
+            loadTasks([]);
+
+            expect(await cli.run(["done", "999"])).toBe(ExitCode.Failure);
+        });
+
+        it("Case 4: Return usage error for invalid ID", async () => {
+            loadTasks([]);
+
+            expect(await cli.run(["done", "abc"])).toBe(ExitCode.Usage);
+        });
+
+
+        it("Case 5: Block parent with open subtasks unless --cascade", async () => {
+            const [parent, child] = loadTasks(["Parent", "Child"]);
+            child!.parentId = parent!.id;
+
+            expect(await cli.run(["done", "1"])).toBe(ExitCode.Failure);
+            expect(parent?.completed).toBe(false);
+
+            expect(await cli.run(["done", "1", "--cascade"])).toBe(ExitCode.Success);
+            expect(parent?.completed).toBe(true);
+            expect(child?.completed).toBe(true);
+        });
+
+        it("Case 6: Create next occurrence when completing recurring task", async () => {
+            const [task] = loadTasks(["Standup"]);
+            task!.recurrence = { kind: "daily" };
+
+            expect(await cli.run(["done", "1"])).toBe(ExitCode.Success);
+
+            const tasks = saveSpy.mock.calls[0]![0].getAllTasks();
+            expect(tasks).toHaveLength(2);
+            expect(tasks[1]?.completed).toBe(false);
+            expect(tasks[1]?.recurrence).toEqual({ kind: "daily" });
+            expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining("🔁 Next occurrence created: [ID: 2] Standup"));
+        });
+
+        it("Case 7: Warn when completing a task with open blockers", async () => {
+            const [build, deploy] = loadTasks(["Build", "Deploy"]);
+            deploy!.blockedBy.add(build!.id);
+            const consoleWarnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+            expect(await cli.run(["done", "2"])).toBe(ExitCode.Success);
+            expect(deploy?.completed).toBe(true);
+            expect(consoleWarnSpy).toHaveBeenCalledWith("⚠️ Task 2 is still blocked by open task(s): #1");
+        });
+    });
+
+    describe("rm", () => {
+        it("Case 1: Remove existing task and save", async () => {
+            loadTasks(["Task 1", "Task 2"]);
+
+            const code = await cli.run(["rm", "1"]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(saveSpy.mock.calls[0]![0].getAllTasks()).toHaveLength(1);
+        });
+
+        it("Case 2: Fail for non-existent task", async () => {
+            loadTasks([]);
+
+            expect(await cli.run(["rm", "5"])).toBe(ExitCode.Failure);
+            expect(saveSpy).not.toHaveBeenCalled();
+        });
+
+
+        it("Case 3: Block parent with open subtasks unless --cascade", async () => {
+            const [parent, child] = loadTasks(["Parent", "Child", "Other"]);
+            child!.parentId = parent!.id;
+
+            expect(await cli.run(["rm", "1"])).toBe(ExitCode.Failure);
+            expect(saveSpy).not.toHaveBeenCalled();
+
+            expect(await cli.run(["rm", "1", "--cascade"])).toBe(ExitCode.Success);
+            expect(saveSpy.mock.calls[0]![0].getAllTasks().map(task => task.title)).toEqual(["Other"]);
+        });
+    });
+
+    describe("update", () => {
+        it("Case 1: Update title and save", async () => {
+            const [task] = loadTasks(["Old title"]);
+
+            const code = await cli.run(["update", "1", "--title", "New title"]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(task?.title).toBe("New title");
+            expect(saveSpy).toHaveBeenCalled();
+        });
+
+        it("Case 2: Return usage error when no changes given", async () => {
+            loadTasks(["Task 1"]);
+
+            expect(await cli.run(["update", "1"])).toBe(ExitCode.Usage);
+        });
+
+        it("Case 3: Clear due date with '-'", async () => {
+            const [task] = loadTasks(["Task 1"]);
+            task!.dueAt = new Date();
+
+            expect(await cli.run(["update", "1", "--due", "-"])).toBe(ExitCode.Success);
+            expect(task?.dueAt).toBeUndefined();
+        });
+
+
+        it("Case 4: Update priority", async () => {
+            const [task] = loadTasks(["Task 1"]);
+
+            expect(await cli.run(["update", "1", "--priority", "low"])).toBe(ExitCode.Success);
+            expect(task?.priority).toBe("low");
+        });
+
+        it("Case 5: Set and stop recurrence with '-'", async () => {
+            const [task] = loadTasks(["Pay rent"]);
+
+            expect(await cli.run(["update", "1", "--repeat", "monthly:1"])).toBe(ExitCode.Success);
+            expect(task?.recurrence).toEqual({ kind: "monthly", day: 1 });
+
+            expect(await cli.run(["update", "1", "--repeat", "-"])).toBe(ExitCode.Success);
+            expect(task?.recurrence).toBeUndefined();
+        });
+    });
+
+    describe("stats", () => {
+        it("Case 1: Display statistics", async () => {
+            loadTasks(["Task 1", "Task 2"], true);
+
+            const code = await cli.run(["stats"]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining("📊 Total tasks: 2"));
+        });
+    });
+
+    describe("errors", () => {
+        it("Case 1: Return failure when loading tasks fails", async () => {
+            jest.spyOn(fileService, "loadTasks").mockRejectedValue(new Error("Failed to load tasks"));
+
+            expect(await cli.run(["list"])).toBe(ExitCode.Failure);
+        });
+    });
+
+
+    describe("tags", () => {
+        it("Case 1: List tags with counts", async () => {
+            const [task1, task2] = loadTasks(["Task 1", "Task 2"]);
+            task1!.setTags(["ops"]);
+            task2!.setTags(["ops", "backend"]);
+
+            expect(await cli.run(["tags"])).toBe(ExitCode.Success);
+            expect(consoleLogSpy).toHaveBeenCalledWith("#ops (2)");
+            expect(consoleLogSpy).toHaveBeenCalledWith("#backend (1)");
+        });
+    });
+
+
+    describe("block / unblock", () => {
+        it("Case 1: Add and remove dependency", async () => {
+            const [, build] = loadTasks(["Design", "Build"]);
+
+            expect(await cli.run(["block", "2", "1"])).toBe(ExitCode.Success);
+            expect([...build!.blockedBy]).toEqual([1]);
+
+            expect(await cli.run(["unblock", "2", "1"])).toBe(ExitCode.Success);
+            expect(build!.blockedBy.size).toBe(0);
+            expect(saveSpy).toHaveBeenCalledTimes(2);
+        });
+
+        it("Case 2: Fail for cycles and unknown tasks, usage error for missing IDs", async () => {
+            const [design] = loadTasks(["Design", "Build"]);
+            design!.blockedBy.add(2);
+
+            expect(await cli.run(["block", "2", "1"])).toBe(ExitCode.Failure);
+            expect(await cli.run(["block", "2", "9"])).toBe(ExitCode.Failure);
+            expect(await cli.run(["unblock", "2", "1"])).toBe(ExitCode.Failure);
+            expect(await cli.run(["block", "2"])).toBe(ExitCode.Usage);
+            expect(saveSpy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("search", () => {
+        it("Case 1: List tasks matching the query", async () => {
+            loadTasks(["Deploy backend", "Write docs", "Deploy frontend"], true);
+
+            const code = await cli.run(["search", "deploy", "is:pending"]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(consoleLogSpy).toHaveBeenCalledWith("⏳ [ID: 3] Deploy frontend");
+            expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining("Deploy backend"));
+            expect(consoleLogSpy).toHaveBeenCalledWith("\nTotal: 1 task(s)");
+        });
+
+        it("Case 2: Return usage error for invalid query", async () => {
+            loadTasks([]);
+
+            expect(await cli.run(["search", "is:sleeping"])).toBe(ExitCode.Usage);
+            expect(await cli.run(["search"])).toBe(ExitCode.Usage);
+        });
+    });
+
+    describe("convert", () => {
+        it("Case 1: Return usage error without both files, failure for missing source", async () => {
+            expect(await cli.run(["convert", "tasks.csv"])).toBe(ExitCode.Usage);
+            expect(await cli.run(["convert", "missing-source.csv", "missing-target.json"])).toBe(ExitCode.Failure);
+            expect(consoleErrorSpy).toHaveBeenCalledWith("❌ File not found: missing-source.csv");
+        });
+
+        it("Case 2: Convert files relative to the working directory and by absolute path", async () => {
+            const directory = await mkdtemp(join(tmpdir(), "cli-convert-"));
+            const output = await mkdtemp(join(tmpdir(), "cli-convert-output-"));
+            jest.spyOn(process, "cwd").mockReturnValue(directory);
+
+            try {
+                const taskManager = new TaskManager();
+                taskManager.addTask("Buy milk");
+                await new FileService(join(directory, "old.csv")).saveTasks(taskManager);
+
+                const code = await cli.run(["convert", "./old.csv", join(output, "new.json")]);
+                const converted = JSON.parse(await readFile(join(output, "new.json"), "utf-8"));
+
+                expect(code).toBe(ExitCode.Success);
+                expect(converted.tasks.map((task: { title: string }) => task.title)).toEqual(["Buy milk"]);
+                expect(consoleLogSpy).toHaveBeenCalledWith(`✨ Converted 1 task(s) from ./old.csv to ${join(output, "new.json")}`);
+            } finally {
+                await rm(directory, { recursive: true, force: true });
+                await rm(output, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe("merge", () => {
+        let directory: string;
+
+        /** Save copies of tasks to a file in the working directory (or at an absolute path) */
+        const saveFile = async (file: string, tasks: Task[]) => {
+            const taskManager = new TaskManager();
+            taskManager.setTasks(tasks.map(task => Task.fromJSON(task.toJSON())));
+            await new FileService(resolve(directory, file)).saveTasks(taskManager);
+        };
+
+        beforeEach(async () => {
+            directory = await mkdtemp(join(tmpdir(), "cli-merge-"));
+            jest.spyOn(process, "cwd").mockReturnValue(directory);
+        });
+
+        afterEach(async () => {
+            await rm(directory, { recursive: true, force: true });
+        });
+
+        it("Case 1: Return usage error without both files, failure for missing files", async () => {
+            expect(await cli.run(["merge", "a.csv"])).toBe(ExitCode.Usage);
+            expect(await cli.run(["merge", "a.csv", "missing.csv"])).toBe(ExitCode.Failure);
+            expect(consoleErrorSpy).toHaveBeenCalledWith("❌ File not found: missing.csv");
+        });
+
+        it("Case 2: Merge file B into file A and list conflicts", async () => {
+            const base = [new Task("Buy milk"), new Task("Call Mom")];
+            base.forEach(task => task.updatedAt = new Date("2026-10-19T08:00:00.000Z"));
+            await saveFile("base.csv", base);
+
+            const [milkA, momA] = base.map(task => Task.fromJSON(task.toJSON()));
+            milkA!.title = "Buy oat milk";
+            milkA!.updatedAt = new Date("2026-10-19T09:00:00.000Z");
+            momA!.priority = "high";
+            await saveFile("a.csv", [milkA!, momA!]);
+
+            const [milkB, momB] = base.map(task => Task.fromJSON(task.toJSON()));
+            milkB!.title = "Buy soy milk";
+            milkB!.updatedAt = new Date("2026-10-19T10:00:00.000Z");
+            momB!.description = "Sunday";
+            await saveFile("b.csv", [milkB!, momB!, new Task("Pay rent")]);
+
+            const code = await cli.run(["merge", "a.csv", "b.csv", "--base", "base.csv"]);
+            const merged = await new FileService(join(directory, "a.csv")).loadTasks();
+
+            expect(code).toBe(ExitCode.Success);
+            expect(merged.map(task => [task.title, task.priority, task.description])).toEqual([
+                ["Buy soy milk", "normal", ""],
+                ["Call Mom", "high", "Sunday"],
+                ["Pay rent", "normal", ""]
+            ]);
+            expect(consoleLogSpy).toHaveBeenCalledWith("🔀 Merged b.csv into a.csv: 3 task(s)");
+            expect(consoleLogSpy).toHaveBeenCalledWith("    a.csv: \"Buy oat milk\"");
+            expect(consoleLogSpy).toHaveBeenCalledWith("    b.csv: \"Buy soy milk\"  ✔ kept");
+        });
+
+        it("Case 3: Merge a file outside the data directory given by absolute path", async () => {
+            const laptop = await mkdtemp(join(tmpdir(), "cli-merge-laptop-"));
+            const milk = new Task("Buy milk");
+            await saveFile("a.csv", [milk]);
+            await saveFile(join(laptop, "tasks.csv"), [milk, new Task("Pay rent")]);
+
+            try {
+                const code = await cli.run(["merge", "a.csv", join(laptop, "tasks.csv")]);
+
+                expect(code).toBe(ExitCode.Success);
+                expect((await new FileService(join(directory, "a.csv")).loadTasks()).map(task => task.title)).toEqual(["Buy milk", "Pay rent"]);
+                await expect(access(join(directory, "data"))).rejects.toThrow();
+            } finally {
+                await rm(laptop, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe("locking", () => {
+        it("Case 1: Lock the save file for commands that save and release it afterwards", async () => {
+            loadTasks([]);
+
+            await cli.run(["add", "Task"]);
+
+            expect(fileService.lock).toHaveBeenCalled();
+            expect(fileService.unlock).toHaveBeenCalled();
+        });
+
+        it("Case 2: Run read-only commands without locking", async () => {
+            loadTasks(["Task"]);
+
+            await cli.run(["list"]);
+
+            expect(fileService.lock).not.toHaveBeenCalled();
+        });
+
+        it("Case 3: Fail with the owner's pid when another session holds the lock", async () => {
+            jest.spyOn(fileService, "lock").mockRejectedValue(new TaskFileLockedError(4242));
+            const loadSpy = jest.spyOn(fileService, "loadTasks");
+
+            const code = await cli.run(["done", "1"]);
+
+            expect(code).toBe(ExitCode.Failure);
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining("Tasks are open in another session (pid 4242)"));
+            expect(loadSpy).not.toHaveBeenCalled();
+            expect(saveSpy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("import / export", () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await mkdtemp(join(tmpdir(), "cli-todo-txt-"));
+        });
+
+        afterEach(async () => {
+            await rm(directory, { recursive: true, force: true });
+        });
+
+        it("Case 1: Import new tasks, save and report skipped duplicates", async () => {
+            loadTasks(["Buy milk"]);
+            const file = join(directory, "todo.txt");
+            await writeFile(file, "(A) Call Mom +family\nbuy milk\n");
+
+            const code = await cli.run(["import", file]);
+
+            expect(code).toBe(ExitCode.Success);
+            expect(fileService.lock).toHaveBeenCalled();
+            expect(saveSpy).toHaveBeenCalledTimes(1);
+            expect(consoleLogSpy).toHaveBeenCalledWith("✨ Imported 1 task(s), skipped 1 duplicate(s)");
+            expect(consoleLogSpy).toHaveBeenCalledWith("    + [ID: 2] Call Mom");
+            expect(consoleLogSpy).toHaveBeenCalledWith("    = buy milk (already exists)");
+        });
+
+        it("Case 2: Don't save when nothing was imported", async () => {
+            loadTasks(["Buy milk"]);
+            const file = join(directory, "todo.txt");
+            await writeFile(file, "Buy milk\n");
+
+            expect(await cli.run(["import", file])).toBe(ExitCode.Success);
+            expect(saveSpy).not.toHaveBeenCalled();
+        });
+
+        it("Case 3: Export tasks to a todo.txt file", async () => {
+            const [task] = loadTasks(["Buy milk"]);
+            task!.createdAt = new Date(2026, 9, 1);
+            const file = join(directory, "todo.txt");
+
+            expect(await cli.run(["export", file])).toBe(ExitCode.Success);
+            expect(await readFile(file, "utf-8")).toBe("2026-10-01 Buy milk\n");
+            expect(fileService.lock).not.toHaveBeenCalled();
+        });
+
+        it("Case 4: Return usage error for missing files and unsupported formats", async () => {
+            loadTasks([]);
+
+            expect(await cli.run(["import"])).toBe(ExitCode.Usage);
+            expect(await cli.run(["export", "tasks.json"])).toBe(ExitCode.Usage);
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining("Unsupported export format: tasks.json"));
+        });
+
+
+        it("Case 5: Export Markdown and HTML reports", async () => {
+            loadTasks(["Done", "Open"], true);
+
+            expect(await cli.run(["export", join(directory, "status.md")])).toBe(ExitCode.Success);
+            expect(await cli.run(["export", join(directory, "status.html")])).toBe(ExitCode.Success);
+
+            expect(await readFile(join(directory, "status.md"), "utf-8")).toContain("- [ ] Open");
+            expect(await readFile(join(directory, "status.html"), "utf-8")).toContain(`style="width: 50.0%"`);
+            expect(consoleLogSpy).toHaveBeenCalledWith(`✨ Wrote report of 2 task(s) to ${join(directory, "status.md")}`);
+        });
+
+
+        it("Case 6: Export and import iCalendar files", async () => {
+            loadTasks(["Call Mom"]);
+            const file = join(directory, "tasks.ics");
+
+            expect(await cli.run(["export", file])).toBe(ExitCode.Success);
+            expect(await readFile(file, "utf-8")).toContain("SUMMARY:Call Mom\r\n");
+
+            loadTasks([]);
+
+            expect(await cli.run(["import", file])).toBe(ExitCode.Success);
+            expect(consoleLogSpy).toHaveBeenCalledWith("✨ Imported 1 task(s), skipped 0 duplicate(s)");
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import { addDays, endOfDay, formatCalendarDate, formatDisplayDate, parseCalendarDate, parseDueDate, setDisplayDateFormat, startOfDay } from "../../utils/date.js";
+
+describe("date", () => {
+    describe("startOfDay / endOfDay", () => {
+        it("Case 1: Return local day boundaries without mutating input", () => {
+            const date = new Date(2026, 9, 19, 14, 30);
+
+            expect(startOfDay(date)).toEqual(new Date(2026, 9, 19, 0, 0, 0, 0));
+            expect(endOfDay(date)).toEqual(new Date(2026, 9, 19, 23, 59, 59, 999));
+            expect(date).toEqual(new Date(2026, 9, 19, 14, 30));
+        });
+    });
+
+    describe("addDays", () => {
+        it("Case 1: Shift across month boundaries", () => {
+            expect(addDays(new Date(2026, 9, 30), 3)).toEqual(new Date(2026, 10, 2));
+            expect(addDays(new Date(2026, 9, 1), -1)).toEqual(new Date(2026, 8, 30));
+        });
+    });
+
+    describe("parseDueDate", () => {
+        it("Case 1: Parse date-only input as end of that local day", () => {
+            expect(parseDueDate("2026-10-19")).toEqual(new Date(2026, 9, 19, 23, 59, 59, 999));
+        });
+
+        it("Case 2: Parse full ISO timestamps as-is", () => {
+            expect(parseDueDate("2026-10-19T08:00:00.000Z")?.toISOString()).toBe("2026-10-19T08:00:00.000Z");
+        });
+
+        it("Case 3: Return undefined for blank, invalid or overflowing dates", () => {
+            expect(parseDueDate("  ")).toBeUndefined();
+            expect(parseDueDate("tomorrow-ish")).toBeUndefined();
+            expect(parseDueDate("2026-02-31")).toBeUndefined();
+        });
+    });
+
+    describe("formatCalendarDate / parseCalendarDate", () => {
+        it("Case 1: Format and parse local calendar dates", () => {
+            expect(formatCalendarDate(new Date(2026, 0, 5, 23, 30))).toBe("2026-01-05");
+            expect(parseCalendarDate("2026-01-05")).toEqual(new Date(2026, 0, 5));
+        });
+
+        it("Case 2: Reject other formats and overflowing dates", () => {
+            expect(parseCalendarDate("2026-1-5")).toBeUndefined();
+            expect(parseCalendarDate("2026-02-30")).toBeUndefined();
+        });
+    });
+
+    describe("formatDisplayDate", () => {
+        const date = new Date(2026, 0, 5, 23, 30);
+
+        afterEach(() => setDisplayDateFormat("locale"));
+
+        it("Case 1: Format dates in each display format", () => {
+            expect(formatDisplayDate(date, "iso")).toBe("2026-01-05");
+            expect(formatDisplayDate(date, "us")).toBe("01/05/2026");
+            expect(formatDisplayDate(date, "eu")).toBe("05.01.2026");
+            expect(formatDisplayDate(date, "locale")).toBe(date.toLocaleDateString());
+        });
+
+        it("Case 2: Use the format set from the preferences by default", () => {
+            expect(formatDisplayDate(date)).toBe(date.toLocaleDateString());
+
+            setDisplayDateFormat("eu");
+
+            expect(formatDisplayDate(date)).toBe("05.01.2026");
+        });
+    });
+});
@@ -1,5 +1,20 @@
-import { displayTask, displayStats } from "../../utils/display.js";
+import {
+    displayTask,
+    displayNextOccurrence,
+    displayOpenBlockers,
+    displayTaskTree,
+    displayStats,
+    displayTaskHistory,
+    displayBackups,
+    displayTaskDiff,
+    displayTimeReport,
+    formatCompletionRate,
+    renderProgressBar
+} from "../../utils/display.js";
 import { Task } from "../../models/Task.js";
+import { TaskChange } from "../../models/TaskChange.js";
+import { createTimeReport } from "../../services/TimeReport.js";
+import { formatDisplayDate } from "../../utils/date.js";
 import { jest } from "@jest/globals";
 
 describe("display", () => {
@@ -54,6 +69,90 @@ describe("display", () => {
 
             expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining("┖─ Updated:"));
         });
+
+        it("Case 5: Flag overdue task and show due date", () => {
+            const task = new Task("Test Task 5");
+            task.dueAt = new Date(Date.now() - 60_000);
+
+            displayTask(task);
+
+            expect(consoleSpy).toHaveBeenCalledWith("⏳ [ID: 1] Test Task 5 ⚠️ OVERDUE");
+            expect(consoleSpy).toHaveBeenCalledWith(`    ┖─ Due: ${task.dueAt.toLocaleDateString()}`);
+        });
+
+        it("Case 6: Do not flag task due in the future", () => {
+            const task = new Task("Test Task 6");
+            task.dueAt = new Date(Date.now() + 60_000);
+
+            displayTask(task);
+
+            expect(consoleSpy).toHaveBeenCalledWith("⏳ [ID: 1] Test Task 6");
+        });
+
+
+        it("Case 7: Show non-default priority only", () => {
+            const task = new Task("Test Task 7");
+
+            displayTask(task);
+            expect(consoleSpy).not.toHaveBeenCalledWith(expect.stringContaining("Priority:"));
+
+            task.priority = "urgent";
+            displayTask(task);
+            expect(consoleSpy).toHaveBeenCalledWith("    ┖─ Priority: urgent");
+        });
+
+
+        it("Case 8: Show tags with leading #", () => {
+            const task = new Task("Test Task 8");
+            task.setTags(["backend", "ops"]);
+
+            displayTask(task);
+
+            expect(consoleSpy).toHaveBeenCalledWith("    ┖─ Tags: #backend #ops");
+        });
+
+
+        it("Case 9: Indent all lines by depth and show subtask rollup", () => {
+            const task = new Task("Test Task 9", "Nested");
+
+            displayTask(task, { depth: 2, subtasks: { completed: 3, total: 5 } });
+
+            expect(consoleSpy).toHaveBeenCalledWith("        ⏳ [ID: 1] Test Task 9 (3/5 subtasks done)");
+            expect(consoleSpy).toHaveBeenCalledWith("            ┖─ Description: Nested");
+        });
+
+
+        it("Case 10: Show blocked-by task IDs", () => {
+            const task = new Task("Test Task 10");
+            task.blockedBy.add(3);
+            task.blockedBy.add(7);
+
+            displayTask(task);
+
+            expect(consoleSpy).toHaveBeenCalledWith("    ┖─ Blocked by: #3, #7");
+        });
+
+        it("Case 11: Show recurrence rule", () => {
+            const task = new Task("Test Task 11");
+            task.recurrence = { kind: "monthly", day: 15 };
+
+            displayTask(task);
+
+            expect(consoleSpy).toHaveBeenCalledWith("    ┖─ Repeats: every month on day 15");
+        });
+
+        it("Case 12: Show tracked time and flag a running timer", () => {
+            const task = new Task("Test Task 12");
+            task.timeEntries = [
+                { start: new Date("2026-10-19T08:00:00.000Z"), end: new Date("2026-10-19T09:05:00.000Z") },
+                { start: new Date() }
+            ];
+
+            displayTask(task);
+
+            expect(consoleSpy).toHaveBeenCalledWith("⏳ [ID: 1] Test Task 12 ⏱️ TIMER RUNNING");
+            expect(consoleSpy).toHaveBeenCalledWith("    ┖─ Tracked: 1h 05m");
+        });
     });
 
     describe("displayStats", () => {
@@ -127,5 +226,179 @@ describe("display", () => {
             expect(consoleSpy).toHaveBeenCalledWith("🏆 Completion Rate: 0.0%");
             expect(consoleSpy).toHaveBeenCalledWith("    ┖─ Progress: [░░░░░░░░░░░░░░░░░░░░]");
         });
+
+
+        it("Case 5: Share completion rate and progress bar with reports", () => {
+            expect(formatCompletionRate({ total: 3, completed: 1, pending: 2 })).toBe("33.3");
+            expect(formatCompletionRate({ total: 0, completed: 0, pending: 0 })).toBeUndefined();
+            expect(renderProgressBar({ total: 4, completed: 1, pending: 3 }, 8)).toBe("██░░░░░░");
+            expect(renderProgressBar({ total: 0, completed: 0, pending: 0 }, 4)).toBe("░░░░");
+        });
+
+        it("Case 6: Show focus sessions with the most focused tasks, only if any were logged", () => {
+            const task = new Task("Write report");
+            const stats = { total: 1, completed: 0, pending: 1 };
+
+            displayStats(stats, { total: 4, today: 2, thisWeek: 3, focusTime: 100 * 60_000, tasks: [{ task, sessions: 4 }] });
+
+            expect(consoleSpy).toHaveBeenCalledWith("🍅 Focus sessions: 4 (today: 2, this week: 3)");
+            expect(consoleSpy).toHaveBeenCalledWith("    ┖─ Focus time: 1h 40m");
+            expect(consoleSpy).toHaveBeenCalledWith("    ┖─ [ID: 1] Write report: 4 session(s)");
+
+            consoleSpy.mockClear();
+            displayStats(stats, { total: 0, today: 0, thisWeek: 0, focusTime: 0, tasks: [] });
+
+            expect(consoleSpy).not.toHaveBeenCalledWith(expect.stringContaining("Focus"));
+        });
+    });
+
+
+    describe("displayOpenBlockers", () => {
+        it("Case 1: Warn about open blockers only", () => {
+            const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+            displayOpenBlockers(3, [new Task("Build"), new Task("Test")]);
+            displayOpenBlockers(4, []);
+
+            expect(warnSpy).toHaveBeenCalledTimes(1);
+            expect(warnSpy).toHaveBeenCalledWith("⚠️ Task 3 is still blocked by open task(s): #1, #2");
+
+            warnSpy.mockRestore();
+        });
+    });
+
+    describe("displayNextOccurrence", () => {
+        it("Case 1: Show ID, title and due date of the next occurrence", () => {
+            const task = new Task("Standup");
+            task.dueAt = new Date(2026, 9, 20);
+
+            displayNextOccurrence(task);
+            displayNextOccurrence(new Task("Water plants"));
+
+            expect(consoleSpy).toHaveBeenCalledWith(`🔁 Next occurrence created: [ID: 1] Standup (due: ${formatDisplayDate(task.dueAt)})`);
+            expect(consoleSpy).toHaveBeenCalledWith("🔁 Next occurrence created: [ID: 2] Water plants");
+        });
+    });
+
+    describe("displayTaskTree", () => {
+        it("Case 1: Indent subtasks under parents with rollup", () => {
+            const parent = new Task("Parent");
+            const child = new Task("Child");
+            const grandchild = new Task("Grandchild");
+            const other = new Task("Other");
+            child.parentId = parent.id;
+            grandchild.parentId = child.id;
+            grandchild.markAsCompleted();
+
+            displayTaskTree([parent, other, grandchild, child]);
+
+            const summaries = consoleSpy.mock.calls
+                .map(call => call[0] as string)
+                .filter(line => !line.includes("┖─"));
+
+            expect(summaries).toEqual([
+                "⏳ [ID: 1] Parent (1/2 subtasks done)",
+                "    ⏳ [ID: 2] Child (1/1 subtasks done)",
+                `        ✅ [ID: 3] Grandchild (completed: ${grandchild.completedAt?.toLocaleDateString()})`,
+                "⏳ [ID: 4] Other"
+            ]);
+        });
+
+        it("Case 2: Show subtasks at top level when parent is not listed", () => {
+            const parent = new Task("Parent");
+            const child = new Task("Child");
+            child.parentId = parent.id;
+
+            displayTaskTree([child]);
+
+            expect(consoleSpy).toHaveBeenCalledWith("⏳ [ID: 2] Child");
+        });
+    });
+
+    describe("displayTaskHistory", () => {
+        it("Case 1: Show timeline of created, changed, completed and reopened events", () => {
+            const timestamp = new Date(2026, 9, 19, 9, 0);
+            const time = timestamp.toLocaleString();
+
+            displayTaskHistory([
+                new TaskChange(1, "created", "", "Buy milk", timestamp),
+                new TaskChange(1, "title", "Buy milk", "Buy oat milk", timestamp),
+                new TaskChange(1, "dueAt", "", "2026-10-20T21:59:59.999Z", timestamp),
+                new TaskChange(1, "completed", "false", "true", timestamp),
+                new TaskChange(1, "completed", "true", "false", timestamp),
+                new TaskChange(1, "deleted", "Buy oat milk", "", timestamp)
+            ]);
+
+            expect(consoleSpy.mock.calls.map(call => call[0])).toEqual([
+                `    ${time}  ✨ Created "Buy milk"`,
+                `    ${time}  ✏️ title: "Buy milk" → "Buy oat milk"`,
+                `    ${time}  ✏️ dueAt: (none) → "2026-10-20T21:59:59.999Z"`,
+                `    ${time}  ✅ Completed`,
+                `    ${time}  ⏳ Reopened`,
+                `    ${time}  🗑 Removed "Buy oat milk"`
+            ]);
+        });
+    });
+
+    describe("displayBackups", () => {
+        it("Case 1: Number backups with date and task count", () => {
+            const createdAt = new Date("2026-10-19T08:00:00.000Z");
+
+            displayBackups([
+                { name: "tasks-backup-a.csv", createdAt, taskCount: 3 },
+                { name: "tasks-backup-b.csv", createdAt }
+            ]);
+
+            expect(consoleSpy).toHaveBeenCalledWith(`    1. ${createdAt.toLocaleString()}  3 task(s)  tasks-backup-a.csv`);
+            expect(consoleSpy).toHaveBeenCalledWith(`    2. ${createdAt.toLocaleString()}  unreadable  tasks-backup-b.csv`);
+        });
+
+        it("Case 2: Show message when there are no backups", () => {
+            displayBackups([]);
+
+            expect(consoleSpy).toHaveBeenCalledWith("No backups yet.");
+        });
+    });
+
+    describe("displayTaskDiff", () => {
+        it("Case 1: Show added, removed and changed tasks with a summary", () => {
+            const added = new Task("New");
+            const removed = new Task("Old");
+            const changed = new Task("Edited");
+
+            displayTaskDiff({ added: [added], removed: [removed], changed: [{ before: changed, after: changed, fields: ["title", "tags"] }] });
+
+            expect(consoleSpy).toHaveBeenCalledWith("    + [ID: 1] New");
+            expect(consoleSpy).toHaveBeenCalledWith("    - [ID: 2] Old");
+            expect(consoleSpy).toHaveBeenCalledWith("    ~ [ID: 3] Edited (title, tags)");
+            expect(consoleSpy).toHaveBeenCalledWith("\nAdded: 1, removed: 1, changed: 1");
+        });
+
+        it("Case 2: Show message when lists are equal", () => {
+            displayTaskDiff({ added: [], removed: [], changed: [] });
+
+            expect(consoleSpy).toHaveBeenCalledWith("No differences.");
+        });
+    });
+
+    describe("displayTimeReport", () => {
+        it("Case 1: Show tracked time per day with the tasks worked on and a total", () => {
+            const task = new Task("Write report");
+            task.timeEntries = [{ start: new Date(2026, 9, 19, 9), end: new Date(2026, 9, 19, 10, 30) }];
+
+            displayTimeReport(createTimeReport([task], new Date(2026, 9, 19), new Date(2026, 9, 25)));
+
+            const range = `${formatDisplayDate(new Date(2026, 9, 19))} - ${formatDisplayDate(new Date(2026, 9, 25))}`;
+            const weekday = new Date(2026, 9, 19).toLocaleDateString(undefined, { weekday: "short" });
+            expect(consoleSpy).toHaveBeenCalledWith(`📅 ${weekday} ${formatDisplayDate(new Date(2026, 9, 19))}: 1h 30m`);
+            expect(consoleSpy).toHaveBeenCalledWith("    ┖─ [ID: 1] Write report: 1h 30m");
+            expect(consoleSpy).toHaveBeenCalledWith(`\n⏱️ Total ${range}: 1h 30m`);
+        });
+
+        it("Case 2: Show message when no time was tracked", () => {
+            displayTimeReport(createTimeReport([], new Date(2026, 9, 19), new Date(2026, 9, 19)));
+
+            expect(consoleSpy).toHaveBeenCalledWith(`No time tracked ${formatDisplayDate(new Date(2026, 9, 19))} - ${formatDisplayDate(new Date(2026, 9, 19))}.`);
+        });
     });
-});
\ No newline at end of file
+});
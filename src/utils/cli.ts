@@ -0,0 +1,732 @@
+import { parseArgs } from "util";
+import { resolve } from "path";
+import { TaskManager, type TaskOptions, type TaskUpdates } from "../managers/TaskManager.js";
+import { isPriority, parseTags, PRIORITIES, type Priority } from "../models/Task.js";
+import { parseRecurrence } from "../models/Recurrence.js";
+import { convertTasks, createTaskStore, type TaskStore } from "../services/TaskStore.js";
+import { SearchService } from "../services/SearchService.js";
+import { TaskFileLockedError } from "../services/FileLock.js";
+import {
+    EXPORT_EXTENSIONS,
+    exportFormatFromPath,
+    exportTasksFile,
+    IMPORT_EXTENSIONS,
+    importFormatFromPath,
+    importTasksFile
+} from "../services/TaskExchange.js";
+import { mergeTasks } from "../services/TaskMerge.js";
+import { loadConfig } from "../services/Config.js";
+import { getFocusStats } from "../services/Pomodoro.js";
+import { displayTask, displayTaskTree, displayNextOccurrence, displayOpenBlockers, displayStats, displayMergeConflict } from "./display.js";
+import { parseDueDate, setDisplayDateFormat } from "./date.js";
+
+/**
+ * Process exit codes returned by CLI commands.
+ * - `Success`: command completed
+ * - `Failure`: command ran but failed (task not found, I/O error)
+ * - `Usage`: invalid command, arguments or options
+ */
+export const ExitCode = {
+    Success: 0,
+    Failure: 1,
+    Usage: 2
+} as const;
+
+export type ExitCode = typeof ExitCode[keyof typeof ExitCode];
+
+/** Commands that save tasks (they lock the save file; the others are read-only) */
+const WRITE_COMMANDS = new Set(["add", "done", "rm", "update", "block", "unblock", "import"]);
+
+/** Options accepted by CLI subcommands (unused ones are ignored per command). */
+const cliOptions = {
+    title: { type: "string", short: "t" },
+    description: { type: "string", short: "d" },
+    due: { type: "string" },
+    priority: { type: "string", short: "p" },
+    tags: { type: "string" },
+    tag: { type: "string", multiple: true },
+    "all-tags": { type: "boolean" },
+    parent: { type: "string" },
+    repeat: { type: "string" },
+    cascade: { type: "boolean" },
+    tree: { type: "boolean" },
+    pending: { type: "boolean" },
+    completed: { type: "boolean" },
+    overdue: { type: "boolean" },
+    ready: { type: "boolean" },
+    base: { type: "string" },
+    help: { type: "boolean", short: "h" }
+} as const;
+
+/** Parse raw arguments against `cliOptions` (throws on unknown options). */
+function parseCliArgs(args: string[]) {
+    return parseArgs({ args, options: cliOptions, allowPositionals: true });
+}
+
+/** Resolve a file named on the command line against the working directory (like `import`/`export`). */
+function resolveFileArgument(file: string): string {
+    return resolve(process.cwd(), file);
+}
+
+/** Parsed option values passed to subcommand handlers. */
+type CliValues = ReturnType<typeof parseCliArgs>["values"];
+
+/** Usage text printed by `help` and on invalid input. */
+const usage = `Usage: task-manager [command] [options]
+
+Commands:
+    (none)                          Start interactive menu
+    add <title> [-d <description>] [--due <YYYY-MM-DD>] [-p <priority>] [--tags <a,b>] [--parent <id>] [--repeat <rule>]
+                                    Add a new task (or subtask)
+    list [--pending | --completed | --overdue | --ready] [--tag <tag>...] [--all-tags] [--tree]
+                                    List tasks (optionally with any/all of the tags)
+    done <id> [--cascade]           Mark task as completed (--cascade completes open subtasks)
+    rm <id> [--cascade]             Remove task (--cascade removes open subtasks)
+    update <id> [-t <title>] [-d <description>] [--due <YYYY-MM-DD | ->] [-p <priority>] [--tags <a,b | ->] [--parent <id | ->] [--repeat <rule | ->]
+                                    Update task title/description/due date/priority/tags/parent/recurrence
+    block <id> <blocker-id>         Mark task as blocked by another task
+    unblock <id> <blocker-id>       Remove a "blocked by" dependency
+    search <query>                  Search tasks, e.g. search deploy is:pending created>2026-09-01 "exact phrase"
+    tags                            List tags with task counts
+    stats                           Show task statistics and focus sessions
+    convert <from-file> <to-file>   Copy tasks between storage formats, e.g. convert tasks.csv tasks.json
+    merge <file-a> <file-b> [--base <file>]
+                                    Merge tasks of file B into file A (three-way with the version both started from,
+                                    e.g. a backup); fields changed in both keep the more recent change
+    import <file>                   Import tasks from todo.txt (.txt) or iCalendar (.ics), skipping existing ones
+    export <file>                   Export tasks to todo.txt (.txt), iCalendar (.ics) or a report (.md Markdown, .html web page)
+    help                            Show this message
+
+Storage: tasks.csv in the data directory by default. Set TASKS_FILE (e.g. tasks.json or tasks.db) to use another file;
+the format follows the extension unless TASKS_FORMAT (csv, json or sqlite) is set.
+Data directory: TASKS_DATA_DIR, else "dataDir" in ~/.config/task-manager/config.json (TASKS_CONFIG, XDG_CONFIG_HOME),
+else ~/.local/share/task-manager (XDG_DATA_HOME); ./data is still used if it exists and that directory doesn't.
+SQLite (.db) needs Node.js 22.5+; import existing tasks once with: convert tasks.csv tasks.db
+
+Priorities: ${PRIORITIES.join(", ")}
+Repeat rules: daily, weekly, weekly:mon,thu, monthly:15, after:3 (days after completion)`;
+
+/**
+ * Cli class - runs non-interactive subcommands parsed from `process.argv`.
+ *
+ * Responsibilities:
+ * - Parse command, positionals and options
+ * - Load tasks before each command (and save after mutations)
+ * - Report results to console and return an exit code
+ */
+export class Cli {
+    private taskManager: TaskManager;
+    private store: TaskStore;
+
+    /**
+     * Constructor
+     *
+     * @param store - Storage backend (default chosen by `createTaskStore`)
+     */
+    constructor(store: TaskStore = createTaskStore()) {
+        this.taskManager = new TaskManager();
+        this.store = store;
+    }
+
+    /**
+     * Run a single subcommand.
+     *
+     * @param args - Arguments after the script name (`process.argv.slice(2)`)
+     * @returns Exit code for the process
+     */
+    async run(args: string[]): Promise<ExitCode> {
+        let parsed;
+
+        try {
+            parsed = parseCliArgs(args);
+        } catch (e) {
+            console.error(`❌ ${e instanceof Error ? e.message : "Invalid arguments"}\n`);
+            console.error(usage);
+            return ExitCode.Usage;
+        }
+
+        const [command, ...positionals] = parsed.positionals;
+        const { values } = parsed;
+
+        if (command === undefined || command === "help" || values.help) {
+            console.log(usage);
+            return ExitCode.Success;
+        }
+
+        try {
+            setDisplayDateFormat(loadConfig().preferences.dateFormat);
+
+            // Works on files given as arguments, not on the current save file
+            if (command === "convert") {
+                return await this.convert(positionals);
+            }
+
+            if (command === "merge") {
+                return await this.merge(positionals, values);
+            }
+
+            // Lock before loading, so no other session saves in between
+            if (WRITE_COMMANDS.has(command)) {
+                await this.store.lock?.();
+            }
+
+            this.taskManager.setTasks(await this.store.loadTasks());
+            this.taskManager.setChanges(await this.store.loadHistory());
+            this.store.connect?.(this.taskManager);
+
+            switch (command) {
+                case "add":
+                    return await this.addTask(positionals, values);
+                case "list":
+                    return this.listTasks(values);
+                case "done":
+                    return await this.completeTask(positionals, values);
+                case "rm":
+                    return await this.removeTask(positionals, values);
+                case "update":
+                    return await this.updateTask(positionals, values);
+                case "block":
+                    return await this.blockTask(positionals);
+                case "unblock":
+                    return await this.unblockTask(positionals);
+                case "search":
+                    return this.searchTasks(positionals);
+                case "tags":
+                    return this.listTags();
+                case "stats":
+                    displayStats(this.taskManager.getStats(), getFocusStats(this.taskManager.getAllTasks()));
+                    return ExitCode.Success;
+                case "import":
+                    return await this.importTasks(positionals);
+                case "export":
+                    return await this.exportTasks(positionals);
+                default:
+                    console.error(`❌ Unknown command: ${command}\n`);
+                    console.error(usage);
+                    return ExitCode.Usage;
+            }
+        } catch (e) {
+            if (e instanceof TaskFileLockedError) {
+                console.error(`🔒 ${e.message}. Close it or use a read-only command (list, search, tags, stats).`);
+                return ExitCode.Failure;
+            }
+
+            console.error("❌ An error occurred:", e instanceof Error ? e.message : e);
+            return ExitCode.Failure;
+        } finally {
+            await this.store.unlock?.();
+        }
+    }
+
+    /**
+     * Parse task ID from the first positional argument.
+     *
+     * @returns Parsed ID (undefined if missing or not a number)
+     */
+    private parseId(positionals: string[]): number | undefined {
+        const id = parseInt(positionals[0] ?? "");
+        return isNaN(id) ? undefined : id;
+    }
+
+    /**
+     * -------------------
+     * Subcommand Handlers
+     * -------------------
+     */
+
+    /**
+     * Parse `--priority` value (case-insensitive).
+     *
+     * @returns Priority, undefined if not given, or null if invalid
+     */
+    private parsePriority(value: string | undefined): Priority | null | undefined {
+        if (value === undefined) return undefined;
+
+        const priority = value.trim().toLowerCase();
+
+        if (!isPriority(priority)) {
+            console.error(`❌ Invalid priority: ${value} (expected ${PRIORITIES.join("/")})`);
+            return null;
+        }
+
+        return priority;
+    }
+
+    /**
+     * Parse `--parent` value.
+     *
+     * @returns Parent ID, null for "-" (no parent), or undefined if invalid
+     */
+    private parseParentId(value: string): number | null | undefined {
+        if (value.trim() === "-") return null;
+
+        const parentId = parseInt(value);
+        return isNaN(parentId) ? undefined : parentId;
+    }
+
+    /** `add <title> [-d <description>] [--due <YYYY-MM-DD>] [-p <priority>] [--tags <a,b>] [--parent <id>] [--repeat <rule>]` */
+    private async addTask(positionals: string[], { description, due, priority: priorityInput, tags, parent, repeat }: CliValues): Promise<ExitCode> {
+        const title = positionals.join(" ");
+
+        if (title.trim() === "") {
+            console.error("❌ Title cannot be empty");
+            return ExitCode.Usage;
+        }
+
+        const dueAt = due !== undefined ? parseDueDate(due) : undefined;
+
+        if (due !== undefined && !dueAt) {
+            console.error(`❌ Invalid due date: ${due}`);
+            return ExitCode.Usage;
+        }
+
+        const priority = this.parsePriority(priorityInput);
+
+        if (priority === null) return ExitCode.Usage;
+
+        const options: TaskOptions = {};
+        if (dueAt) options.dueAt = dueAt;
+        if (priority) options.priority = priority;
+        if (tags !== undefined) options.tags = parseTags(tags);
+
+        if (parent !== undefined) {
+            const parentId = this.parseParentId(parent);
+
+            if (parentId === undefined || parentId === null) {
+                console.error(`❌ Invalid parent ID: ${parent}`);
+                return ExitCode.Usage;
+            }
+
+            options.parentId = parentId;
+        }
+
+        if (repeat !== undefined) {
+            const recurrence = parseRecurrence(repeat);
+
+            if (!recurrence) {
+                console.error(`❌ Invalid repeat rule: ${repeat}`);
+                return ExitCode.Usage;
+            }
+
+            options.recurrence = recurrence;
+        }
+
+        const task = this.taskManager.addTask(title, description || undefined, options);
+        await this.store.saveTasks(this.taskManager);
+
+        console.log("✨ Task added!");
+        displayTask(task);
+        return ExitCode.Success;
+    }
+
+    /** `list [--pending | --completed | --overdue | --ready] [--tag <tag>...] [--all-tags] [--tree]` */
+    private listTasks({ pending, completed, overdue, ready, tag, "all-tags": allTags, tree }: CliValues): ExitCode {
+        if ([pending, completed, overdue, ready].filter(Boolean).length > 1) {
+            console.error("❌ Use only one of --pending, --completed, --overdue or --ready");
+            return ExitCode.Usage;
+        }
+
+        let tasks = pending
+            ? this.taskManager.getPendingTasks()
+            : completed
+                ? this.taskManager.getCompletedTasks()
+                : overdue
+                    ? this.taskManager.getOverdueTasks()
+                    : ready
+                        ? this.taskManager.getReadyTasks()
+                        : this.taskManager.getSortedTasks();
+
+        // Narrow down by tags (any by default, all with --all-tags)
+        if (tag !== undefined) {
+            const filterTags = parseTags(tag.join(" "));
+            const tagged = allTags
+                ? this.taskManager.getTasksWithAllTags(filterTags)
+                : this.taskManager.getTasksWithAnyTag(filterTags);
+
+            tasks = tasks.filter(task => tagged.includes(task));
+        }
+
+        if (tasks.length === 0) {
+            console.log("📝 No tasks found.");
+            return ExitCode.Success;
+        }
+
+        if (tree) {
+            displayTaskTree(tasks);
+        } else {
+            tasks.forEach(task => displayTask(task));
+        }
+
+        console.log(`\nTotal: ${tasks.length} task(s)`);
+        return ExitCode.Success;
+    }
+
+    /**
+     * `done <id> [--cascade]` - completing an already completed task is a no-op.
+     * Without `--cascade`, tasks with open subtasks are not completed.
+     */
+    private async completeTask(positionals: string[], { cascade }: CliValues): Promise<ExitCode> {
+        const taskId = this.parseId(positionals);
+
+        if (taskId === undefined) {
+            console.error("❌ Invalid task ID");
+            return ExitCode.Usage;
+        }
+
+        const task = this.taskManager.findTask(taskId);
+
+        if (!task) {
+            console.error(`❌ Task ${taskId} not found`);
+            return ExitCode.Failure;
+        }
+
+        if (!task.completed) {
+            if (!this.taskManager.toggleTaskCompletion(taskId, cascade ? "cascade" : "block")) {
+                const openCount = this.taskManager.getOpenSubtasks(taskId).length;
+                console.error(`❌ Task ${taskId} has ${openCount} open subtask(s): complete them first or use --cascade`);
+                return ExitCode.Failure;
+            }
+
+            await this.store.saveTasks(this.taskManager);
+            displayOpenBlockers(taskId, this.taskManager.getLastOpenBlockers());
+        }
+
+        console.log("✨ Task marked as completed!");
+        displayTask(task);
+        this.taskManager.getLastCreatedOccurrences().forEach(displayNextOccurrence);
+        return ExitCode.Success;
+    }
+
+    /**
+     * `rm <id> [--cascade]` - completed subtasks are removed with their parent.
+     * Without `--cascade`, tasks with open subtasks are not removed.
+     */
+    private async removeTask(positionals: string[], { cascade }: CliValues): Promise<ExitCode> {
+        const taskId = this.parseId(positionals);
+
+        if (taskId === undefined) {
+            console.error("❌ Invalid task ID");
+            return ExitCode.Usage;
+        }
+
+        if (!this.taskManager.findTask(taskId)) {
+            console.error(`❌ Task ${taskId} not found`);
+            return ExitCode.Failure;
+        }
+
+        if (!this.taskManager.removeTask(taskId, cascade ? "cascade" : "block")) {
+            const openCount = this.taskManager.getOpenSubtasks(taskId).length;
+            console.error(`❌ Task ${taskId} has ${openCount} open subtask(s): remove them first or use --cascade`);
+            return ExitCode.Failure;
+        }
+
+        await this.store.saveTasks(this.taskManager);
+        console.log("🗑 Task removed!");
+        return ExitCode.Success;
+    }
+
+    /** `update <id> [-t <title>] [-d <description>] [--due <YYYY-MM-DD | ->] [-p <priority>] [--tags <a,b | ->] [--parent <id | ->] [--repeat <rule | ->]` */
+    private async updateTask(positionals: string[], { title, description, due, priority, tags, parent, repeat }: CliValues): Promise<ExitCode> {
+        const taskId = this.parseId(positionals);
+
+        if (taskId === undefined) {
+            console.error("❌ Invalid task ID");
+            return ExitCode.Usage;
+        }
+
+        const updates: TaskUpdates = {};
+
+        if (title !== undefined) updates.title = title;
+        if (description !== undefined) updates.description = description;
+
+        // "-" clears the due date
+        if (due === "-") {
+            updates.dueAt = null;
+        } else if (due !== undefined) {
+            const dueAt = parseDueDate(due);
+
+            if (!dueAt) {
+                console.error(`❌ Invalid due date: ${due}`);
+                return ExitCode.Usage;
+            }
+
+            updates.dueAt = dueAt;
+        }
+
+        const newPriority = this.parsePriority(priority);
+
+        if (newPriority === null) return ExitCode.Usage;
+        if (newPriority) updates.priority = newPriority;
+
+        // "-" clears all tags
+        if (tags !== undefined) updates.tags = tags === "-" ? [] : parseTags(tags);
+
+        // "-" makes the task top-level again
+        if (parent !== undefined) {
+            const parentId = this.parseParentId(parent);
+
+            if (parentId === undefined) {
+                console.error(`❌ Invalid parent ID: ${parent}`);
+                return ExitCode.Usage;
+            }
+
+            updates.parentId = parentId;
+        }
+
+        // "-" stops the task from repeating
+        if (repeat === "-") {
+            updates.recurrence = null;
+        } else if (repeat !== undefined) {
+            const recurrence = parseRecurrence(repeat);
+
+            if (!recurrence) {
+                console.error(`❌ Invalid repeat rule: ${repeat}`);
+                return ExitCode.Usage;
+            }
+
+            updates.recurrence = recurrence;
+        }
+
+        if (Object.keys(updates).length === 0) {
+            console.error("❌ Nothing to update: pass --title, --description, --due, --priority, --tags, --parent and/or --repeat");
+            return ExitCode.Usage;
+        }
+
+        if (!this.taskManager.updateTask(taskId, updates)) {
+            console.error(`❌ Task ${taskId} not found`);
+            return ExitCode.Failure;
+        }
+
+        await this.store.saveTasks(this.taskManager);
+        console.log("✨ Task updated!");
+        displayTask(this.taskManager.findTask(taskId)!);
+        return ExitCode.Success;
+    }
+
+    /** `search <query>` - see `parseQuery` for the query syntax */
+    private searchTasks(positionals: string[]): ExitCode {
+        let tasks;
+
+        try {
+            tasks = new SearchService(this.taskManager).search(positionals.join(" "));
+        } catch (e) {
+            console.error(`❌ ${e instanceof Error ? e.message : "Invalid query"}`);
+            return ExitCode.Usage;
+        }
+
+        if (tasks.length === 0) {
+            console.log("📝 No matching tasks found.");
+            return ExitCode.Success;
+        }
+
+        tasks.forEach(task => displayTask(task));
+        console.log(`\nTotal: ${tasks.length} task(s)`);
+        return ExitCode.Success;
+    }
+
+    /**
+     * `convert <from-file> <to-file>` - formats follow the file extensions,
+     * the target file is overwritten. Files are relative to the working directory.
+     */
+    private async convert(positionals: string[]): Promise<ExitCode> {
+        const [from, to] = positionals;
+
+        if (from === undefined || to === undefined) {
+            console.error("❌ Usage: convert <from-file> <to-file>");
+            return ExitCode.Usage;
+        }
+
+        const source = createTaskStore(resolveFileArgument(from));
+
+        if (!(await source.exists())) {
+            console.error(`❌ File not found: ${from}`);
+            return ExitCode.Failure;
+        }
+
+        const count = await convertTasks(source, createTaskStore(resolveFileArgument(to)));
+        console.log(`✨ Converted ${count} task(s) from ${from} to ${to}`);
+        return ExitCode.Success;
+    }
+
+    /**
+     * `merge <file-a> <file-b> [--base <file>]` - merges the tasks of file B into
+     * file A (see `mergeTasks`); file A keeps its change history.
+     * Files are relative to the working directory.
+     * Without `--base`, tasks missing from one file are kept and every differing
+     * field is a conflict. Conflicts keep the more recent change and are listed.
+     */
+    private async merge(positionals: string[], { base: baseFile }: CliValues): Promise<ExitCode> {
+        const [fileA, fileB] = positionals;
+
+        if (fileA === undefined || fileB === undefined) {
+            console.error("❌ Usage: merge <file-a> <file-b> [--base <file>]");
+            return ExitCode.Usage;
+        }
+
+        const target = createTaskStore(resolveFileArgument(fileA));
+        const other = createTaskStore(resolveFileArgument(fileB));
+        const base = baseFile !== undefined ? createTaskStore(resolveFileArgument(baseFile)) : undefined;
+
+        for (const [file, store] of [[fileB, other], [baseFile, base]] as const) {
+            if (store && !(await store.exists())) {
+                console.error(`❌ File not found: ${file}`);
+                return ExitCode.Failure;
+            }
+        }
+
+        await target.lock?.();
+
+        try {
+            const history = await target.loadHistory();
+            const { tasks, conflicts, renumbered } = mergeTasks(
+                base ? await base.loadTasks() : [],
+                await target.loadTasks(),
+                await other.loadTasks(),
+                { local: history, remote: await other.loadHistory() }
+            );
+
+            this.taskManager.setTasks(tasks);
+            this.taskManager.setChanges(history);
+            await target.saveTasks(this.taskManager);
+
+            console.log(`🔀 Merged ${fileB} into ${fileA}: ${tasks.length} task(s)`);
+
+            if (conflicts.length > 0) {
+                console.log(`\n⚠️ ${conflicts.length} field(s) changed in both files, kept the more recent change:`);
+                conflicts.forEach(conflict => displayMergeConflict(conflict, { local: fileA, remote: fileB }));
+            }
+
+            for (const { from, to } of renumbered) {
+                console.log(`    Task #${from} of ${fileA} is now #${to}`);
+            }
+
+            return ExitCode.Success;
+        } finally {
+            await target.unlock?.();
+        }
+    }
+
+    /**
+     * Check that a file given to `import`/`export` has a supported extension.
+     *
+     * @returns True if supported (otherwise prints an error)
+     */
+    private checkExchangeFormat(command: "import" | "export", file: string | undefined): file is string {
+        if (file === undefined) {
+            console.error(`❌ Usage: ${command} <file>`);
+            return false;
+        }
+
+        const supported = command === "import" ? importFormatFromPath(file) : exportFormatFromPath(file);
+
+        if (!supported) {
+            const expected = command === "import" ? IMPORT_EXTENSIONS : EXPORT_EXTENSIONS;
+            console.error(`❌ Unsupported ${command} format: ${file} (expected ${expected})`);
+            return false;
+        }
+
+        return true;
+    }
+
+    /** `import <file>` - tasks with the same title and due day as an existing task are skipped. */
+    private async importTasks(positionals: string[]): Promise<ExitCode> {
+        const [file] = positionals;
+
+        if (!this.checkExchangeFormat("import", file)) return ExitCode.Usage;
+
+        const { imported, duplicates } = await importTasksFile(this.taskManager, file);
+
+        if (imported.length > 0) {
+            await this.store.saveTasks(this.taskManager);
+        }
+
+        console.log(`✨ Imported ${imported.length} task(s), skipped ${duplicates.length} duplicate(s)`);
+        imported.forEach(task => console.log(`    + [ID: ${task.id}] ${task.title}`));
+        duplicates.forEach(title => console.log(`    = ${title} (already exists)`));
+        return ExitCode.Success;
+    }
+
+    /** `export <file>` - todo.txt, iCalendar or Markdown/HTML report by extension; the file is overwritten. */
+    private async exportTasks(positionals: string[]): Promise<ExitCode> {
+        const [file] = positionals;
+
+        if (!this.checkExchangeFormat("export", file)) return ExitCode.Usage;
+
+        const format = await exportTasksFile(this.taskManager, file);
+        const count = this.taskManager.getStats().total;
+
+        console.log(format === "markdown" || format === "html"
+            ? `✨ Wrote report of ${count} task(s) to ${file}`
+            : `✨ Exported ${count} task(s) to ${file}`);
+        return ExitCode.Success;
+    }
+
+    /** `tags` */
+    private listTags(): ExitCode {
+        const counts = this.taskManager.getTagCounts();
+
+        if (counts.size === 0) {
+            console.log("📝 No tags in use.");
+            return ExitCode.Success;
+        }
+
+        for (const [tag, count] of counts) {
+            console.log(`#${tag} (${count})`);
+        }
+
+        return ExitCode.Success;
+    }
+
+    /**
+     * Parse task ID and blocker ID from positionals.
+     *
+     * @returns `[id, blockerId]` (undefined if either is missing or invalid)
+     */
+    private parseDependency(positionals: string[]): [number, number] | undefined {
+        const id = this.parseId(positionals);
+        const blockerId = this.parseId(positionals.slice(1));
+
+        if (id === undefined || blockerId === undefined) {
+            console.error("❌ Expected <id> <blocker-id>");
+            return undefined;
+        }
+
+        return [id, blockerId];
+    }
+
+    /** `block <id> <blocker-id>` */
+    private async blockTask(positionals: string[]): Promise<ExitCode> {
+        const ids = this.parseDependency(positionals);
+
+        if (!ids) return ExitCode.Usage;
+
+        const [id, blockerId] = ids;
+
+        if (!this.taskManager.addDependency(id, blockerId)) {
+            console.error(`❌ Task ${id} or ${blockerId} not found`);
+            return ExitCode.Failure;
+        }
+
+        await this.store.saveTasks(this.taskManager);
+        console.log(`✨ Task ${id} is now blocked by task ${blockerId}`);
+        return ExitCode.Success;
+    }
+
+    /** `unblock <id> <blocker-id>` */
+    private async unblockTask(positionals: string[]): Promise<ExitCode> {
+        const ids = this.parseDependency(positionals);
+
+        if (!ids) return ExitCode.Usage;
+
+        const [id, blockerId] = ids;
+
+        if (!this.taskManager.removeDependency(id, blockerId)) {
+            console.error(`❌ Task ${id} is not blocked by task ${blockerId}`);
+            return ExitCode.Failure;
+        }
+
+        await this.store.saveTasks(this.taskManager);
+        console.log(`✨ Task ${id} no longer waits for task ${blockerId}`);
+        return ExitCode.Success;
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Date helpers shared by the task model, manager and user interfaces.
+ *
+ * All calendar calculations use the local timezone, since due dates are
+ * entered and displayed as local calendar days.
+ */
+
+/** Matches date-only input such as `2026-10-19` */
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Formats for displaying dates: system locale, `2026-10-19`, `10/19/2026` or `19.10.2026` */
+export const DATE_FORMATS = ["locale", "iso", "us", "eu"] as const;
+
+export type DateFormat = typeof DATE_FORMATS[number];
+
+/** Format used by `formatDisplayDate` (set from the user's preferences) */
+let displayDateFormat: DateFormat = "locale";
+
+/** Return a new Date at local midnight (00:00:00.000) of the given day. */
+export function startOfDay(date: Date): Date {
+    const result = new Date(date);
+    result.setHours(0, 0, 0, 0);
+    return result;
+}
+
+/** Return a new Date at the last millisecond (23:59:59.999) of the given day. */
+export function endOfDay(date: Date): Date {
+    const result = new Date(date);
+    result.setHours(23, 59, 59, 999);
+    return result;
+}
+
+/** Return a new Date at local midnight of the Monday starting the given day's week. */
+export function startOfWeek(date: Date): Date {
+    const result = startOfDay(date);
+    result.setDate(result.getDate() - (result.getDay() + 6) % 7);
+    return result;
+}
+
+/** Return a new Date shifted by a (possibly negative) number of calendar days. */
+export function addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+}
+
+/** Format a date as local `YYYY-MM-DD` (e.g. for todo.txt files). */
+export function formatCalendarDate(date: Date): string {
+    const pad = (value: number) => value.toString().padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Set the format used by `formatDisplayDate` (e.g. from the config file). */
+export function setDisplayDateFormat(format: DateFormat): void {
+    displayDateFormat = format;
+}
+
+/**
+ * Format a date for display.
+ * 
+ * @param date - Date to format (local calendar day)
+ * @param format - Date format (default as set by `setDisplayDateFormat`, else the system locale)
+ */
+export function formatDisplayDate(date: Date, format: DateFormat = displayDateFormat): string {
+    const [year, month, day] = formatCalendarDate(date).split("-");
+
+    switch (format) {
+        case "iso":
+            return `${year}-${month}-${day}`;
+        case "us":
+            return `${month}/${day}/${year}`;
+        case "eu":
+            return `${day}.${month}.${year}`;
+        default:
+            return date.toLocaleDateString();
+    }
+}
+
+/**
+ * Parse a `YYYY-MM-DD` calendar date.
+ * 
+ * @param input - Date text
+ * @returns Local midnight of that day (undefined if not a valid `YYYY-MM-DD` date)
+ */
+export function parseCalendarDate(input: string): Date | undefined {
+    const match = DATE_ONLY_PATTERN.exec(input.trim());
+
+    if (!match) return undefined;
+
+    const [, year, month, day] = match.map(Number);
+    const date = new Date(year!, month! - 1, day!);
+
+    // Reject overflowing dates such as 2026-02-31
+    if (date.getMonth() !== month! - 1 || date.getDate() !== day) {
+        return undefined;
+    }
+
+    return date;
+}
+
+/**
+ * Parse user input into a due date.
+ *
+ * - `YYYY-MM-DD` is due at the end of that local day
+ * - Any other value accepted by `Date` (e.g. full ISO timestamps) is used as-is
+ *
+ * @param input - Raw user input
+ * @returns Parsed Date (undefined if blank or invalid)
+ */
+export function parseDueDate(input: string): Date | undefined {
+    const value = input.trim();
+
+    if (value === "") return undefined;
+
+    if (DATE_ONLY_PATTERN.test(value)) {
+        const date = parseCalendarDate(value);
+        return date && endOfDay(date);
+    }
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
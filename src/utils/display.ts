@@ -1,4 +1,21 @@
 import { Task } from "../models/Task.js";
+import { describeRecurrence } from "../models/Recurrence.js";
+import type { TaskChange } from "../models/TaskChange.js";
+import type { SubtaskProgress, TaskStats } from "../managers/TaskManager.js";
+import type { BackupInfo, TaskDiff } from "../services/Backups.js";
+import { formatMergeValue, type MergeConflict, type MergeSide } from "../services/TaskMerge.js";
+import { formatDuration } from "../models/TimeEntry.js";
+import type { TimeReport } from "../services/TimeReport.js";
+import type { FocusStats } from "../services/Pomodoro.js";
+import { addDays, formatDisplayDate } from "./date.js";
+
+/** Optional layout settings for `displayTask`. */
+export interface DisplayTaskOptions {
+    // Nesting level (each level indents output by 4 spaces)
+    depth?: number;
+    // Subtask rollup shown in summary line
+    subtasks?: SubtaskProgress;
+}
 
 /**
  * Display a single task neatly formatted to console.
@@ -7,36 +24,256 @@ import { Task } from "../models/Task.js";
  * - Task completion status (✅ / ⏳)
  * - Task ID and title
  * - Optional completion date (if task completed)
+ * - Subtask rollup, e.g. "(3/5 subtasks done)" (if provided)
+ * - Overdue flag (if pending and past due date)
+ * - Running timer flag (if a timer runs on the task)
+ * - Priority (if not "normal")
  * - Description (if provided)
+ * - Due date (if set)
+ * - Tags (if any)
+ * - Blocked-by task IDs (if any)
+ * - Recurrence rule (if repeating)
+ * - Tracked time (if any)
  * - Created/updated timestamps
  * 
  * @param task - Task object to display
+ * @param options - Optional nesting depth and subtask rollup
  */
-export function displayTask(task: Task): void {
+export function displayTask(task: Task, options: DisplayTaskOptions = {}): void {
+    // Prefix every line according to nesting depth
+    const indent = "    ".repeat(options.depth ?? 0);
+    const log = (line: string) => console.log(indent + line);
+
     // Choose status icon based on completion status
     const status = task.completed ? "✅" : "⏳";
 
     // Add "(completed: DATE)" if task marked completed
     const completedAt = task.completed && task.completedAt
-        ? ` (completed: ${task.completedAt.toLocaleDateString()})`
+        ? ` (completed: ${formatDisplayDate(task.completedAt)})`
         : "";
 
+    // Add "(3/5 subtasks done)" if task has subtasks
+    const subtasks = options.subtasks && options.subtasks.total > 0
+        ? ` (${options.subtasks.completed}/${options.subtasks.total} subtasks done)`
+        : "";
+
+    // Add "⚠️ OVERDUE" flag if pending and past due date
+    const overdue = task.isOverdue() ? " ⚠️ OVERDUE" : "";
+
+    // Add "⏱️ TIMER RUNNING" flag if time is being tracked right now
+    const timer = task.isTimerRunning() ? " ⏱️ TIMER RUNNING" : "";
+
     // Build summary line: "✅ [ID: 1] Task Title (completed: MM/DD/YYY)"
-    const completedSummary = `${status} [ID: ${task.id}] ${task.title}${completedAt}`;
-    console.log(completedSummary);
+    const completedSummary = `${status} [ID: ${task.id}] ${task.title}${completedAt}${subtasks}${overdue}${timer}`;
+    log(completedSummary);
+
+    // Priority (only shown when it differs from the default)
+    if (task.priority !== "normal") {
+        log(`    ┖─ Priority: ${task.priority}`);
+    }
 
     // Optional description (indented with ┖─)
     if (task.description) {
-        console.log(`    ┖─ Description: ${task.description}`);
+        log(`    ┖─ Description: ${task.description}`);
+    }
+
+    // Optional due date
+    if (task.dueAt) {
+        log(`    ┖─ Due: ${formatDisplayDate(task.dueAt)}`);
+    }
+
+    // Optional tags, shown as "#tag"
+    if (task.tags.size > 0) {
+        log(`    ┖─ Tags: ${[...task.tags].map(tag => `#${tag}`).join(" ")}`);
+    }
+
+    // Optional dependencies, shown as "#id"
+    if (task.blockedBy.size > 0) {
+        log(`    ┖─ Blocked by: ${[...task.blockedBy].map(id => `#${id}`).join(", ")}`);
+    }
+
+    // Optional recurrence, e.g. "every week on Mon, Thu"
+    if (task.recurrence) {
+        log(`    ┖─ Repeats: ${describeRecurrence(task.recurrence)}`);
+    }
+
+    // Optional tracked time (including a running timer), e.g. "1h 05m"
+    if (task.timeEntries.length > 0) {
+        log(`    ┖─ Tracked: ${formatDuration(task.getTrackedTime())}`);
     }
 
     // Creation date
-    console.log(`    ┖─ Created: ${task.createdAt.toLocaleDateString()}`);
+    log(`    ┖─ Created: ${formatDisplayDate(task.createdAt)}`);
 
     // Only show "Updated" if updatedAt differs from createdAt timestamp
     if (task.updatedAt > task.createdAt) {
-        console.log(`    ┖─ Updated: ${task.updatedAt.toLocaleDateString()}`);
+        log(`    ┖─ Updated: ${formatDisplayDate(task.updatedAt)}`);
+    }
+}
+
+/**
+ * Warn that a task is completed while its blockers are still open (nothing if none are).
+ *
+ * @param id - Completed task
+ * @param blockers - Its open blockers
+ */
+export function displayOpenBlockers(id: number, blockers: Task[]): void {
+    if (blockers.length === 0) return;
+
+    const blockerIds = blockers.map(blocker => `#${blocker.id}`).join(", ");
+    console.warn(`⚠️ Task ${id} is still blocked by open task(s): ${blockerIds}`);
+}
+
+/** Display the next occurrence created by completing a recurring task. */
+export function displayNextOccurrence(task: Task): void {
+    const due = task.dueAt ? ` (due: ${formatDisplayDate(task.dueAt)})` : "";
+    console.log(`🔁 Next occurrence created: [ID: ${task.id}] ${task.title}${due}`);
+}
+
+/**
+ * Display tasks as a tree, with subtasks indented under their parents.
+ * 
+ * - Tasks whose parent is not in the list are shown at top level
+ * - Parents show a rollup of completed subtasks (all depths)
+ * - Order of `tasks` is kept among siblings
+ * 
+ * @param tasks - Tasks to display (e.g. all tasks, sorted)
+ */
+export function displayTaskTree(tasks: Task[]): void {
+    const ids = new Set(tasks.map(task => task.id));
+
+    const childrenOf = (id: number) => tasks.filter(task => task.parentId === id);
+
+    // Recursively collect all subtasks of a task within the list
+    const descendantsOf = (id: number): Task[] =>
+        childrenOf(id).flatMap(child => [child, ...descendantsOf(child.id)]);
+
+    // Recursively render a task followed by its subtasks one level deeper
+    const render = (task: Task, depth: number): void => {
+        const descendants = descendantsOf(task.id);
+        const completed = descendants.filter(descendant => descendant.completed).length;
+
+        displayTask(task, { depth, subtasks: { completed, total: descendants.length } });
+        childrenOf(task.id).forEach(child => render(child, depth + 1));
+    };
+
+    tasks
+        .filter(task => task.parentId === undefined || !ids.has(task.parentId))
+        .forEach(task => render(task, 0));
+}
+
+/**
+ * Display change history of a task as a timeline, one line per change.
+ * 
+ * Example lines:
+ * - `10/19/2026, 9:00:00 AM  ✨ Created "Buy milk"`
+ * - `10/19/2026, 9:05:00 AM  ✏️ title: "Buy milk" → "Buy oat milk"`
+ * - `10/19/2026, 6:30:00 PM  ✅ Completed`
+ * 
+ * @param changes - Changes of a single task, oldest first
+ */
+export function displayTaskHistory(changes: TaskChange[]): void {
+    for (const change of changes) {
+        const timestamp = change.timestamp.toLocaleString();
+        let event: string;
+
+        if (change.field === "created") {
+            event = `✨ Created "${change.newValue}"`;
+        } else if (change.field === "deleted") {
+            event = `🗑 Removed "${change.oldValue}"`;
+        } else if (change.field === "completed") {
+            event = change.newValue === "true" ? "✅ Completed" : "⏳ Reopened";
+        } else {
+            const oldValue = change.oldValue === "" ? "(none)" : `"${change.oldValue}"`;
+            const newValue = change.newValue === "" ? "(none)" : `"${change.newValue}"`;
+            event = `✏️ ${change.field}: ${oldValue} → ${newValue}`;
+        }
+
+        console.log(`    ${timestamp}  ${event}`);
+    }
+}
+
+/**
+ * Display numbered list of backups.
+ * 
+ * Example line: `1. 10/19/2026, 9:00:00 AM  12 task(s)  tasks-backup-2026-10-19T07-00-00-000Z.csv`
+ * 
+ * @param backups - Backups, newest first
+ */
+export function displayBackups(backups: BackupInfo[]): void {
+    if (backups.length === 0) {
+        console.log("No backups yet.");
+        return;
     }
+
+    backups.forEach((backup, i) => {
+        const count = backup.taskCount !== undefined ? `${backup.taskCount} task(s)` : "unreadable";
+        console.log(`    ${i + 1}. ${backup.createdAt.toLocaleString()}  ${count}  ${backup.name}`);
+    });
+}
+
+/**
+ * Display differences between two task lists, one line per task.
+ * 
+ * - `+ [ID: 4] Title` added
+ * - `- [ID: 2] Title` removed
+ * - `~ [ID: 1] Title (title, priority)` changed fields
+ * 
+ * @param diff - Differences (see `diffTasks`)
+ */
+export function displayTaskDiff(diff: TaskDiff): void {
+    if (diff.added.length + diff.removed.length + diff.changed.length === 0) {
+        console.log("No differences.");
+        return;
+    }
+
+    diff.added.forEach(task => console.log(`    + [ID: ${task.id}] ${task.title}`));
+    diff.removed.forEach(task => console.log(`    - [ID: ${task.id}] ${task.title}`));
+    diff.changed.forEach(({ after, fields }) => console.log(`    ~ [ID: ${after.id}] ${after.title} (${fields.join(", ")})`));
+
+    console.log(`\nAdded: ${diff.added.length}, removed: ${diff.removed.length}, changed: ${diff.changed.length}`);
+}
+
+/**
+ * Display a merge conflict: the task, the field and both values (the kept one marked).
+ *
+ * @param conflict - Conflict to show
+ * @param labels - Names of both sides, e.g. file names
+ */
+export function displayMergeConflict(conflict: MergeConflict, labels: Record<MergeSide, string>): void {
+    const { task, field } = conflict;
+    const width = Math.max(labels.local.length, labels.remote.length) + 1;
+
+    console.log(`⚔️ [ID: ${task.id}] ${task.title} - ${field}`);
+
+    for (const side of ["local", "remote"] as const) {
+        const kept = conflict.resolution === side ? "  ✔ kept" : "";
+        console.log(`    ${`${labels[side]}:`.padEnd(width)} ${formatMergeValue(conflict[side], field)}${kept}`);
+    }
+}
+
+/**
+ * Completion rate of tasks in percent with one decimal, e.g. `"70.0"`.
+ *
+ * @param stats - Task counts
+ * @returns Formatted rate (undefined if there are no tasks)
+ */
+export function formatCompletionRate(stats: TaskStats): string | undefined {
+    return stats.total > 0 ? ((stats.completed / stats.total) * 100).toFixed(1) : undefined;
+}
+
+/**
+ * Text progress bar of completed tasks, e.g. `██████████████░░░░░░`.
+ *
+ * @param stats - Task counts
+ * @param barLength - Number of characters (default 20)
+ */
+export function renderProgressBar(stats: TaskStats, barLength: number = 20): string {
+    const ratio = stats.total > 0 ? stats.completed / stats.total : 0;
+    const filledLength = Math.min(Math.round(ratio * barLength), barLength);
+    const emptyLength = Math.max(barLength - filledLength, 0);
+
+    return "█".repeat(filledLength) + "░".repeat(emptyLength);
 }
 
 /**
@@ -48,15 +285,13 @@ export function displayTask(task: Task): void {
  * - Pending tasks
  * - Completion rate (%)
  * - Visual progress bar
+ * - Focus sessions: counts, focus time and most focused tasks (if given and any were logged)
  * 
  * @param stats - Object containing task counts:
  *  { total, completed, pending }
+ * @param focus - Summary of Pomodoro focus sessions (see `getFocusStats`)
  */
-export function displayStats(stats: {
-        total: number;
-        completed: number;
-        pending: number
-    }): void {
+export function displayStats(stats: TaskStats, focus?: FocusStats): void {
     // Print numeric stats
     const allStats = `📊 Total tasks: ${stats.total}
     📈 Completed: ${stats.completed}
@@ -64,18 +299,50 @@ export function displayStats(stats: {
 
     console.log(allStats);
 
-    // If tasks exist, calculate: show completion rate + progress bar
-    if (stats.total > 0) {
-        const completionRate = ((stats.completed / stats.total) * 100).toFixed(1);
+    // If tasks exist, show completion rate + progress bar
+    const completionRate = formatCompletionRate(stats);
+
+    if (completionRate !== undefined) {
         console.log(`🏆 Completion Rate: ${completionRate}%`);
+        console.log(`    ┖─ Progress: [${renderProgressBar(stats)}]`);
+    }
 
-        // Progress bar render at 20 characters long
-        const barLength = 20;
-        const filledLength = Math.min(Math.round((stats.completed / stats.total) * barLength), barLength);
-        const emptyLength = Math.max(barLength - filledLength, 0);
+    // If focus sessions were logged, show counts and the top 3 tasks
+    if (focus && focus.total > 0) {
+        console.log(`🍅 Focus sessions: ${focus.total} (today: ${focus.today}, this week: ${focus.thisWeek})`);
+        console.log(`    ┖─ Focus time: ${formatDuration(focus.focusTime)}`);
+        focus.tasks.slice(0, 3).forEach(({ task, sessions }) => console.log(`    ┖─ [ID: ${task.id}] ${task.title}: ${sessions} session(s)`));
+    }
+}
 
-        const progressBar = "█".repeat(filledLength) + "░".repeat(emptyLength);
+/**
+ * Display tracked time by day or week, with the tasks worked on in each period.
+ *
+ * Example:
+ * ```
+ * 📅 Mon 10/19/2026: 2h 30m
+ *     ┖─ [ID: 1] Write report: 1h 30m
+ *     ┖─ [ID: 4] Review PR: 1h 00m
+ * ```
+ *
+ * @param report - Time report (see `createTimeReport`)
+ */
+export function displayTimeReport(report: TimeReport): void {
+    const range = `${formatDisplayDate(report.from)} - ${formatDisplayDate(report.to)}`;
 
-        console.log(`    ┖─ Progress: [${progressBar}]`);
+    if (report.periods.length === 0) {
+        console.log(`No time tracked ${range}.`);
+        return;
     }
-}
\ No newline at end of file
+
+    for (const period of report.periods) {
+        const label = report.groupBy === "week"
+            ? `Week ${formatDisplayDate(period.start)} - ${formatDisplayDate(addDays(period.end, -1))}`
+            : `${period.start.toLocaleDateString(undefined, { weekday: "short" })} ${formatDisplayDate(period.start)}`;
+
+        console.log(`📅 ${label}: ${formatDuration(period.total)}`);
+        period.tasks.forEach(({ task, duration }) => console.log(`    ┖─ [ID: ${task.id}] ${task.title}: ${formatDuration(duration)}`));
+    }
+
+    console.log(`\n⏱️ Total ${range}: ${formatDuration(report.total)}`);
+}
@@ -1,8 +1,23 @@
 import { createInterface } from "readline/promises";
 import { stdin as input, stdout as output } from "process";
-import { TaskManager } from "../managers/TaskManager.js";
-import { FileService } from "../services/FileService.js";
-import { displayTask, displayStats } from '../utils/display.js';
+import { isPriority, parseTags, PRIORITIES, type Task } from "../models/Task.js";
+import { TaskManager, type SubtaskPolicy, type TaskOptions, type TaskUpdates } from "../managers/TaskManager.js";
+import { createTaskStore, type TaskStore } from "../services/TaskStore.js";
+import { SearchService } from "../services/SearchService.js";
+import { TaskFileLockedError } from "../services/FileLock.js";
+import { DEFAULT_LIST, TaskLists } from "../services/TaskLists.js";
+import { describeDataDirectorySource, loadConfig, resolveDataDirectory, type Config } from "../services/Config.js";
+import { exportTasksFile, importTasksFile } from "../services/TaskExchange.js";
+import { Autosave, autosaveModeFromEnv, describeAutosaveMode } from "../services/Autosave.js";
+import { mergeHistories, mergeTasks, resolveConflict, type MergeConflict } from "../services/TaskMerge.js";
+import { displayTask, displayTaskTree, displayNextOccurrence, displayOpenBlockers, displayStats, displayTaskHistory, displayBackups, displayTaskDiff, displayMergeConflict, displayTimeReport } from '../utils/display.js';
+import { describeRetentionPolicy, diffTasks, retentionPolicyFromEnv, type BackupInfo } from "../services/Backups.js";
+import { parseRecurrence } from "../models/Recurrence.js";
+import type { TaskChange } from "../models/TaskChange.js";
+import { formatDuration, parseDuration } from "../models/TimeEntry.js";
+import { createTimeReport, type TimeReportGrouping } from "../services/TimeReport.js";
+import { BELL, countdown, formatCountdown, getFocusStats } from "../services/Pomodoro.js";
+import { addDays, formatDisplayDate, parseCalendarDate, parseDueDate, setDisplayDateFormat, startOfDay, startOfWeek } from "./date.js";
 
 /**
  * Menu class - handles CLI interactions with the user.
@@ -13,44 +28,124 @@ import { displayTask, displayStats } from '../utils/display.js';
  * - Handle persistence (save/load/backup)
  * - Confirmations for descturctive actions
  * - Track unsaved changes
+ * - Undo/redo of task changes
+ * - Lock the save file, or run read-only if another session holds the lock
+ * - Optional autosave, recovery journal of unsaved changes, clean shutdown on SIGINT/SIGTERM
+ * - Warn about changes to the save file by other programs (overwrite, reload or merge before saving)
+ * - Named task lists: create, rename, delete and switch lists, move or copy tasks between them
+ * - User preferences from the config file (startup view, date format, confirmations)
+ * - Time tracking: start/stop a timer, add time manually, time reports by day or week
+ * - Pomodoro focus sessions on a task with a live countdown, logged as tracked time
  */
 export class Menu {
     private readline = createInterface({ input, output });
     private taskManager: TaskManager;
-    private fileService: FileService;
+    private store: TaskStore;
     private isRunning = true;
-    private hasUnsavedChanges = false;
+    // TaskManager revision that matches the save file
+    private savedRevision = 0;
+    // Save file is locked by another session, saving is disabled
+    private readOnly = false;
+    // Saves automatically according to TASKS_AUTOSAVE
+    private autosave: Autosave;
+    // Startup load, awaited before the menu starts
+    private loading: Promise<void>;
+    // A signal was received, the session is ending
+    private shuttingDown = false;
+    // Another program changed the save file (shown once in the menu)
+    private externalChangeNotice = false;
+    // Stops watching the save file
+    private unwatch: (() => void) | undefined;
+    // Named task lists, `store` holds the active one
+    private lists: TaskLists;
+    private listName = DEFAULT_LIST;
+    // Config file with the user's preferences
+    private config: Config;
 
-    constructor() {
+    /**
+     * Constructor
+     * 
+     * @param store - Storage backend of the default list (default chosen by `createTaskStore`)
+     * @param lists - Named task lists
+     * @throws Error if `TASKS_AUTOSAVE` or the config file is invalid
+     */
+    constructor(store: TaskStore = createTaskStore(), lists: TaskLists = new TaskLists()) {
         this.taskManager = new TaskManager();
-        this.fileService = new FileService();
-        this.loadOnStartup();
+        this.store = store;
+        this.lists = lists;
+        this.config = loadConfig();
+        setDisplayDateFormat(this.config.preferences.dateFormat);
+        this.autosave = new Autosave(autosaveModeFromEnv(), () => this.autosaveTasks());
+        this.loading = this.loadOnStartup();
     }
 
     /** Load tasks automatically on startup from file storage. */
     private async loadOnStartup(): Promise<void> {
         try {
-            const tasks = await this.fileService.loadTasks();
+            const tasks = await this.store.loadTasks();
+
+            this.taskManager.setChanges(await this.store.loadHistory());
 
             if (tasks.length > 0) {
                 this.taskManager.setTasks(tasks);
+                // Loading the previous session is not an undoable change
+                this.taskManager.clearHistory();
+                this.savedRevision = this.taskManager.getRevision();
                 console.log(`📂 Loaded ${tasks.length} tasks from previous session`);
             }
+
+            this.store.connect?.(this.taskManager);
         } catch (e) {
             console.error("⚠️ Could not load saved tasks: ", e);
         }
     }
 
+    /**
+     * Check for changes since last save/load.
+     * Compares revisions, so undoing back to the saved state counts as unchanged.
+     */
+    private get hasUnsavedChanges(): boolean {
+        return this.taskManager.getRevision() !== this.savedRevision;
+    }
+
     /** Start interactive CLI menu loop. */
     async start(): Promise<void> {
         console.log("\n📖 Welcome to Task Manager\n");
 
+        await this.loading;
+        this.isRunning = await this.lockSaveFile();
+
+        if (this.isRunning && !this.readOnly) {
+            await this.recoverSession();
+        }
+
+        if (this.autosave.enabled) {
+            console.log(`💾 Autosave: ${describeAutosaveMode(this.autosave.mode)}\n`);
+        }
+
+        process.on("SIGINT", this.onSignal);
+        process.on("SIGTERM", this.onSignal);
+        this.watchSaveFile();
+        // Ctrl+C at a prompt reaches readline, not the process
+        this.readline.on("SIGINT", () => this.onSignal("SIGINT"));
+
+        if (this.isRunning) {
+            this.showDefaultView();
+        }
+
         while (this.isRunning) {
             await this.showMenu();
         }
 
+        // Run a pending debounced autosave first
+        if (!this.readOnly) {
+            await this.autosave.flush();
+        }
+
         // Ask to save before exiting if unsaved changes exist
-        if (this.hasUnsavedChanges) {
+        if (this.hasUnsavedChanges && this.readOnly) {
+            console.log("\n🔒 Read-only mode: unsaved changes are discarded.");
+        } else if (this.hasUnsavedChanges) {
             const save = await this.readline.question("\n💾 Unsaved changes found. Save before exit? (y/n): ");
 
             if (save.toLowerCase() === "y") {
@@ -58,14 +153,187 @@ export class Menu {
             }
         }
 
+        // Clean exit: unsaved changes were saved or deliberately discarded
+        if (!this.readOnly) {
+            await this.clearJournal();
+        }
+
+        process.off("SIGINT", this.onSignal);
+        process.off("SIGTERM", this.onSignal);
+        this.unwatch?.();
+        await this.store.unlock?.();
+
         // Close input stream when exiting
         this.readline.close();
         console.log("\n👋 Goodbye!\n");
     }
 
+    /**
+     * Lock the save file for this session.
+     * If another session holds the lock, offer read-only mode.
+     * 
+     * @returns False if the user chose to quit instead
+     */
+    private async lockSaveFile(): Promise<boolean> {
+        try {
+            await this.store.lock?.();
+            return true;
+        } catch (e) {
+            if (!(e instanceof TaskFileLockedError)) {
+                console.error("⚠️ Could not lock save file: ", e);
+                return true;
+            }
+
+            console.log(`🔒 ${e.message}.`);
+            const answer = await this.readline.question("Open tasks read-only? (y/n): ");
+
+            if (answer.toLowerCase() !== "y") {
+                return false;
+            }
+
+            this.readOnly = true;
+            console.log("\n👀 Read-only mode: changes can't be saved in this session.\n");
+            return true;
+        }
+    }
+
+    /**
+     * Offer to restore the journal of a session that ended without saving
+     * (closed terminal, killed process, crash).
+     */
+    private async recoverSession(): Promise<void> {
+        let session;
+
+        try {
+            session = await this.store.journal?.read();
+        } catch (e) {
+            console.error(`⚠️ ${e instanceof Error ? e.message : e}`);
+            return;
+        }
+
+        if (!session) return;
+
+        console.log(`🩹 The last session ended without saving (unsaved changes from ${session.writtenAt.toLocaleString()}, ${session.tasks.length} task(s)).`);
+        const answer = await this.readline.question("Restore unsaved changes? (y/n): ");
+
+        if (answer.toLowerCase() !== "y") {
+            await this.clearJournal();
+            console.log("Unsaved changes discarded.\n");
+            return;
+        }
+
+        // Restoring is one undoable step back to the saved tasks
+        this.taskManager.setTasks(session.tasks);
+        this.taskManager.setChanges(session.changes);
+        console.log(`♻️ Restored ${session.tasks.length} task(s). Save them to keep them.\n`);
+
+        await this.onTasksChanged();
+    }
+
+    /**
+     * Keep unsaved changes safe after a command changed tasks:
+     * autosave (if enabled), else record them in the recovery journal.
+     */
+    private async onTasksChanged(): Promise<void> {
+        if (this.readOnly) return;
+
+        // E.g. undone back to the saved state
+        if (!this.hasUnsavedChanges) {
+            this.autosave.cancel();
+            await this.clearJournal();
+            return;
+        }
+
+        await this.autosave.changed();
+
+        // Saved right away (autosave after every change)
+        if (!this.hasUnsavedChanges) return;
+
+        try {
+            await this.store.journal?.write(this.taskManager);
+        } catch (e) {
+            console.error(`⚠️ Could not write recovery journal: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    /** Delete the recovery journal (reporting instead of throwing errors). */
+    private async clearJournal(): Promise<void> {
+        try {
+            await this.store.journal?.clear();
+        } catch (e) {
+            console.error(`⚠️ Could not delete recovery journal: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    /**
+     * Save for autosave (errors are reported by `Autosave`).
+     * Never overwrites external changes; saving manually asks what to do.
+     */
+    private async autosaveTasks(): Promise<void> {
+        if (await this.store.hasExternalChanges?.()) {
+            throw new Error("the save file was changed by another program, save manually (S) to overwrite, reload or merge");
+        }
+
+        await this.store.saveTasks(this.taskManager);
+        this.savedRevision = this.taskManager.getRevision();
+        await this.clearJournal();
+    }
+
+    /** Watch the save file of the active list for changes by other programs. */
+    private watchSaveFile(): void {
+        this.unwatch = this.store.watchExternalChanges?.(() => {
+            this.externalChangeNotice = true;
+        });
+    }
+
+    /** Handle SIGINT/SIGTERM (bound, so it can be removed again). */
+    private onSignal = (signal: NodeJS.Signals): void => {
+        void this.shutdown(signal);
+    };
+
+    /**
+     * End the session after a signal: autosave (if enabled) or keep unsaved
+     * changes in the recovery journal, release the lock and exit.
+     */
+    private async shutdown(signal: NodeJS.Signals): Promise<void> {
+        if (this.shuttingDown) return;
+        this.shuttingDown = true;
+
+        console.log(`\n\n⚠️ ${signal} received, shutting down...`);
+
+        try {
+            if (!this.readOnly && this.hasUnsavedChanges) {
+                this.autosave.cancel();
+
+                if (this.autosave.enabled) {
+                    try {
+                        await this.autosaveTasks();
+                    } catch (e) {
+                        console.error(`⚠️ Autosave failed: ${e instanceof Error ? e.message : e}`);
+                    }
+                }
+
+                if (this.hasUnsavedChanges) {
+                    await this.store.journal?.write(this.taskManager);
+                    console.log("🩹 Unsaved changes kept in the recovery journal; they will be offered on the next start.");
+                }
+            }
+
+            this.unwatch?.();
+            await this.store.unlock?.();
+        } catch (e) {
+            console.error("❌ Error during shutdown:", e);
+        } finally {
+            this.readline.close();
+            // Conventional exit codes for termination by signal (128 + signal number)
+            process.exit(signal === "SIGTERM" ? 143 : 130);
+        }
+    }
+
     /** Display menu options and handle user choice. */
     private async showMenu(): Promise<void> {
-        const menuOptions = `=== MAIN MENU ===
+        const list = this.listName !== DEFAULT_LIST ? ` [${this.listName}]` : "";
+        const menuOptions = `=== MAIN MENU${list}${this.readOnly ? " (read-only)" : ""} ===
         1. Add task
         2. View all tasks
         3. View completed tasks
@@ -75,18 +343,39 @@ export class Menu {
         7. Remove task
         8. View statistics
         9. CLear all tasks
+        10. View due tasks
+        11. Filter tasks by tag
+        12. View tags
+        13. Manage dependencies
+        14. View ready tasks
+        15. Search tasks
+        16. View task history
+        17. Import / export tasks
+        18. Time tracking
+        19. Focus session (Pomodoro)
         -----------------
+        U. Undo
+        R. Redo
         S. Save tasks
         L. Load tasks
-        B. Backup tasks
+        B. Backups
+        T. Task lists
+        C. Settings
         0. Exit
         =================\n`;
 
         console.log(menuOptions);
 
+        if (this.externalChangeNotice) {
+            this.externalChangeNotice = false;
+            console.log("⚠️ The save file was changed by another program. Saving (S) lets you overwrite, reload or merge.\n");
+        }
+
         const choice = await this.readline.question("Choose an option: ")
         console.log("");
 
+        const revision = this.taskManager.getRevision();
+
         try {
             switch (choice) {
                 case "1":
@@ -116,6 +405,42 @@ export class Menu {
                 case "9":
                     await this.clearAllTasks();
                     break;
+                case "10":
+                    await this.viewDueTasks();
+                    break;
+                case "11":
+                    await this.viewTasksByTag();
+                    break;
+                case "12":
+                    this.viewTags();
+                    break;
+                case "13":
+                    await this.manageDependencies();
+                    break;
+                case "14":
+                    this.viewReadyTasks();
+                    break;
+                case "15":
+                    await this.searchTasks();
+                    break;
+                case "16":
+                    await this.viewTaskHistory();
+                    break;
+                case "17":
+                    await this.importExportTasks();
+                    break;
+                case "18":
+                    await this.manageTimeTracking();
+                    break;
+                case "19":
+                    await this.runFocusSession();
+                    break;
+                case "u":
+                    this.undo();
+                    break;
+                case "r":
+                    this.redo();
+                    break;
                 case "s":
                     await this.saveTasks();
                     break;
@@ -123,7 +448,13 @@ export class Menu {
                     await this.loadTasks();
                     break;
                 case "b":
-                    await this.backupTasks();
+                    await this.manageBackups();
+                    break;
+                case "t":
+                    await this.manageTaskLists();
+                    break;
+                case "c":
+                    this.viewSettings();
                     break;
                 case "0":
                     this.isRunning = false;
@@ -135,11 +466,74 @@ export class Menu {
             console.error("❌ An error occurred:", e);
         }
 
+        if (this.taskManager.getRevision() !== revision) {
+            await this.onTasksChanged();
+        }
+
         if (this.isRunning) {
             await this.pause();
         }
     }
 
+    /** Show the tasks of the `defaultView` preference (nothing for `menu`). */
+    private showDefaultView(): void {
+        switch (this.config.preferences.defaultView) {
+            case "all":
+                this.viewAllTasks();
+                break;
+            case "pending":
+                this.viewPendingTasks();
+                break;
+            case "completed":
+                this.viewCompletedTasks();
+                break;
+            case "ready":
+                this.viewReadyTasks();
+                break;
+            default:
+                return;
+        }
+
+        console.log("");
+    }
+
+    /**
+     * Ask for confirmation of a destructive action, unless the `confirm`
+     * preference is off.
+     * 
+     * @param question - Prompt, e.g. `Are you sure? (y/n): `
+     * @param answer - Answer that confirms (default `y`)
+     * @param always - Ask even if confirmations are off (e.g. unsaved changes would be lost)
+     * @returns True if confirmed
+     */
+    private async confirm(question: string, answer: string = "y", always: boolean = false): Promise<boolean> {
+        if (!this.config.preferences.confirm && !always) return true;
+
+        return (await this.readline.question(question)).toLowerCase() === answer;
+    }
+
+    /** Show the effective settings and where they come from. */
+    private viewSettings(): void {
+        console.log("\n--- Settings ---\n");
+
+        const { path, file, preferences } = this.config;
+        const source = (key: keyof typeof file) => file[key] !== undefined ? "" : " (default)";
+        const dataDirectory = resolveDataDirectory(this.config);
+
+        console.log(`Config file:    ${path}${Object.keys(file).length === 0 ? " (not found or empty, using defaults)" : ""}`);
+        console.log(`Data directory: ${dataDirectory.path} (${describeDataDirectorySource(dataDirectory.source)})`);
+        console.log(`Save file:      ${process.env["TASKS_FILE"] ?? "tasks.csv"}, list "${this.listName}"`);
+        console.log(`Default view:   ${preferences.defaultView}${source("defaultView")}`);
+        console.log(`Date format:    ${preferences.dateFormat} (${formatDisplayDate(new Date())})${source("dateFormat")}`);
+        console.log(`Confirmations:  ${preferences.confirm ? "on" : "off"}${source("confirm")}`);
+        console.log(`Focus session:  ${preferences.focusMinutes} min${source("focusMinutes")}, break ${preferences.breakMinutes} min${source("breakMinutes")}`);
+        console.log(`Autosave:       ${describeAutosaveMode(this.autosave.mode)}`);
+        console.log(`Backups:        ${describeRetentionPolicy(retentionPolicyFromEnv())}`);
+
+        console.log(`\nEdit the config file to change settings (takes effect on the next start), e.g.:`);
+        console.log(`{ "dataDir": "~/Tasks", "defaultView": "pending", "dateFormat": "iso", "confirm": false }`);
+    }
+
     /**
      * Pause execution until user presses Enter.
      * Clears console afterward.
@@ -149,6 +543,38 @@ export class Menu {
         console.clear();
     }
 
+    /**
+     * Ask how open subtasks should be handled when completing/removing their parent.
+     * 
+     * @param openCount - Number of open subtasks
+     * @param action - Action being performed on the parent
+     * @returns Chosen policy (`block` unless user picks cascade)
+     */
+    private async askSubtaskPolicy(openCount: number, action: "complete" | "remove"): Promise<SubtaskPolicy> {
+        console.log(`\n⚠️ This task has ${openCount} open subtask(s).`);
+        const choice = await this.readline.question(`(c)ascade: ${action} them too, (b)lock: cancel (c/b): `);
+
+        return choice.trim().toLowerCase() === "c" ? "cascade" : "block";
+    }
+
+    /**
+     * Parse optional parent task ID input.
+     * 
+     * @returns Parent ID, undefined if blank, or null if invalid/not found
+     */
+    private parseParentId(input: string): number | undefined | null {
+        if (input.trim() === "") return undefined;
+
+        const parentId = parseInt(input);
+
+        if (isNaN(parentId) || !this.taskManager.findTask(parentId)) {
+            console.log("\nParent task not found ❌\n");
+            return null;
+        }
+
+        return parentId;
+    }
+
     /**
      * -------------------
      * Menu Action Methods
@@ -166,8 +592,41 @@ export class Menu {
         }
 
         const description = await this.readline.question("Enter a description (optional):\n");
+        const dueInput = await this.readline.question("Enter a due date (YYYY-MM-DD, optional): ");
+        const dueAt = parseDueDate(dueInput);
+
+        if (dueInput.trim() !== "" && !dueAt) {
+            console.log("\nInvalid due date ❌\n");
+            return;
+        }
+
+        const priorityInput = await this.readline.question(`Enter a priority (${PRIORITIES.join("/")}, default normal): `);
+        const priority = priorityInput.trim().toLowerCase() || "normal";
+
+        if (!isPriority(priority)) {
+            console.log("\nInvalid priority ❌\n");
+            return;
+        }
+
+        const tags = await this.readline.question("Enter tags (e.g. #backend #ops, optional): ");
+        const parentId = this.parseParentId(await this.readline.question("Enter parent task ID (optional, for subtasks): "));
+
+        if (parentId === null) return;
+
+        const repeatInput = await this.readline.question("Repeat (daily, weekly:mon,thu, monthly:15, after:3, optional): ");
+        const recurrence = parseRecurrence(repeatInput);
 
-        const task = this.taskManager.addTask(title, description || undefined);
+        if (repeatInput.trim() !== "" && !recurrence) {
+            console.log("\nInvalid repeat rule ❌\n");
+            return;
+        }
+
+        const options: TaskOptions = { priority, tags: parseTags(tags) };
+        if (dueAt) options.dueAt = dueAt;
+        if (parentId !== undefined) options.parentId = parentId;
+        if (recurrence) options.recurrence = recurrence;
+
+        const task = this.taskManager.addTask(title, description || undefined, options);
         console.log("\n✨ Task added!\n");
         displayTask(task);
     }
@@ -175,14 +634,14 @@ export class Menu {
     /** View all tasks (display empty message if none exist). */
     private viewAllTasks(): void {
         console.log("\n--- All tasks ---\n");
-        const tasks = this.taskManager.getAllTasks();
+        const tasks = this.taskManager.getSortedTasks();
 
         if (tasks.length === 0) {
             console.log("📝 Task list is empty!");
             return;
         }
 
-        tasks.forEach(task => displayTask(task));
+        displayTaskTree(tasks);
         console.log(`\nTotal: ${tasks.length} task(s)`);
     }
 
@@ -214,179 +673,1246 @@ export class Menu {
         console.log(`\nTotal: ${tasks.length} pending task(s)`);
     }
 
-    /** Save tasks to CSV file. */
-    private async saveTasks(): Promise<void> {
-        console.log("\n--- Save tasks ---\n");
+    /** Show overdue tasks, tasks due today and tasks due within N days. */
+    private async viewDueTasks(): Promise<void> {
+        console.log("\n--- Due tasks ---\n");
+        const input = await this.readline.question("Show tasks due within how many days? (default 7): ");
+        const days = input.trim() === "" ? 7 : parseInt(input);
 
-        try {
-            await this.fileService.saveTasks(this.taskManager);
-            this.hasUnsavedChanges = false;
-        } catch (e) {
-            console.error("❌ Failed to save tasks: ", e);
+        if (isNaN(days) || days < 0) {
+            console.log("\nInvalid number of days ❌\n");
+            return;
         }
-    }
 
-    /** Load tasks from CSV file (with confirmation if unsaved changes exist). */
-    private async loadTasks(): Promise<void> {
-        console.log("\n--- Load tasks ---\n");
+        const overdue = this.taskManager.getOverdueTasks();
+        const today = this.taskManager.getTasksDueToday();
+        const upcoming = this.taskManager.getTasksDueWithin(days)
+            .filter(task => !today.includes(task));
 
-        if (this.hasUnsavedChanges) {
-            const confirm = await this.readline.question("⚠️ Loading will overwrite unsaved changes. Continue? (y/n): ");
+        const sections: [string, Task[]][] = [
+            ["⚠️ Overdue", overdue],
+            ["📅 Due today", today],
+            [`🗓 Due within ${days} day(s)`, upcoming]
+        ];
 
-            if (confirm.toLowerCase() !== "y") {
-                console.log("Load cancelled ❌");
-                return;
+        for (const [heading, tasks] of sections) {
+            console.log(`\n${heading}:`);
+
+            if (tasks.length === 0) {
+                console.log("    None");
+                continue;
             }
-        }
 
-        try {
-            const tasks = await this.fileService.loadTasks();
-            this.taskManager.setTasks(tasks);
-            this.hasUnsavedChanges = false;
-            console.log(`📂 Loaded ${tasks.length} tasks`);
-        } catch (e) {
-            console.error("❌ Failed to load tasks: ", e);
+            tasks.forEach(task => displayTask(task));
         }
     }
 
-    /** Backup current save file by creating timestamped copy. */
-    private async backupTasks(): Promise<void> {
-        console.log("\n--- Backup tasks ---\n");
+    /** Show tasks matching any (or all) of the entered tags. */
+    private async viewTasksByTag(): Promise<void> {
+        console.log("\n--- Filter tasks by tag ---\n");
+        const tags = parseTags(await this.readline.question("Enter tag(s) to filter by: "));
 
-        try {
-            await this.fileService.backup();
-        } catch (e) {
-            console.error("❌ Failed to create backup: ", e);
+        if (tags.length === 0) {
+            console.log("\nNo tags entered ❌\n");
+            return;
         }
-    }
 
-    /** Update task title.description by ID. */
-    private async updateTask(): Promise<void> {
-        console.log("\n--- Update task ---\n");
-        const tasks = this.taskManager.getAllTasks();
+        const mode = await this.readline.question("Match any or all tags? (any/all, default any): ");
+        const matchAll = mode.trim().toLowerCase() === "all";
+
+        const tasks = matchAll
+            ? this.taskManager.getTasksWithAllTags(tags)
+            : this.taskManager.getTasksWithAnyTag(tags);
+
+        const label = tags.map(tag => `#${tag}`).join(matchAll ? " and " : " or ");
+        console.log(`\nTasks tagged ${label}:\n`);
 
         if (tasks.length === 0) {
-            console.log("No available tasks to update.");
+            console.log("No matching tasks found.");
             return;
         }
 
         tasks.forEach(task => displayTask(task));
+        console.log(`\nTotal: ${tasks.length} task(s)`);
+    }
 
-        const id = await this.readline.question("Enter task ID to update: ");
-        const taskId = parseInt(id);
+    /** List all tags with number of tasks per tag. */
+    private viewTags(): void {
+        console.log("\n--- Tags ---\n");
+        const counts = this.taskManager.getTagCounts();
 
-        if (isNaN(taskId)) {
-            console.log("\nInvalid task ID ❌\n");
+        if (counts.size === 0) {
+            console.log("No tags in use.");
             return;
         }
 
-        const task = this.taskManager.findTask(taskId);
+        for (const [tag, count] of counts) {
+            console.log(`    #${tag} (${count})`);
+        }
+    }
 
-        if (!task) {
-            console.log("\nTask not found ❌\n");
+    /** Add or remove a "blocked by" dependency between two tasks. */
+    private async manageDependencies(): Promise<void> {
+        console.log("\n--- Manage dependencies ---\n");
+        const tasks = this.taskManager.getSortedTasks();
+
+        if (tasks.length < 2) {
+            console.log("At least two tasks are needed for dependencies.");
             return;
         }
 
-        console.log("\nCurrent title:");
-        displayTask(task);
-
-        console.log("\nLeave blank to keep current title/description:")
-        console.log(`Current: ${task.title} - ${task.description || "none"}`);
-        const newTitle = await this.readline.question("New title: ");
-        const newDescription = await this.readline.question("New description:\n");
+        tasks.forEach(task => displayTask(task));
 
-        const updates: { title?: string; description?: string; } = {};
+        const taskId = parseInt(await this.readline.question("Enter ID of the blocked task: "));
+        const blockerId = parseInt(await this.readline.question("Enter ID of the task it waits for: "));
 
-        if (newTitle.trim()) updates.title = newTitle;
-        if (newDescription.trim() || newDescription === "") updates.description = newDescription;
-        
-        if (Object.keys(updates).length === 0) {
-            console.log("\nNo changes made.\n");
+        if (isNaN(taskId) || isNaN(blockerId)) {
+            console.log("\nInvalid task ID ❌\n");
             return;
         }
 
-        const success = this.taskManager.updateTask(taskId, updates);
+        const action = await this.readline.question("(a)dd or (r)emove dependency? (a/r): ");
 
-        if (success) {
-            console.log("\n✨ Task updated!\n");
-            displayTask(this.taskManager.findTask(taskId)!);
-            this.hasUnsavedChanges = true;
-        } else {
-            console.log("\nFailed to update task ❌\n");
+        if (action.toLowerCase() === "r") {
+            if (this.taskManager.removeDependency(taskId, blockerId)) {
+                console.log(`\n✨ Task ${taskId} no longer waits for task ${blockerId}`);
+            } else {
+                console.log("\nDependency not found ❌\n");
+            }
+            return;
+        }
+
+        try {
+            if (this.taskManager.addDependency(taskId, blockerId)) {
+                console.log(`\n✨ Task ${taskId} is now blocked by task ${blockerId}`);
+            } else {
+                console.log("\nTask not found ❌\n");
+            }
+        } catch (e) {
+            // Self-dependency or dependency cycle
+            console.log(`\n${e instanceof Error ? e.message : "Invalid dependency"} ❌\n`);
         }
     }
 
-    /** Toggle completetion status of task by ID. */
-    private async toggleTaskCompletion(): Promise<void> {
-        console.log("\n--- Toggle task completion ---\n");
-        const tasks = this.taskManager.getAllTasks();
+    /** Show pending tasks whose blockers are all completed. */
+    private viewReadyTasks(): void {
+        console.log("\n--- Ready to work on ---\n");
+        const tasks = this.taskManager.getReadyTasks();
 
         if (tasks.length === 0) {
-            console.log("No tasks available.");
+            console.log("No tasks ready to work on.");
             return;
         }
 
         tasks.forEach(task => displayTask(task));
+        console.log(`\nTotal: ${tasks.length} ready task(s)`);
+    }
 
-        const id = await this.readline.question("Enter task ID to toggle completion: ");
-        const taskId = parseInt(id);
+    /**
+     * Search tasks with the query language of `SearchService`.
+     * Example: `deploy is:pending created>2026-09-01 "exact phrase"`
+     */
+    private async searchTasks(): Promise<void> {
+        console.log("\n--- Search tasks ---\n");
+        console.log("Words and \"phrases\" match title/description; combine with AND, OR, NOT (or -term) and ( ).");
+        console.log("Filters: is:pending|completed|overdue|blocked|ready|recurring|subtask, #tag, priority>=high,");
+        console.log("         created/updated/completed/due with : > >= < <= and a YYYY-MM-DD date\n");
 
-        if (isNaN(taskId)) {
-            console.log("\nInvalid task ID ❌\n");
+        const query = await this.readline.question("Search: ");
+
+        if (query.trim() === "") {
+            console.log("\nNo query entered ❌\n");
             return;
         }
 
-        const success = this.taskManager.toggleTaskCompletion(taskId);
+        let tasks: Task[];
 
-        if (success) {
-            const task = this.taskManager.findTask(taskId)!;
-            const status = task.completed ? "completed" : "incomplete";
-            console.log(`\n✨ Task marked as ${status}!`);
-            displayTask(task);
-            this.hasUnsavedChanges = true;
-        } else {
-            console.log("\nTask not found❌\n");
+        try {
+            tasks = new SearchService(this.taskManager).search(query);
+        } catch (e) {
+            console.log(`\n${e instanceof Error ? e.message : "Invalid query"} ❌\n`);
+            return;
         }
-    }
 
-    /** Remove task permanently by ID (with confirmation). */
-    private async removeTask(): Promise<void> {
-        console.log("\n--- Remove task ---\n");
-        const tasks = this.taskManager.getAllTasks();
+        console.log(`\nResults for: ${query.trim()}\n`);
 
         if (tasks.length === 0) {
-            console.log("No tasks to remove.");
+            console.log("No matching tasks found.");
             return;
         }
 
         tasks.forEach(task => displayTask(task));
+        console.log(`\nTotal: ${tasks.length} task(s)`);
+    }
 
-        const id = await this.readline.question("Enter task ID to remove: ");
-        const taskId = parseInt(id);
+    /** Show timeline of all recorded changes of a task (also for removed tasks). */
+    private async viewTaskHistory(): Promise<void> {
+        console.log("\n--- Task history ---\n");
+        const taskId = parseInt(await this.readline.question("Enter task ID: "));
 
         if (isNaN(taskId)) {
             console.log("\nInvalid task ID ❌\n");
             return;
         }
 
-        const task = this.taskManager.findTask(taskId);
+        const changes = this.taskManager.getTaskHistory(taskId);
 
-        if (!task) {
-            console.log("\nTask not found ❌\n");
+        if (changes.length === 0) {
+            console.log(`\nNo history recorded for task ${taskId}.`);
             return;
         }
 
-        console.log("\nTask to be removed:");
-        displayTask(task);
-
-        const confirm = await this.readline.question("\nAre you sure? (y/n): ");
+        console.log(`\nHistory of task ${taskId}:\n`);
+        displayTaskHistory(changes);
+    }
 
-        if (confirm.toLowerCase() === "y") {
-            const success = this.taskManager.removeTask(taskId);
+    /**
+     * Import tasks from or export them to a todo.txt or iCalendar file, or export
+     * a Markdown/HTML report (format by file extension).
+     * Imported tasks are unsaved changes (one undo step); existing tasks are skipped.
+     */
+    private async importExportTasks(): Promise<void> {
+        console.log("\n--- Import / export tasks ---\n");
+        console.log("Import: todo.txt (.txt), iCalendar (.ics)");
+        console.log("Export: todo.txt (.txt), iCalendar (.ics), Markdown report (.md), HTML report (.html)\n");
+
+        const action = (await this.readline.question("(i)mport or (e)xport? ")).trim().toLowerCase();
+
+        if (action !== "i" && action !== "e") {
+            console.log("\nInvalid choice ❌\n");
+            return;
+        }
+
+        const path = (await this.readline.question("File path (e.g. todo.txt): ")).trim();
+
+        if (path === "") {
+            console.log("\nNo file entered ❌\n");
+            return;
+        }
+
+        try {
+            if (action === "e") {
+                await exportTasksFile(this.taskManager, path);
+                console.log(`\n✨ Exported ${this.taskManager.getStats().total} task(s) to ${path}`);
+                return;
+            }
+
+            const { imported, duplicates } = await importTasksFile(this.taskManager, path);
+
+            console.log(`\n✨ Imported ${imported.length} task(s), skipped ${duplicates.length} duplicate(s)\n`);
+            imported.forEach(task => displayTask(task));
+            duplicates.forEach(title => console.log(`    = ${title} (already exists)`));
+        } catch (e) {
+            console.error(`❌ Failed to ${action === "e" ? "export" : "import"} tasks: `, e);
+        }
+    }
+
+    /**
+     * Time tracking submenu: show the running timer, then start or stop
+     * a timer, add time manually or show a time report.
+     */
+    private async manageTimeTracking(): Promise<void> {
+        console.log("\n--- Time tracking ---\n");
+
+        const running = this.taskManager.getRunningTimer();
+
+        if (running) {
+            const elapsed = formatDuration(Date.now() - running.timeEntries.find(entry => !entry.end)!.start.getTime());
+            console.log(`⏱️ Timer running on [ID: ${running.id}] ${running.title} for ${elapsed}`);
+        } else {
+            console.log("No timer running.");
+        }
+
+        const options = `
+        S. Start timer
+        X. Stop timer
+        A. Add time manually
+        R. Time report
+        0. Back\n`;
+
+        console.log(options);
+
+        switch ((await this.readline.question("Choose an option: ")).toLowerCase()) {
+            case "s":
+                await this.startTimer();
+                break;
+            case "x": {
+                const task = this.taskManager.stopTimer();
+                console.log(task ? `\n⏹️ Timer stopped, tracked ${formatDuration(task.getTrackedTime())} on "${task.title}" in total` : "\nNo timer running ❌\n");
+                break;
+            }
+            case "a":
+                await this.addTimeEntry();
+                break;
+            case "r":
+                await this.viewTimeReport();
+                break;
+        }
+    }
+
+    /** Start a timer on a pending task (stops a timer running on another task). */
+    private async startTimer(): Promise<void> {
+        const tasks = this.taskManager.getPendingTasks();
+
+        if (tasks.length === 0) {
+            console.log("No pending tasks.");
+            return;
+        }
+
+        tasks.forEach(task => displayTask(task));
+
+        const taskId = parseInt(await this.readline.question("Enter task ID to start the timer on: "));
+        const previous = this.taskManager.getRunningTimer();
+
+        if (isNaN(taskId)) {
+            console.log("\nInvalid task ID ❌\n");
+        } else if (previous?.id === taskId) {
+            console.log("\nThe timer is already running on this task.");
+        } else if (this.taskManager.startTimer(taskId)) {
+            if (previous) console.log(`\n⏹️ Stopped timer on [ID: ${previous.id}] ${previous.title}`);
+            console.log(`\n⏱️ Timer started on [ID: ${taskId}] ${this.taskManager.findTask(taskId)!.title}`);
+        } else {
+            console.log("\nTask not found ❌\n");
+        }
+    }
+
+    /**
+     * Add time spent on a task without a timer.
+     * Time added for today ends now, time added for other days starts at 09:00.
+     */
+    private async addTimeEntry(): Promise<void> {
+        const taskId = parseInt(await this.readline.question("Enter task ID: "));
+        const task = isNaN(taskId) ? undefined : this.taskManager.findTask(taskId);
+
+        if (!task) {
+            console.log("\nTask not found ❌\n");
+            return;
+        }
+
+        const duration = parseDuration(await this.readline.question("Time spent (e.g. 1h30m, 45m, 1:15): "));
+
+        if (duration === undefined) {
+            console.log("\nInvalid duration ❌\n");
+            return;
+        }
+
+        const dateInput = (await this.readline.question("Date (YYYY-MM-DD, leave blank for today): ")).trim();
+        const day = dateInput === "" ? startOfDay(new Date()) : parseCalendarDate(dateInput);
+
+        if (!day) {
+            console.log("\nInvalid date ❌\n");
+            return;
+        }
+
+        const isToday = day.getTime() === startOfDay(new Date()).getTime();
+        const start = isToday ? new Date(Date.now() - duration) : new Date(day.getTime() + 9 * 3_600_000);
+
+        this.taskManager.addTimeEntry(taskId, start, new Date(start.getTime() + duration));
+        console.log(`\n✨ Added ${formatDuration(duration)} to "${task.title}" (total ${formatDuration(task.getTrackedTime())})`);
+    }
+
+    /** Show tracked time by day or week for a date range (default: this week or the last 4 weeks). */
+    private async viewTimeReport(): Promise<void> {
+        const groupInput = (await this.readline.question("Group by (d)ay or (w)eek? (default d): ")).trim().toLowerCase();
+        const groupBy: TimeReportGrouping = groupInput === "w" ? "week" : "day";
+        const today = startOfDay(new Date());
+        const defaultFrom = groupBy === "week" ? addDays(startOfWeek(today), -21) : startOfWeek(today);
+
+        const fromInput = (await this.readline.question(`From (YYYY-MM-DD, default ${formatDisplayDate(defaultFrom)}): `)).trim();
+        const toInput = (await this.readline.question(`To (YYYY-MM-DD, default ${formatDisplayDate(today)}): `)).trim();
+        const from = fromInput === "" ? defaultFrom : parseCalendarDate(fromInput);
+        const to = toInput === "" ? today : parseCalendarDate(toInput);
+
+        if (!from || !to || to < from) {
+            console.log("\nInvalid date range ❌\n");
+            return;
+        }
+
+        console.log("");
+        displayTimeReport(createTimeReport(this.taskManager.getAllTasks(), from, to, groupBy));
+    }
+
+    /**
+     * Pomodoro focus sessions on a pending task: focus and break countdowns
+     * (lengths from the preferences) with a bell at each transition, repeated
+     * until the user stops. Completed sessions are logged as tracked time;
+     * a session stopped early (Enter) only tracks the time spent.
+     * Afterwards, offers to mark the task done.
+     */
+    private async runFocusSession(): Promise<void> {
+        console.log("\n--- Focus session ---\n");
+        const tasks = this.taskManager.getPendingTasks();
+
+        if (tasks.length === 0) {
+            console.log("No pending tasks.");
+            return;
+        }
+
+        tasks.forEach(task => displayTask(task));
+
+        const taskId = parseInt(await this.readline.question("Enter task ID to focus on: "));
+        const task = isNaN(taskId) ? undefined : this.taskManager.findTask(taskId);
+
+        if (!task || task.completed) {
+            console.log("\nPending task not found ❌\n");
+            return;
+        }
+
+        // Focus sessions track the time themselves, so a running timer would count it twice
+        const running = this.taskManager.stopTimer();
+        if (running) console.log(`\n⏹️ Stopped timer on [ID: ${running.id}] ${running.title}`);
+
+        const { focusMinutes, breakMinutes } = this.config.preferences;
+        let sessions = 0;
+
+        while (true) {
+            console.log(`\n${BELL}🍅 Focus on "${task.title}" for ${focusMinutes} min (press Enter to stop early)`);
+
+            const start = new Date();
+
+            if (!(await this.runCountdown("🍅 Focus", focusMinutes * 60_000))) {
+                const end = new Date();
+
+                if (end.getTime() - start.getTime() >= 60_000) {
+                    this.taskManager.addTimeEntry(taskId, start, end);
+                    console.log(`⏹️ Stopped early, tracked ${formatDuration(end.getTime() - start.getTime())} (not counted as a focus session)`);
+                } else {
+                    console.log("⏹️ Stopped early.");
+                }
+
+                break;
+            }
+
+            this.taskManager.logFocusSession(taskId, start, new Date());
+            sessions++;
+
+            console.log(`\n${BELL}✅ Focus session ${sessions} done! Take a ${breakMinutes} min break (press Enter to skip)`);
+            await this.runCountdown("☕ Break", breakMinutes * 60_000);
+
+            console.log(`\n${BELL}🔔 Break over.`);
+
+            if ((await this.readline.question("Start another focus session? (y/n): ")).toLowerCase() !== "y") break;
+        }
+
+        console.log(`\n✨ Completed ${sessions} focus session(s) on "${task.title}" (tracked ${formatDuration(task.getTrackedTime())} in total)`);
+
+        if ((await this.readline.question(`Mark "${task.title}" as done? (y/n): `)).toLowerCase() !== "y") return;
+
+        const openSubtasks = this.taskManager.getOpenSubtasks(taskId);
+        const policy = openSubtasks.length > 0 ? await this.askSubtaskPolicy(openSubtasks.length, "complete") : "block";
+
+        if (this.taskManager.toggleTaskCompletion(taskId, policy)) {
+            console.log("\n✨ Task marked as completed!");
+            displayOpenBlockers(taskId, this.taskManager.getLastOpenBlockers());
+            this.taskManager.getLastCreatedOccurrences().forEach(displayNextOccurrence);
+        } else {
+            console.log("\nCompletion blocked: finish subtasks first.");
+        }
+    }
+
+    /**
+     * Show a live countdown (on terminals) that Enter stops early.
+     * 
+     * @param label - Shown before the remaining time, e.g. `🍅 Focus`
+     * @param duration - Milliseconds to count down
+     * @returns True if the countdown ran out, false if stopped
+     */
+    private async runCountdown(label: string, duration: number): Promise<boolean> {
+        const question = new AbortController();
+        const stop = new AbortController();
+
+        // Any input line stops the countdown; the pending question is dropped once it ends
+        this.readline.question("", { signal: question.signal }).then(() => stop.abort(), () => {});
+
+        const finished = await countdown(duration, remaining => {
+            if (output.isTTY) output.write(`\r${label} ${formatCountdown(remaining)} `);
+        }, stop.signal);
+
+        question.abort();
+        if (output.isTTY) output.write("\n");
+
+        return finished;
+    }
+
+    /** Undo the most recent task change and report what was undone. */
+    private undo(): void {
+        const description = this.taskManager.undo();
+
+        if (!description) {
+            console.log("Nothing to undo.");
+            return;
+        }
+
+        console.log(`↩️ Undone: ${description}`);
+    }
+
+    /** Redo the most recently undone task change. */
+    private redo(): void {
+        const description = this.taskManager.redo();
+
+        if (!description) {
+            console.log("Nothing to redo.");
+            return;
+        }
+
+        console.log(`↪️ Redone: ${description}`);
+    }
+
+    /** Save tasks to the save file. */
+    private async saveTasks(): Promise<void> {
+        console.log("\n--- Save tasks ---\n");
+
+        if (this.readOnly) {
+            console.log("🔒 Read-only mode: tasks are open in another session. Changes can't be saved.");
+            return;
+        }
+
+        try {
+            if (!(await this.resolveExternalChanges())) return;
+
+            await this.store.saveTasks(this.taskManager);
+            this.savedRevision = this.taskManager.getRevision();
+            this.autosave.cancel();
+            await this.clearJournal();
+        } catch (e) {
+            console.error("❌ Failed to save tasks: ", e);
+        }
+    }
+
+    /**
+     * Before saving: if another program changed the save file since it was
+     * loaded/saved, ask whether to overwrite, reload or merge its changes.
+     * 
+     * @returns True if saving should go ahead (overwrite, or merged)
+     */
+    private async resolveExternalChanges(): Promise<boolean> {
+        if (!(await this.store.hasExternalChanges?.())) return true;
+
+        this.externalChangeNotice = false;
+        console.log("⚠️ The save file was changed by another program since it was loaded.");
+        const answer = await this.readline.question(
+            "(o)verwrite their changes, (r)eload the file and drop yours, (m)erge both, or (c)ancel? "
+        );
+
+        switch (answer.toLowerCase()) {
+            case "o":
+                return true;
+            case "r":
+                await this.reloadTasks();
+                return false;
+            case "m":
+                await this.mergeExternalChanges();
+                return true;
+            default:
+                console.log("Save cancelled ❌");
+                return false;
+        }
+    }
+
+    /**
+     * Merge tasks of the changed save file into the current tasks
+     * (three-way, based on the tasks as last loaded/saved, see `mergeTasks`).
+     * Fields changed on both sides are resolved by the user.
+     * The merge is one undoable step; the change history of the file is kept as well.
+     */
+    private async mergeExternalChanges(): Promise<void> {
+        // Before loading, which makes the changed file the new base
+        const base = this.store.getBaseTasks?.() ?? [];
+        const remote = await this.store.loadTasks();
+        const histories = { local: this.taskManager.getChanges(), remote: await this.store.loadHistory() };
+        const { tasks, conflicts, renumbered } = mergeTasks(base, this.taskManager.getAllTasks(), remote, histories);
+
+        await this.resolveMergeConflicts(conflicts);
+
+        this.taskManager.setTasks(tasks);
+        this.taskManager.setChanges(mergeHistories(histories.local, histories.remote));
+        console.log(`\n🔀 Merged external changes (${tasks.length} task(s))`);
+
+        for (const { from, to } of renumbered) {
+            console.log(`    Your new task #${from} is now #${to}`);
+        }
+    }
+
+    /**
+     * Show each merge conflict and ask which value to keep
+     * (Enter keeps the value that was changed more recently).
+     */
+    private async resolveMergeConflicts(conflicts: MergeConflict[]): Promise<void> {
+        if (conflicts.length === 0) return;
+
+        console.log(`\n${conflicts.length} field(s) were changed both here and in the file:`);
+
+        for (const conflict of conflicts) {
+            console.log("");
+            displayMergeConflict(conflict, { local: "(Y)ours", remote: "(F)ile" });
+
+            const answer = await this.readline.question("Keep (y)ours or the (f)ile's value? (Enter: keep marked): ");
+
+            switch (answer.toLowerCase()) {
+                case "y":
+                    resolveConflict(conflict, "local");
+                    break;
+                case "f":
+                    resolveConflict(conflict, "remote");
+                    break;
+            }
+        }
+    }
+
+    /** Load tasks from the save file (with confirmation if unsaved changes exist). */
+    private async loadTasks(): Promise<void> {
+        console.log("\n--- Load tasks ---\n");
+
+        if (this.hasUnsavedChanges) {
+            const confirm = await this.readline.question("⚠️ Loading will overwrite unsaved changes. Continue? (y/n): ");
+
+            if (confirm.toLowerCase() !== "y") {
+                console.log("Load cancelled ❌");
+                return;
+            }
+        }
+
+        await this.reloadTasks();
+    }
+
+    /** Replace current tasks with the save file (reporting instead of throwing errors). */
+    private async reloadTasks(): Promise<void> {
+        try {
+            const tasks = await this.store.loadTasks();
+            this.taskManager.setTasks(tasks);
+            this.taskManager.setChanges(await this.store.loadHistory());
+            this.store.connect?.(this.taskManager);
+            this.savedRevision = this.taskManager.getRevision();
+            console.log(`📂 Loaded ${tasks.length} tasks`);
+        } catch (e) {
+            console.error("❌ Failed to load tasks: ", e);
+        }
+    }
+
+    /** Backups submenu: list backups, then create, preview, diff, restore or prune. */
+    private async manageBackups(): Promise<void> {
+        console.log("\n--- Backups ---\n");
+
+        const backups = await this.store.listBackups();
+        displayBackups(backups);
+
+        const options = `
+        C. Create backup
+        V. Preview backup
+        D. Diff backup with current tasks
+        R. Restore backup
+        P. Prune old backups (${describeRetentionPolicy(retentionPolicyFromEnv())})
+        0. Back\n`;
+
+        console.log(options);
+
+        switch ((await this.readline.question("Choose an option: ")).toLowerCase()) {
+            case "c":
+                try {
+                    await this.store.backup();
+                } catch (e) {
+                    console.error("❌ Failed to create backup: ", e);
+                }
+                break;
+            case "v":
+                await this.previewBackup(backups);
+                break;
+            case "d":
+                await this.diffBackup(backups);
+                break;
+            case "r":
+                await this.restoreBackup(backups);
+                break;
+            case "p": {
+                const pruned = await this.store.pruneBackups();
+                console.log(`\n🧹 Removed ${pruned.length} old backup(s)`);
+                break;
+            }
+        }
+    }
+
+    /**
+     * Ask for a backup by its number in the list.
+     * 
+     * @returns Chosen backup (undefined if none or invalid)
+     */
+    private async chooseBackup(backups: BackupInfo[]): Promise<BackupInfo | undefined> {
+        if (backups.length === 0) {
+            console.log("No backups yet.");
+            return undefined;
+        }
+
+        const backup = backups[parseInt(await this.readline.question("Backup number: ")) - 1];
+
+        if (!backup) {
+            console.log("\nInvalid backup number ❌\n");
+        }
+
+        return backup;
+    }
+
+    /** Show the tasks of a backup. */
+    private async previewBackup(backups: BackupInfo[]): Promise<void> {
+        const backup = await this.chooseBackup(backups);
+        if (!backup) return;
+
+        const tasks = await this.store.loadBackup(backup.name);
+
+        console.log(`\n--- Backup from ${backup.createdAt.toLocaleString()} ---\n`);
+        displayTaskTree(tasks);
+        console.log(`\nTotal: ${tasks.length} task(s)`);
+    }
+
+    /** Show changes of the current tasks since a backup. */
+    private async diffBackup(backups: BackupInfo[]): Promise<void> {
+        const backup = await this.chooseBackup(backups);
+        if (!backup) return;
+
+        const tasks = await this.store.loadBackup(backup.name);
+
+        console.log(`\n--- Changes since backup from ${backup.createdAt.toLocaleString()} ---\n`);
+        displayTaskDiff(diffTasks(tasks, this.taskManager.getAllTasks()));
+    }
+
+    /**
+     * Replace current tasks with a backup and save.
+     * Backs up the current save file first (restore can also be undone).
+     */
+    private async restoreBackup(backups: BackupInfo[]): Promise<void> {
+        if (this.readOnly) {
+            console.log("🔒 Read-only mode: tasks are open in another session. Backups can't be restored.");
+            return;
+        }
+
+        const backup = await this.chooseBackup(backups);
+        if (!backup) return;
+
+        const tasks = await this.store.loadBackup(backup.name);
+        const warning = this.hasUnsavedChanges ? " Unsaved changes will be lost." : "";
+        const confirmed = await this.confirm(
+            `⚠️ Restore ${tasks.length} task(s) from ${backup.createdAt.toLocaleString()}?${warning} (y/n): `,
+            "y",
+            this.hasUnsavedChanges
+        );
+
+        if (!confirmed) {
+            console.log("Restore cancelled ❌");
+            return;
+        }
+
+        try {
+            // Safety backup of the current save file before it is replaced
+            await this.store.backup();
+
+            this.taskManager.setTasks(tasks);
+            await this.store.saveTasks(this.taskManager);
+            this.savedRevision = this.taskManager.getRevision();
+
+            console.log(`\n♻️ Restored ${tasks.length} task(s) from ${backup.name}`);
+        } catch (e) {
+            console.error("❌ Failed to restore backup: ", e);
+        }
+    }
+
+    /**
+     * Task lists submenu: list all lists (active one marked), then create,
+     * switch, rename or delete a list, or move/copy tasks to another list.
+     */
+    private async manageTaskLists(): Promise<void> {
+        console.log("\n--- Task lists ---\n");
+
+        const names = await this.lists.names();
+        names.forEach((name, index) => console.log(`${index + 1}. ${name}${name === this.listName ? " (active)" : ""}`));
+
+        const options = `
+        N. New list
+        S. Switch list
+        R. Rename list
+        D. Delete list
+        M. Move tasks to another list
+        C. Copy tasks to another list
+        0. Back\n`;
+
+        console.log(options);
+
+        try {
+            switch ((await this.readline.question("Choose an option: ")).toLowerCase()) {
+                case "n":
+                    await this.createList();
+                    break;
+                case "s": {
+                    const name = await this.chooseList(names);
+                    if (name) await this.switchList(name);
+                    break;
+                }
+                case "r":
+                    await this.renameList(names);
+                    break;
+                case "d":
+                    await this.deleteList(names);
+                    break;
+                case "m":
+                    await this.transferTasks(names, "move");
+                    break;
+                case "c":
+                    await this.transferTasks(names, "copy");
+                    break;
+            }
+        } catch (e) {
+            const message = e instanceof Error ? e.message : e;
+            console.error(e instanceof TaskFileLockedError ? `\n🔒 ${message}.` : `\n❌ ${message}`);
+        }
+    }
+
+    /**
+     * Ask for a list by its number or name.
+     * 
+     * @returns Chosen list (undefined if unknown)
+     */
+    private async chooseList(names: string[], prompt: string = "List number or name: "): Promise<string | undefined> {
+        const answer = (await this.readline.question(prompt)).trim();
+        const name = names.includes(answer) ? answer : names[parseInt(answer) - 1];
+
+        if (!name) {
+            console.log("\nUnknown task list ❌\n");
+        }
+
+        return name;
+    }
+
+    /** Create a new list, optionally switching to it. */
+    private async createList(): Promise<void> {
+        const name = (await this.readline.question("New list name: ")).trim();
+
+        await this.lists.create(name);
+        console.log(`\n✨ Created list "${name}"`);
+
+        const answer = await this.readline.question("Switch to it now? (y/n): ");
+
+        if (answer.toLowerCase() === "y") {
+            await this.switchList(name);
+        }
+    }
+
+    /**
+     * Make another list the active one: load its tasks (and offer to
+     * restore unsaved changes of an unclean shutdown).
+     * Unsaved changes of the current list are saved or discarded first.
+     */
+    private async switchList(name: string): Promise<void> {
+        if (name === this.listName) {
+            console.log(`\nList "${name}" is already active.`);
+            return;
+        }
+
+        if (!(await this.confirmLeavingList())) return;
+
+        const store = this.lists.open(name);
+        let tasks: Task[];
+        let changes: TaskChange[];
+
+        try {
+            await store.lock?.();
+            tasks = await store.loadTasks();
+            changes = await store.loadHistory();
+        } catch (e) {
+            await store.unlock?.();
+            store.close?.();
+            throw e;
+        }
+
+        // Discarded changes of the list left behind are not recovered later
+        if (!this.readOnly) {
+            this.autosave.cancel();
+            await this.clearJournal();
+        }
+
+        this.unwatch?.();
+        await this.store.unlock?.();
+        this.store.close?.();
+
+        this.store = store;
+        this.listName = name;
+        this.readOnly = false;
+        this.externalChangeNotice = false;
+
+        this.taskManager.setQueryBackend(undefined);
+        this.taskManager.setTasks(tasks);
+        this.taskManager.setChanges(changes);
+        // Switching is not an undoable change
+        this.taskManager.clearHistory();
+        this.savedRevision = this.taskManager.getRevision();
+        this.store.connect?.(this.taskManager);
+        this.watchSaveFile();
+
+        console.log(`\n📋 Switched to list "${name}" (${tasks.length} task(s))\n`);
+        await this.recoverSession();
+    }
+
+    /**
+     * Before leaving the active list: ask whether to save or discard unsaved changes.
+     * 
+     * @returns False if the user cancelled (or saving failed)
+     */
+    private async confirmLeavingList(): Promise<boolean> {
+        if (!this.readOnly) {
+            await this.autosave.flush();
+        }
+
+        if (!this.hasUnsavedChanges) return true;
+
+        if (this.readOnly) {
+            const confirm = await this.readline.question("⚠️ Read-only mode: unsaved changes will be lost. Continue? (y/n): ");
+            return confirm.toLowerCase() === "y";
+        }
+
+        const answer = await this.readline.question(
+            `💾 Unsaved changes in list "${this.listName}". (s)ave, (d)iscard or (c)ancel? `
+        );
+
+        switch (answer.toLowerCase()) {
+            case "s":
+                await this.saveTasks();
+                return !this.hasUnsavedChanges;
+            case "d":
+                return true;
+            default:
+                console.log("Switch cancelled ❌");
+                return false;
+        }
+    }
+
+    /** Rename a list (the active list stays active under its new name). */
+    private async renameList(names: string[]): Promise<void> {
+        const name = await this.chooseList(names);
+        if (!name) return;
+
+        const newName = (await this.readline.question("New name: ")).trim();
+        const active = name === this.listName;
+
+        if (active) this.unwatch?.();
+
+        try {
+            await this.lists.rename(name, newName, active ? this.store : undefined);
+        } catch (e) {
+            if (active) this.watchSaveFile();
+            throw e;
+        }
+
+        console.log(`\n✏️ Renamed list "${name}" to "${newName}"`);
+
+        if (!active) return;
+
+        // Same files in a new folder, the new store takes over the lock that moved along
+        await this.store.unlock?.();
+        this.store.close?.();
+        this.store = this.lists.open(newName);
+        this.listName = newName;
+        await this.store.lock?.();
+        // Read the save file again, so changes by other programs stay detectable
+        await this.store.loadTasks();
+        this.taskManager.setQueryBackend(undefined);
+
+        if (!this.hasUnsavedChanges) {
+            this.store.connect?.(this.taskManager);
+        }
+
+        this.watchSaveFile();
+    }
+
+    /** Delete a list with its history and backups (after confirmation). */
+    private async deleteList(names: string[]): Promise<void> {
+        const name = await this.chooseList(names);
+        if (!name) return;
+
+        if (name === this.listName) {
+            console.log("\nSwitch to another list before deleting this one ❌");
+            return;
+        }
+
+        const confirmed = await this.confirm(`⚠️ Delete list "${name}" with all its tasks, history and backups? (y/n): `);
+
+        if (!confirmed) {
+            console.log("Delete cancelled ❌");
+            return;
+        }
+
+        await this.lists.delete(name);
+        console.log(`\n🗑 Deleted list "${name}"`);
+    }
+
+    /**
+     * Copy or move tasks (with their subtasks) to another list.
+     * Copies get new IDs in the target list. Moved tasks are removed from
+     * the active list as one undoable change, which is then saved.
+     */
+    private async transferTasks(names: string[], action: "move" | "copy"): Promise<void> {
+        if (action === "move" && this.readOnly) {
+            console.log("🔒 Read-only mode: tasks are open in another session. Tasks can't be moved out of this list.");
+            return;
+        }
+
+        const targets = names.filter(name => name !== this.listName);
+
+        if (targets.length === 0) {
+            console.log("No other lists yet. Create one first (N).");
+            return;
+        }
+
+        const input = await this.readline.question("Task IDs (comma-separated): ");
+        const ids = [...new Set(input.split(",").map(id => parseInt(id)).filter(id => !isNaN(id)))];
+        const missing = ids.filter(id => !this.taskManager.findTask(id));
+
+        if (ids.length === 0 || missing.length > 0) {
+            console.log(`\nTask${missing.length > 0 ? ` #${missing.join(", #")}` : "s"} not found ❌\n`);
+            return;
+        }
+
+        targets.forEach((name, index) => console.log(`${index + 1}. ${name}`));
+        const target = await this.chooseList(targets, "Target list number or name: ");
+        if (!target) return;
+
+        // Subtasks go along with their parent
+        const selected = new Set(ids.flatMap(id => [id, ...this.taskManager.getDescendants(id).map(task => task.id)]));
+        const tasks = this.taskManager.getAllTasks().filter(task => selected.has(task.id));
+        const copies = await this.lists.copyTasks(tasks, target);
+
+        console.log(`\n✨ ${action === "move" ? "Moved" : "Copied"} ${copies.length} task(s) to list "${target}"`);
+        tasks.forEach((task, index) => console.log(`    #${task.id} → #${copies[index]?.id} ${task.title}`));
+
+        if (action === "copy") return;
+
+        this.taskManager.removeTasks(ids, `Move ${tasks.length} task(s) to list "${target}"`);
+        await this.saveTasks();
+
+        if (this.hasUnsavedChanges) {
+            console.log(`\n⚠️ The tasks are still in this list too. Save (S) to complete the move.`);
+        }
+    }
+
+    /** Update task title.description by ID. */
+    private async updateTask(): Promise<void> {
+        console.log("\n--- Update task ---\n");
+        const tasks = this.taskManager.getSortedTasks();
+
+        if (tasks.length === 0) {
+            console.log("No available tasks to update.");
+            return;
+        }
+
+        tasks.forEach(task => displayTask(task));
+
+        const id = await this.readline.question("Enter task ID to update: ");
+        const taskId = parseInt(id);
+
+        if (isNaN(taskId)) {
+            console.log("\nInvalid task ID ❌\n");
+            return;
+        }
+
+        const task = this.taskManager.findTask(taskId);
+
+        if (!task) {
+            console.log("\nTask not found ❌\n");
+            return;
+        }
+
+        console.log("\nCurrent title:");
+        displayTask(task);
+
+        console.log("\nLeave blank to keep current title/description:")
+        console.log(`Current: ${task.title} - ${task.description || "none"}`);
+        const newTitle = await this.readline.question("New title: ");
+        const newDescription = await this.readline.question("New description:\n");
+        const newDueDate = await this.readline.question("New due date (YYYY-MM-DD, '-' to clear): ");
+
+        const updates: TaskUpdates = {};
+
+        if (newTitle.trim()) updates.title = newTitle;
+        if (newDescription.trim() || newDescription === "") updates.description = newDescription;
+
+        if (newDueDate.trim() === "-") {
+            updates.dueAt = null;
+        } else if (newDueDate.trim() !== "") {
+            const dueAt = parseDueDate(newDueDate);
+
+            if (!dueAt) {
+                console.log("\nInvalid due date ❌\n");
+                return;
+            }
+
+            updates.dueAt = dueAt;
+        }
+
+        const newPriority = await this.readline.question(`New priority (${PRIORITIES.join("/")}): `);
+
+        if (newPriority.trim() !== "") {
+            const priority = newPriority.trim().toLowerCase();
+
+            if (!isPriority(priority)) {
+                console.log("\nInvalid priority ❌\n");
+                return;
+            }
+
+            updates.priority = priority;
+        }
+
+        const newTags = await this.readline.question("New tags (replaces current, '-' to clear): ");
+
+        if (newTags.trim() === "-") {
+            updates.tags = [];
+        } else if (newTags.trim() !== "") {
+            updates.tags = parseTags(newTags);
+        }
+
+        const newParent = await this.readline.question("New parent task ID ('-' to make top-level): ");
+
+        if (newParent.trim() === "-") {
+            updates.parentId = null;
+        } else {
+            const parentId = this.parseParentId(newParent);
+
+            if (parentId === null) return;
+            if (parentId !== undefined) updates.parentId = parentId;
+        }
+
+        const newRepeat = await this.readline.question("New repeat rule ('-' to stop repeating): ");
+
+        if (newRepeat.trim() === "-") {
+            updates.recurrence = null;
+        } else if (newRepeat.trim() !== "") {
+            const recurrence = parseRecurrence(newRepeat);
+
+            if (!recurrence) {
+                console.log("\nInvalid repeat rule ❌\n");
+                return;
+            }
+
+            updates.recurrence = recurrence;
+        }
+        
+        if (Object.keys(updates).length === 0) {
+            console.log("\nNo changes made.\n");
+            return;
+        }
+
+        let success: boolean;
+
+        try {
+            success = this.taskManager.updateTask(taskId, updates);
+        } catch (e) {
+            // Invalid parent (e.g. task made a subtask of its own subtask)
+            console.log(`\n${e instanceof Error ? e.message : "Invalid update"} ❌\n`);
+            return;
+        }
+
+        if (success) {
+            console.log("\n✨ Task updated!\n");
+            displayTask(this.taskManager.findTask(taskId)!);
+        } else {
+            console.log("\nFailed to update task ❌\n");
+        }
+    }
+
+    /** Toggle completetion status of task by ID. */
+    private async toggleTaskCompletion(): Promise<void> {
+        console.log("\n--- Toggle task completion ---\n");
+        const tasks = this.taskManager.getSortedTasks();
+
+        if (tasks.length === 0) {
+            console.log("No tasks available.");
+            return;
+        }
+
+        tasks.forEach(task => displayTask(task));
+
+        const id = await this.readline.question("Enter task ID to toggle completion: ");
+        const taskId = parseInt(id);
+
+        if (isNaN(taskId)) {
+            console.log("\nInvalid task ID ❌\n");
+            return;
+        }
+
+        // Completing a parent with open subtasks: cascade or block
+        const target = this.taskManager.findTask(taskId);
+        const openSubtasks = target && !target.completed ? this.taskManager.getOpenSubtasks(taskId) : [];
+        let policy: SubtaskPolicy = "block";
+
+        if (openSubtasks.length > 0) {
+            policy = await this.askSubtaskPolicy(openSubtasks.length, "complete");
+
+            if (policy === "block") {
+                console.log("\nCompletion blocked: finish subtasks first.");
+                return;
+            }
+        }
+
+        const success = this.taskManager.toggleTaskCompletion(taskId, policy);
+
+        if (success) {
+            const task = this.taskManager.findTask(taskId)!;
+            const status = task.completed ? "completed" : "incomplete";
+            console.log(`\n✨ Task marked as ${status}!`);
+            displayOpenBlockers(taskId, this.taskManager.getLastOpenBlockers());
+            displayTask(task);
+            this.taskManager.getLastCreatedOccurrences().forEach(displayNextOccurrence);
+        } else {
+            console.log("\nTask not found❌\n");
+        }
+    }
+
+    /** Remove task permanently by ID (with confirmation). */
+    private async removeTask(): Promise<void> {
+        console.log("\n--- Remove task ---\n");
+        const tasks = this.taskManager.getSortedTasks();
+
+        if (tasks.length === 0) {
+            console.log("No tasks to remove.");
+            return;
+        }
+
+        tasks.forEach(task => displayTask(task));
+
+        const id = await this.readline.question("Enter task ID to remove: ");
+        const taskId = parseInt(id);
+
+        if (isNaN(taskId)) {
+            console.log("\nInvalid task ID ❌\n");
+            return;
+        }
+
+        const task = this.taskManager.findTask(taskId);
+
+        if (!task) {
+            console.log("\nTask not found ❌\n");
+            return;
+        }
+
+        console.log("\nTask to be removed:");
+        displayTask(task);
+
+        // Removing a parent with open subtasks: cascade or block
+        const subtaskCount = this.taskManager.getDescendants(taskId).length;
+        const openSubtasks = this.taskManager.getOpenSubtasks(taskId);
+        let policy: SubtaskPolicy = "block";
+
+        if (openSubtasks.length > 0) {
+            policy = await this.askSubtaskPolicy(openSubtasks.length, "remove");
+
+            if (policy === "block") {
+                console.log("\nRemoval blocked: finish or remove subtasks first.");
+                return;
+            }
+        } else if (subtaskCount > 0) {
+            console.log(`\n${subtaskCount} completed subtask(s) will be removed too.`);
+        }
+
+        if (await this.confirm("\nAre you sure? (y/n): ")) {
+            const success = this.taskManager.removeTask(taskId, policy);
 
             if (success) {
                 console.log("\n🗑 Task removed!");
-                this.hasUnsavedChanges = true;
             }
         } else {
             console.log("\nRemoval cancelled.");
@@ -397,7 +1923,7 @@ export class Menu {
     private viewStats(): void {
         console.log("\n--- Task statistics ---\n");
         const stats = this.taskManager.getStats();
-        displayStats(stats);
+        displayStats(stats, getFocusStats(this.taskManager.getAllTasks()));
     }
 
     /** Clear all tasks (with double confirmation). */
@@ -411,12 +1937,9 @@ export class Menu {
         }
 
         console.log(`\n⚠️ This will remove ALL (${stats.total}) tasks! ⚠️`);
-        const confirm = await this.readline.question(`Type "yes" to confirm: `);
-
-        if (confirm.toLowerCase() === "yes") {
+        if (await this.confirm(`Type "yes" to confirm: `, "yes")) {
             this.taskManager.clearAllTasks();
             console.log("\nAll tasks cleared! 🧹");
-            this.hasUnsavedChanges = true;
         } else {
             console.log("\nClear all tasks cancelled.");
         }